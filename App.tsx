@@ -1,23 +1,31 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import type { Prize, GeneratedCard, User, GameMode, Reaction } from './types';
-import { generateBingoCard } from './services/geminiService';
-import { gameStateService } from './services/gameState';
+import type { AwardedPrize, GeneratedCard, PrizeWinner, Room, UserProfile } from './types';
+import { nextSeriesCards } from './services/cardSeries';
+import { authService, gameStateService, hostsGameRunner, roomService } from './services/backend';
+import { getWinPattern } from './services/patterns';
+import { GameRunner } from './services/gameRunner';
+import { hasPermission, isStaff } from './services/permissions';
+import { activePriceTable, priceForCards } from './services/pricing';
+import { createOrderId } from './services/pix';
+import { formatGameDate, formatGameTime, isSalesOpen } from './services/schedule';
+import { roundOutcomeLabels } from './services/gameControls';
+import { isPaperCard, scannedCardSerial } from './services/paperCards';
+import { FREE_SPACE, cardNumbers, getVariant, letterForBall } from './services/variants';
+import { claimBlock, forfeitedCardIds, isLateClaim, strikesOf } from './services/claims';
+import { BEST_CARDS_SHOWN, type CardProgress, bestCards, getCardProgress, getCompletingNumbers, isCloseCard, sortByProgress } from './services/cardProgress';
 import BingoBall from './components/BingoBall';
 import InfoCard from './components/InfoCard';
 import BingoCard from './components/BingoCard';
+import CardGrid from './components/CardGrid';
+import ProgressBadge from './components/ProgressBadge';
 import Auth from './components/Auth';
 import AdminPanel from './components/AdminPanel';
-
-const prizes: Prize[] = [
-  { id: 1, name: '1º Prêmio', value: 'R$ 500,00' },
-  { id: 2, name: '2º Prêmio', value: 'R$ 300,00' },
-  { id: 3, name: '3º Prêmio', value: 'R$ 200,00' },
-  { id: 4, name: '4º Prêmio', value: 'R$ 150,00' },
-  { id: 5, name: '5º Prêmio', value: 'Extra' },
-];
-
-const prices = { single: 20, double: 30 };
-const DRAW_INTERVAL_MS = 1500; // Reduced for better pacing
+import DrawVerifier from './components/DrawVerifier';
+import RoundHistory from './components/RoundHistory';
+import PlayerStatistics from './components/PlayerStatistics';
+import PixPayment from './components/PixPayment';
+import Lobby from './components/Lobby';
+import RoomInvite from './components/RoomInvite';
 
 // More enthusiastic narrator phrases
 const callerPhrases = [
@@ -63,9 +71,27 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
   return [storedValue, setValue];
 };
 
-const getLetterForNumber = (number: number): string => {
-  if (number <= 15) return 'B'; if (number <= 30) return 'I'; if (number <= 45) return 'N';
-  if (number <= 60) return 'G'; if (number <= 75) return 'O'; return '';
+// ['Ana', 'Bia', 'Caio'] -> "Ana, Bia e Caio"
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} e ${names[names.length - 1]}`;
+
+const winnerNames = (winners: PrizeWinner[]) => joinNames(Array.from(new Set(winners.map(w => w.playerName))));
+
+// Narration for a freshly awarded prize, or for a co-winner who joined it on the same ball
+const describeAward = (award: AwardedPrize, isRoundOver: boolean, isNewPrize: boolean): string => {
+  const opening = isRoundOver ? 'BINGOOOOO! ' : '';
+  const closing = isRoundOver ? ' Que sorte!' : ' E o jogo continua!';
+  const lead = isNewPrize ? opening : `Mais um ganhador do ${award.prizeName} na mesma bola! `;
+  if (award.candidates.length > 1 && award.tieRule === 'drawOff') {
+    return `${lead}Empate no ${award.prizeName} entre ${winnerNames(award.candidates)}! No desempate, a maior bola foi de ${winnerNames(award.winners)}!${closing}`;
+  }
+  if (award.winners.length > 1) {
+    return `${lead}Temos ${award.winners.length} ganhadores do ${award.prizeName}! Parabéns para ${winnerNames(award.winners)}! Cada um leva ${award.shareValue}!${closing}`;
+  }
+  if (isRoundOver) {
+    return `BINGOOOOO! TEMOS UM VENCEDOR! Parabéns para ${winnerNames(award.winners)}! Que sorte!`;
+  }
+  return `Temos ganhador do ${award.prizeName}! Parabéns para ${winnerNames(award.winners)}!${closing}`;
 };
 
 const Confetti: React.FC = () => (
@@ -82,36 +108,16 @@ const Confetti: React.FC = () => (
     </div>
 );
 
-// Authoritative bingo check function - independent of local user settings
-const checkForWinner = (cards: GeneratedCard[], numbers: Set<number>, mode: GameMode) => {
-    for (const card of cards) {
-      const { B, I, N, G, O } = card.cardData;
-      const allNumbersOnCard = [...B, ...I, ...N, ...G, ...O].filter(n => typeof n === 'number') as number[];
-      
-      const checkLine = (line: (number | string)[]) => line.every(num => num === 'LIVRE' || numbers.has(num as number));
-      
-      if (mode === 'full') {
-        if (allNumbersOnCard.every(num => numbers.has(num))) return { cardId: card.id, playerName: card.owner };
-      } else {
-        const columns = [B, I, N, G, O];
-        for(const col of columns) if(checkLine(col)) return { cardId: card.id, playerName: card.owner };
-        for (let i = 0; i < 5; i++) {
-            const row = columns.map(col => col[i]);
-            if (checkLine(row)) return { cardId: card.id, playerName: card.owner };
-        }
-      }
-    }
-    return null;
-};
-
-
 const App: React.FC = () => {
   // --- Shared State from Service ---
   const [gameState, setGameState] = useState(gameStateService.getState());
-  const { users, onlineUsers, generatedCards, drawnNumbers, isGameActive, bingoWinner, gameMode, preGameCountdown, playerPreferences, invalidBingoClaim, lastReaction } = gameState;
+  const { users, onlineUsers, generatedCards, drawnNumbers, isGameActive, bingoWinners, gameMode, preGameCountdown, playerPreferences, claims, claimRules, lastReaction, prizes, awardedPrizes, priceTable, roundPriceTable, cardOrders, pixReceiver, drawCommitment, lastDrawAudit, scheduledGames, isPaused, roundEnding, globeNumbers, gameVariant } = gameState;
+  const variant = getVariant(gameVariant);
 
   // --- Local State (per-device/user) ---
-  const [currentUser, setCurrentUser] = useLocalStorage<User | null>('bingoCurrentUser', null);
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
+  const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
+  const [lastRoomId, setLastRoomId] = useLocalStorage<string | null>('lastRoomId', null);
   const [cardQuantity, setCardQuantity] = useState(1);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -119,9 +125,20 @@ const App: React.FC = () => {
   const [isMuted, setIsMuted] = useLocalStorage('isMuted', false);
   const [volume, setVolume] = useLocalStorage('narratorVolume', 0.8);
   const [manualMarks, setManualMarks] = useLocalStorage<Record<string, (number|string)[]>>('manualMarks', {});
-  const [currentCardIndex, setCurrentCardIndex] = useState(0);
+  // Card shown by the carousel; the first one until the player flips
+  const [currentCardId, setCurrentCardId] = useState<string | null>(null);
+  const [sortCardsByProgress, setSortCardsByProgress] = useLocalStorage('sortCardsByProgress', false);
+  const [showBestCardsOnly, setShowBestCardsOnly] = useLocalStorage('showBestCardsOnly', false);
   const [cardViewMode, setCardViewMode] = useLocalStorage<'carousel' | 'grid'>('cardViewMode', 'carousel');
   const [isAdminInPlayerView, setIsAdminInPlayerView] = useState(false);
+  // Read before the lobby clears the invite link: a host who scanned a paper card checks it in the admin panel
+  const [scannedSerial] = useState(scannedCardSerial);
+  const [isVerifierOpen, setIsVerifierOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  // Scheduled game the cards are bought for; null for the current round
+  const [purchaseGameId, setPurchaseGameId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [isLoading, setIsLoading] = useState(true);
   const [isSpeechBlocked, setIsSpeechBlocked] = useState(false);
   const [speechQueue, setSpeechQueue] = useState<number[]>([]);
@@ -133,39 +150,75 @@ const App: React.FC = () => {
   const goodLuckSoundRef = useRef<HTMLAudioElement>(null);
   const shakeSoundRef = useRef<HTMLAudioElement>(null);
   const lastReactionTimestampRef = useRef<number>(0);
-  const drawTimeoutRef = useRef<number | null>(null);
   const prevDrawnNumbersRef = useRef<number[]>([]);
-  const prevBingoWinnerRef = useRef(bingoWinner);
+  const prevAwardSignatureRef = useRef('');
   const lastUtteranceRef = useRef<string | null>(null);
   const isNarratingRef = useRef(false);
   const drawnNumbersOnLoadRef = useRef<number[] | null>(null);
   
   // --- Memos and Derived State ---
   const { playerWins } = gameState; // Destructure here to satisfy dependency arrays
-  const myCards = useMemo(() => generatedCards.filter(c => c.owner === currentUser?.name), [generatedCards, currentUser]);
+  const myCards = useMemo(() => generatedCards.filter(c => c.owner === currentUser?.name && !isPaperCard(c)), [generatedCards, currentUser]);
   const isAutoMarking = useMemo(() => (playerPreferences[currentUser?.name ?? ''] ?? 'auto') === 'auto', [playerPreferences, currentUser]);
-  const allPlayers = useMemo(() => {
-    const players = new Set(onlineUsers.map(u => u === 'admin' ? 'Fábio' : u));
-    if (currentUser?.name === 'admin' && onlineUsers.includes('admin')) {
-      players.add('Fábio');
-    }
-    return Array.from(players).sort();
-  }, [onlineUsers, currentUser]);
-  const totalPrice = useMemo(() => (Math.floor(cardQuantity / 2) * prices.double) + (cardQuantity % 2 * prices.single), [cardQuantity]);
+  const allPlayers = useMemo(() => [...onlineUsers].sort(), [onlineUsers]);
+  const myRole = useMemo(() => users.find(u => u.name === currentUser?.name)?.role, [users, currentUser]);
+  // Only one staff client runs the countdown, draws and winner checks: the first online one allowed to
+  const isGameDriver = useMemo(() => {
+    const driver = allPlayers.find(name => hasPermission(users.find(u => u.name === name)?.role, 'runGame'));
+    return !!currentUser && driver === currentUser.name;
+  }, [allPlayers, users, currentUser]);
+  const myPendingOrder = useMemo(() => cardOrders.find(o => o.playerName === currentUser?.name && o.status === 'pending') ?? null, [cardOrders, currentUser]);
+  const canBuyForRound = myCards.length === 0 && !isGameActive && !bingoWinners && !roundEnding;
+  const gamesOnSale = useMemo(() => scheduledGames.filter(g => isSalesOpen(g, now)), [scheduledGames, now]);
+  // The chosen game while its sales are open, else this round if it still sells, else the next game on sale
+  const purchaseGame = gamesOnSale.find(g => g.id === purchaseGameId) ?? (canBuyForRound ? null : gamesOnSale[0] ?? null);
+  const canBuyCards = !myPendingOrder && (canBuyForRound || gamesOnSale.length > 0);
+  // Round promos only apply to the current round
+  const bundles = useMemo(
+    () => [...(purchaseGame ? priceTable : activePriceTable({ priceTable, roundPriceTable }))].sort((a, b) => a.quantity - b.quantity),
+    [priceTable, roundPriceTable, purchaseGame],
+  );
+  const totalPrice = useMemo(() => priceForCards(cardQuantity, bundles), [cardQuantity, bundles]);
   const lastNumberForDisplay = currentlySpeaking ?? (narratedNumbers.length > 0 ? narratedNumbers[narratedNumbers.length - 1] : null);
-  const isMyBingoInvalid = invalidBingoClaim?.playerName === currentUser?.name;
+  const myClaimBlock = currentUser ? claimBlock(claims, currentUser.name, now) : null;
+  const myStrikes = currentUser ? strikesOf(claims, currentUser.name) : 0;
+  // Shown until the next ball
+  const myLateClaim = claims.find(c => c.playerName === currentUser?.name && isLateClaim(c) && c.ballCount === drawnNumbers.length);
+  const forfeitedCards = useMemo(() => forfeitedCardIds(claims), [claims]);
+  const currentPrize = prizes[awardedPrizes.length] ?? null;
+  const winningCardIds = useMemo(() => new Set(awardedPrizes.flatMap(a => a.winners.map(w => w.cardId))), [awardedPrizes]);
+  // Toward the prize in play, over the cells the player marked; forfeited cards have none
+  const heardNumbers = useMemo(() => new Set<number>(narratedNumbers), [narratedNumbers]);
+  const cardProgress = useMemo(() => {
+    if (!isGameActive || bingoWinners) return new Map<string, CardProgress>();
+    return new Map(myCards.filter(card => !forfeitedCards.has(card.id)).map((card): [string, CardProgress] => {
+      const marked = isAutoMarking ? heardNumbers : new Set<number>((manualMarks[card.id] ?? []).filter((n): n is number => typeof n === 'number'));
+      return [card.id, getCardProgress(card, marked, gameMode)];
+    }));
+  }, [isGameActive, bingoWinners, heardNumbers, myCards, forfeitedCards, isAutoMarking, manualMarks, gameMode]);
+  const completingNumbers = useMemo(() => getCompletingNumbers(Array.from(cardProgress.values())), [cardProgress]);
+  const displayedCards = useMemo(() => {
+    if (showBestCardsOnly) return bestCards(myCards, cardProgress);
+    return sortCardsByProgress ? sortByProgress(myCards, cardProgress) : myCards;
+  }, [showBestCardsOnly, sortCardsByProgress, myCards, cardProgress]);
+  const cardLabel = useCallback((card: GeneratedCard) => `Cartela ${myCards.indexOf(card) + 1}${card.serial ? ` · #${card.serial}` : ''}`, [myCards]);
+  const currentCardIndex = Math.max(0, displayedCards.findIndex(card => card.id === currentCardId));
+  const currentCard = displayedCards[currentCardIndex];
+  // The numbers a close card still needs, highlighted on it
+  const highlightedNumbers = (cardId: string) => {
+    const progress = cardProgress.get(cardId);
+    return progress && isCloseCard(progress) ? new Set(progress.neededNumbers) : undefined;
+  };
 
   // --- Effects ---
 
-  // Initialize and Subscribe to game state service
+  // Restore the session and subscribe to game state service; the game itself loads once a room is entered
   useEffect(() => {
     const initialize = async () => {
-        await gameStateService.initialize();
+        const user = await authService.restoreSession();
+        setCurrentUser(user);
         setIsLoading(false);
-        const unsubscribe = gameStateService.subscribe(setGameState);
-        // Store the drawn numbers on initial load to avoid re-marking already marked cards.
-        drawnNumbersOnLoadRef.current = gameStateService.getState().drawnNumbers;
-        return unsubscribe;
+        return gameStateService.subscribe(setGameState);
     }
     const unsubPromise = initialize();
     
@@ -192,14 +245,37 @@ const App: React.FC = () => {
     prevDrawnNumbersLengthRef.current = drawnNumbers.length;
   }, [drawnNumbers]);
 
+  // A ball the caller took back (a typo entering the physical globe's ball) is no longer called or marked
+  useEffect(() => {
+    const drawnSet = new Set(drawnNumbers);
+    const keepDrawn = (numbers: number[]) => numbers.every(n => drawnSet.has(n)) ? numbers : numbers.filter(n => drawnSet.has(n));
+    setNarratedNumbers(keepDrawn);
+    setSpeechQueue(keepDrawn);
+  }, [drawnNumbers, narratedNumbers]);
+
+
+  // Sales of scheduled games open on their own; check the clock now and then
+  useEffect(() => {
+    if (scheduledGames.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [scheduledGames.length]);
 
-  // Handle user login/logout for online status
+  // The BINGO! button comes back once the wait after a false claim is over
   useEffect(() => {
-    if (currentUser) gameStateService.login(currentUser.name);
-    const handleBeforeUnload = () => { if (currentUser) gameStateService.logout(currentUser.name); };
+    if (myClaimBlock !== 'paused') return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [myClaimBlock, now]);
+
+  // Handle user login/logout for online status in the room
+  useEffect(() => {
+    if (!currentUser || !currentRoom) return;
+    gameStateService.login(currentUser.name);
+    const handleBeforeUnload = () => gameStateService.logout(currentUser.name);
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [currentUser]);
+  }, [currentUser, currentRoom]);
 
   // Speak function for one-off announcements (e.g., countdowns, winners)
   const speak = useCallback((text: string): Promise<void> => {
@@ -254,11 +330,11 @@ const App: React.FC = () => {
     }
 
     const newNumbers = drawnNumbers.filter(num => !narratedNumbers.includes(num));
-    if (newNumbers.length > 0 && isGameActive && !bingoWinner) {
+    if (newNumbers.length > 0 && isGameActive && !bingoWinners) {
         setSpeechQueue(prevQueue => [...prevQueue, ...newNumbers]);
     }
     prevDrawnNumbersRef.current = drawnNumbers;
-  }, [drawnNumbers, isGameActive, bingoWinner, narratedNumbers]);
+  }, [drawnNumbers, isGameActive, bingoWinners, narratedNumbers]);
   
   // --- Number Narration Queue Processor ---
   useEffect(() => {
@@ -272,8 +348,9 @@ const App: React.FC = () => {
     setCurrentlySpeaking(numberToSpeak);
 
     const phrase = callerPhrases[Math.floor(Math.random() * callerPhrases.length)];
-    const letter = getLetterForNumber(numberToSpeak);
-    const textToSpeak = `${phrase} Letra ${letter}... ${numberToSpeak}!`;
+    // Only B-I-N-G-O cards have a letter to call
+    const letter = letterForBall(variant, numberToSpeak);
+    const textToSpeak = letter ? `${phrase} Letra ${letter}... ${numberToSpeak}!` : `${phrase} ${numberToSpeak}!`;
 
     const utterance = new SpeechSynthesisUtterance(textToSpeak);
     utterance.lang = 'pt-BR';
@@ -286,18 +363,6 @@ const App: React.FC = () => {
         setCurrentlySpeaking(null);
         setNarratedNumbers(prev => [...prev, numberToSpeak]); // Officially add to the marked list
         setSpeechQueue(prevQueue => prevQueue.slice(1));
-
-        // If I am the admin, trigger the next draw after a delay.
-        // This creates a synchronized loop: draw -> narrate -> draw -> narrate...
-        if (currentUser?.name === 'admin') {
-            const currentState = gameStateService.getState();
-            if (currentState.isGameActive && !currentState.bingoWinner) {
-                 if (drawTimeoutRef.current) clearTimeout(drawTimeoutRef.current);
-                 drawTimeoutRef.current = window.setTimeout(async () => {
-                    await gameStateService.drawNextNumber();
-                }, DRAW_INTERVAL_MS);
-            }
-        }
     };
 
     utterance.onerror = (e) => {
@@ -323,95 +388,62 @@ const App: React.FC = () => {
 
     window.speechSynthesis.speak(utterance);
 
-  }, [speechQueue, isSpeechBlocked, isMuted, volume, currentUser]);
+  }, [speechQueue, isSpeechBlocked, isMuted, volume, variant]);
 
-  // --- Reactive Winner Check (for Auto-Marking players): Admin checks for winner when numbers change ---
+  // --- Game Runner: countdown, draws, winner checks and restarts happen outside the clients ---
+  // Only the in-browser backend has no process of its own, so a staff member's tab hosts the runner.
   useEffect(() => {
-    const checkWinnerAsync = async () => {
-        if (currentUser?.name !== 'admin' || !isGameActive || bingoWinner || drawnNumbers.length < 5) return;
-    
-        // Only check for winners among players using auto-marking
-        const autoMarkingPlayers = new Set(Object.keys(playerPreferences).filter(p => playerPreferences[p] === 'auto'));
-        // Include players who haven't set a preference yet (defaults to auto)
-        const allPlayerNames = new Set(generatedCards.map(c => c.owner));
-        allPlayerNames.forEach(name => {
-            if(playerPreferences[name] === undefined) {
-                autoMarkingPlayers.add(name);
-            }
-        });
-
-        const cardsToCheck = generatedCards.filter(card => autoMarkingPlayers.has(card.owner));
-
-        const winner = checkForWinner(cardsToCheck, new Set(drawnNumbers), gameMode);
-        if (winner) {
-          await gameStateService.setWinner(winner);
-        }
-    }
-    checkWinnerAsync();
-  }, [drawnNumbers, isGameActive, bingoWinner, currentUser, gameMode, generatedCards, playerPreferences]);
-  
-  // --- Reactive Winner Celebration: Trigger effects when a winner is declared ---
+    if (!hostsGameRunner || !isGameDriver || !currentRoom) return;
+    const runner = new GameRunner(gameStateService);
+    runner.start();
+    return () => runner.stop();
+  }, [isGameDriver, currentRoom?.id]);
+
+  // --- Reactive Winner Celebration: announce each prize (and co-winners joining it) as it is awarded ---
+  const lastAward = awardedPrizes[awardedPrizes.length - 1];
+  const awardSignature = lastAward ? `${awardedPrizes.length}:${lastAward.candidates.length}` : '';
   useEffect(() => {
-      if (bingoWinner && !prevBingoWinnerRef.current) {
-          if (drawTimeoutRef.current) clearTimeout(drawTimeoutRef.current); // Stop drawing new numbers
+      const previousSignature = prevAwardSignatureRef.current;
+      prevAwardSignatureRef.current = awardSignature;
+      if (!lastAward || awardSignature === previousSignature) return;
+
+      const isRoundOver = !!bingoWinners;
+      const isNewPrize = !previousSignature.startsWith(`${awardedPrizes.length}:`);
+      if (isRoundOver) {
           setShowConfetti(true);
           setSpeechQueue([]); // Clear any pending numbers to be called
           setCurrentlySpeaking(null); // Clear any number being spoken
-          applauseRef.current?.play().catch(e => console.error("Audio error:", e));
           cheeringRef.current?.play().catch(e => console.error("Audio error:", e));
-          const winnerName = bingoWinner.playerName === 'admin' ? 'Fábio' : bingoWinner.playerName;
-          
-          const speakWinner = async () => {
-            await new Promise(resolve => setTimeout(resolve, 250)); 
-            await speak(`BINGOOOOO! TEMOS UM VENCEDOR! Parabéns para ${winnerName}! Que sorte!`);
-          }
-          speakWinner();
       }
-      prevBingoWinnerRef.current = bingoWinner;
-  }, [bingoWinner, speak]);
+      applauseRef.current?.play().catch(e => console.error("Audio error:", e));
+
+      const speakWinners = async () => {
+        if (isRoundOver) await new Promise(resolve => setTimeout(resolve, 250));
+        await speak(describeAward(lastAward, isRoundOver, isNewPrize));
+        // speak() interrupts the number being narrated, so nudge the queue to call it again.
+        if (!isRoundOver) setSpeechQueue(prevQueue => [...prevQueue]);
+      }
+      speakWinners();
+  }, [awardSignature, lastAward, awardedPrizes.length, bingoWinners, speak]);
   
-  // --- Continuous Game Cycle (Admin client is responsible) ---
+  // Pre-game countdown narration; the game runner does the counting
   useEffect(() => {
-    if (currentUser?.name === 'admin' && bingoWinner && !isGameActive) {
-        const timer = setTimeout(async () => {
-            const currentState = gameStateService.getState();
-            // Check if a winner is still set, to prevent race conditions if another admin resets.
-            if (currentState.bingoWinner) {
-                 await gameStateService.startNextGameCycle();
-            }
-        }, 15000); // 15-second celebration time
-        return () => clearTimeout(timer);
-    }
-  }, [bingoWinner, isGameActive, currentUser]);
+    if (preGameCountdown === null || isGameActive) return;
+    if (preGameCountdown > 0) speak(String(preGameCountdown));
+  }, [preGameCountdown, isGameActive, speak]);
 
-  // 10-second pre-game countdown (driven by admin client)
+  const prevIsGameActiveRef = useRef(isGameActive);
   useEffect(() => {
-    if (preGameCountdown === null || isGameActive || currentUser?.name !== 'admin') return;
-  
-    const countdownLogic = async () => {
-        if (preGameCountdown === 0) {
-              await speak("Começou!");
-              await gameStateService.startGame();
-              setTimeout(async () => {
-                if (gameStateService.getState().isGameActive) {
-                  await gameStateService.drawNextNumber();
-                }
-              }, 1500);
-          return;
-        }
-      
-        const timer = setTimeout(async () => {
-          const newCountdown = preGameCountdown - 1;
-          await gameStateService.setPreGameCountdown(newCountdown);
-          if (newCountdown > 0) {
-            speak(String(newCountdown));
-          }
-        }, 1000);
-      
-        return () => clearTimeout(timer);
-    }
-    countdownLogic();
-  }, [preGameCountdown, isGameActive, speak, currentUser]);
+    if (isGameActive && !prevIsGameActiveRef.current && drawnNumbers.length === 0) speak("Começou!");
+    prevIsGameActiveRef.current = isGameActive;
+  }, [isGameActive, drawnNumbers.length, speak]);
+
+  // The staff stopped the round before its last prize
+  const prevRoundEndingRef = useRef(roundEnding);
+  useEffect(() => {
+    if (roundEnding && !prevRoundEndingRef.current) speak(`${roundOutcomeLabels[roundEnding.outcome]}.`);
+    prevRoundEndingRef.current = roundEnding;
+  }, [roundEnding, speak]);
 
   // Player Reactions Handler
   useEffect(() => {
@@ -464,37 +496,47 @@ const App: React.FC = () => {
 };
 
 
-  const handleLogout = () => {
-    if (currentUser) gameStateService.logout(currentUser.name);
-    setCurrentUser(null);
+  const handleEnterRoom = async (room: Room): Promise<boolean> => {
+    if (!await roomService.enterRoom(room.id)) return false;
+    await gameStateService.initialize();
+    // Store the drawn numbers on entering to avoid re-marking already marked cards.
+    drawnNumbersOnLoadRef.current = gameStateService.getState().drawnNumbers;
+    setLastRoomId(room.id);
+    setCurrentRoom(room);
+    return true;
+  };
+
+  const handleLeaveRoom = async () => {
+    if (currentUser) await gameStateService.logout(currentUser.name);
+    roomService.leaveRoom();
+    setCurrentRoom(null);
     setIsAdminInPlayerView(false);
+    setIsVerifierOpen(false);
+    setIsHistoryOpen(false);
+    setIsStatsOpen(false);
+  };
+
+  const handleLogout = async () => {
+    if (currentRoom) await handleLeaveRoom();
+    await authService.signOut();
+    setCurrentUser(null);
   };
   
-  const handleGenerateCards = useCallback(async (quantity: number) => {
+  const handleGenerateCards = useCallback(async (quantity: number, scheduledGameId?: string) => {
     if (quantity <= 0 || !currentUser) return;
     setIsGenerating(true); setError(null);
     try {
-      const existingCards = gameStateService.getState().generatedCards;
-      const existingCardSignatures = new Set(existingCards.map(c => JSON.stringify([...c.cardData.B, ...c.cardData.I, ...c.cardData.N, ...c.cardData.G, ...c.cardData.O].filter(n => typeof n === 'number').sort())));
-      const newCards: GeneratedCard[] = [];
-      for (let i = 0; i < quantity; i++) {
-        let newCardData, signature, attempts = 0;
-        do {
-          newCardData = await generateBingoCard();
-          signature = JSON.stringify([...newCardData.B, ...newCardData.I, ...newCardData.N, ...newCardData.G, ...newCardData.O].filter(n => typeof n === 'number').sort());
-          if (++attempts > 100) throw new Error('Não foi possível gerar uma cartela única.');
-        } while (existingCardSignatures.has(signature));
-        existingCardSignatures.add(signature);
-        newCards.push({ id: `card-${Date.now()}-${i}`, cardData: newCardData, owner: currentUser.name });
+      const newCards = nextSeriesCards(gameStateService.getState(), currentUser.name, quantity);
+      if (!await gameStateService.createOrder(createOrderId(), currentUser.name, newCards, scheduledGameId)) {
+        throw new Error(scheduledGameId ? 'Não foi possível registrar o pedido para este jogo agendado.' : 'Não foi possível registrar o pedido. O jogo já começou?');
       }
-      await gameStateService.addCards(newCards);
     } catch (err) { setError(err instanceof Error ? err.message : 'Falha ao gerar cartela.'); } 
     finally { setIsGenerating(false); }
   }, [currentUser]);
 
   const handleBuyCards = async () => {
     if (!currentUser) return;
-    await handleGenerateCards(cardQuantity);
+    await handleGenerateCards(cardQuantity, purchaseGame?.id);
     setCardQuantity(1);
   };
 
@@ -506,9 +548,9 @@ const App: React.FC = () => {
         const newManualMarks: Record<string, (number | string)[]> = {};
         const narratedNumbersSet = new Set(narratedNumbers);
         myCards.forEach(card => {
-            const marksForCard: Set<number|string> = new Set(['LIVRE']);
-            [...card.cardData.B, ...card.cardData.I, ...card.cardData.N, ...card.cardData.G, ...card.cardData.O].forEach(num => {
-                if (narratedNumbersSet.has(num as number)) marksForCard.add(num);
+            const marksForCard: Set<number|string> = new Set([FREE_SPACE]);
+            cardNumbers(card.cardData).forEach(num => {
+                if (narratedNumbersSet.has(num)) marksForCard.add(num);
             });
             newManualMarks[card.id] = Array.from(marksForCard);
         });
@@ -520,31 +562,35 @@ const App: React.FC = () => {
   const handleCellClick = (cardId: string, num: number | string) => {
     if (isAutoMarking || typeof num !== 'number') return;
     setManualMarks(prev => {
-        const existingMarks = new Set(prev[cardId] || ['LIVRE']);
+        const existingMarks = new Set(prev[cardId] || [FREE_SPACE]);
         existingMarks.has(num) ? existingMarks.delete(num) : existingMarks.add(num);
         return { ...prev, [cardId]: Array.from(existingMarks) };
     });
   };
 
   const handleClaimBingo = async () => {
-    if (!currentUser || myCards.length === 0 || bingoWinner || isMyBingoInvalid) return;
-    const currentCard = myCards[currentCardIndex];
+    if (!currentUser || myCards.length === 0 || bingoWinners || roundEnding || myClaimBlock) return;
     if (currentCard) {
-        await gameStateService.claimBingo(currentUser.name, currentCard.id, new Set(narratedNumbers), gameMode);
+        await gameStateService.claimBingo(currentUser.name, currentCard.id);
+        setNow(Date.now());
     }
   };
 
 
   useEffect(() => {
-    if (bingoWinner) {
-      const winnerIndex = myCards.findIndex(card => card.id === bingoWinner.cardId);
-      if (winnerIndex > -1) setCurrentCardIndex(winnerIndex);
+    if (bingoWinners) {
+      const winnerCard = myCards.find(card => bingoWinners.some(w => w.cardId === card.id));
+      if (winnerCard) setCurrentCardId(winnerCard.id);
     }
-  }, [bingoWinner, myCards]);
+  }, [bingoWinners, myCards]);
 
   if (isLoading) return <div className="min-h-screen bg-slate-900 text-white flex items-center justify-center text-2xl font-bold">Carregando o Bingo do Fabão...</div>;
-  if (!currentUser) return <Auth onLoginSuccess={setCurrentUser} allUsers={users} />;
-  if (currentUser.name === 'admin' && !isAdminInPlayerView) return <AdminPanel onSwitchToPlayerView={() => setIsAdminInPlayerView(true)} />;
+  if (!currentUser) return <Auth onLoginSuccess={setCurrentUser} />;
+  if (!currentRoom) return <Lobby currentUserName={currentUser.name} lastRoomId={lastRoomId} onEnterRoom={handleEnterRoom} onLogout={handleLogout} />;
+  if (isVerifierOpen) return <DrawVerifier drawCommitment={drawCommitment} drawnNumbers={drawnNumbers} globeNumbers={globeNumbers} gameVariant={gameVariant} lastDrawAudit={lastDrawAudit} onClose={() => setIsVerifierOpen(false)} />;
+  if (isHistoryOpen) return <RoundHistory onClose={() => setIsHistoryOpen(false)} />;
+  if (isStatsOpen) return <PlayerStatistics currentUserName={currentUser.name} onClose={() => setIsStatsOpen(false)} />;
+  if (isStaff(myRole) && !isAdminInPlayerView) return <AdminPanel currentUserName={currentUser.name} room={currentRoom} scannedSerial={scannedSerial} onSwitchToPlayerView={() => setIsAdminInPlayerView(true)} onLeaveRoom={handleLeaveRoom} onLogout={handleLogout} />;
 
   return (
     <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 bg-[radial-gradient(circle_at_top_left,_rgba(30,_58,_138,_0.4),_transparent_30%),_radial-gradient(circle_at_bottom_right,_rgba(17,_24,_39,_0.3),_transparent_40%)]">
@@ -567,12 +613,24 @@ const App: React.FC = () => {
       
       <div className="max-w-7xl mx-auto relative">
         <div className="absolute top-2 right-2 flex gap-2 z-20">
-            {currentUser.name === 'admin' && (
+            {isStaff(myRole) && (
                  <button onClick={() => setIsAdminInPlayerView(false)} className="bg-blue-500/80 hover:bg-blue-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2" aria-label="Voltar ao painel do administrador" >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10 9a4 4 0 100 8 4 4 0 000-8zm-2 9a9 9 0 005.464 2.949m5.464-2.949a9 9 0 01-10.928 0m10.928 0L14.536 14M4.536 14L2 11.464M3.515 9.015l2.525.505m11.92 0l2.525-.505M6.04 4.536L8.5 2m7.5 2.536L13.96 4.5M9.015 3.515l.505 2.525m5.95-.505l-.505 2.525" /></svg>
                     <span>Painel</span>
                 </button>
             )}
+            <button onClick={() => setIsVerifierOpen(true)} className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2" aria-label="Verificar sorteio">
+                <span aria-hidden="true">🔍</span>
+                <span>Verificar sorteio</span>
+            </button>
+            <button onClick={() => setIsHistoryOpen(true)} className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2" aria-label="Histórico de rodadas">
+                <span aria-hidden="true">📜</span>
+                <span>Histórico</span>
+            </button>
+            <button onClick={handleLeaveRoom} className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2" aria-label="Sair da sala e voltar ao saguão">
+                <span aria-hidden="true">🚪</span>
+                <span>Trocar de sala</span>
+            </button>
             <button onClick={handleLogout} className="bg-red-500/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2" aria-label="Sair do sistema">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" /></svg>
                 <span>Sair</span>
@@ -586,6 +644,7 @@ const App: React.FC = () => {
             <BingoBall letter="O" color="#A855F7" className="w-16 h-16 text-4xl" />
           </div>
           <h1 className="text-5xl md:text-7xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-blue-500">Bingo do Fabão</h1>
+          <div className="mt-4"><RoomInvite room={currentRoom} /></div>
         </header>
 
         <main className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -597,11 +656,20 @@ const App: React.FC = () => {
                         {isMuted ? <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15zM17 14l4-4m0 4l-4-4" /></svg> : <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>}
                     </button>
                 </div>
-                <h2 className="text-3xl font-bold text-white mb-4 text-center">Painel de Sorteio</h2>
-                {!isGameActive && !bingoWinner && (
+                <h2 className="text-3xl font-bold text-white mb-1 text-center">Painel de Sorteio</h2>
+                <p className="text-center text-gray-400 mb-1">Bingo de {variant.name}</p>
+                {currentPrize && !bingoWinners && !roundEnding && (
+                    <p className="text-center text-sky-300 font-semibold mb-4">Em jogo: {currentPrize.name} — {getWinPattern(gameMode).name}</p>
+                )}
+                {isPaused && (isGameActive || preGameCountdown !== null) && (
+                    <p className="text-center text-yellow-300 font-bold text-xl mb-4">⏸️ Jogo pausado pelo apresentador</p>
+                )}
+                {!isGameActive && !bingoWinners && !roundEnding && (
                     <div className='text-center'>
                         {preGameCountdown !== null ? (
                              <><p className="text-xl text-gray-300 mb-2">O próximo jogo começa em:</p><p className="text-6xl font-bold text-sky-300 tracking-widest mb-4 animate-pulse">{preGameCountdown}</p></>
+                        ) : scheduledGames[0] ? (
+                            <p className="text-xl text-gray-300">Próximo jogo: <span className="font-bold text-sky-300">{scheduledGames[0].name}</span>, {formatGameDate(scheduledGames[0].startsAt)} às {formatGameTime(scheduledGames[0].startsAt)}</p>
                         ) : (<p className="text-xl text-gray-300">Aguardando o início do próximo jogo...</p>)}
                     </div>
                 )}
@@ -612,15 +680,23 @@ const App: React.FC = () => {
                             <p className="text-8xl font-black text-sky-300 my-4 animate-pop-in">{lastNumberForDisplay ?? (drawnNumbers.length > 0 ? drawnNumbers[drawnNumbers.length - 1] : '-')}</p>
                         </div>
                         <div className="bg-black/20 p-4 rounded-lg">
-                           <p className="text-sm text-gray-400 mb-2">Números Sorteados ({narratedNumbers.length}/75):</p>
-                           <div className="flex flex-wrap gap-2 justify-center h-48 overflow-y-auto">{Array.from({length: 75}, (_, i) => i + 1).map(num => (<div key={num} className={`w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold ${narratedNumbers.includes(num) ? 'bg-sky-400 text-slate-900' : 'bg-gray-700/50 text-gray-400'}`}>{num}</div>))}</div>
+                           <p className="text-sm text-gray-400 mb-2">Números Sorteados ({narratedNumbers.length}/{variant.totalBalls}):</p>
+                           <div className="flex flex-wrap gap-2 justify-center h-48 overflow-y-auto">{Array.from({length: variant.totalBalls}, (_, i) => i + 1).map(num => (<div key={num} className={`w-8 h-8 flex items-center justify-center rounded-full text-sm font-bold ${narratedNumbers.includes(num) ? 'bg-sky-400 text-slate-900' : 'bg-gray-700/50 text-gray-400'}`}>{num}</div>))}</div>
                         </div>
                      </div>
                 )}
-                 {bingoWinner && (
+                 {roundEnding && (
+                     <div className="mt-6 text-center bg-red-500/20 border-2 border-red-400 p-6 rounded-xl">
+                        <p className="text-4xl font-black text-white">{roundOutcomeLabels[roundEnding.outcome]}</p>
+                        {roundEnding.reason && <p className="text-xl text-red-200 mt-2">Motivo: {roundEnding.reason}</p>}
+                        {roundEnding.outcome === 'voided' && <p className="text-red-200">Os prêmios desta rodada foram cancelados.</p>}
+                     </div>
+                 )}
+                 {bingoWinners && (
                      <div className="mt-6 text-center bg-green-500/20 border-2 border-green-400 p-6 rounded-xl">
                         <p className="text-6xl font-black text-white animate-bounce">BINGO!</p>
-                        <p className="text-xl text-green-200 mt-2">Vencedor: {bingoWinner.playerName === 'admin' ? 'Fábio' : bingoWinner.playerName}!</p>
+                        <p className="text-xl text-green-200 mt-2">{bingoWinners.length > 1 ? 'Vencedores' : 'Vencedor'}: {winnerNames(bingoWinners)}!</p>
+                        {lastAward && lastAward.winners.length > 1 && <p className="text-green-200">Cada um leva {lastAward.shareValue}</p>}
                      </div>
                  )}
                  <div className="mt-6 flex justify-center gap-4">
@@ -633,8 +709,61 @@ const App: React.FC = () => {
                 </div>
             </div>
 
-            {myCards.length === 0 && !isGameActive && (
+            {myPendingOrder && <PixPayment order={myPendingOrder} receiver={pixReceiver} />}
+
+            {scheduledGames.length > 0 && (
+              <InfoCard icon="📅" title="Próximos Jogos">
+                <ul className="space-y-2">
+                  {scheduledGames.map(game => {
+                    const myPreOrderedCards = cardOrders
+                      .filter(o => o.scheduledGameId === game.id && o.playerName === currentUser.name && o.status === 'paid')
+                      .reduce((sum, o) => sum + o.cards.length, 0);
+                    return (
+                      <li key={game.id} className="bg-black/20 rounded-lg p-3">
+                        <p className="font-bold text-lg">{game.name}</p>
+                        <p className="text-gray-300 capitalize">{formatGameDate(game.startsAt)}, {formatGameTime(game.startsAt)}</p>
+                        <p className={`text-sm ${isSalesOpen(game, now) ? 'text-green-300' : 'text-gray-400'}`}>
+                          {isSalesOpen(game, now) ? 'Vendas abertas' : `Vendas a partir de ${formatGameDate(game.salesOpenAt)}, ${formatGameTime(game.salesOpenAt)}`}
+                        </p>
+                        {myPreOrderedCards > 0 && (
+                          <p className="text-sm text-sky-300">Você já tem {myPreOrderedCards} {myPreOrderedCards === 1 ? 'cartela garantida' : 'cartelas garantidas'} para este jogo.</p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </InfoCard>
+            )}
+
+            {canBuyCards && (
               <InfoCard icon="🎟️" title="Adquira suas Cartelas">
+                {(canBuyForRound ? 1 : 0) + gamesOnSale.length > 1 && (
+                  <select
+                    value={purchaseGame?.id ?? ''}
+                    onChange={e => setPurchaseGameId(e.target.value || null)}
+                    className="w-full bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600"
+                    aria-label="Comprar cartelas para"
+                  >
+                    {canBuyForRound && <option value="">Próxima rodada</option>}
+                    {gamesOnSale.map(game => (
+                      <option key={game.id} value={game.id}>{game.name} — {formatGameDate(game.startsAt)}, {formatGameTime(game.startsAt)}</option>
+                    ))}
+                  </select>
+                )}
+                {purchaseGame && <p className="text-sky-300">Cartelas para {purchaseGame.name}: ficam guardadas até o jogo começar.</p>}
+                <div className="flex flex-wrap gap-2">
+                  {bundles.map(bundle => (
+                    <button
+                      key={bundle.quantity}
+                      onClick={() => setCardQuantity(bundle.quantity)}
+                      className={`px-3 py-2 rounded-lg border text-sm font-semibold transition-colors ${cardQuantity === bundle.quantity ? 'border-sky-400 bg-sky-400/20 text-sky-200' : 'border-gray-600 bg-gray-700/50 text-gray-200 hover:border-sky-400'}`}
+                    >
+                      {bundle.quantity} {bundle.quantity === 1 ? 'cartela' : 'cartelas'} — R$ {bundle.price.toFixed(2)}
+                      {bundle.label && <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-400 text-black text-xs">{bundle.label}</span>}
+                    </button>
+                  ))}
+                </div>
+                {roundPriceTable && !purchaseGame && <p className="text-sm text-yellow-300">Preços especiais desta rodada!</p>}
                 <div className="flex flex-col sm:flex-row items-center justify-between gap-4 bg-black/20 p-4 rounded-lg">
                   <div className="flex items-center gap-4">
                     <label className="font-bold text-lg">Quantidade:</label>
@@ -644,9 +773,9 @@ const App: React.FC = () => {
                         <button onClick={() => setCardQuantity(p => p + 1)} className="w-10 h-10 bg-blue-600 text-white font-bold text-2xl rounded-r-md hover:bg-blue-700" aria-label="Aumentar">+</button>
                     </div>
                   </div>
-                  <div className="text-center sm:text-right"><p className="text-2xl font-bold text-sky-300">Total: R$ {totalPrice.toFixed(2)}</p><p className="text-sm text-gray-400">(2 por R$ 30,00)</p></div>
+                  <div className="text-center sm:text-right"><p className="text-2xl font-bold text-sky-300">Total: R$ {totalPrice.toFixed(2)}</p><p className="text-sm text-gray-400">(melhor combinação de pacotes)</p></div>
                 </div>
-                <button onClick={handleBuyCards} disabled={isGenerating} className="mt-4 w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-3 px-4 rounded-lg text-lg transition-all transform hover:scale-105 disabled:opacity-50">{isGenerating ? 'Gerando...' : 'Comprar e Gerar Cartelas'}</button>
+                <button onClick={handleBuyCards} disabled={isGenerating} className="mt-4 w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-3 px-4 rounded-lg text-lg transition-all transform hover:scale-105 disabled:opacity-50">{isGenerating ? 'Gerando...' : 'Comprar e Pagar com PIX'}</button>
                 {error && <p className="text-red-400 mt-2">{error}</p>}
               </InfoCard>
             )}
@@ -654,49 +783,74 @@ const App: React.FC = () => {
             {myCards.length > 0 && (
               <div className="relative md:flex md:flex-col">
                 <div className="flex flex-wrap justify-between items-center mb-4 gap-4">
-                  <h2 className="text-3xl font-bold text-white">Minhas Cartelas ({currentUser.name === 'admin' ? 'Fábio' : currentUser.name})</h2>
+                  <h2 className="text-3xl font-bold text-white">Minhas Cartelas ({currentUser.name})</h2>
                   <div className="flex items-center gap-4">
+                     {myCards.length > 1 && <label className="flex items-center cursor-pointer text-sm font-medium text-gray-300"><input type="checkbox" checked={sortCardsByProgress} onChange={(e) => setSortCardsByProgress(e.target.checked)} className="mr-2" />Mais perto primeiro</label>}
+                     {myCards.length > BEST_CARDS_SHOWN && <label className="flex items-center cursor-pointer text-sm font-medium text-gray-300"><input type="checkbox" checked={showBestCardsOnly} onChange={(e) => setShowBestCardsOnly(e.target.checked)} className="mr-2" />Só as {BEST_CARDS_SHOWN} melhores</label>}
                      <div className="flex items-center bg-gray-700 rounded-full p-1"><button onClick={() => setCardViewMode('carousel')} className={`px-3 py-1 text-sm rounded-full ${cardViewMode === 'carousel' ? 'bg-sky-500 text-black' : 'text-gray-300'}`}>Carrossel</button><button onClick={() => setCardViewMode('grid')} className={`px-3 py-1 text-sm rounded-full ${cardViewMode === 'grid' ? 'bg-sky-500 text-black' : 'text-gray-300'}`}>Grade</button></div>
                       <label className="flex items-center cursor-pointer"><span className="mr-3 text-sm font-medium text-gray-300">Marcar Auto.</span><div className="relative"><input type="checkbox" className="sr-only" checked={isAutoMarking} onChange={handleToggleAutoMarking} /><div className="block bg-gray-600 w-14 h-8 rounded-full"></div><div className={`dot absolute left-1 top-1 bg-white w-6 h-6 rounded-full transition-transform ${isAutoMarking ? 'transform translate-x-6 bg-sky-400' : ''}`}></div></div></label>
                   </div>
                 </div>
 
+                {completingNumbers.length > 0 && (
+                    <div className="mb-4 p-3 bg-yellow-400/10 border border-yellow-400/40 rounded-lg">
+                        <p className="text-sm font-semibold text-yellow-300 mb-2">Bolas que completam suas cartelas:</p>
+                        <div className="flex flex-wrap gap-2">{completingNumbers.map(({ number, cards }) => (<span key={number} className="px-3 py-1 rounded-full bg-yellow-400 text-black font-black">{letterForBall(variant, number) ?? ''}{number}{cards > 1 && <span className="text-xs font-bold"> ×{cards}</span>}</span>))}</div>
+                    </div>
+                )}
+
                 {cardViewMode === 'carousel' ? (
                      <div className="relative max-w-md mx-auto">
-                          <div className={`${bingoWinner?.cardId === myCards[currentCardIndex]?.id ? 'ring-4 ring-sky-400 animate-pulse' : ''} rounded-lg`}>
-                            {myCards[currentCardIndex] && <BingoCard cardData={myCards[currentCardIndex].cardData} drawnNumbers={new Set(narratedNumbers)} isAutoMarking={isAutoMarking} manualMarks={new Set(manualMarks[myCards[currentCardIndex].id] || ['LIVRE'])} onCellClick={(num) => handleCellClick(myCards[currentCardIndex].id, num)} />}
+                          <div className={`${winningCardIds.has(currentCard?.id) ? 'ring-4 ring-sky-400 animate-pulse' : ''} rounded-lg`}>
+                            {currentCard && <BingoCard cardData={currentCard.cardData} drawnNumbers={heardNumbers} isAutoMarking={isAutoMarking} manualMarks={new Set(manualMarks[currentCard.id] || ['LIVRE'])} highlightedNumbers={highlightedNumbers(currentCard.id)} onCellClick={(num) => handleCellClick(currentCard.id, num)} />}
                           </div>
-                          {myCards.length > 1 && (<>
-                             <button onClick={() => setCurrentCardIndex(p => (p - 1 + myCards.length) % myCards.length)} className="absolute left-0 top-1/2 -translate-y-1/2 -translate-x-4 bg-gray-800/80 hover:bg-gray-700 text-white rounded-full w-12 h-12 flex items-center justify-center z-10">&#x276E;</button>
-                             <button onClick={() => setCurrentCardIndex(p => (p + 1) % myCards.length)} className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-4 bg-gray-800/80 hover:bg-gray-700 text-white rounded-full w-12 h-12 flex items-center justify-center z-10">&#x276F;</button>
-                             <p className="text-center mt-4 text-gray-300 font-semibold text-lg">Cartela {currentCardIndex + 1} de {myCards.length}</p>
+                          {displayedCards.length > 1 && (<>
+                             <button onClick={() => setCurrentCardId(displayedCards[(currentCardIndex - 1 + displayedCards.length) % displayedCards.length].id)} className="absolute left-0 top-1/2 -translate-y-1/2 -translate-x-4 bg-gray-800/80 hover:bg-gray-700 text-white rounded-full w-12 h-12 flex items-center justify-center z-10">&#x276E;</button>
+                             <button onClick={() => setCurrentCardId(displayedCards[(currentCardIndex + 1) % displayedCards.length].id)} className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-4 bg-gray-800/80 hover:bg-gray-700 text-white rounded-full w-12 h-12 flex items-center justify-center z-10">&#x276F;</button>
                           </>)}
+                          {currentCard && <p className="text-center mt-4 text-gray-300 font-semibold text-lg">Cartela {myCards.indexOf(currentCard) + 1} de {myCards.length}{currentCard.serial && ` · #${currentCard.serial}`}{forfeitedCards.has(currentCard.id) && <span className="text-red-400"> · anulada</span>}<ProgressBadge missingCells={cardProgress.get(currentCard.id)?.missingCells} /></p>}
                     </div>
                 ) : (
-                    <div className="space-y-6 max-w-md mx-auto">{myCards.map((card, index) => (<div key={card.id}><h3 className="text-center font-bold text-lg text-gray-300 mb-2">Cartela {index + 1}</h3><div className={`${bingoWinner?.cardId === card.id ? 'ring-4 ring-sky-400 animate-pulse' : ''} rounded-lg`}><BingoCard cardData={card.cardData} drawnNumbers={new Set(narratedNumbers)} isAutoMarking={isAutoMarking} manualMarks={new Set(manualMarks[card.id] || ['LIVRE'])} onCellClick={(num) => handleCellClick(card.id, num)} /></div></div>))}</div>
+                    <CardGrid cards={displayedCards} cardLabel={cardLabel} heardNumbers={heardNumbers} isAutoMarking={isAutoMarking} manualMarks={manualMarks} progress={cardProgress} winningCardIds={winningCardIds} forfeitedCards={forfeitedCards} onCellClick={handleCellClick} />
                 )}
-                {!isAutoMarking && isGameActive && !bingoWinner && (
+                {!isAutoMarking && isGameActive && !bingoWinners && (
                     <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-lg p-4 md:static md:translate-x-0 md:w-full md:p-0 md:mt-8 z-30">
                          <button 
                             onClick={handleClaimBingo}
-                            disabled={isMyBingoInvalid}
+                            disabled={!!myClaimBlock}
                             className="w-full text-center text-5xl font-black text-white bg-gradient-to-r from-green-400 to-teal-500 rounded-lg shadow-2xl py-4 transform transition-transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed animate-pulse"
                          >
                             BINGO!
                          </button>
-                         {isMyBingoInvalid && <p className="text-center text-red-400 mt-2 font-semibold">BINGO inválido! Continue jogando.</p>}
+                         {myLateClaim && <p className="text-center text-yellow-300 mt-2 font-semibold">BINGO atrasado: a cartela completou na bola nº {myLateClaim.winningBall} e o pedido tinha que vir antes da bola seguinte.</p>}
+                         {myClaimBlock === 'paused' && <p className="text-center text-red-400 mt-2 font-semibold">BINGO inválido! Continue jogando.</p>}
+                         {myClaimBlock === 'lockedOut' && <p className="text-center text-red-400 mt-2 font-semibold">Você atingiu o limite de BINGOs falsos e não pode mais pedir BINGO nesta rodada.</p>}
+                         {myClaimBlock !== 'lockedOut' && claimRules.penalty && myStrikes > 0 && (
+                            <p className="text-center text-yellow-300 mt-1 text-sm">BINGOs falsos nesta rodada: {myStrikes} de {claimRules.strikes}</p>
+                         )}
                     </div>
                 )}
               </div>
             )}
           </div>
           <aside className="space-y-8">
-            <InfoCard icon="🏆" title="Prêmios">{prizes.map(p => (<div key={p.id} className="flex justify-between items-center border-b border-white/10 pb-2 last:border-b-0"><span>{p.name}</span><span className="font-bold text-sky-300">{p.value}</span></div>))}</InfoCard>
+            <InfoCard icon="🏆" title="Prêmios">
+                {prizes.map((p, index) => {
+                    const award = awardedPrizes.find(a => a.prizeId === p.id);
+                    const isInPlay = index === awardedPrizes.length && isGameActive;
+                    return (
+                        <div key={p.id} className={`border-b border-white/10 pb-2 last:border-b-0 ${isInPlay ? 'text-sky-300' : ''}`}>
+                            <div className="flex justify-between items-center"><span>{p.name}</span><span className="font-bold text-sky-300">{p.value}</span></div>
+                            <p className="text-xs text-gray-400">{getWinPattern(p.pattern).name}</p>
+                            {award && <p className="text-sm text-green-300">🏅 {winnerNames(award.winners)} ({award.ballCount} bolas{award.winners.length > 1 ? `, ${award.shareValue} cada` : ''})</p>}
+                        </div>
+                    );
+                })}
+            </InfoCard>
             <InfoCard icon="👥" title="Jogadores na Sala">
                 <ul className="space-y-2 max-h-48 overflow-y-auto">
                     {allPlayers.map(name => {
-                        const originalName = name === 'Fábio' ? 'admin' : name;
-                        const isWinner = bingoWinner?.playerName === originalName;
+                        const isWinner = awardedPrizes.some(a => a.winners.some(w => w.playerName === name));
                         return (
                             <li key={name} className={`flex items-center justify-between gap-3 p-1 rounded ${isWinner ? 'bg-sky-400/20' : ''}`}>
                                 <div className="flex items-center gap-3">
@@ -704,12 +858,15 @@ const App: React.FC = () => {
                                     <span className="font-medium text-gray-200">{name}</span>
                                 </div>
                                 <div className="flex items-center gap-1 text-sky-400">
-                                    {Array.from({length: playerWins[originalName] || 0}).map((_, i) => <span key={i}>⭐</span>)}
+                                    {Array.from({length: playerWins[name] || 0}).map((_, i) => <span key={i}>⭐</span>)}
                                 </div>
                             </li>
                         );
                     })}
                 </ul>
+                <button onClick={() => setIsStatsOpen(true)} className="w-full mt-2 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors">
+                    📊 Estatísticas e ranking
+                </button>
             </InfoCard>
           </aside>
         </main>
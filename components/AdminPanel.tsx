@@ -1,15 +1,68 @@
 import React, { useState, useEffect } from 'react';
-import type { GameMode } from '../types';
-import { gameStateService } from '../services/gameState';
+import type { PixReceiver, Room, TieRule, UserRole } from '../types';
+import { gameStateService } from '../services/backend';
+import { getWinPattern, getWinPatterns } from '../services/patterns';
+import { assignableRoles, hasPermission, roleLabels } from '../services/permissions';
+import { isPreOrder } from '../services/schedule';
+import { type VariantRules, canChangeVariant, gameVariants, getVariant } from '../services/variants';
 import InfoCard from './InfoCard';
+import PrizeCatalogEditor from './PrizeCatalogEditor';
+import PriceTableEditor from './PriceTableEditor';
+import LedgerReport from './LedgerReport';
+import RoomInvite from './RoomInvite';
+import GameScheduleEditor from './GameScheduleEditor';
+import LiveGameControls from './LiveGameControls';
+import PaperCardSales from './PaperCardSales';
+import PaperCardVerifier from './PaperCardVerifier';
+import BingoClaims from './BingoClaims';
+
+// Small thumbnail of a pattern's first mask, in the shape of the variant's cards
+const PatternPreview: React.FC<{ mask: number[]; variant: VariantRules }> = ({ mask, variant }) => {
+  const cells = new Set(mask);
+  return (
+    <div
+      className="grid gap-px h-10 shrink-0"
+      style={{ gridTemplateColumns: `repeat(${variant.columns}, minmax(0, 1fr))`, width: `${2.5 * variant.columns / variant.rows}rem` }}
+      aria-hidden="true"
+    >
+      {Array.from({ length: variant.rows * variant.columns }, (_, i) => (
+        <div key={i} className={cells.has(i) ? 'bg-sky-400' : 'bg-gray-600'} />
+      ))}
+    </div>
+  );
+};
+
+const tieRuleOptions: { value: TieRule; label: string }[] = [
+  { value: 'split', label: 'Dividir o prêmio' },
+  { value: 'drawOff', label: 'Desempate (maior bola)' },
+  { value: 'firstClaim', label: 'Primeiro a completar' },
+];
 
 interface AdminPanelProps {
+  currentUserName: string;
+  room: Room;
+  // Serial of the paper card whose QR code opened the app
+  scannedSerial: string | null;
   onSwitchToPlayerView: () => void;
+  onLeaveRoom: () => void;
+  onLogout: () => void;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchToPlayerView }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ currentUserName, room, scannedSerial, onSwitchToPlayerView, onLeaveRoom, onLogout }) => {
   const [gameState, setGameState] = useState(gameStateService.getState());
-  const { gameMode } = gameState;
+  const { roundId, users, prizes, awardedPrizes, tieRule, isGameActive, charityPercent, priceTable, roundPriceTable, cardOrders, pixReceiver, scheduledGames, gameVariant } = gameState;
+  const variant = getVariant(gameVariant);
+  const myRole = users.find(u => u.name === currentUserName)?.role;
+  const canRunGame = hasPermission(myRole, 'runGame');
+  const canManageRoles = hasPermission(myRole, 'manageRoles');
+  const canManagePayments = hasPermission(myRole, 'managePayments');
+  const [receiverForm, setReceiverForm] = useState<PixReceiver>(pixReceiver ?? { key: '', name: '', city: '' });
+  const pendingOrders = cardOrders.filter(o => o.status === 'pending');
+  const paidOrders = cardOrders.filter(o => o.status === 'paid' && !isPreOrder(o));
+  // A new game would drop the cards paid for this round before any ball was drawn
+  const hasUnplayedSales = gameState.drawnNumbers.length === 0 && paidOrders.length > 0;
+  // The ladder can be rewritten between games; during one only the patterns still in play change
+  const isEditingPrizes = !isGameActive && awardedPrizes.length === 0;
 
   useEffect(() => {
     const unsubscribe = gameStateService.subscribe(setGameState);
@@ -18,14 +71,11 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchToPlayerView }) => {
     };
   }, []);
 
-  const handleLogout = () => {
-    const currentUser = gameStateService.getState().users.find(u => u.name === 'admin');
-    if (currentUser) {
-        gameStateService.logout(currentUser.name);
-    }
-    // Note: The actual logout (clearing local storage) happens in the App component
-  };
-  
+  // Follow changes saved by another cashier
+  useEffect(() => {
+    if (pixReceiver) setReceiverForm(pixReceiver);
+  }, [pixReceiver?.key, pixReceiver?.name, pixReceiver?.city]);
+
   return (
     <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 flex items-center justify-center">
       <div className="w-full max-w-2xl space-y-8 relative">
@@ -38,7 +88,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchToPlayerView }) => {
                 Ver Jogo
             </button>
             <button
-                onClick={handleLogout}
+                onClick={onLeaveRoom}
+                className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2"
+                aria-label="Sair da sala e voltar ao saguão"
+            >
+                Trocar de sala
+            </button>
+            <button
+                onClick={onLogout}
                 className="bg-red-500/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors flex items-center gap-2"
                 aria-label="Sair do sistema"
             >
@@ -47,42 +104,251 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onSwitchToPlayerView }) => {
         </div>
 
         <h1 className="text-4xl font-black text-center text-sky-300 pt-12 sm:pt-0">Painel do Administrador</h1>
+        <RoomInvite room={room} />
         
-        <InfoCard icon="⚙️" title="Modo de Jogo">
-          <div className="flex justify-around p-4">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input 
-                type="radio" 
-                name="gameMode" 
-                value="line" 
-                checked={gameMode === 'line'} 
-                onChange={async () => await gameStateService.setGameMode('line')}
-                className="form-radio h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600"
+        {canRunGame && (
+          <>
+            <InfoCard icon="🎱" title="Modalidade">
+              <div className="space-y-2 p-2">
+                {gameVariants.map(option => (
+                  <label key={option.id} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="gameVariant"
+                      value={option.id}
+                      checked={gameVariant === option.id}
+                      disabled={!canChangeVariant(gameState)}
+                      onChange={async () => await gameStateService.setGameVariant(option.id)}
+                      className="form-radio mt-1 h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600 disabled:opacity-50"
+                    />
+                    <span>
+                      <span className="text-lg font-semibold">{option.name}</span>
+                      <span className="block text-sm text-gray-400">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-sm text-gray-400">
+                {canChangeVariant(gameState)
+                  ? 'Trocar a modalidade volta os prêmios para os padrões dela.'
+                  : 'A modalidade só pode ser trocada antes do primeiro sorteio, sem cartelas vendidas ou pedidas na rodada.'}
+              </p>
+            </InfoCard>
+
+            <InfoCard icon="⚙️" title="Prêmios da Rodada">
+              {isEditingPrizes ? (
+                <PrizeCatalogEditor key={JSON.stringify(prizes)} prizes={prizes} variant={variant} />
+              ) : (
+                <>
+                  <p className="text-sm text-gray-400">Os prêmios são sorteados nesta ordem, sem zerar os números entre um prêmio e outro.</p>
+                  <div className="space-y-3 p-2">
+                    {prizes.map((prize, index) => {
+                      const award = awardedPrizes.find(a => a.prizeId === prize.id);
+                      const isInPlay = index === awardedPrizes.length;
+                      return (
+                        <div
+                          key={prize.id}
+                          className={`flex items-center gap-3 p-2 rounded-lg border ${isInPlay ? 'border-sky-400 bg-sky-400/10' : 'border-transparent'}`}
+                        >
+                          <PatternPreview mask={getWinPattern(prize.pattern).masks[0]} variant={variant} />
+                          <div className="flex-1">
+                            <p className="text-lg font-semibold">{prize.name} <span className="text-sky-300">{prize.value}</span></p>
+                            {award && (
+                              <p className="text-sm text-green-300">
+                                Ganho por {award.winners.map(w => w.playerName).join(', ')} com {award.ballCount} bolas
+                                {award.winners.length > 1 && ` (${award.shareValue} cada)`}
+                                {award.drawOffBalls && award.candidates.length > 1 && ` — desempate: ${award.candidates.map(c => `${c.playerName} ${award.drawOffBalls![c.cardId]}`).join(', ')}`}
+                              </p>
+                            )}
+                          </div>
+                          <select
+                            value={prize.pattern}
+                            disabled={!!award}
+                            onChange={async (e) => await gameStateService.setPrizePattern(prize.id, e.target.value)}
+                            className="bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none disabled:opacity-50"
+                            aria-label={`Padrão do ${prize.name}`}
+                          >
+                            {getWinPatterns(gameVariant).map(pattern => (
+                              <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+            </InfoCard>
+
+            <InfoCard icon="⚖️" title="Empates">
+              <p className="text-sm text-gray-400">Quando mais de uma cartela completa o padrão na mesma bola:</p>
+              <div className="flex flex-col sm:flex-row justify-around gap-2 p-2">
+                {tieRuleOptions.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="tieRule"
+                      value={option.value}
+                      checked={tieRule === option.value}
+                      onChange={async () => await gameStateService.setTieRule(option.value)}
+                      className="form-radio h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600"
+                    />
+                    <span className="text-lg font-semibold">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </InfoCard>
+
+            <InfoCard icon="📣" title="Pedidos de BINGO">
+                <BingoClaims gameState={gameState} />
+            </InfoCard>
+
+            <InfoCard icon="🕹️" title="Controles da Sala">
+                <LiveGameControls gameState={gameState} currentUserName={currentUserName} />
+                {hasUnplayedSales ? (
+                    <p className="text-sm text-gray-400">Esta rodada já tem cartelas pagas: ela precisa ser jogada antes de um novo jogo.</p>
+                ) : (
+                    <button
+                        onClick={async () => await gameStateService.startNextGameCycle()}
+                        className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        Iniciar Novo Jogo
+                    </button>
+                )}
+            </InfoCard>
+
+            <InfoCard icon="🔎" title="Conferir Cartela de Papel">
+                <PaperCardVerifier gameState={gameState} scannedSerial={scannedSerial} />
+            </InfoCard>
+
+            <InfoCard icon="📅" title="Jogos Agendados">
+                <GameScheduleEditor scheduledGames={scheduledGames} cardOrders={cardOrders} currentUserName={currentUserName} />
+            </InfoCard>
+          </>
+        )}
+
+        {canManagePayments && (
+          <InfoCard icon="🏷️" title="Preços das Cartelas">
+            <PriceTableEditor key={JSON.stringify([priceTable, roundPriceTable])} priceTable={priceTable} roundPriceTable={roundPriceTable} />
+          </InfoCard>
+        )}
+
+        {canManagePayments && (
+          <InfoCard icon="💠" title="Pagamentos">
+            <form
+              onSubmit={async (e) => { e.preventDefault(); await gameStateService.setPixReceiver(receiverForm); }}
+              className="grid grid-cols-1 sm:grid-cols-3 gap-2 p-2"
+            >
+              <input
+                value={receiverForm.key}
+                onChange={e => setReceiverForm({ ...receiverForm, key: e.target.value })}
+                placeholder="Chave PIX"
+                required
+                className="bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none"
+              />
+              <input
+                value={receiverForm.name}
+                onChange={e => setReceiverForm({ ...receiverForm, name: e.target.value })}
+                placeholder="Nome do recebedor"
+                required
+                className="bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none"
               />
-              <span className="text-lg font-semibold">Linha / Vertical</span>
-            </label>
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input 
-                type="radio" 
-                name="gameMode" 
-                value="full" 
-                checked={gameMode === 'full'} 
-                onChange={async () => await gameStateService.setGameMode('full')}
-                className="form-radio h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600"
+              <input
+                value={receiverForm.city}
+                onChange={e => setReceiverForm({ ...receiverForm, city: e.target.value })}
+                placeholder="Cidade"
+                required
+                className="bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none"
               />
-              <span className="text-lg font-semibold">Cartela Cheia</span>
-            </label>
-          </div>
-        </InfoCard>
+              <button type="submit" className="sm:col-span-3 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+                Salvar recebedor PIX
+              </button>
+            </form>
+            {!pixReceiver && <p className="text-sm text-yellow-300">Sem recebedor PIX, os jogadores são orientados a pagar no caixa.</p>}
 
-        <InfoCard icon="🕹️" title="Controles da Sala">
-            <button
-                onClick={async () => await gameStateService.startNextGameCycle()}
-                className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
-            >
-                Iniciar Novo Jogo
-            </button>
-        </InfoCard>
+            <h3 className="font-bold text-lg pt-2">Aguardando pagamento ({pendingOrders.length})</h3>
+            <ul className="space-y-2 p-2 max-h-72 overflow-y-auto">
+              {pendingOrders.map(order => (
+                <li key={order.id} className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-200">{order.playerName} — R$ {order.amount.toFixed(2)} ({order.cards.length} {order.cards.length === 1 ? 'cartela' : 'cartelas'})</p>
+                    {isPreOrder(order) && (
+                      <p className="text-xs text-yellow-300">Para {scheduledGames.find(g => g.id === order.scheduledGameId)?.name ?? 'jogo agendado'}</p>
+                    )}
+                    <p className="font-mono text-xs text-gray-400">{order.id}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={async () => await gameStateService.confirmOrder(order.id, currentUserName)}
+                      className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors"
+                    >
+                      Confirmar
+                    </button>
+                    <button
+                      onClick={async () => await gameStateService.cancelOrder(order.id, currentUserName)}
+                      className="bg-red-500/80 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {pendingOrders.length === 0 && <li className="text-gray-400">Nenhum pedido pendente.</li>}
+            </ul>
+
+            {paidOrders.length > 0 && (
+              <>
+                <h3 className="font-bold text-lg pt-2">Pagos nesta rodada ({paidOrders.length})</h3>
+                <ul className="space-y-1 p-2 max-h-48 overflow-y-auto text-sm text-gray-300">
+                  {paidOrders.map(order => (
+                    <li key={order.id}>
+                      {order.playerName} — R$ {order.amount.toFixed(2)} · confirmado por {order.confirmedBy}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </InfoCard>
+        )}
+
+        {canManagePayments && (
+          <InfoCard icon="🖨️" title="Cartelas de Papel">
+            <PaperCardSales gameState={gameState} room={room} currentUserName={currentUserName} />
+          </InfoCard>
+        )}
+
+        {canManagePayments && (
+          <InfoCard icon="📒" title="Prestação de Contas">
+            <LedgerReport roundId={roundId} charityPercent={charityPercent} />
+          </InfoCard>
+        )}
+
+        {canManageRoles && (
+          <InfoCard icon="🧑‍🤝‍🧑" title="Equipe">
+            <p className="text-sm text-gray-400">Co-apresentadores conduzem o sorteio; o caixa cuida dos pagamentos.</p>
+            <ul className="space-y-2 p-2 max-h-72 overflow-y-auto">
+              {users.map(user => (
+                <li key={user.name} className="flex items-center justify-between gap-3">
+                  <span className="font-medium text-gray-200">{user.name}</span>
+                  {user.role === 'owner' ? (
+                    <span className="text-sm text-sky-300">{roleLabels.owner}</span>
+                  ) : (
+                    <select
+                      value={user.role}
+                      onChange={async (e) => await gameStateService.setUserRole(user.name, e.target.value as UserRole)}
+                      className="bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none"
+                      aria-label={`Função de ${user.name}`}
+                    >
+                      {assignableRoles.map(role => (
+                        <option key={role} value={role}>{roleLabels[role]}</option>
+                      ))}
+                    </select>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </InfoCard>
+        )}
       </div>
     </div>
   );
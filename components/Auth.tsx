@@ -1,29 +1,38 @@
 
 import React, { useState } from 'react';
-import type { User } from '../types';
-import { gameStateService } from '../services/gameState';
+import type { UserProfile } from '../types';
+import type { AuthResult } from '../services/gameStore';
+import { authService } from '../services/backend';
 import InfoCard from './InfoCard';
 
 interface AuthProps {
-  onLoginSuccess: (user: User) => void;
-  allUsers: User[];
+  onLoginSuccess: (user: UserProfile) => void;
 }
 
-const Auth: React.FC<AuthProps> = ({ onLoginSuccess, allUsers }) => {
+const Auth: React.FC<AuthProps> = ({ onLoginSuccess }) => {
   const [isLoginView, setIsLoginView] = useState(true);
   const [name, setName] = useState('');
   const [password, setPassword] = useState('');
   const [pixKey, setPixKey] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const finish = (result: AuthResult) => {
+    if ('user' in result) {
+      onLoginSuccess(result.user);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    const user = allUsers.find(u => u.name === name && u.password === password);
-    if (user) {
-      onLoginSuccess(user);
-    } else {
-      setError('Nome de usuário ou senha inválidos.');
+    setIsSubmitting(true);
+    try {
+      finish(await authService.signIn(name, password));
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -34,13 +43,12 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess, allUsers }) => {
       setError('Todos os campos são obrigatórios.');
       return;
     }
-    
-    const newUser: User = { name, password, pixKey };
-    
-    if (await gameStateService.registerUser(newUser)) {
-        onLoginSuccess(newUser);
-    } else {
-        setError('Este nome de usuário já existe.');
+
+    setIsSubmitting(true);
+    try {
+      finish(await authService.register(name, password, pixKey));
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -89,7 +97,8 @@ const Auth: React.FC<AuthProps> = ({ onLoginSuccess, allUsers }) => {
             {error && <p className="text-red-400 text-sm">{error}</p>}
             <button
               type="submit"
-              className="w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-3 rounded-lg text-lg transition-all"
+              disabled={isSubmitting}
+              className="w-full disabled:opacity-60 bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-3 rounded-lg text-lg transition-all"
             >
               {isLoginView ? 'Entrar' : 'Cadastrar e Entrar'}
             </button>
@@ -1,52 +1,58 @@
 import React from 'react';
-import type { BingoCardData } from '../types';
+import type { CardData } from '../types';
+import { FREE_SPACE, cardRows, isBingoCardData } from '../services/variants';
 import BingoBall from './BingoBall';
 
 interface BingoCardProps {
-  cardData: BingoCardData;
+  cardData: CardData;
   drawnNumbers: Set<number | string>;
   isAutoMarking: boolean;
   manualMarks: Set<number | string>;
+  // Unmarked numbers the card needs for the prize in play
+  highlightedNumbers?: Set<number>;
   onCellClick: (num: number | string) => void;
 }
 
-const BingoCard: React.FC<BingoCardProps> = ({ cardData, drawnNumbers, isAutoMarking, manualMarks, onCellClick }) => {
-  const headers = ['B', 'I', 'N', 'G', 'O'];
-  const colors = ['#EF4444', '#3B82F6', '#22C55E', '#EAB308', '#A855F7'];
-  const freeSpaceText = 'LIVRE';
+// One per column; B-I-N-G-O cards use the first five
+const colors = ['#EF4444', '#3B82F6', '#22C55E', '#EAB308', '#A855F7', '#F97316', '#14B8A6', '#EC4899', '#6366F1'];
+const gridColumns: Record<number, string> = { 3: 'grid-cols-3', 4: 'grid-cols-4', 5: 'grid-cols-5', 9: 'grid-cols-9' };
 
-  const columns = [cardData.B, cardData.I, cardData.N, cardData.G, cardData.O];
-  
-  // Create a flat array of numbers in the correct row-by-row order for CSS Grid
-  const gridNumbers: { num: number | string, colIndex: number }[] = [];
-  for (let rowIndex = 0; rowIndex < 5; rowIndex++) {
-    for (let colIndex = 0; colIndex < 5; colIndex++) {
-        gridNumbers.push({
-            num: columns[colIndex][rowIndex],
-            colIndex: colIndex,
-        });
-    }
-  }
+const BingoCard: React.FC<BingoCardProps> = ({ cardData, drawnNumbers, isAutoMarking, manualMarks, highlightedNumbers, onCellClick }) => {
+  // Only the 75-ball cards have letters over their columns
+  const headers = isBingoCardData(cardData) ? ['B', 'I', 'N', 'G', 'O'] : [];
+  const rows = cardRows(cardData);
+  const columnCount = rows[0]?.length ?? 0;
+  // The nine columns of a 90-ball ticket need smaller cells
+  const isWide = columnCount > 5;
+
+  // Flat array of the cells, row by row, for CSS Grid
+  const gridNumbers = rows.flatMap(row => row.map((num, colIndex) => ({ num, colIndex })));
 
   return (
     <div className="bg-slate-800/50 p-4 rounded-lg border-2 border-blue-500 shadow-2xl animate-fade-in">
-      <div className="grid grid-cols-5 gap-2">
+      <div className={`grid ${gridColumns[columnCount]} ${isWide ? 'gap-1' : 'gap-2'}`}>
         {headers.map((letter, index) => (
           <div key={letter} className="flex justify-center items-center">
              <BingoBall letter={letter} color={colors[index]} className="w-12 h-12 md:w-16 md:h-16 text-3xl md:text-4xl" />
           </div>
         ))}
         {gridNumbers.map(({ num, colIndex }, index) => {
+            if (num === null) {
+              return <div key={`${colIndex}-${index}`} className={`${isWide ? 'h-10 md:h-12' : 'h-12 md:h-16'} rounded-md bg-slate-700/60`} aria-hidden="true" />;
+            }
             const isDrawn = drawnNumbers.has(num);
-            const isFreeSpace = num === freeSpaceText;
+            const isFreeSpace = num === FREE_SPACE;
             const isMarked = isFreeSpace || (isAutoMarking ? isDrawn : manualMarks.has(num));
+            const isNeeded = !isMarked && typeof num === 'number' && !!highlightedNumbers?.has(num);
 
-            const cellClasses = `relative flex items-center justify-center h-12 md:h-16 rounded-md font-bold text-xl md:text-2xl transition-all duration-300
+            const cellClasses = `relative flex items-center justify-center rounded-md font-bold transition-all duration-300
+              ${isWide ? 'h-10 md:h-12 text-base md:text-xl' : 'h-12 md:h-16 text-xl md:text-2xl'}
               ${isFreeSpace 
                 ? 'bg-sky-400 text-sky-900' 
                 : 'bg-white/80 text-slate-900'
               }
               ${!isAutoMarking && typeof num === 'number' ? 'cursor-pointer hover:bg-white/100' : ''}
+              ${isNeeded ? 'ring-4 ring-yellow-400' : ''}
             `;
 
             return (
@@ -64,7 +70,7 @@ const BingoCard: React.FC<BingoCardProps> = ({ cardData, drawnNumbers, isAutoMar
                   className="absolute inset-0 flex items-center justify-center rounded-md bg-opacity-70 transition-transform duration-300 scale-100 animate-pop-in"
                   style={{ backgroundColor: isFreeSpace ? '#38BDF8' : colors[colIndex] }}
                   >
-                    <span className="text-white text-shadow-lg font-black text-3xl" style={{ textShadow: '1px 1px 2px black' }}>
+                    <span className={`text-white text-shadow-lg font-black ${isWide ? 'text-xl' : 'text-3xl'}`} style={{ textShadow: '1px 1px 2px black' }}>
                       {isFreeSpace ? '★' : num}
                     </span>
                   </div>
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { ClaimPenalty, SharedGameState } from '../types';
+import { gameStateService } from '../services/backend';
+import { MAX_CLAIM_STRIKES, claimPenaltyLabels, isLateClaim } from '../services/claims';
+
+interface BingoClaimsProps {
+  gameState: SharedGameState;
+}
+
+const penaltyOptions: { value: ClaimPenalty | null; label: string }[] = [
+  { value: null, label: 'Só uma espera de 5 segundos' },
+  { value: 'lockRound', label: 'Bloquear o jogador até o fim da rodada' },
+  { value: 'forfeitCard', label: 'Anular a cartela do pedido' },
+];
+
+const inputClassName = 'bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('pt-BR');
+
+// What false BINGO! calls cost, and every call of the round as the backend checked it.
+const BingoClaims: React.FC<BingoClaimsProps> = ({ gameState }) => {
+  const { claims, claimRules, generatedCards } = gameState;
+  const cardLabel = (cardId: string) => {
+    const serial = generatedCards.find(c => c.id === cardId)?.serial;
+    return serial ? `#${serial}` : cardId;
+  };
+
+  return (
+    <div className="space-y-4 p-2">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          A partir de
+          <input
+            type="number"
+            min={1}
+            max={MAX_CLAIM_STRIKES}
+            value={claimRules.strikes}
+            onChange={async (e) => await gameStateService.setClaimRules({
+              ...claimRules,
+              strikes: Math.max(1, Math.min(MAX_CLAIM_STRIKES, Number(e.target.value) || 1)),
+            })}
+            className={`w-20 ${inputClassName}`}
+          />
+          BINGOs falsos:
+        </label>
+        <select
+          value={claimRules.penalty ?? ''}
+          onChange={async (e) => await gameStateService.setClaimRules({ ...claimRules, penalty: (e.target.value || null) as ClaimPenalty | null })}
+          className={inputClassName}
+        >
+          {penaltyOptions.map(option => (
+            <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={claimRules.beforeNextBall}
+          onChange={async (e) => await gameStateService.setClaimRules({ ...claimRules, beforeNextBall: e.target.checked })}
+          className="form-checkbox h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600"
+        />
+        O BINGO só vale se pedido antes da bola seguinte à que completou a cartela
+      </label>
+
+      <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+        {[...claims].reverse().map((claim, i) => (
+          <li key={i} className={claim.isValid ? 'text-green-300' : isLateClaim(claim) ? 'text-yellow-300' : 'text-red-400'}>
+            {formatTime(claim.timestamp)} — {claim.playerName} (cartela {cardLabel(claim.cardId)}) na bola nº {claim.ballCount}:{' '}
+            {claim.isValid ? 'válido' : isLateClaim(claim) ? `atrasado, completou na bola nº ${claim.winningBall}` : 'inválido'}
+            {claim.penalty && <span className="font-bold"> · {claimPenaltyLabels[claim.penalty]}</span>}
+          </li>
+        ))}
+        {claims.length === 0 && <li className="text-gray-400">Nenhum pedido de BINGO nesta rodada.</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default BingoClaims;
@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { GeneratedCard } from '../types';
+import type { CardProgress } from '../services/cardProgress';
+import { isCloseCard } from '../services/cardProgress';
+import { cardNumbers } from '../services/variants';
+import MiniBingoCard, { miniCardHeight, miniCardMinWidth } from './MiniBingoCard';
+
+interface CardGridProps {
+  // In the order shown
+  cards: GeneratedCard[];
+  cardLabel: (card: GeneratedCard) => string;
+  heardNumbers: Set<number>;
+  isAutoMarking: boolean;
+  manualMarks: Record<string, (number | string)[]>;
+  progress: Map<string, CardProgress>;
+  winningCardIds: Set<string>;
+  forfeitedCards: Set<string>;
+  onCellClick: (cardId: string, num: number) => void;
+}
+
+const GAP_PX = 8;
+// Rows drawn above and below the screen, so a quick scroll doesn't show blanks
+const OVERSCAN_ROWS = 2;
+
+/** Keeps the Set of each card while its numbers don't change, so memoized cards skip redrawing. */
+const useStableSets = () => {
+  const cache = useRef(new Map<string, { key: string; numbers: Set<number> }>());
+  return useCallback((id: string, numbers: number[]): Set<number> => {
+    const key = numbers.join(',');
+    const cached = cache.current.get(id);
+    if (cached?.key === key) return cached.numbers;
+    const entry = { key, numbers: new Set(numbers) };
+    cache.current.set(id, entry);
+    return entry.numbers;
+  }, []);
+};
+
+// The grid view: mini cards, and only the rows on screen are rendered, so players holding dozens of
+// cards scroll smoothly on a phone. Rows have a fixed height, as all cards of a round share a layout.
+const CardGrid: React.FC<CardGridProps> = ({
+  cards, cardLabel, heardNumbers, isAutoMarking, manualMarks, progress, winningCardIds, forfeitedCards, onCellClick,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(1);
+  const [visibleRows, setVisibleRows] = useState({ first: 0, last: 0 });
+  const stableMarks = useStableSets();
+  const stableNeeded = useStableSets();
+  // The parent's handler changes on every render; the cards get one that doesn't
+  const onCellClickRef = useRef(onCellClick);
+  onCellClickRef.current = onCellClick;
+  const handleCellClick = useCallback((cardId: string, num: number) => onCellClickRef.current(cardId, num), []);
+
+  const sample = cards[0]?.cardData;
+  const cardHeight = sample ? miniCardHeight(sample) : 0;
+  const minCardWidth = sample ? miniCardMinWidth(sample) : 0;
+  const rowHeight = cardHeight + GAP_PX;
+  const rowCount = Math.ceil(cards.length / columns);
+
+  useEffect(() => {
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const container = containerRef.current;
+        if (!container || rowHeight === GAP_PX) return;
+        const rect = container.getBoundingClientRect();
+        setColumns(Math.max(1, Math.floor((rect.width + GAP_PX) / (minCardWidth + GAP_PX))));
+        setVisibleRows({
+          first: Math.max(0, Math.floor(-rect.top / rowHeight) - OVERSCAN_ROWS),
+          last: Math.max(0, Math.ceil((window.innerHeight - rect.top) / rowHeight) + OVERSCAN_ROWS),
+        });
+      });
+    };
+    measure();
+    window.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [rowHeight, minCardWidth, cards.length]);
+
+  const first = Math.min(visibleRows.first, rowCount);
+  const last = Math.min(visibleRows.last, rowCount);
+  const shown = cards.slice(first * columns, last * columns);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: Math.max(0, rowCount * rowHeight - GAP_PX) }}>
+      <div
+        className="absolute inset-x-0 grid"
+        style={{ top: first * rowHeight, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gridAutoRows: cardHeight, gap: GAP_PX }}
+      >
+        {shown.map(card => {
+          const cardProgress = progress.get(card.id);
+          const manual = new Set(manualMarks[card.id] ?? []);
+          const marks = cardNumbers(card.cardData).filter(num => isAutoMarking ? heardNumbers.has(num) : manual.has(num));
+          return (
+            <MiniBingoCard
+              key={card.id}
+              cardId={card.id}
+              label={cardLabel(card)}
+              cardData={card.cardData}
+              marks={stableMarks(card.id, marks)}
+              highlightedNumbers={cardProgress && isCloseCard(cardProgress) ? stableNeeded(card.id, cardProgress.neededNumbers) : undefined}
+              missingCells={cardProgress?.missingCells}
+              isWinner={winningCardIds.has(card.id)}
+              isForfeited={forfeitedCards.has(card.id)}
+              isClickable={!isAutoMarking}
+              onCellClick={handleCellClick}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CardGrid;
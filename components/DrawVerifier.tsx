@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import type { DrawAudit, DrawCommitment, GameVariant } from '../types';
+import { verifyDraw, type DrawVerification } from '../services/fairDraw';
+import { getVariant } from '../services/variants';
+import InfoCard from './InfoCard';
+
+interface DrawVerifierProps {
+  drawCommitment: DrawCommitment | null;
+  drawnNumbers: number[];
+  globeNumbers: number[];
+  // The room's variant, which the current round is played with
+  gameVariant: GameVariant;
+  lastDrawAudit: DrawAudit | null;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none font-mono text-sm';
+
+const parseNumbers = (text: string) => text.split(/[^\d]+/).filter(Boolean).map(Number);
+
+// Replays a round's draw in the browser from its revealed seed, so anyone can check that the
+// balls came out in the order committed to before the round started.
+const DrawVerifier: React.FC<DrawVerifierProps> = ({ drawCommitment, drawnNumbers, globeNumbers, gameVariant, lastDrawAudit, onClose }) => {
+  // The current round once its seed is revealed, otherwise the previous one
+  const initialAudit: DrawAudit | null = drawCommitment?.serverSeed ? { ...drawCommitment, drawnNumbers, globeNumbers, gameVariant } : lastDrawAudit;
+  // Audits without a variant are of 75-ball rounds
+  const { totalBalls } = getVariant(initialAudit ? initialAudit.gameVariant : gameVariant);
+  const globeBallCount = initialAudit?.globeNumbers?.length ?? 0;
+  const [serverSeed, setServerSeed] = useState(initialAudit?.serverSeed ?? '');
+  const [seedHash, setSeedHash] = useState(initialAudit?.seedHash ?? '');
+  const [publicEntropy, setPublicEntropy] = useState(initialAudit?.publicEntropy ?? '');
+  const [numbers, setNumbers] = useState(initialAudit?.drawnNumbers.join(', ') ?? '');
+  const [result, setResult] = useState<DrawVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      setResult(await verifyDraw(serverSeed.trim(), seedHash, publicEntropy.trim(), parseNumbers(numbers), totalBalls));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const drawn = parseNumbers(numbers);
+  const isValid = result && result.seedMatchesHash && result.matchingBalls === drawn.length;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 flex items-center justify-center">
+      <div className="w-full max-w-2xl space-y-8 relative">
+        <div className="absolute top-0 right-0">
+          <button
+            onClick={onClose}
+            className="bg-blue-500/80 hover:bg-blue-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors"
+            aria-label="Voltar ao jogo"
+          >
+            Voltar
+          </button>
+        </div>
+
+        <h1 className="text-4xl font-black text-center text-sky-300 pt-12 sm:pt-0">Verificar Sorteio</h1>
+
+        {drawCommitment && (
+          <InfoCard icon="🔒" title={`Rodada ${drawCommitment.roundId}`}>
+            <p className="text-sm text-gray-400">Compromisso publicado antes do sorteio (SHA-256 da semente secreta):</p>
+            <p className="font-mono text-xs break-all text-sky-200">{drawCommitment.seedHash}</p>
+            <p className="text-sm text-gray-400">
+              {drawCommitment.serverSeed
+                ? 'A semente desta rodada já foi revelada e pode ser verificada abaixo.'
+                : 'A semente será revelada quando a rodada terminar. Anote o compromisso para conferir depois.'}
+            </p>
+          </InfoCard>
+        )}
+
+        <InfoCard icon="🔍" title="Conferir">
+          <p className="text-sm text-gray-400">
+            A ordem das bolas é 1 a {totalBalls} ordenadas pelo SHA-256 de "semente:entropia:bola". A entropia vem das cartelas vendidas e é fixada no início do jogo.
+          </p>
+          {globeBallCount > 0 && (
+            <p className="text-sm text-yellow-300">
+              🎱 {globeBallCount} {globeBallCount === 1 ? 'bola desta rodada veio' : 'bolas desta rodada vieram'} de um globo físico ({initialAudit!.globeNumbers!.join(', ')}).
+              A semente não decide essas bolas, então a ordem deixa de bater a partir da primeira delas.
+            </p>
+          )}
+          <form onSubmit={handleVerify} className="space-y-3">
+            <label className="block">
+              <span className="block mb-1 font-semibold">Semente revelada</span>
+              <input value={serverSeed} onChange={e => setServerSeed(e.target.value)} className={inputClassName} required />
+            </label>
+            <label className="block">
+              <span className="block mb-1 font-semibold">Compromisso (hash publicado)</span>
+              <input value={seedHash} onChange={e => setSeedHash(e.target.value)} className={inputClassName} required />
+            </label>
+            <label className="block">
+              <span className="block mb-1 font-semibold">Entropia pública</span>
+              <input value={publicEntropy} onChange={e => setPublicEntropy(e.target.value)} className={inputClassName} />
+            </label>
+            <label className="block">
+              <span className="block mb-1 font-semibold">Bolas sorteadas, em ordem</span>
+              <textarea value={numbers} onChange={e => setNumbers(e.target.value)} rows={3} className={inputClassName} />
+            </label>
+            <button
+              type="submit"
+              disabled={isVerifying}
+              className="w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-3 rounded-lg text-lg transition-all disabled:opacity-60"
+            >
+              {isVerifying ? 'Verificando...' : 'Verificar sorteio'}
+            </button>
+          </form>
+
+          {result && (
+            <div className="space-y-2 pt-2">
+              <p className={result.seedMatchesHash ? 'text-green-300' : 'text-red-400'}>
+                {result.seedMatchesHash ? '✅ A semente corresponde ao compromisso publicado.' : '❌ A semente NÃO corresponde ao compromisso publicado.'}
+              </p>
+              <p className={result.matchingBalls === drawn.length ? 'text-green-300' : 'text-red-400'}>
+                {result.matchingBalls === drawn.length
+                  ? `✅ As ${drawn.length} bolas saíram na ordem definida pela semente.`
+                  : `❌ A bola nº ${result.matchingBalls + 1} (${drawn[result.matchingBalls]}) não bate: deveria ser ${result.order[result.matchingBalls]}.`}
+              </p>
+              <div className="flex flex-wrap gap-1 font-mono text-sm">
+                {drawn.map((ball, i) => (
+                  <span
+                    key={i}
+                    className={`px-2 py-1 rounded ${result.order[i] === ball ? 'bg-green-500/30 text-green-200' : 'bg-red-500/30 text-red-200'}`}
+                  >
+                    {ball}
+                  </span>
+                ))}
+              </div>
+              {isValid && <p className="text-lg font-bold text-green-300">Sorteio verificado!</p>}
+            </div>
+          )}
+        </InfoCard>
+      </div>
+    </div>
+  );
+};
+
+export default DrawVerifier;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { CardOrder, ScheduledGame } from '../types';
+import { gameStateService } from '../services/backend';
+import {
+  DEFAULT_COUNTDOWN_SECONDS,
+  MAX_COUNTDOWN_SECONDS,
+  MAX_GAME_NAME_LENGTH,
+  MIN_COUNTDOWN_SECONDS,
+  createScheduledGameId,
+  formatGameDate,
+  formatGameTime,
+  isSalesOpen,
+  isValidScheduledGame,
+} from '../services/schedule';
+
+interface GameScheduleEditorProps {
+  scheduledGames: ScheduledGame[];
+  cardOrders: CardOrder[];
+  currentUserName: string;
+}
+
+const inputClassName = 'bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Books games for a date and time: how long before it card sales open and how long its
+// countdown lasts. The game runner starts each one on time.
+const GameScheduleEditor: React.FC<GameScheduleEditorProps> = ({ scheduledGames, cardOrders, currentUserName }) => {
+  const [name, setName] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [salesHours, setSalesHours] = useState(24);
+  const [countdownSeconds, setCountdownSeconds] = useState(DEFAULT_COUNTDOWN_SECONDS);
+  const [error, setError] = useState<string | null>(null);
+
+  const schedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const start = new Date(startsAt).getTime();
+    const game: ScheduledGame = {
+      id: createScheduledGameId(),
+      name: name.trim(),
+      startsAt: start,
+      salesOpenAt: start - salesHours * HOUR_MS,
+      countdownSeconds,
+    };
+    if (!isValidScheduledGame(game)) {
+      setError(`Dê um nome ao jogo, escolha um horário futuro e uma contagem de ${MIN_COUNTDOWN_SECONDS} a ${MAX_COUNTDOWN_SECONDS} segundos.`);
+      return;
+    }
+    if (await gameStateService.scheduleGame(game)) {
+      setName('');
+      setStartsAt('');
+    } else {
+      setError('Não foi possível agendar o jogo.');
+    }
+  };
+
+  const cancel = async (game: ScheduledGame) => {
+    setError(null);
+    if (!await gameStateService.cancelScheduledGame(game.id, currentUserName)) {
+      setError('Não foi possível cancelar: já há cartelas pagas para este jogo.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={schedule} className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={MAX_GAME_NAME_LENGTH}
+          placeholder="Nome do jogo (ex.: Bingo de Sábado)"
+          className={`${inputClassName} sm:col-span-2`}
+          aria-label="Nome do jogo"
+        />
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Data e hora
+          <input type="datetime-local" value={startsAt} onChange={e => setStartsAt(e.target.value)} className={inputClassName} required />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Vendas abrem (horas antes)
+          <input type="number" min={0} value={salesHours} onChange={e => setSalesHours(Number(e.target.value))} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Contagem regressiva (segundos)
+          <input
+            type="number"
+            min={MIN_COUNTDOWN_SECONDS}
+            max={MAX_COUNTDOWN_SECONDS}
+            value={countdownSeconds}
+            onChange={e => setCountdownSeconds(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+        <button type="submit" className="self-end bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Agendar jogo
+        </button>
+      </form>
+      {error && <p className="text-red-400">{error}</p>}
+
+      <ul className="space-y-2 p-2 max-h-72 overflow-y-auto">
+        {scheduledGames.map(game => {
+          const preOrders = cardOrders.filter(o => o.scheduledGameId === game.id && o.status !== 'cancelled');
+          const cardsSold = preOrders.filter(o => o.status === 'paid').reduce((sum, o) => sum + o.cards.length, 0);
+          return (
+            <li key={game.id} className="flex flex-wrap items-center justify-between gap-2 bg-black/20 rounded-lg p-2">
+              <div>
+                <p className="font-bold text-gray-200">{game.name}</p>
+                <p className="text-sm text-gray-400">{formatGameDate(game.startsAt)}, {formatGameTime(game.startsAt)} · contagem de {game.countdownSeconds}s</p>
+                <p className="text-sm text-gray-400">
+                  {isSalesOpen(game) ? 'Vendas abertas' : `Vendas abrem ${formatGameDate(game.salesOpenAt)}, ${formatGameTime(game.salesOpenAt)}`}
+                  {' · '}{cardsSold} {cardsSold === 1 ? 'cartela paga' : 'cartelas pagas'}
+                </p>
+              </div>
+              <button
+                onClick={() => cancel(game)}
+                className="bg-red-500/80 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors"
+              >
+                Cancelar
+              </button>
+            </li>
+          );
+        })}
+        {scheduledGames.length === 0 && <li className="text-gray-400">Nenhum jogo agendado.</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default GameScheduleEditor;
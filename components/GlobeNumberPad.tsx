@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import type { SharedGameState } from '../types';
+import { gameStateService } from '../services/backend';
+import { canEnterNumber, undoableNumber } from '../services/gameControls';
+import { getVariant } from '../services/variants';
+
+interface GlobeNumberPadProps {
+  gameState: SharedGameState;
+}
+
+// Where the caller enters the balls of a physical globe, typed or tapped. Each one is called and
+// checked for winners like a ball drawn by the backend; the last one can be taken back if it was a typo.
+const GlobeNumberPad: React.FC<GlobeNumberPadProps> = ({ gameState }) => {
+  const { drawnNumbers, isGameActive, isPaused, bingoWinners } = gameState;
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const canEnter = isGameActive && !isPaused && !bingoWinners;
+  const undoable = isGameActive ? undoableNumber(gameState) : null;
+  const drawnSet = new Set(drawnNumbers);
+  const { totalBalls } = getVariant(gameState.gameVariant);
+
+  const enter = async (number: number) => {
+    setError(null);
+    if (!canEnterNumber(gameState, number)) {
+      setError(drawnSet.has(number) ? `A bola ${number} já foi sorteada.` : `Digite um número de 1 a ${totalBalls}.`);
+      return;
+    }
+    if (await gameStateService.enterDrawnNumber(number)) {
+      setTyped('');
+    } else {
+      setError('Não foi possível lançar a bola.');
+    }
+  };
+
+  const undo = async () => {
+    setError(null);
+    if (undoable !== null && !await gameStateService.undoDrawnNumber(undoable)) {
+      setError('Não foi possível desfazer: um prêmio já foi decidido nesta bola.');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={e => { e.preventDefault(); enter(Number(typed)); }} className="flex gap-2">
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1}
+          max={totalBalls}
+          value={typed}
+          onChange={e => setTyped(e.target.value)}
+          disabled={!canEnter}
+          placeholder="Bola do globo"
+          className="flex-1 bg-gray-700 text-white text-2xl font-bold px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none disabled:opacity-50"
+          aria-label="Número da bola sorteada no globo"
+        />
+        <button
+          type="submit"
+          disabled={!canEnter || !typed}
+          className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Lançar
+        </button>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={undoable === null}
+          className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Desfazer{undoable !== null && ` ${undoable}`}
+        </button>
+      </form>
+      {error && <p className="text-red-400">{error}</p>}
+      <div className="grid gap-1" style={{ gridTemplateColumns: 'repeat(15, minmax(0, 1fr))' }}>
+        {Array.from({ length: totalBalls }, (_, i) => i + 1).map(number => (
+          <button
+            key={number}
+            onClick={() => enter(number)}
+            disabled={!canEnter || drawnSet.has(number)}
+            className={`aspect-square rounded text-xs font-bold transition-colors ${drawnSet.has(number) ? 'bg-sky-400 text-slate-900' : 'bg-gray-700 hover:bg-sky-600 text-gray-200'} disabled:cursor-not-allowed`}
+            aria-label={`Lançar a bola ${number}`}
+          >
+            {number}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GlobeNumberPad;
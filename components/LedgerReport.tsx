@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { PayoutLedger } from '../types';
+import { gameStateService, ledgerService } from '../services/backend';
+import { formatMoney, payoutsCsv, roundsCsv } from '../services/ledger';
+
+interface LedgerReportProps {
+  // A new round means the previous one was just recorded
+  roundId: number;
+  charityPercent: number;
+}
+
+const inputClassName = 'bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+const downloadCsv = (fileName: string, csv: string) => {
+  // The BOM makes Excel read the accents correctly
+  const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Money report of the finished rounds: sales, the charity's share and the prizes owed to each
+// winner with their PIX key, which the cashier marks as paid after sending the transfer.
+const LedgerReport: React.FC<LedgerReportProps> = ({ roundId, charityPercent }) => {
+  const [ledger, setLedger] = useState<PayoutLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [charityDraft, setCharityDraft] = useState(String(charityPercent));
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setLedger(await ledgerService.loadLedger());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload, roundId]);
+
+  useEffect(() => {
+    setCharityDraft(String(charityPercent));
+  }, [charityPercent]);
+
+  const handleMarkPaid = async (payoutId: string) => {
+    if (await ledgerService.markPayoutPaid(payoutId)) await reload();
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const pendingPayouts = ledger?.payouts.filter(p => p.status === 'pending') ?? [];
+  const totals = ledger && {
+    revenue: sum(ledger.rounds.map(r => r.revenue)),
+    charity: sum(ledger.rounds.map(r => r.charityAmount)),
+    prizes: sum(ledger.rounds.map(r => r.prizesTotal)),
+    pending: sum(pendingPayouts.map(p => p.amount ?? 0)),
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={async (e) => { e.preventDefault(); await gameStateService.setCharityPercent(Number(charityDraft)); }}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <label htmlFor="charityPercent" className="font-semibold">Parte da caridade:</label>
+        <input
+          id="charityPercent"
+          type="number"
+          min={0}
+          max={100}
+          step="0.1"
+          value={charityDraft}
+          onChange={e => setCharityDraft(e.target.value)}
+          className={`${inputClassName} w-24`}
+        />
+        <span className="text-gray-400">% do arrecadado</span>
+        <button type="submit" className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors">
+          Salvar
+        </button>
+      </form>
+
+      {isLoading && !ledger && <p className="text-gray-400">Carregando...</p>}
+      {!isLoading && !ledger && <p className="text-red-400">Não foi possível carregar a prestação de contas.</p>}
+
+      {ledger && totals && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+            <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Arrecadado</p><p className="font-bold text-sky-300">{formatMoney(totals.revenue)}</p></div>
+            <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Caridade</p><p className="font-bold text-green-300">{formatMoney(totals.charity)}</p></div>
+            <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Prêmios</p><p className="font-bold text-yellow-300">{formatMoney(totals.prizes)}</p></div>
+            <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">A pagar</p><p className="font-bold text-red-300">{formatMoney(totals.pending)}</p></div>
+          </div>
+
+          <h3 className="font-bold text-lg">Prêmios a pagar ({pendingPayouts.length})</h3>
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {pendingPayouts.map(payout => (
+              <li key={payout.id} className="flex flex-wrap items-center justify-between gap-2 bg-black/20 rounded-lg p-2">
+                <div>
+                  <p className="font-medium text-gray-200">
+                    {payout.playerName} — {payout.prizeName} da rodada {payout.roundId}: <span className="text-sky-300">{payout.description}</span>
+                  </p>
+                  <p className="text-xs text-gray-400">Chave PIX: <span className="font-mono text-gray-200">{payout.pixKey ?? 'não cadastrada'}</span></p>
+                </div>
+                <button
+                  onClick={() => handleMarkPaid(payout.id)}
+                  className="bg-green-600 hover:bg-green-700 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors"
+                >
+                  Marcar como pago
+                </button>
+              </li>
+            ))}
+            {pendingPayouts.length === 0 && <li className="text-gray-400">Nenhum prêmio pendente.</li>}
+          </ul>
+
+          <h3 className="font-bold text-lg">Rodadas encerradas ({ledger.rounds.length})</h3>
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-400 text-left">
+                <tr><th className="p-1">Rodada</th><th className="p-1">Cartelas</th><th className="p-1">Arrecadado</th><th className="p-1">Caridade</th><th className="p-1">Prêmios</th></tr>
+              </thead>
+              <tbody>
+                {[...ledger.rounds].reverse().map(round => (
+                  <tr key={round.roundId} className="border-t border-white/10">
+                    <td className="p-1">{round.roundId}</td>
+                    <td className="p-1">{round.cardsSold}</td>
+                    <td className="p-1">{formatMoney(round.revenue)}</td>
+                    <td className="p-1">{formatMoney(round.charityAmount)} ({round.charityPercent}%)</td>
+                    <td className="p-1">{formatMoney(round.prizesTotal)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => downloadCsv(`bingo-rodadas-${today}.csv`, roundsCsv(ledger))}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Exportar rodadas (CSV)
+            </button>
+            <button
+              onClick={() => downloadCsv(`bingo-premios-${today}.csv`, payoutsCsv(ledger))}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Exportar prêmios (CSV)
+            </button>
+            <button onClick={reload} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              Atualizar
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LedgerReport;
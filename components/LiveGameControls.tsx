@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import type { DrawMode, RoundOutcome, SharedGameState } from '../types';
+import { gameStateService } from '../services/backend';
+import { MAX_END_REASON_LENGTH, describeRoundEnding, drawIntervalOptions, isValidEndReason } from '../services/gameControls';
+import GlobeNumberPad from './GlobeNumberPad';
+
+interface LiveGameControlsProps {
+  gameState: SharedGameState;
+  currentUserName: string;
+}
+
+const drawModeOptions: { value: DrawMode; label: string }[] = [
+  { value: 'auto', label: 'Automático' },
+  { value: 'manual', label: 'Manual' },
+  { value: 'globe', label: 'Globo físico' },
+];
+
+const inputClassName = 'bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+// The staff's hands on the round being played: pause, pace of the draw, calling the balls by hand
+// or from a physical globe, and stopping the round before its last prize.
+const LiveGameControls: React.FC<LiveGameControlsProps> = ({ gameState, currentUserName }) => {
+  const { isGameActive, isPaused, drawMode, drawIntervalMs, preGameCountdown, bingoWinners, drawnNumbers, roundEnding } = gameState;
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const canPause = isGameActive || preGameCountdown !== null;
+  const canDraw = isGameActive && !isPaused && !bingoWinners;
+  const canEndRound = isGameActive && drawnNumbers.length > 0;
+  const lastNumber = drawnNumbers[drawnNumbers.length - 1];
+
+  const status = roundEnding
+    ? describeRoundEnding(roundEnding)
+    : isPaused ? 'Pausado'
+    : isGameActive ? `Sorteio em andamento (${drawnNumbers.length} bolas)`
+    : preGameCountdown !== null ? `Contagem regressiva: ${preGameCountdown}`
+    : bingoWinners ? 'Rodada encerrada' : 'Aguardando o início';
+
+  const endRound = async (outcome: RoundOutcome) => {
+    setError(null);
+    if (!isValidEndReason(outcome, reason)) {
+      setError('Informe o motivo para anular a rodada.');
+      return;
+    }
+    if (await gameStateService.endRound(outcome, reason, currentUserName)) {
+      setReason('');
+    } else {
+      setError('Não foi possível encerrar a rodada.');
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-gray-300">Situação: <span className="font-bold text-sky-300">{status}</span></p>
+        <button
+          onClick={async () => await gameStateService.setPaused(!isPaused)}
+          disabled={!canPause}
+          className="bg-yellow-500/80 hover:bg-yellow-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isPaused ? '▶️ Retomar' : '⏸️ Pausar'}
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <span className="text-sm text-gray-400">Sorteio:</span>
+        {drawModeOptions.map(option => (
+          <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="drawMode"
+              value={option.value}
+              checked={drawMode === option.value}
+              onChange={async () => await gameStateService.setDrawMode(option.value)}
+              className="form-radio h-5 w-5 text-sky-500 bg-gray-700 border-gray-600 focus:ring-sky-600"
+            />
+            <span className="font-semibold">{option.label}</span>
+          </label>
+        ))}
+      </div>
+
+      {drawMode === 'auto' ? (
+        <label className="flex items-center gap-3 text-sm text-gray-300">
+          Intervalo entre bolas
+          <select
+            value={drawIntervalMs ?? ''}
+            onChange={async (e) => await gameStateService.setDrawInterval(e.target.value ? Number(e.target.value) : null)}
+            className={inputClassName}
+          >
+            {drawIntervalOptions.map(option => (
+              <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      ) : drawMode === 'globe' ? (
+        <GlobeNumberPad gameState={gameState} />
+      ) : (
+        <div className="flex items-center gap-4">
+          <button
+            onClick={async () => await gameStateService.drawNextNumber()}
+            disabled={!canDraw}
+            className="flex-1 bg-sky-600 hover:bg-sky-700 text-white font-bold py-3 px-4 rounded-lg text-xl transition-colors disabled:opacity-50"
+          >
+            Próxima bola
+          </button>
+          <span className="text-4xl font-black text-sky-300 w-16 text-center" aria-label="Última bola">{lastNumber ?? '-'}</span>
+        </div>
+      )}
+
+      {canEndRound && (
+        <div className="space-y-2 border-t border-gray-700 pt-3">
+          <input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            maxLength={MAX_END_REASON_LENGTH}
+            placeholder="Motivo (obrigatório para anular)"
+            className={`${inputClassName} w-full`}
+            aria-label="Motivo do encerramento"
+          />
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              onClick={() => endRound('noWinner')}
+              className="flex-1 bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Encerrar sem vencedor
+            </button>
+            <button
+              onClick={() => endRound('voided')}
+              className="flex-1 bg-red-500/80 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              Anular rodada
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">Encerrar mantém os prêmios já entregues; anular desfaz todos os prêmios da rodada.</p>
+        </div>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LiveGameControls;
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Room, RoomListing } from '../types';
+import { roomService } from '../services/backend';
+import { MAX_ROOM_NAME_LENGTH, invitedRoomCode, isValidRoomName } from '../services/rooms';
+import { formatGameDate, formatGameTime, isSalesOpen, upcomingGames } from '../services/schedule';
+import InfoCard from './InfoCard';
+
+interface LobbyProps {
+  currentUserName: string;
+  // The code of the last room entered on this device, offered again
+  lastRoomId: string | null;
+  onEnterRoom: (room: Room) => Promise<boolean>;
+  onLogout: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+// Where players pick a game: the calendar of scheduled games and the open rooms, joining a private
+// one by its code (invite links carry it in the URL and join straight away), or opening a room of
+// their own.
+const Lobby: React.FC<LobbyProps> = ({ currentUserName, lastRoomId, onEnterRoom, onLogout }) => {
+  const [rooms, setRooms] = useState<RoomListing[] | null>(null);
+  const [code, setCode] = useState(lastRoomId ?? '');
+  const [roomName, setRoomName] = useState('');
+  const [isPublic, setIsPublic] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const hasFollowedInviteRef = useRef(false);
+
+  const refreshRooms = () => roomService.listRooms().then(setRooms);
+  const calendar = useMemo(() => upcomingGames(rooms ?? []), [rooms]);
+
+  const enter = async (room: Room) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      if (!await onEnterRoom(room)) setError('Não foi possível entrar na sala. Tente novamente.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const joinByCode = async (roomCode: string) => {
+    setError(null);
+    const room = await roomService.findRoom(roomCode);
+    if (room) {
+      await enter(room);
+    } else {
+      setError('Nenhuma sala com este código.');
+    }
+  };
+
+  useEffect(() => {
+    refreshRooms();
+    const invited = invitedRoomCode();
+    if (invited && !hasFollowedInviteRef.current) {
+      hasFollowedInviteRef.current = true;
+      // Leaving the room later shouldn't send the player straight back in
+      window.history.replaceState(null, '', window.location.pathname);
+      setCode(invited);
+      joinByCode(invited);
+    }
+  }, []);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) await joinByCode(code);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!isValidRoomName(roomName)) {
+      setError(`O nome da sala deve ter entre 1 e ${MAX_ROOM_NAME_LENGTH} caracteres.`);
+      return;
+    }
+    setIsBusy(true);
+    const room = await roomService.createRoom(roomName, isPublic);
+    setIsBusy(false);
+    if (room) {
+      await enter(room);
+    } else {
+      setError('Não foi possível criar a sala. Tente novamente.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8">
+      <div className="max-w-5xl mx-auto space-y-8 relative">
+        <div className="absolute top-0 right-0">
+          <button
+            onClick={onLogout}
+            className="bg-red-500/80 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors"
+            aria-label="Sair do sistema"
+          >
+            Sair
+          </button>
+        </div>
+
+        <div className="text-center pt-12 sm:pt-0">
+          <h1 className="text-5xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-blue-500">Bingo do Fabão</h1>
+          <p className="text-xl text-gray-300 mt-2">Olá, {currentUserName}! Escolha uma sala para jogar.</p>
+        </div>
+
+        {error && <p className="text-center text-red-400 font-bold">{error}</p>}
+
+        {calendar.length > 0 && (
+          <InfoCard icon="📅" title="Agenda de Jogos">
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+              {calendar.map(({ game, room }, index) => {
+                const day = formatGameDate(game.startsAt);
+                const isNewDay = index === 0 || formatGameDate(calendar[index - 1].game.startsAt) !== day;
+                return (
+                  <li key={game.id}>
+                    {isNewDay && <h3 className="font-bold text-sky-300 capitalize pt-2">{day}</h3>}
+                    <button
+                      onClick={() => enter(room)}
+                      disabled={isBusy}
+                      className="w-full text-left p-3 rounded-lg border border-gray-700 bg-black/20 hover:border-sky-400 transition-colors disabled:opacity-60 flex flex-wrap items-center justify-between gap-2"
+                    >
+                      <span>
+                        <span className="font-mono font-bold text-lg mr-3">{formatGameTime(game.startsAt)}</span>
+                        <span className="font-bold">{game.name}</span>
+                        <span className="text-gray-400"> · {room.name}</span>
+                      </span>
+                      {isSalesOpen(game) && <span className="text-sm text-green-300">Cartelas à venda</span>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </InfoCard>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <InfoCard icon="🚪" title="Salas abertas">
+            {rooms === null && <p className="text-gray-400">Carregando...</p>}
+            {rooms?.length === 0 && <p className="text-gray-400">Nenhuma sala aberta no momento. Que tal criar uma?</p>}
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {rooms?.map(room => (
+                <li key={room.id}>
+                  <button
+                    onClick={() => enter(room)}
+                    disabled={isBusy}
+                    className="w-full text-left p-3 rounded-lg border border-gray-700 bg-black/20 hover:border-sky-400 transition-colors disabled:opacity-60"
+                  >
+                    <span className="font-bold text-lg">{room.name}</span>
+                    <span className="block text-sm text-gray-400">
+                      Apresentado por {room.hostName || '-'} · {room.onlineCount} {room.onlineCount === 1 ? 'jogador online' : 'jogadores online'}
+                    </span>
+                    <span className={`block text-sm ${room.isGameActive ? 'text-green-300' : 'text-yellow-300'}`}>
+                      {room.isGameActive ? 'Jogo em andamento' : 'Vendendo cartelas'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button onClick={refreshRooms} className="w-full bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              Atualizar lista
+            </button>
+          </InfoCard>
+
+          <div className="space-y-8">
+            <InfoCard icon="🔑" title="Entrar com código">
+              <form onSubmit={handleJoin} className="flex gap-2">
+                <input
+                  value={code}
+                  onChange={e => setCode(e.target.value.toUpperCase())}
+                  placeholder="Ex.: K7QX2M"
+                  className={`${inputClassName} font-mono tracking-widest uppercase`}
+                  aria-label="Código da sala"
+                />
+                <button type="submit" disabled={isBusy || !code.trim()} className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-60">
+                  Entrar
+                </button>
+              </form>
+            </InfoCard>
+
+            <InfoCard icon="✨" title="Criar uma sala">
+              <form onSubmit={handleCreate} className="space-y-3">
+                <input
+                  value={roomName}
+                  onChange={e => setRoomName(e.target.value)}
+                  maxLength={MAX_ROOM_NAME_LENGTH}
+                  placeholder="Nome da sala"
+                  className={inputClassName}
+                  aria-label="Nome da sala"
+                />
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={!isPublic} onChange={e => setIsPublic(!e.target.checked)} className="accent-sky-400" />
+                  <span>Sala privada (só entra quem tiver o código)</span>
+                </label>
+                <button type="submit" disabled={isBusy} className="w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-60">
+                  Criar sala
+                </button>
+              </form>
+            </InfoCard>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Lobby;
@@ -0,0 +1,94 @@
+import React, { memo } from 'react';
+import type { CardData } from '../types';
+import { FREE_SPACE, cardRows, isBingoCardData } from '../services/variants';
+import ProgressBadge from './ProgressBadge';
+
+interface MiniBingoCardProps {
+  cardId: string;
+  // "Cartela 3 · #0421"
+  label: string;
+  cardData: CardData;
+  // Numbers marked on the card; the same Set until one of its cells changes, so the card only redraws then
+  marks: Set<number>;
+  // Unmarked numbers the card needs for the prize in play, same rule as `marks`
+  highlightedNumbers?: Set<number>;
+  missingCells?: number;
+  isWinner: boolean;
+  isForfeited: boolean;
+  isClickable: boolean;
+  onCellClick: (cardId: string, num: number) => void;
+}
+
+// Column colors of BingoCard, for the marked cells
+const colors = ['#EF4444', '#3B82F6', '#22C55E', '#EAB308', '#A855F7', '#F97316', '#14B8A6', '#EC4899', '#6366F1'];
+
+export const MINI_CELL_PX = 24;
+export const MINI_GAP_PX = 2;
+// Padding around the grid and the label line above it
+export const MINI_CHROME_PX = 40;
+
+/** Height of a mini card: every card of a round has the same layout. */
+export const miniCardHeight = (cardData: CardData): number => {
+  const rowCount = cardRows(cardData).length + (isBingoCardData(cardData) ? 1 : 0);
+  return MINI_CHROME_PX + rowCount * (MINI_CELL_PX + MINI_GAP_PX);
+};
+
+export const miniCardMinWidth = (cardData: CardData): number =>
+  Math.max(140, (cardRows(cardData)[0]?.length ?? 0) * (MINI_CELL_PX + MINI_GAP_PX) + 12);
+
+// A card in a few hundred pixels, for the grid of a player holding dozens of them: plain cells and
+// no balls over the columns.
+const MiniBingoCard: React.FC<MiniBingoCardProps> = ({
+  cardId, label, cardData, marks, highlightedNumbers, missingCells, isWinner, isForfeited, isClickable, onCellClick,
+}) => {
+  const rows = cardRows(cardData);
+  const headers = isBingoCardData(cardData) ? ['B', 'I', 'N', 'G', 'O'] : [];
+
+  return (
+    <div
+      className={`h-full p-1.5 rounded-lg bg-slate-800/70 border ${isWinner ? 'border-sky-400 ring-2 ring-sky-400' : 'border-blue-500/40'} ${isForfeited ? 'opacity-50' : ''}`}
+    >
+      <div className="flex items-center justify-between h-6 mb-1 text-xs font-bold text-gray-300 truncate">
+        <span className="truncate">{label}{isForfeited && <span className="text-red-400"> · anulada</span>}</span>
+        <ProgressBadge missingCells={missingCells} className="text-xs" />
+      </div>
+      <div className="grid" style={{ gridTemplateColumns: `repeat(${rows[0]?.length ?? 0}, minmax(0, 1fr))`, gap: MINI_GAP_PX, gridAutoRows: MINI_CELL_PX }}>
+        {headers.map((letter, index) => (
+          <div key={letter} className="flex items-center justify-center rounded-sm text-xs font-black text-white" style={{ backgroundColor: colors[index] }}>{letter}</div>
+        ))}
+        {rows.flatMap((row, rowIndex) => row.map((num, colIndex) => {
+          const key = rowIndex * row.length + colIndex;
+          if (num === null) return <div key={key} className="rounded-sm bg-slate-700/60" aria-hidden="true" />;
+          const isFreeSpace = num === FREE_SPACE;
+          const isMarked = isFreeSpace || marks.has(num as number);
+          const isNeeded = !isMarked && !!highlightedNumbers?.has(num as number);
+          return (
+            <div
+              key={key}
+              className={`flex items-center justify-center rounded-sm text-xs font-bold
+                ${isMarked ? 'text-white' : 'bg-white/80 text-slate-900'}
+                ${isNeeded ? 'ring-2 ring-yellow-400' : ''}
+                ${isClickable && !isFreeSpace ? 'cursor-pointer' : ''}`}
+              style={isMarked ? { backgroundColor: isFreeSpace ? '#38BDF8' : colors[colIndex] } : undefined}
+              onClick={() => isClickable && typeof num === 'number' && onCellClick(cardId, num)}
+              role="button"
+              aria-pressed={isMarked}
+              aria-label={`Número ${num}`}
+            >
+              {isFreeSpace ? '★' : num}
+            </div>
+          );
+        }))}
+      </div>
+    </div>
+  );
+};
+
+// Each poll brings new card objects: a card's numbers never change, so its id stands for its cardData
+const isSameCard = (prev: MiniBingoCardProps, next: MiniBingoCardProps): boolean =>
+  prev.cardId === next.cardId && prev.label === next.label && prev.marks === next.marks
+  && prev.highlightedNumbers === next.highlightedNumbers && prev.missingCells === next.missingCells
+  && prev.isWinner === next.isWinner && prev.isForfeited === next.isForfeited
+  && prev.isClickable === next.isClickable && prev.onCellClick === next.onCellClick;
+
+export default memo(MiniBingoCard, isSameCard);
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import type { GeneratedCard, Room, SharedGameState } from '../types';
+import { gameStateService } from '../services/backend';
+import { MAX_PAPER_BATCH, isPaperCard, nextPaperCards } from '../services/paperCards';
+import { createOrderId } from '../services/pix';
+import { activePriceTable, priceForCards } from '../services/pricing';
+import { formatMoney } from '../services/ledger';
+import { isRoundOver } from '../services/schedule';
+import PaperCardSheet from './PaperCardSheet';
+
+interface PaperCardSalesProps {
+  gameState: SharedGameState;
+  room: Room;
+  currentUserName: string;
+}
+
+// The counter of a hybrid event: the cashier sells a batch of paper cards for cash, which registers
+// them with the round and the accounts, then prints them.
+const PaperCardSales: React.FC<PaperCardSalesProps> = ({ gameState, room, currentUserName }) => {
+  const { roundId, isGameActive, generatedCards } = gameState;
+  const [quantity, setQuantity] = useState(1);
+  const [isSelling, setIsSelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Cards to print: the batch just sold, or every paper card of the round for a reprint
+  const [printBatch, setPrintBatch] = useState<GeneratedCard[]>([]);
+  const canSell = !isGameActive && !isRoundOver(gameState);
+  const paperCards = generatedCards.filter(isPaperCard);
+  // Dropped once the next round starts
+  const batchOfRound = useMemo(
+    () => printBatch.filter(card => generatedCards.some(c => c.id === card.id)),
+    [printBatch, generatedCards],
+  );
+
+  const sell = async () => {
+    setError(null);
+    setIsSelling(true);
+    try {
+      const cards = nextPaperCards(gameState, currentUserName, quantity);
+      if (!await gameStateService.sellPaperCards(createOrderId(), currentUserName, cards)) {
+        throw new Error('Não foi possível registrar as cartelas. O jogo já começou?');
+      }
+      setPrintBatch(cards);
+      setQuantity(1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao gerar cartela.');
+    } finally {
+      setIsSelling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-2">
+      <p className="text-sm text-gray-400">Cartelas vendidas em dinheiro no caixa. Elas entram na rodada e na prestação de contas, e o bingo é conferido pelo número de série ou QR code.</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Quantidade
+          <input
+            type="number"
+            min={1}
+            max={MAX_PAPER_BATCH}
+            value={quantity}
+            onChange={e => setQuantity(Math.max(1, Math.min(MAX_PAPER_BATCH, Number(e.target.value) || 1)))}
+            disabled={!canSell || isSelling}
+            className="w-20 bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none disabled:opacity-50"
+          />
+        </label>
+        <span>Receber: <span className="font-bold text-sky-300">{formatMoney(priceForCards(quantity, activePriceTable(gameState)))}</span></span>
+        <button
+          onClick={sell}
+          disabled={!canSell || isSelling}
+          className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSelling ? 'Registrando...' : 'Vender e imprimir'}
+        </button>
+      </div>
+      {!canSell && <p className="text-sm text-yellow-300">As vendas desta rodada estão encerradas.</p>}
+      {error && <p className="text-red-400">{error}</p>}
+
+      {batchOfRound.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t border-gray-700 pt-3">
+          <p className="text-sm text-gray-300">
+            {batchOfRound.length} {batchOfRound.length === 1 ? 'cartela' : 'cartelas'}: <span className="font-mono">{batchOfRound.map(c => c.serial).join(', ')}</span>
+          </p>
+          <button
+            onClick={() => window.print()}
+            className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            🖨️ Imprimir
+          </button>
+          <PaperCardSheet room={room} roundId={roundId} cards={batchOfRound} />
+        </div>
+      )}
+      {paperCards.length > 0 && (
+        <button onClick={() => setPrintBatch(paperCards)} className="text-sm text-sky-300 hover:underline">
+          Reimprimir todas as cartelas de papel da rodada ({paperCards.length})
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PaperCardSales;
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import QRCode from 'qrcode';
+import type { GeneratedCard, Room } from '../types';
+import { CARDS_PER_PAGE, paperCardLink } from '../services/paperCards';
+import { cardRows, isBingoCardData } from '../services/variants';
+
+interface PaperCardSheetProps {
+  room: Room;
+  roundId: number;
+  cards: GeneratedCard[];
+}
+
+const PrintedCard: React.FC<{ room: Room; roundId: number; card: GeneratedCard; qrCodeUrl?: string }> = ({ room, roundId, card, qrCodeUrl }) => {
+  const headers = isBingoCardData(card.cardData) ? ['B', 'I', 'N', 'G', 'O'] : [];
+  const rows = cardRows(card.cardData);
+  // 90-ball tickets have nine narrow columns
+  const isWide = rows[0].length > 5;
+  return (
+    <div className="border-2 border-black rounded-lg p-3 flex flex-col gap-2 text-black">
+      <div className="flex justify-between text-sm font-semibold">
+        <span>{room.name}</span>
+        <span>Rodada {roundId}</span>
+      </div>
+      <div className="grid border-t border-l border-black" style={{ gridTemplateColumns: `repeat(${rows[0].length}, minmax(0, 1fr))` }}>
+        {headers.map(letter => (
+          <div key={letter} className="border-r border-b border-black text-center text-2xl font-black py-1">{letter}</div>
+        ))}
+        {rows.flat().map((num, index) => (
+          <div key={index} className={`border-r border-b border-black text-center font-bold py-2 ${isWide ? 'text-lg' : 'text-2xl'} ${num === null ? 'bg-gray-300' : ''}`}>
+            {typeof num === 'number' ? num : num === null ? '' : '★'}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        {qrCodeUrl && <img src={qrCodeUrl} alt="" className="w-24 h-24" />}
+        <div>
+          <p className="font-mono text-2xl font-bold tracking-widest">#{card.serial}</p>
+          <p className="text-xs">Ao gritar BINGO, entregue esta cartela para a conferência.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// The cards as printed: A4 pages of CARDS_PER_PAGE, each with its serial and a QR code that opens
+// its check. Rendered outside the app's root, which the print stylesheet (index.html) hides.
+const PaperCardSheet: React.FC<PaperCardSheetProps> = ({ room, roundId, cards }) => {
+  const [qrCodeUrls, setQrCodeUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let isCurrent = true;
+    Promise.all(cards.map(async card => [card.id, await QRCode.toDataURL(paperCardLink(room.id, card.serial!), { margin: 1, width: 200 })]))
+      .then(entries => { if (isCurrent) setQrCodeUrls(Object.fromEntries(entries)); })
+      .catch(error => console.error('Failed to render the paper card QR codes:', error));
+    return () => { isCurrent = false; };
+  }, [cards, room.id]);
+
+  const pages = Array.from({ length: Math.ceil(cards.length / CARDS_PER_PAGE) }, (_, i) => cards.slice(i * CARDS_PER_PAGE, (i + 1) * CARDS_PER_PAGE));
+
+  return createPortal(
+    <div className="print-sheet bg-white">
+      {pages.map((page, index) => (
+        <div key={index} className="print-page grid grid-cols-2 gap-4">
+          {page.map(card => <PrintedCard key={card.id} room={room} roundId={roundId} card={card} qrCodeUrl={qrCodeUrls[card.id]} />)}
+        </div>
+      ))}
+    </div>,
+    document.body,
+  );
+};
+
+export default PaperCardSheet;
@@ -0,0 +1,83 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { SharedGameState } from '../types';
+import { gameStateService } from '../services/backend';
+import { checkPaperCard, normalizeSerial, paperCardVerdictLabels } from '../services/paperCards';
+import BingoCard from './BingoCard';
+
+interface PaperCardVerifierProps {
+  gameState: SharedGameState;
+  // Serial of the card whose QR code opened the app, checked right away
+  scannedSerial: string | null;
+}
+
+const noMarks = new Set<number | string>();
+
+// Where a host checks a bingo shouted on a paper card: the card, marked with the balls drawn so far,
+// and whether it completes the prize in play. A winning card is awarded once the host confirms it.
+const PaperCardVerifier: React.FC<PaperCardVerifierProps> = ({ gameState, scannedSerial }) => {
+  const [typed, setTyped] = useState(scannedSerial ?? '');
+  const [serial, setSerial] = useState(scannedSerial);
+  const [message, setMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const drawnSet = useMemo(() => new Set<number | string>(gameState.drawnNumbers), [gameState.drawnNumbers]);
+  // Follows the draw, so a card shouted a ball too early shows as a winner once it completes
+  const check = serial ? checkPaperCard(gameState, serial) : null;
+  const isWinner = check?.verdict === 'winner' || check?.verdict === 'coWinner';
+
+  useEffect(() => {
+    if (scannedSerial) containerRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [scannedSerial]);
+
+  const confirm = async () => {
+    if (!serial) return;
+    const awarded = await gameStateService.claimPaperCard(serial);
+    setMessage(awarded ? 'Prêmio registrado para a cartela de papel.' : 'Não foi possível registrar o prêmio: confira a cartela de novo.');
+  };
+
+  return (
+    <div ref={containerRef} className="space-y-3 p-2">
+      <form
+        onSubmit={e => { e.preventDefault(); setMessage(null); setSerial(typed.trim() ? normalizeSerial(typed) : null); }}
+        className="flex gap-2"
+      >
+        <input
+          value={typed}
+          onChange={e => setTyped(e.target.value)}
+          placeholder="Número da cartela, ex.: 0421"
+          className="flex-1 bg-gray-700 text-white font-mono px-3 py-2 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none"
+          aria-label="Número de série da cartela de papel"
+        />
+        <button type="submit" className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Conferir
+        </button>
+      </form>
+      <p className="text-xs text-gray-400">Ou aponte a câmera do celular para o QR code da cartela.</p>
+
+      {check && (
+        <div className="space-y-3">
+          <p className={`text-lg font-bold ${isWinner ? 'text-green-300' : check.verdict === 'notWinner' || check.verdict === 'late' ? 'text-yellow-300' : 'text-red-400'}`}>
+            {paperCardVerdictLabels[check.verdict]}
+            {check.missingCells !== null && ` (faltam ${check.missingCells})`}
+          </p>
+          {check.card && (
+            <>
+              <p className="text-sm text-gray-400">Cartela #{check.card.serial} · vendida por {check.card.owner}</p>
+              <BingoCard cardData={check.card.cardData} drawnNumbers={drawnSet} isAutoMarking manualMarks={noMarks} onCellClick={() => {}} />
+            </>
+          )}
+          {isWinner && (
+            <button
+              onClick={confirm}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg text-xl transition-colors"
+            >
+              Confirmar bingo
+            </button>
+          )}
+        </div>
+      )}
+      {message && <p className="text-sky-300">{message}</p>}
+    </div>
+  );
+};
+
+export default PaperCardVerifier;
@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import type { CardOrder, PixReceiver } from '../types';
+import { buildPixPayload } from '../services/pix';
+import InfoCard from './InfoCard';
+
+interface PixPaymentProps {
+  order: CardOrder;
+  receiver: PixReceiver | null;
+}
+
+// Pending order of the signed-in player: PIX QR code and "copia e cola" for the exact amount.
+// The cards show up on the player's screen as soon as the cashier (or provider) confirms it.
+const PixPayment: React.FC<PixPaymentProps> = ({ order, receiver }) => {
+  const payload = useMemo(() => receiver ? buildPixPayload(receiver, order.amount, order.id) : null, [receiver, order.amount, order.id]);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setQrCodeUrl(null);
+    if (!payload) return;
+    let isCurrent = true;
+    QRCode.toDataURL(payload, { margin: 1, width: 240 })
+      .then(url => { if (isCurrent) setQrCodeUrl(url); })
+      .catch(error => console.error('Failed to render the PIX QR code:', error));
+    return () => { isCurrent = false; };
+  }, [payload]);
+
+  const handleCopy = async () => {
+    if (!payload) return;
+    await navigator.clipboard.writeText(payload);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <InfoCard icon="💠" title="Pagamento via PIX">
+      <div className="flex flex-col items-center gap-3 text-center">
+        <p className="text-lg">
+          {order.cards.length} {order.cards.length === 1 ? 'cartela' : 'cartelas'} — <span className="font-bold text-sky-300">R$ {order.amount.toFixed(2)}</span>
+        </p>
+        {payload ? (
+          <>
+            {qrCodeUrl && <img src={qrCodeUrl} alt="QR Code PIX" className="w-60 h-60 rounded-lg bg-white p-2" />}
+            <p className="text-sm text-gray-400">Recebedor: {receiver?.name}</p>
+            <button
+              onClick={handleCopy}
+              className="bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              {copied ? 'Copiado!' : 'Copiar código PIX (copia e cola)'}
+            </button>
+          </>
+        ) : (
+          <p className="text-gray-300">Pague ao caixa e informe o código do pedido.</p>
+        )}
+        <p className="text-sm text-gray-400">Pedido <span className="font-mono text-gray-200">{order.id}</span></p>
+        <p className="text-sm text-yellow-300 animate-pulse">Aguardando confirmação do pagamento...</p>
+      </div>
+    </InfoCard>
+  );
+};
+
+export default PixPayment;
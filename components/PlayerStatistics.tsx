@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RoundArchive } from '../types';
+import { historyService } from '../services/backend';
+import { buildPlayerStats, monthOf, rankPlayers } from '../services/stats';
+import { getWinPattern } from '../services/patterns';
+import { formatMoney } from '../services/ledger';
+import InfoCard from './InfoCard';
+
+interface PlayerStatisticsProps {
+  currentUserName: string;
+  onClose: () => void;
+}
+
+const ALL_TIME = 'all';
+
+const monthLabel = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+};
+
+const formatBalls = (balls: number | null) => balls === null ? '-' : balls.toFixed(1).replace('.', ',');
+
+// Leaderboard (all-time or for one month) and the detailed numbers of one player, worked out
+// from the archived rounds.
+const PlayerStatistics: React.FC<PlayerStatisticsProps> = ({ currentUserName, onClose }) => {
+  const [rounds, setRounds] = useState<RoundArchive[] | null>(null);
+  const [period, setPeriod] = useState(ALL_TIME);
+  const [selectedPlayer, setSelectedPlayer] = useState(currentUserName);
+
+  useEffect(() => {
+    historyService.loadAllRounds().then(setRounds);
+  }, []);
+
+  const months = useMemo(
+    () => Array.from(new Set((rounds ?? []).map(r => monthOf(r.finishedAt)))).sort().reverse(),
+    [rounds],
+  );
+  const leaderboard = useMemo(() => {
+    const inPeriod = (rounds ?? []).filter(r => period === ALL_TIME || monthOf(r.finishedAt) === period);
+    return rankPlayers(buildPlayerStats(inPeriod));
+  }, [rounds, period]);
+  const player = leaderboard.find(p => p.playerName === selectedPlayer);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8">
+      <div className="max-w-5xl mx-auto space-y-8 relative">
+        <div className="absolute top-0 right-0">
+          <button
+            onClick={onClose}
+            className="bg-blue-500/80 hover:bg-blue-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors"
+            aria-label="Voltar ao jogo"
+          >
+            Voltar
+          </button>
+        </div>
+
+        <h1 className="text-4xl font-black text-center text-sky-300 pt-12 sm:pt-0">Estatísticas e Ranking</h1>
+
+        <div className="flex justify-center">
+          <select
+            value={period}
+            onChange={e => setPeriod(e.target.value)}
+            className="bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600"
+            aria-label="Período"
+          >
+            <option value={ALL_TIME}>Todos os tempos</option>
+            {months.map(month => <option key={month} value={month}>{monthLabel(month)}</option>)}
+          </select>
+        </div>
+
+        {rounds === null && <p className="text-center text-gray-400">Carregando...</p>}
+
+        {rounds && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <InfoCard icon="🏆" title="Ranking">
+              {leaderboard.length === 0 ? (
+                <p className="text-gray-400">Nenhuma rodada encerrada neste período.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-gray-400 text-left">
+                    <tr><th className="p-1">#</th><th className="p-1">Jogador</th><th className="p-1">Prêmios</th><th className="p-1">Ganhos</th><th className="p-1">Média de bolas</th></tr>
+                  </thead>
+                  <tbody>
+                    {leaderboard.map((stats, index) => (
+                      <tr
+                        key={stats.playerName}
+                        onClick={() => setSelectedPlayer(stats.playerName)}
+                        className={`border-t border-white/10 cursor-pointer hover:bg-white/5 ${stats.playerName === selectedPlayer ? 'bg-sky-400/20' : ''}`}
+                      >
+                        <td className="p-1">{index + 1}º</td>
+                        <td className="p-1 font-medium">{stats.playerName}</td>
+                        <td className="p-1">{stats.wins}</td>
+                        <td className="p-1">{formatMoney(stats.moneyWon)}</td>
+                        <td className="p-1">{formatBalls(stats.averageBallsToWin)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </InfoCard>
+
+            <InfoCard icon="📊" title={selectedPlayer}>
+              {player ? (
+                <>
+                  <div className="grid grid-cols-2 gap-2 text-center">
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Rodadas jogadas</p><p className="font-bold text-sky-300 text-xl">{player.roundsPlayed}</p></div>
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Cartelas compradas</p><p className="font-bold text-sky-300 text-xl">{player.cardsBought}</p></div>
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Prêmios</p><p className="font-bold text-yellow-300 text-xl">{player.wins}</p></div>
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Ganhos</p><p className="font-bold text-green-300 text-xl">{formatMoney(player.moneyWon)}</p></div>
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Faltou uma bola</p><p className="font-bold text-red-300 text-xl">{player.nearMisses}</p></div>
+                    <div className="bg-black/20 rounded-lg p-2"><p className="text-xs text-gray-400">Média de bolas para ganhar</p><p className="font-bold text-sky-300 text-xl">{formatBalls(player.averageBallsToWin)}</p></div>
+                  </div>
+                  <h3 className="font-bold text-lg">Prêmios por padrão</h3>
+                  <ul className="space-y-1 text-sm">
+                    {Object.entries(player.winsByPattern).map(([pattern, wins]) => (
+                      <li key={pattern} className="flex justify-between"><span>{getWinPattern(pattern).name}</span><span className="font-bold">{wins}</span></li>
+                    ))}
+                    {player.wins === 0 && <li className="text-gray-400">Nenhum prêmio ainda.</li>}
+                  </ul>
+                </>
+              ) : (
+                <p className="text-gray-400">Não jogou nenhuma rodada neste período.</p>
+              )}
+            </InfoCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerStatistics;
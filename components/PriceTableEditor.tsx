@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { CardBundle, PriceTable } from '../types';
+import { gameStateService } from '../services/backend';
+import { isValidPriceTable } from '../services/pricing';
+
+interface PriceTableEditorProps {
+  priceTable: PriceTable;
+  roundPriceTable: PriceTable | null;
+}
+
+const inputClassName = 'bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+// Card bundles for sale. The same draft can become the regular table or a special one for the
+// current round only, which the next round drops.
+const PriceTableEditor: React.FC<PriceTableEditorProps> = ({ priceTable, roundPriceTable }) => {
+  const [draft, setDraft] = useState<PriceTable>(roundPriceTable ?? priceTable);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateBundle = (index: number, changes: Partial<CardBundle>) =>
+    setDraft(current => current.map((b, i) => i === index ? { ...b, ...changes } : b));
+
+  const addBundle = () =>
+    setDraft(current => {
+      const quantity = Math.max(0, ...current.map(b => b.quantity)) + 1;
+      return [...current, { quantity, price: 0 }];
+    });
+
+  const save = async (roundOnly: boolean) => {
+    setError(null);
+    const table = [...draft]
+      .map(b => ({ quantity: b.quantity, price: b.price, ...(b.label?.trim() ? { label: b.label.trim() } : {}) }))
+      .sort((a, b) => a.quantity - b.quantity);
+    if (!isValidPriceTable(table)) {
+      setError('Inclua o preço de 1 cartela e não repita quantidades.');
+      return;
+    }
+    const saved = roundOnly ? await gameStateService.setRoundPriceTable(table) : await gameStateService.setPriceTable(table);
+    if (!saved) setError('Não foi possível salvar a tabela de preços.');
+  };
+
+  return (
+    <div className="space-y-3">
+      {roundPriceTable && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-yellow-300">
+          <span>Esta rodada está com preços especiais.</span>
+          <button onClick={() => gameStateService.setRoundPriceTable(null)} className="underline hover:text-yellow-200">
+            Voltar à tabela padrão
+          </button>
+        </div>
+      )}
+      <div className="space-y-2 p-2">
+        {draft.map((bundle, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={bundle.quantity}
+              onChange={e => updateBundle(index, { quantity: Number(e.target.value) })}
+              className={`${inputClassName} w-20`}
+              aria-label="Quantidade de cartelas"
+            />
+            <span className="text-gray-400">por R$</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={bundle.price}
+              onChange={e => updateBundle(index, { price: Number(e.target.value) })}
+              className={`${inputClassName} w-28`}
+              aria-label="Preço do pacote"
+            />
+            <input
+              value={bundle.label ?? ''}
+              onChange={e => updateBundle(index, { label: e.target.value })}
+              placeholder="Destaque (ex.: Promoção)"
+              className={`${inputClassName} flex-1 min-w-[8rem]`}
+              aria-label="Destaque do pacote"
+            />
+            <button
+              onClick={() => setDraft(current => current.filter((_, i) => i !== index))}
+              className="text-red-400 hover:text-red-300 font-bold px-2"
+              aria-label="Remover pacote"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addBundle} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Adicionar pacote
+        </button>
+        <button onClick={() => save(false)} className="flex-1 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Salvar como padrão
+        </button>
+        <button onClick={() => save(true)} className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-black font-bold py-2 px-4 rounded-lg transition-colors">
+          Usar só nesta rodada
+        </button>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PriceTableEditor;
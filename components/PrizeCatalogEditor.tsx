@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { Prize } from '../types';
+import { gameStateService } from '../services/backend';
+import { getWinPatterns } from '../services/patterns';
+import type { VariantRules } from '../services/variants';
+import { isValidPercent, poolValueLabel } from '../services/ledger';
+
+interface PrizeCatalogEditorProps {
+  prizes: Prize[];
+  // Offers the patterns of the room's variant
+  variant: VariantRules;
+}
+
+const inputClassName = 'bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600 focus:ring-2 focus:ring-sky-400 focus:outline-none';
+
+// Edits a draft of the prize ladder between games; nothing changes for the players until it is saved.
+// A prize is either a fixed value ("R$ 500,00", "Extra") or a share of the round's card sales.
+const PrizeCatalogEditor: React.FC<PrizeCatalogEditorProps> = ({ prizes, variant }) => {
+  const [draft, setDraft] = useState<Prize[]>(prizes);
+  const [error, setError] = useState<string | null>(null);
+
+  const updatePrize = (id: number, changes: Partial<Prize>) =>
+    setDraft(current => current.map(p => p.id === id ? { ...p, ...changes } : p));
+
+  const setPoolPercent = (prize: Prize, percent: number | undefined) =>
+    updatePrize(prize.id, percent === undefined
+      ? { poolPercent: undefined, value: 'R$ 100,00' }
+      : { poolPercent: percent, value: poolValueLabel(percent) });
+
+  const movePrize = (index: number, offset: number) =>
+    setDraft(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+
+  const addPrize = () =>
+    setDraft(current => {
+      const id = Math.max(0, ...current.map(p => p.id)) + 1;
+      // The variant's last default prize is its full card
+      const pattern = variant.defaultPrizes[variant.defaultPrizes.length - 1].pattern;
+      return [...current, { id, name: `${current.length + 1}º Prêmio`, value: 'R$ 100,00', pattern }];
+    });
+
+  const handleSave = async () => {
+    setError(null);
+    if (draft.some(p => !p.name.trim() || !p.value.trim())) {
+      setError('Todo prêmio precisa de nome e valor.');
+      return;
+    }
+    if (draft.some(p => p.poolPercent !== undefined && !isValidPercent(p.poolPercent))) {
+      setError('A porcentagem deve ficar entre 0 e 100.');
+      return;
+    }
+    const prizes = draft.map(({ poolPercent, ...p }) => ({
+      ...p,
+      name: p.name.trim(),
+      value: p.value.trim(),
+      ...(poolPercent !== undefined ? { poolPercent } : {}),
+    }));
+    const saved = await gameStateService.setPrizes(prizes);
+    if (!saved) setError('Não foi possível salvar os prêmios. O jogo já começou?');
+  };
+
+  return (
+    <div className="space-y-3 p-2">
+      {draft.map((prize, index) => (
+        <div key={prize.id} className="flex flex-wrap items-center gap-2">
+          <div className="flex flex-col">
+            <button onClick={() => movePrize(index, -1)} disabled={index === 0} className="text-xs text-gray-300 disabled:opacity-30" aria-label={`Subir ${prize.name}`}>▲</button>
+            <button onClick={() => movePrize(index, 1)} disabled={index === draft.length - 1} className="text-xs text-gray-300 disabled:opacity-30" aria-label={`Descer ${prize.name}`}>▼</button>
+          </div>
+          <input value={prize.name} onChange={e => updatePrize(prize.id, { name: e.target.value })} className={`${inputClassName} flex-1 min-w-[8rem]`} aria-label="Nome do prêmio" />
+          <select
+            value={prize.poolPercent === undefined ? 'fixed' : 'pool'}
+            onChange={e => setPoolPercent(prize, e.target.value === 'pool' ? 30 : undefined)}
+            className={inputClassName}
+            aria-label={`Tipo de valor do ${prize.name}`}
+          >
+            <option value="fixed">Valor fixo</option>
+            <option value="pool">% do arrecadado</option>
+          </select>
+          {prize.poolPercent === undefined ? (
+            <input value={prize.value} onChange={e => updatePrize(prize.id, { value: e.target.value })} className={`${inputClassName} w-32`} aria-label="Valor do prêmio" />
+          ) : (
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={prize.poolPercent}
+              onChange={e => setPoolPercent(prize, Number(e.target.value))}
+              className={`${inputClassName} w-20`}
+              aria-label="Porcentagem do arrecadado"
+            />
+          )}
+          <select value={prize.pattern} onChange={e => updatePrize(prize.id, { pattern: e.target.value })} className={inputClassName} aria-label={`Padrão do ${prize.name}`}>
+            {getWinPatterns(variant.id).map(pattern => (
+              <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setDraft(current => current.filter(p => p.id !== prize.id))}
+            disabled={draft.length === 1}
+            className="text-red-400 hover:text-red-300 font-bold px-2 disabled:opacity-30"
+            aria-label={`Remover ${prize.name}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addPrize} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Adicionar prêmio
+        </button>
+        <button onClick={() => setDraft(prizes)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Descartar alterações
+        </button>
+        <button onClick={handleSave} className="flex-1 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Salvar prêmios
+        </button>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PrizeCatalogEditor;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { progressBadge } from '../services/cardProgress';
+
+interface ProgressBadgeProps {
+  // Cells the card still misses for the prize in play; undefined while no prize is in play
+  missingCells?: number;
+  className?: string;
+}
+
+// "falta 1!" next to the name of a card close to the prize in play
+const ProgressBadge: React.FC<ProgressBadgeProps> = ({ missingCells, className = 'text-sm' }) => {
+  const badge = missingCells === undefined ? null : progressBadge(missingCells);
+  if (!badge) return null;
+  return (
+    <span className={`ml-2 px-2 py-0.5 rounded-full font-black ${missingCells! <= 1 ? 'bg-yellow-400 text-black animate-pulse' : 'bg-sky-700 text-white'} ${className}`}>
+      {badge}
+    </span>
+  );
+};
+
+export default ProgressBadge;
@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import type { Room } from '../types';
+import { inviteLink } from '../services/rooms';
+
+interface RoomInviteProps {
+  room: Room;
+}
+
+// The room's name and join code, with its invite link one click away
+const RoomInvite: React.FC<RoomInviteProps> = ({ room }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(inviteLink(room.id));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-gray-300">
+      <span className="font-bold text-white">{room.name}</span>
+      <span>Código: <span className="font-mono font-bold tracking-widest text-sky-300">{room.id}</span></span>
+      <button onClick={handleCopy} className="bg-slate-600/80 hover:bg-slate-700 text-white font-bold py-1 px-3 rounded-lg text-sm transition-colors">
+        {copied ? 'Link copiado!' : 'Copiar convite'}
+      </button>
+    </div>
+  );
+};
+
+export default RoomInvite;
@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RoundArchive, RoundSummary } from '../types';
+import { historyService } from '../services/backend';
+import { awardsAt, claimsAt } from '../services/history';
+import { claimPenaltyLabels, isLateClaim } from '../services/claims';
+import { describeRoundEnding } from '../services/gameControls';
+import { cardsOutsideSeries } from '../services/cardSeries';
+import { DEFAULT_VARIANT, getVariant } from '../services/variants';
+import BingoCard from './BingoCard';
+import InfoCard from './InfoCard';
+
+interface RoundHistoryProps {
+  onClose: () => void;
+}
+
+const REPLAY_SPEEDS = [
+  { label: '0,5x', intervalMs: 2000 },
+  { label: '1x', intervalMs: 1000 },
+  { label: '2x', intervalMs: 500 },
+  { label: '4x', intervalMs: 250 },
+];
+
+const noMarks = new Set<number | string>();
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('pt-BR');
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('pt-BR');
+const winnerNames = (winners: { playerName: string }[]) => winners.map(w => w.playerName).join(', ');
+
+// Lists the finished rounds and replays the draw of the chosen one ball by ball, marking the
+// cards as it goes and highlighting each winning card once its prize is decided.
+const RoundHistory: React.FC<RoundHistoryProps> = ({ onClose }) => {
+  const [rounds, setRounds] = useState<RoundSummary[] | null>(null);
+  const [archive, setArchive] = useState<RoundArchive | null>(null);
+  const [isLoadingRound, setIsLoadingRound] = useState(false);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(1);
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+
+  useEffect(() => {
+    historyService.listRounds().then(setRounds);
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying || !archive) return;
+    if (step >= archive.draws.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), REPLAY_SPEEDS[speedIndex].intervalMs);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, archive, speedIndex]);
+
+  const openRound = async (roundId: number) => {
+    setIsLoadingRound(true);
+    setIsPlaying(false);
+    const loaded = await historyService.loadRound(roundId);
+    setIsLoadingRound(false);
+    setArchive(loaded);
+    setStep(0);
+    // Start on the card that won the last prize, if any
+    setSelectedCardId(loaded?.winners[0]?.cardId ?? loaded?.awardedPrizes[0]?.winners[0]?.cardId ?? loaded?.cards[0]?.id ?? null);
+  };
+
+  const replayedNumbers = useMemo(() => new Set<number | string>(archive?.draws.slice(0, step).map(d => d.number)), [archive, step]);
+  const decidedAwards = archive ? awardsAt(archive, step) : [];
+  const claims = archive ? claimsAt(archive, step) : [];
+  const winningCardIds = new Set(decidedAwards.flatMap(a => a.winners.map(w => w.cardId)));
+  // Winning cards first, so they are easy to find among all the cards sold
+  const cards = useMemo(() => {
+    if (!archive) return [];
+    const roundWinnerIds = new Set(archive.awardedPrizes.flatMap(a => a.winners.map(w => w.cardId)));
+    return [...archive.cards].sort((a, b) => Number(roundWinnerIds.has(b.id)) - Number(roundWinnerIds.has(a.id)));
+  }, [archive]);
+  const selectedCard = cards.find(c => c.id === selectedCardId) ?? null;
+  // Rounds archived before card series have none to check against
+  const outsideSeries = useMemo(
+    () => archive?.cardSeries ? cardsOutsideSeries(archive.cardSeries, archive.gameVariant ?? DEFAULT_VARIANT, archive.cards) : null,
+    [archive],
+  );
+  const selectedCardAwards = decidedAwards.filter(a => a.winners.some(w => w.cardId === selectedCardId));
+  const lastDraw = archive && step > 0 ? archive.draws[step - 1] : null;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8">
+      <div className="max-w-5xl mx-auto space-y-8 relative">
+        <div className="absolute top-0 right-0">
+          <button
+            onClick={onClose}
+            className="bg-blue-500/80 hover:bg-blue-600 text-white font-bold py-2 px-3 rounded-lg text-sm transition-colors"
+            aria-label="Voltar ao jogo"
+          >
+            Voltar
+          </button>
+        </div>
+
+        <h1 className="text-4xl font-black text-center text-sky-300 pt-12 sm:pt-0">Histórico de Rodadas</h1>
+
+        <InfoCard icon="📜" title="Rodadas encerradas">
+          {rounds === null && <p className="text-gray-400">Carregando...</p>}
+          {rounds?.length === 0 && <p className="text-gray-400">Nenhuma rodada encerrada ainda.</p>}
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {rounds?.map(round => (
+              <li key={round.roundId}>
+                <button
+                  onClick={() => openRound(round.roundId)}
+                  className={`w-full text-left p-2 rounded-lg border transition-colors ${archive?.roundId === round.roundId ? 'border-sky-400 bg-sky-400/10' : 'border-gray-700 bg-black/20 hover:border-sky-400'}`}
+                >
+                  <span className="font-bold">Rodada {round.roundId}</span>
+                  <span className="text-gray-400"> — {formatDateTime(round.finishedAt)} · {round.ballCount} bolas · {round.cardCount} cartelas</span>
+                  <span className="block text-sm text-yellow-300">
+                    {round.ending
+                      ? `🚫 ${describeRoundEnding(round.ending)}`
+                      : round.winners.length > 0 ? `🏆 ${winnerNames(round.winners)}` : 'Sem vencedor do prêmio final'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </InfoCard>
+
+        {isLoadingRound && <p className="text-center text-gray-400">Carregando rodada...</p>}
+
+        {archive && !isLoadingRound && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <InfoCard icon="🎱" title={`Replay da rodada ${archive.roundId}`}>
+              <div className="text-center">
+                <p className="text-lg text-gray-300">Bola {step} de {archive.draws.length}</p>
+                <p className="text-7xl font-black text-sky-300 my-2">{lastDraw?.number ?? '-'}</p>
+                {lastDraw?.drawnAt && <p className="text-sm text-gray-400">Sorteada às {formatTime(lastDraw.drawnAt)}</p>}
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={archive.draws.length}
+                value={step}
+                onChange={e => { setIsPlaying(false); setStep(Number(e.target.value)); }}
+                className="w-full accent-sky-400"
+                aria-label="Posição do replay"
+              />
+              <div className="flex flex-wrap justify-center gap-2">
+                <button onClick={() => { setIsPlaying(false); setStep(0); }} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-lg" aria-label="Voltar ao início">⏮</button>
+                <button onClick={() => { setIsPlaying(false); setStep(s => Math.max(0, s - 1)); }} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-lg" aria-label="Bola anterior">◀</button>
+                <button
+                  onClick={() => {
+                    if (step >= archive.draws.length) setStep(0);
+                    setIsPlaying(p => !p);
+                  }}
+                  className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg"
+                >
+                  {isPlaying ? 'Pausar' : 'Reproduzir'}
+                </button>
+                <button onClick={() => { setIsPlaying(false); setStep(s => Math.min(archive.draws.length, s + 1)); }} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-lg" aria-label="Próxima bola">▶</button>
+                <button onClick={() => { setIsPlaying(false); setStep(archive.draws.length); }} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-3 rounded-lg" aria-label="Ir ao final">⏭</button>
+                <select value={speedIndex} onChange={e => setSpeedIndex(Number(e.target.value))} className="bg-gray-700 text-white px-2 py-1 rounded-md border border-gray-600" aria-label="Velocidade do replay">
+                  {REPLAY_SPEEDS.map((speed, i) => <option key={speed.label} value={i}>{speed.label}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-1 justify-center bg-black/20 p-3 rounded-lg">
+                {Array.from({ length: getVariant(archive.gameVariant).totalBalls }, (_, i) => i + 1).map(num => (
+                  <div key={num} className={`w-7 h-7 flex items-center justify-center rounded-full text-xs font-bold ${replayedNumbers.has(num) ? 'bg-sky-400 text-slate-900' : 'bg-gray-700/50 text-gray-400'}`}>{num}</div>
+                ))}
+              </div>
+
+              <h3 className="font-bold text-lg">Prêmios</h3>
+              <ul className="space-y-1 text-sm">
+                {archive.awardedPrizes.map(award => (
+                  <li key={award.prizeId} className={award.ballCount <= step ? 'text-yellow-300' : 'text-gray-500'}>
+                    {award.prizeName} na bola nº {award.ballCount}
+                    {award.ballCount <= step ? `: ${winnerNames(award.winners)} (${award.shareValue})` : ''}
+                  </li>
+                ))}
+                {archive.awardedPrizes.length === 0 && <li className="text-gray-400">Nenhum prêmio foi entregue nesta rodada.</li>}
+              </ul>
+
+              <h3 className="font-bold text-lg">Pedidos de bingo</h3>
+              <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+                {claims.map((claim, i) => (
+                  <li key={i} className={claim.isValid ? 'text-green-300' : 'text-red-400'}>
+                    {formatTime(claim.timestamp)} — {claim.playerName} (cartela {claim.cardId}) na bola nº {claim.ballCount}: {claim.isValid ? 'válido' : isLateClaim(claim) ? `atrasado, completou na bola nº ${claim.winningBall}` : 'inválido'}
+                    {claim.penalty && ` · ${claimPenaltyLabels[claim.penalty]}`}
+                  </li>
+                ))}
+                {claims.length === 0 && <li className="text-gray-400">Nenhum pedido até aqui.</li>}
+              </ul>
+            </InfoCard>
+
+            <InfoCard icon="🎟️" title="Cartelas">
+              <select
+                value={selectedCardId ?? ''}
+                onChange={e => setSelectedCardId(e.target.value)}
+                className="w-full bg-gray-700 text-white px-3 py-2 rounded-md border border-gray-600"
+                aria-label="Cartela"
+              >
+                {cards.map(card => (
+                  <option key={card.id} value={card.id}>
+                    {winningCardIds.has(card.id) ? '🏆 ' : ''}{card.owner} — {card.serial ? `#${card.serial}` : card.id}
+                  </option>
+                ))}
+              </select>
+              {selectedCard ? (
+                <div className={`rounded-xl ${selectedCardAwards.length > 0 ? 'ring-4 ring-yellow-400' : ''}`}>
+                  <BingoCard cardData={selectedCard.cardData} drawnNumbers={replayedNumbers} isAutoMarking manualMarks={noMarks} onCellClick={() => {}} />
+                </div>
+              ) : (
+                <p className="text-gray-400">Nenhuma cartela nesta rodada.</p>
+              )}
+              {selectedCardAwards.map(award => (
+                <p key={award.prizeId} className="text-yellow-300 font-bold">🏆 {award.prizeName} na bola nº {award.ballCount}</p>
+              ))}
+              {archive.drawAudit?.serverSeed && (
+                <p className="text-xs text-gray-400 break-all">Semente revelada: <span className="font-mono">{archive.drawAudit.serverSeed}</span></p>
+              )}
+              {archive.cardSeries && outsideSeries && (
+                <p className={`text-xs break-all ${outsideSeries.length > 0 ? 'text-yellow-300' : 'text-gray-400'}`}>
+                  Série das cartelas: <span className="font-mono">{archive.cardSeries}</span> — {archive.cards.length - outsideSeries.length} de {archive.cards.length} cartelas conferem com a série
+                </p>
+              )}
+            </InfoCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoundHistory;
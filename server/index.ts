@@ -0,0 +1,345 @@
+import fs from 'fs';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { Room, RoundArchive, SharedGameState } from '../types';
+import {
+  authErrors,
+  type ActionResult,
+  type GameAction,
+  type GameStore,
+  type LocalAuthRequest,
+  type LocalClientMessage,
+  type LocalHistoryRequest,
+  type LocalLedgerRequest,
+  type LocalRoomRequest,
+  type LocalServerMessage,
+} from '../services/gameStore';
+import { addUser, applyGameAction, createInitialGameState } from '../services/gameReducer';
+import { canPerform, hasPermission } from '../services/permissions';
+import { emptyLedger, markPaid, recordClosedRound, withPixKeys, type StoredLedger } from '../services/ledger';
+import { listRounds, recordArchivedRound } from '../services/history';
+import {
+  LEGACY_ROOM_ID,
+  LEGACY_ROOM_NAME,
+  createRoomCode,
+  createRoomState,
+  isValidRoomName,
+  normalizeRoomCode,
+  openRooms,
+  toRoomListing,
+} from '../services/rooms';
+import { GameStateService } from '../services/gameState';
+import { GameRunner } from '../services/gameRunner';
+import { MockPaymentProvider } from '../services/payments';
+import { createDrawSecret } from '../services/fairDraw';
+import { createSessionToken, hashPassword, verifyPassword, type StoredAccount } from '../services/credentials';
+
+// Local backend for running a bingo night on a LAN without internet:
+//   npm run server   (BINGO_SERVER_PORT, BINGO_DATA_FILE, BINGO_DRAW_INTERVAL_MS to override the defaults;
+//                     BINGO_MOCK_PAYMENTS_MS to confirm PIX orders automatically after that delay)
+// and start the app with VITE_GAME_BACKEND=local. The server also runs the games themselves, one
+// runner per room (see gameRunner.ts).
+
+const PORT = Number(process.env.BINGO_SERVER_PORT ?? 8787);
+const DATA_FILE = process.env.BINGO_DATA_FILE ?? '.bingo-data.json';
+const DRAW_INTERVAL_MS = process.env.BINGO_DRAW_INTERVAL_MS ? Number(process.env.BINGO_DRAW_INTERVAL_MS) : undefined;
+const MOCK_PAYMENTS_MS = process.env.BINGO_MOCK_PAYMENTS_MS ? Number(process.env.BINGO_MOCK_PAYMENTS_MS) : undefined;
+
+// One game per room (see services/rooms.ts)
+interface StoredRoom {
+  room: Room;
+  game: SharedGameState;
+  drawSecret: string; // see fairDraw.ts
+  ledger: StoredLedger; // see ledger.ts
+  history: RoundArchive[]; // see history.ts
+}
+
+interface ServerData {
+  rooms: Record<string, StoredRoom>;
+  accounts: Record<string, StoredAccount>;
+  sessions: Record<string, string>; // token -> player name
+}
+
+const createStoredRoom = (room: Room, game: SharedGameState): StoredRoom =>
+  ({ room, game, drawSecret: createDrawSecret(), ledger: emptyLedger(), history: [] });
+
+const loadData = (): ServerData => {
+  const empty: ServerData = { rooms: {}, accounts: {}, sessions: {} };
+  try {
+    const stored = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    if (stored.rooms) {
+      const rooms = Object.fromEntries(Object.entries(stored.rooms as Record<string, StoredRoom>).map(
+        ([id, room]) => [id, { ...room, game: { ...createInitialGameState(), ...room.game } }]));
+      return { ...empty, ...stored, rooms };
+    }
+    // Files written before rooms existed hold a single game (and before accounts, the bare state);
+    // it becomes the legacy room
+    const game = { ...createInitialGameState(), ...(stored.game ?? stored), users: stored.game ? stored.game.users : [] };
+    const room: Room = {
+      id: LEGACY_ROOM_ID,
+      name: LEGACY_ROOM_NAME,
+      hostName: game.users.find((u: { role: string }) => u.role === 'owner')?.name ?? '',
+      isPublic: true,
+      createdAt: Date.now(),
+    };
+    const legacy = createStoredRoom(room, game);
+    return {
+      accounts: stored.accounts ?? {},
+      sessions: stored.sessions ?? {},
+      rooms: {
+        [room.id]: {
+          ...legacy,
+          drawSecret: stored.drawSecret ?? legacy.drawSecret,
+          ledger: stored.ledger ?? legacy.ledger,
+          history: stored.history ?? legacy.history,
+        },
+      },
+    };
+  } catch {
+    return empty;
+  }
+};
+
+const data = loadData();
+
+const saveData = () => fs.writeFileSync(DATA_FILE, JSON.stringify(data));
+
+const send = (socket: WebSocket, message: LocalServerMessage) => socket.send(JSON.stringify(message));
+
+interface Session {
+  playerName: string | null;
+  token: string | null;
+  roomId: string | null;
+}
+
+const sessions = new Map<WebSocket, Session>();
+const stateListeners = new Map<string, Set<(state: SharedGameState) => void>>();
+
+// Only the clients in the room hear about its changes
+const broadcastState = (roomId: string) => {
+  const { game } = data.rooms[roomId];
+  sessions.forEach((session, client) => {
+    if (session.roomId === roomId && client.readyState === WebSocket.OPEN) send(client, { type: 'state', state: game });
+  });
+  stateListeners.get(roomId)?.forEach(callback => callback(game));
+};
+
+const saveGame = (roomId: string, game: SharedGameState) => {
+  data.rooms[roomId].game = game;
+  saveData();
+  broadcastState(roomId);
+};
+
+// Node runs one action at a time, so each one is applied atomically.
+const applyAction = (roomId: string, action: GameAction): ActionResult => {
+  const stored = data.rooms[roomId];
+  const { state: newState, result } = applyGameAction(stored.game, action, { drawSecret: stored.drawSecret });
+  if (newState !== stored.game) {
+    stored.ledger = recordClosedRound(stored.ledger, stored.game, newState);
+    stored.history = recordArchivedRound(stored.history, stored.game, newState);
+    saveGame(roomId, newState);
+  }
+  return result;
+};
+
+// Each room's runner lives in this process and acts on the state directly, not as a signed-in player
+const roomStore = (roomId: string): GameStore => ({
+  load: async () => data.rooms[roomId].game,
+  apply: async (action) => applyAction(roomId, action),
+  subscribe: (callback) => {
+    const listeners = stateListeners.get(roomId) ?? new Set();
+    stateListeners.set(roomId, listeners.add(callback));
+    return () => listeners.delete(callback);
+  },
+});
+
+const startRunner = (roomId: string) => new GameRunner(new GameStateService(roomStore(roomId)), {
+  drawIntervalMs: DRAW_INTERVAL_MS,
+  paymentProvider: MOCK_PAYMENTS_MS !== undefined ? new MockPaymentProvider(MOCK_PAYMENTS_MS) : undefined,
+}).start()
+  .catch(error => console.error(`Game runner of room ${roomId} failed to start:`, error));
+
+const startSession = (name: string): string => {
+  const token = createSessionToken();
+  data.sessions[token] = name;
+  return token;
+};
+
+// Password hashing is async, so unlike actions these may interleave; the account checks
+// happen after the last await to stay atomic.
+const handleAuth = async (
+  request: LocalAuthRequest,
+  session: Session,
+): Promise<Omit<Extract<LocalServerMessage, { type: 'authResult' }>, 'type' | 'requestId'>> => {
+  switch (request.type) {
+    case 'register': {
+      const password = await hashPassword(request.password);
+      if (data.accounts[request.name]) return { error: authErrors.nameTaken };
+      const profile = { name: request.name, pixKey: request.pixKey };
+      data.accounts[request.name] = { profile, password };
+      session.token = startSession(request.name);
+      session.playerName = request.name;
+      saveData();
+      return { user: profile, token: session.token };
+    }
+    case 'signIn': {
+      const account = data.accounts[request.name];
+      if (!account || !(await verifyPassword(request.password, account.password))) {
+        return { error: authErrors.invalidCredentials };
+      }
+      session.token = startSession(request.name);
+      session.playerName = request.name;
+      saveData();
+      return { user: account.profile, token: session.token };
+    }
+    case 'resume': {
+      const account = data.accounts[data.sessions[request.token]];
+      if (!account) return { error: authErrors.invalidCredentials };
+      session.token = request.token;
+      session.playerName = account.profile.name;
+      return { user: account.profile };
+    }
+    case 'signOut':
+      if (session.token) {
+        delete data.sessions[session.token];
+        saveData();
+      }
+      session.token = null;
+      session.playerName = null;
+      session.roomId = null;
+      return {};
+  }
+};
+
+const handleRoom = (
+  request: LocalRoomRequest,
+  session: Session,
+): Omit<Extract<LocalServerMessage, { type: 'roomResult' }>, 'type' | 'requestId'> => {
+  switch (request.type) {
+    case 'list':
+      return { rooms: openRooms(Object.values(data.rooms).map(r => toRoomListing(r.room, r.game))) };
+    case 'find': {
+      const stored = data.rooms[normalizeRoomCode(request.code)];
+      return { room: stored ? toRoomListing(stored.room, stored.game) : null };
+    }
+    case 'create': {
+      if (!session.playerName || !isValidRoomName(request.name)) return { error: 'Not allowed for this session' };
+      let id;
+      do {
+        id = createRoomCode();
+      } while (data.rooms[id]);
+      const room: Room = { id, name: request.name.trim(), hostName: session.playerName, isPublic: request.isPublic, createdAt: Date.now() };
+      data.rooms[id] = createStoredRoom(room, createRoomState(session.playerName));
+      saveData();
+      startRunner(id);
+      return { room };
+    }
+    case 'enter': {
+      const stored = data.rooms[request.roomId];
+      if (!session.playerName || !stored) return { ok: false };
+      session.roomId = request.roomId;
+      const joined = addUser(stored.game, session.playerName);
+      if (joined !== stored.game) saveGame(request.roomId, joined);
+      return { ok: true };
+    }
+    case 'leave':
+      session.roomId = null;
+      return { ok: true };
+  }
+};
+
+const handleLedger = (
+  request: LocalLedgerRequest,
+  session: Session,
+): Omit<Extract<LocalServerMessage, { type: 'ledgerResult' }>, 'type' | 'requestId'> => {
+  const { playerName } = session;
+  const stored = session.roomId ? data.rooms[session.roomId] : undefined;
+  if (!playerName || !stored || !hasPermission(stored.game.users.find(u => u.name === playerName)?.role, 'managePayments')) {
+    return { error: 'Not allowed for this session' };
+  }
+  switch (request.type) {
+    case 'load': {
+      const pixKeys = Object.fromEntries(Object.values(data.accounts).map(a => [a.profile.name, a.profile.pixKey]));
+      return { ledger: withPixKeys(stored.ledger, pixKeys) };
+    }
+    case 'markPaid': {
+      const ledger = markPaid(stored.ledger, request.payoutId, playerName);
+      if (!ledger) return { ok: false };
+      stored.ledger = ledger;
+      saveData();
+      return { ok: true };
+    }
+  }
+};
+
+const handleHistory = (request: LocalHistoryRequest, roomId: string | null): Omit<Extract<LocalServerMessage, { type: 'historyResult' }>, 'type' | 'requestId'> => {
+  const history = roomId ? data.rooms[roomId].history : [];
+  switch (request.type) {
+    case 'list':
+      return { rounds: listRounds(history) };
+    case 'load':
+      return { round: history.find(r => r.roundId === request.roundId) ?? null };
+    case 'loadAll':
+      return { archives: history };
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+  const session: Session = { playerName: null, token: null, roomId: null };
+  sessions.set(socket, session);
+  socket.on('close', () => sessions.delete(socket));
+
+  socket.on('message', async (raw) => {
+    let message: LocalClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if ('auth' in message) {
+      try {
+        send(socket, { type: 'authResult', requestId: message.requestId, ...await handleAuth(message.auth, session) });
+      } catch (error) {
+        send(socket, { type: 'authResult', requestId: message.requestId, error: String(error) });
+      }
+      return;
+    }
+
+    if ('ledger' in message) {
+      send(socket, { type: 'ledgerResult', requestId: message.requestId, ...handleLedger(message.ledger, session) });
+      return;
+    }
+
+    if ('history' in message) {
+      send(socket, { type: 'historyResult', requestId: message.requestId, ...handleHistory(message.history, session.roomId) });
+      return;
+    }
+
+    if ('room' in message) {
+      const result = handleRoom(message.room, session);
+      // The state of the room just entered goes out first, so it is there once the client hears back
+      if (message.room.type === 'enter' && result.ok) send(socket, { type: 'state', state: data.rooms[message.room.roomId].game });
+      send(socket, { type: 'roomResult', requestId: message.requestId, ...result });
+      return;
+    }
+
+    const { requestId, action } = message;
+    const { roomId } = session;
+    if (!roomId || !canPerform(action, data.rooms[roomId].game.users.find(u => u.name === session.playerName))) {
+      send(socket, { type: 'result', requestId, result: null, error: 'Not allowed for this session' });
+      return;
+    }
+
+    try {
+      send(socket, { type: 'result', requestId, result: applyAction(roomId, action) });
+    } catch (error) {
+      send(socket, { type: 'result', requestId, result: null, error: String(error) });
+    }
+  });
+});
+
+Object.keys(data.rooms).forEach(startRunner);
+
+console.log(`Bingo local server listening on ws://0.0.0.0:${PORT} (state in ${DATA_FILE})`);
@@ -0,0 +1,40 @@
+import { SupabaseGameStore } from '../services/supabaseStore';
+import { GameStateService } from '../services/gameState';
+import { GameRunner } from '../services/gameRunner';
+import { MockPaymentProvider } from '../services/payments';
+import { LEGACY_ROOM_ID, normalizeRoomCode } from '../services/rooms';
+
+// Headless game runner for the Supabase backend, so the game doesn't depend on anyone's browser:
+//   BINGO_RUNNER_NAME=... BINGO_RUNNER_PASSWORD=... BINGO_ROOM=... npm run runner
+// BINGO_ROOM is the room's code (the game from before rooms existed by default). The account must
+// be the room's owner or one of its co-hosts. Run a single runner per room.
+// BINGO_MOCK_PAYMENTS_MS confirms PIX orders automatically after that delay; the account then
+// also needs to handle payments (the owner does).
+
+const name = process.env.BINGO_RUNNER_NAME;
+const password = process.env.BINGO_RUNNER_PASSWORD;
+const roomId = normalizeRoomCode(process.env.BINGO_ROOM ?? LEGACY_ROOM_ID);
+const drawIntervalMs = process.env.BINGO_DRAW_INTERVAL_MS ? Number(process.env.BINGO_DRAW_INTERVAL_MS) : undefined;
+const mockPaymentsMs = process.env.BINGO_MOCK_PAYMENTS_MS ? Number(process.env.BINGO_MOCK_PAYMENTS_MS) : undefined;
+
+if (!name || !password) {
+  console.error('Set BINGO_RUNNER_NAME and BINGO_RUNNER_PASSWORD to a staff account.');
+  process.exit(1);
+}
+
+const store = new SupabaseGameStore();
+const result = await store.signIn(name, password);
+if ('error' in result) {
+  console.error(`Could not sign in as ${name}: ${result.error}`);
+  process.exit(1);
+}
+if (!await store.enterRoom(roomId)) {
+  console.error(`Could not enter room ${roomId}.`);
+  process.exit(1);
+}
+
+await new GameRunner(new GameStateService(store), {
+  drawIntervalMs,
+  paymentProvider: mockPaymentsMs !== undefined ? new MockPaymentProvider(mockPaymentsMs) : undefined,
+}).start();
+console.log(`Game runner signed in as ${name} in room ${roomId}`);
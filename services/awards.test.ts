@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Prize, PrizeWinner } from '../types';
+import { type RoundSeed, canJoinAward, createAward, joinAward } from './awards';
+import { drawOffBalls } from './fairDraw';
+
+const prize: Prize = { id: 1, name: '1º Prêmio', value: 'R$ 500,00', pattern: 'line' };
+const ana: PrizeWinner = { cardId: 'a', playerName: 'ana' };
+const bia: PrizeWinner = { cardId: 'b', playerName: 'bia' };
+const caio: PrizeWinner = { cardId: 'c', playerName: 'caio' };
+const seed: RoundSeed = { serverSeed: 'seed', publicEntropy: 'a,b,c' };
+
+describe('createAward', () => {
+  it('gives the whole prize to a single card', () => {
+    const award = createAward(prize, 10, 'split', [ana], seed);
+    expect(award).toMatchObject({ prizeId: 1, pattern: 'line', ballCount: 10, winners: [ana], shareValue: 'R$ 500,00' });
+  });
+
+  it('splits the value between every candidate, rounding down to the cent', () => {
+    const award = createAward(prize, 10, 'split', [ana, bia, caio], seed);
+    expect(award.winners).toEqual([ana, bia, caio]);
+    expect(award.shareValue.replace(/\s/g, ' ')).toBe('R$ 166,66');
+  });
+
+  it('flags non-monetary prizes as shared', () => {
+    const award = createAward({ ...prize, value: 'Extra' }, 10, 'split', [ana, bia], seed);
+    expect(award.shareValue).toBe('Extra (dividido por 2)');
+  });
+
+  it('gives the prize to the first claim', () => {
+    const award = createAward(prize, 10, 'firstClaim', [bia, ana], seed);
+    expect(award.winners).toEqual([bia]);
+    expect(award.shareValue).toBe('R$ 500,00');
+  });
+
+  it("gives a draw-off to the highest of the round's tie-break balls, in claim order", () => {
+    const award = createAward(prize, 10, 'drawOff', [ana, bia, caio], seed);
+    const balls = drawOffBalls(seed.serverSeed, seed.publicEntropy, prize.id, 3);
+    expect(award.drawOffBalls).toEqual({ a: balls[0], b: balls[1], c: balls[2] });
+    expect(award.winners).toHaveLength(1);
+    expect(award.drawOffBalls?.[award.winners[0].cardId]).toBe(Math.max(...balls));
+  });
+});
+
+describe('joinAward', () => {
+  it('shares the prize again with the late co-winner', () => {
+    const award = joinAward(createAward(prize, 10, 'split', [ana], seed), prize.value, [bia], seed);
+    expect(award.candidates).toEqual([ana, bia]);
+    expect(award.winners).toEqual([ana, bia]);
+    expect(award.shareValue.replace(/\s/g, ' ')).toBe('R$ 250,00');
+  });
+
+  it('keeps the tie-break balls already drawn', () => {
+    const first = createAward(prize, 10, 'drawOff', [ana, bia], seed);
+    const joined = joinAward(first, prize.value, [caio], seed);
+    expect(joined.drawOffBalls).toMatchObject(first.drawOffBalls ?? {});
+    expect(Object.keys(joined.drawOffBalls ?? {})).toHaveLength(3);
+  });
+});
+
+describe('canJoinAward', () => {
+  const award = createAward(prize, 10, 'split', [ana], seed);
+
+  it('only on the deciding ball', () => {
+    expect(canJoinAward(award, 10, [bia])).toBe(true);
+    expect(canJoinAward(award, 11, [bia])).toBe(false);
+  });
+
+  it('not for a card already among the candidates', () => {
+    expect(canJoinAward(award, 10, [ana])).toBe(false);
+    expect(canJoinAward(award, 10, [])).toBe(false);
+  });
+
+  it('not under the first claim rule', () => {
+    expect(canJoinAward(createAward(prize, 10, 'firstClaim', [ana], seed), 10, [bia])).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import type { AwardedPrize, Prize, PrizeWinner, TieRule } from '../types';
+import { drawOffBalls } from './fairDraw';
+import { formatMoney, parseMoney } from './ledger';
+
+// How a prize goes to the cards that completed its pattern on the deciding ball. Only the backend
+// awards prizes (services/gameReducer.ts, and the Supabase functions with the same rules): the
+// tie-break balls of a draw-off come from the round's committed seed, so anyone can check them once
+// the seed is revealed.
+
+// The round's committed draw: the seed stays secret until the round is over
+export interface RoundSeed {
+  serverSeed: string;
+  publicEntropy: string;
+}
+
+// "R$ 500,00" split by 3 -> "R$ 166,67"; non-monetary prizes (e.g. "Extra") are just flagged as shared.
+const splitPrizeValue = (value: string, parts: number): string => {
+  if (parts <= 1) return value;
+  const amount = parseMoney(value);
+  if (amount === null) return `${value} (dividido por ${parts})`;
+  return formatMoney(Math.floor((amount / parts) * 100) / 100);
+};
+
+// Applies the tie rule to the candidates, in the order they joined the prize
+const resolveTie = (
+  prizeId: number,
+  candidates: PrizeWinner[],
+  rule: TieRule,
+  value: string,
+  seed: RoundSeed,
+): Pick<AwardedPrize, 'winners' | 'shareValue' | 'drawOffBalls'> => {
+  if (candidates.length === 1 || rule === 'firstClaim') {
+    return { winners: [candidates[0]], shareValue: value };
+  }
+  if (rule === 'drawOff') {
+    const balls = drawOffBalls(seed.serverSeed, seed.publicEntropy, prizeId, candidates.length);
+    const drawOff = Object.fromEntries(candidates.map((candidate, i) => [candidate.cardId, balls[i] ?? 0]));
+    const best = candidates.reduce((a, b) => drawOff[b.cardId] > drawOff[a.cardId] ? b : a);
+    return { winners: [best], shareValue: value, drawOffBalls: drawOff };
+  }
+  return { winners: candidates, shareValue: splitPrizeValue(value, candidates.length) };
+};
+
+/** The prize, decided on ball `ballCount` between `candidates`. */
+export const createAward = (prize: Prize, ballCount: number, tieRule: TieRule, candidates: PrizeWinner[], seed: RoundSeed): AwardedPrize => ({
+  prizeId: prize.id,
+  prizeName: prize.name,
+  pattern: prize.pattern,
+  ballCount,
+  tieRule,
+  candidates,
+  ...resolveTie(prize.id, candidates, tieRule, prize.value, seed),
+});
+
+/** The award with late claimants on its deciding ball added to its candidates. */
+export const joinAward = (award: AwardedPrize, prizeValue: string, coWinners: PrizeWinner[], seed: RoundSeed): AwardedPrize => {
+  const candidates = [...award.candidates, ...coWinners];
+  return { ...award, candidates, ...resolveTie(award.prizeId, candidates, award.tieRule, prizeValue, seed) };
+};
+
+/** Whether `coWinners` may still join `award`: no ball since it was decided, and not already among its cards. */
+export const canJoinAward = (award: AwardedPrize, ballCount: number, coWinners: PrizeWinner[]): boolean =>
+  award.tieRule !== 'firstClaim' && award.ballCount === ballCount && coWinners.length > 0
+  && !coWinners.some(winner => award.candidates.some(c => c.cardId === winner.cardId));
@@ -0,0 +1,34 @@
+import type { AuthProvider, GameStore, HistoryProvider, LedgerProvider, RoomProvider } from './gameStore';
+import { GameStateService } from './gameState';
+import { MemoryGameStore } from './memoryStore';
+import { SupabaseGameStore } from './supabaseStore';
+import { WebSocketGameStore } from './webSocketStore';
+
+const LOCAL_SERVER_PORT = 8787;
+
+// Picks the backend from the Vite env (see vite-env.d.ts); Supabase unless configured otherwise.
+// Each backend also handles the accounts of its players, the rooms, the payout ledger and the round history.
+const createGameStore = (): GameStore & AuthProvider & LedgerProvider & HistoryProvider & RoomProvider => {
+  switch (import.meta.env.VITE_GAME_BACKEND) {
+    case 'memory':
+      return new MemoryGameStore({ storage: window.localStorage });
+    case 'local':
+      return new WebSocketGameStore(
+        import.meta.env.VITE_LOCAL_SERVER_URL ?? `ws://${window.location.hostname}:${LOCAL_SERVER_PORT}`
+      );
+    default:
+      return new SupabaseGameStore();
+  }
+};
+
+const gameStore = createGameStore();
+
+export const gameStateService = new GameStateService(gameStore);
+export const authService: AuthProvider = gameStore;
+export const ledgerService: LedgerProvider = gameStore;
+export const historyService: HistoryProvider = gameStore;
+export const roomService: RoomProvider = gameStore;
+
+// The local server and `npm run runner` drive the game for the other backends; the in-browser
+// one has no process of its own, so a staff member's tab runs the game runner instead.
+export const hostsGameRunner = import.meta.env.VITE_GAME_BACKEND === 'memory';
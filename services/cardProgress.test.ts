@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { BingoCardData, GeneratedCard } from '../types';
+import { getCardProgress, getCompletingNumbers, progressBadge, sortByProgress } from './cardProgress';
+
+// B 1-5, I 16-20, N 31-35 with the free space, G 46-50, O 61-65
+const cardData: BingoCardData = {
+  B: [1, 2, 3, 4, 5],
+  I: [16, 17, 18, 19, 20],
+  N: [31, 32, 'LIVRE', 34, 35],
+  G: [46, 47, 48, 49, 50],
+  O: [61, 62, 63, 64, 65],
+};
+
+const card = (id: string): GeneratedCard => ({ id, owner: 'ana', cardData });
+
+describe('getCardProgress', () => {
+  it('counts the cells missing on the closest mask, with the numbers that complete it', () => {
+    const progress = getCardProgress(card('a'), new Set([1, 2, 3, 4]), 'line');
+    expect(progress.missingCells).toBe(1);
+    expect(progress.neededNumbers).toContain(5);
+  });
+});
+
+describe('progressBadge', () => {
+  it('only flags the close cards', () => {
+    expect(progressBadge(0)).toBe('BINGO!');
+    expect(progressBadge(1)).toBe('falta 1!');
+    expect(progressBadge(3)).toBe('faltam 3');
+    expect(progressBadge(4)).toBeNull();
+  });
+});
+
+describe('sortByProgress', () => {
+  it('puts the closest cards first, keeping the order of ties and leaving cards without progress last', () => {
+    const progress = new Map([
+      ['a', { missingCells: 3, neededNumbers: [] }],
+      ['b', { missingCells: 1, neededNumbers: [] }],
+      ['c', { missingCells: 3, neededNumbers: [] }],
+    ]);
+    expect(sortByProgress([card('x'), card('a'), card('b'), card('c')], progress).map(c => c.id)).toEqual(['b', 'a', 'c', 'x']);
+  });
+});
+
+describe('getCompletingNumbers', () => {
+  it('counts, by number, the cards one cell away it would complete', () => {
+    const progress = [
+      { missingCells: 1, neededNumbers: [5, 65] },
+      { missingCells: 1, neededNumbers: [5] },
+      { missingCells: 2, neededNumbers: [7] },
+    ];
+    expect(getCompletingNumbers(progress)).toEqual([{ number: 5, cards: 2 }, { number: 65, cards: 1 }]);
+  });
+});
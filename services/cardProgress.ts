@@ -0,0 +1,59 @@
+import type { GameMode, GeneratedCard } from '../types';
+import { countMissingCells, getMissingNumbers } from './patterns';
+
+// How close each of the player's cards is to the prize in play, counted over the cells the player
+// has marked (every ball heard, when the app marks the cards). Cards a few cells away get a badge
+// and their missing numbers highlighted, and the numbers that would complete a card are listed.
+
+// Cards at most this many cells away are "close"
+export const CLOSE_CARD_CELLS = 3;
+
+export interface CardProgress {
+  // Cells still unmarked on the mask closest to completion; 0 when the card completes the pattern
+  missingCells: number;
+  // Numbers of the closest masks still unmarked; any mask's numbers complete the card
+  neededNumbers: number[];
+}
+
+export const getCardProgress = (card: GeneratedCard, marked: Set<number>, mode: GameMode): CardProgress => ({
+  missingCells: countMissingCells(card.cardData, marked, mode),
+  neededNumbers: getMissingNumbers(card.cardData, marked, mode),
+});
+
+export const isCloseCard = (progress: CardProgress): boolean => progress.missingCells <= CLOSE_CARD_CELLS;
+
+/** "falta 1!" for a close card; null for the others. */
+export const progressBadge = (missingCells: number): string | null => {
+  if (missingCells === 0) return 'BINGO!';
+  if (missingCells === 1) return 'falta 1!';
+  return missingCells <= CLOSE_CARD_CELLS ? `faltam ${missingCells}` : null;
+};
+
+/** Closest to completion first; cards as close as each other keep their order. */
+export const sortByProgress = (cards: GeneratedCard[], progress: Map<string, CardProgress>): GeneratedCard[] => {
+  // Cards without progress (forfeited ones) go last
+  const missingCells = (card: GeneratedCard) => progress.get(card.id)?.missingCells ?? Number.MAX_SAFE_INTEGER;
+  return [...cards].sort((a, b) => missingCells(a) - missingCells(b));
+};
+
+// Cards shown by the "best cards only" filter
+export const BEST_CARDS_SHOWN = 6;
+
+/** The BEST_CARDS_SHOWN cards closest to completion, closest first; every card while no prize is in play. */
+export const bestCards = (cards: GeneratedCard[], progress: Map<string, CardProgress>): GeneratedCard[] =>
+  progress.size === 0 ? cards : sortByProgress(cards, progress).filter(card => progress.has(card.id)).slice(0, BEST_CARDS_SHOWN);
+
+export interface CompletingNumber {
+  number: number;
+  // Cards the number would complete
+  cards: number;
+}
+
+/** The numbers that would complete a card one cell away, by number. */
+export const getCompletingNumbers = (progress: CardProgress[]): CompletingNumber[] => {
+  const counts = new Map<number, number>();
+  progress
+    .filter(p => p.missingCells === 1)
+    .forEach(p => p.neededNumbers.forEach(number => counts.set(number, (counts.get(number) ?? 0) + 1)));
+  return Array.from(counts, ([number, cards]) => ({ number, cards })).sort((a, b) => a.number - b.number);
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { BingoCardData, GameVariant, GeneratedCard, GridCardData } from '../types';
+import { areFreeSeriesCards, cardsOutsideSeries, formatSerial, nextSeriesCards, parseSerial, seriesCard } from './cardSeries';
+
+const series = 'serie-de-teste';
+
+const round = (generatedCards: GeneratedCard[] = [], gameVariant: GameVariant = 'ball75') =>
+  ({ roundId: 7, cardSeries: series, gameVariant, generatedCards, cardOrders: [] });
+
+describe('serials', () => {
+  it('are written with four digits and read back with or without them', () => {
+    expect(formatSerial(421)).toBe('0421');
+    expect(parseSerial('#0421')).toBe(421);
+    expect(parseSerial('421')).toBe(421);
+    expect(parseSerial('0')).toBeNull();
+    expect(parseSerial('A1')).toBeNull();
+  });
+});
+
+describe('seriesCard', () => {
+  it('is always the same card for a number, with its balls in their columns', () => {
+    const card = seriesCard(series, 421, 'ball75') as BingoCardData;
+    expect(seriesCard(series, 421, 'ball75')).toEqual(card);
+    expect(seriesCard(series, 422, 'ball75')).not.toEqual(card);
+    expect(card.N[2]).toBe('LIVRE');
+    expect(card.B.every(ball => Number(ball) >= 1 && Number(ball) <= 15)).toBe(true);
+    expect(card.O.every(ball => Number(ball) >= 61 && Number(ball) <= 75)).toBe(true);
+  });
+
+  it('deals a 90-ball strip of six tickets holding every ball once, five numbers a row', () => {
+    const strip = [1, 2, 3, 4, 5, 6].map(number => seriesCard(series, number, 'ball90') as GridCardData);
+    strip.forEach(ticket => ticket.rows.forEach(row => expect(row.filter(ball => ball !== null)).toHaveLength(5)));
+    const balls = strip.flatMap(ticket => ticket.rows.flat()).filter(ball => ball !== null);
+    expect([...balls].sort((a, b) => Number(a) - Number(b))).toEqual(Array.from({ length: 90 }, (_, i) => i + 1));
+  });
+});
+
+describe('nextSeriesCards', () => {
+  it('sells the lowest numbers still free in the round', () => {
+    const sold = nextSeriesCards(round(), 'ana', 2);
+    expect(sold.map(card => card.serial)).toEqual(['0001', '0002']);
+    expect(sold[0]).toMatchObject({ id: 'card-7-0001', owner: 'ana', cardData: seriesCard(series, 1, 'ball75') });
+    expect(nextSeriesCards(round(sold), 'bia', 1)[0].serial).toBe('0003');
+  });
+});
+
+describe('areFreeSeriesCards', () => {
+  const [first, second] = nextSeriesCards(round(), 'ana', 2);
+
+  it('accepts free cards of the series', () => {
+    expect(areFreeSeriesCards(round(), [first, second])).toBe(true);
+  });
+
+  it('refuses a number already sold or repeated in the sale', () => {
+    expect(areFreeSeriesCards(round([first]), [first])).toBe(false);
+    expect(areFreeSeriesCards(round(), [first, first])).toBe(false);
+  });
+
+  it("refuses a card that isn't the series' card for its serial", () => {
+    expect(areFreeSeriesCards(round(), [{ ...first, cardData: second.cardData }])).toBe(false);
+    expect(areFreeSeriesCards(round(), [{ ...first, serial: '1' }])).toBe(false);
+    expect(areFreeSeriesCards(round(), [{ ...first, serial: undefined }])).toBe(false);
+  });
+
+  it('refuses a card under an id the round does not give its number', () => {
+    expect(areFreeSeriesCards(round(), [{ ...first, id: 'card-7-0002' }])).toBe(false);
+  });
+
+  it("refuses a card of another variant's series", () => {
+    expect(areFreeSeriesCards(round([], 'ball90'), [first])).toBe(false);
+  });
+});
+
+describe('cardsOutsideSeries', () => {
+  it('lists the cards the series does not account for', () => {
+    const [card] = nextSeriesCards(round(), 'ana', 1);
+    const forged = { ...card, id: 'x', serial: '0002' };
+    expect(cardsOutsideSeries(series, 'ball75', [card, forged])).toEqual([forged]);
+  });
+});
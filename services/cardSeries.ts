@@ -0,0 +1,159 @@
+import type { BingoCardData, CardData, GameVariant, GeneratedCard, GridCardData, SharedGameState } from '../types';
+import { createDrawSecret, drawOrder } from './fairDraw';
+import { takenCards } from './schedule';
+import { FREE_SPACE, type VariantRules, cardNumbers, getVariant, isBingoCardData } from './variants';
+
+// Card series: every room has a public seed from which card #1, #2, #3... are derived, so card
+// #0421 of a room is always the same card. Card n takes, column by column, the first balls of
+// the draw order of `sha256(<series>:#<n>:<ball>)` (services/fairDraw.ts). 90-ball cards come in
+// strips of six that share the balls of one draw order, `sha256(<series>:strip#<k>:<ball>)`, so
+// that a strip holds every ball once. A round's cards can be regenerated from the series and
+// their serials by anyone; the backends only accept cards of the series whose numbers aren't
+// taken yet. The Supabase functions (supabase/migrations) follow the same rules.
+
+export const SERIAL_DIGITS = 4;
+const SERIES_LENGTH = 16;
+// Rooms saved before series existed share this one; new rooms get their own
+export const LEGACY_CARD_SERIES = 'bingo-do-fabao';
+
+const NUMBERS_PER_TICKET_ROW = 5;
+
+export const createCardSeries = (): string => createDrawSecret().slice(0, SERIES_LENGTH);
+
+/** 421 -> "0421" */
+export const formatSerial = (number: number): string => String(number).padStart(SERIAL_DIGITS, '0');
+
+/** "0421", "421" or "#0421" -> 421; null for anything else. */
+export const parseSerial = (serial: string): number | null => {
+  const digits = serial.trim().replace(/^#/, '');
+  return /^\d+$/.test(digits) && Number(digits) > 0 ? Number(digits) : null;
+};
+
+const ballsOfColumn = ([first, last]: [number, number]) => Array.from({ length: last - first + 1 }, (_, i) => first + i);
+
+// Each column takes the first balls of its range in `order`, less the free space, smallest on top
+const columnsCard = (variant: VariantRules, order: number[]): (number | string)[][] => {
+  const rank = new Map(order.map((ball, i) => [ball, i]));
+  return variant.columnRanges.map((range, column) => {
+    const freeRows = variant.freeCells.filter(cell => cell % variant.columns === column).map(cell => Math.floor(cell / variant.columns));
+    const numbers: (number | string)[] = ballsOfColumn(range)
+      .sort((a, b) => rank.get(a)! - rank.get(b)!)
+      .slice(0, variant.rows - freeRows.length)
+      .sort((a, b) => a - b);
+    freeRows.forEach(row => numbers.splice(row, 0, FREE_SPACE));
+    return numbers;
+  });
+};
+
+// Indexes of `count` items, sorted by `compare`
+const sortedIndexes = (count: number, compare: (a: number, b: number) => number) =>
+  Array.from({ length: count }, (_, i) => i).sort(compare);
+
+/**
+ * The six tickets of a 90-ball strip, from its draw order. Each column of each ticket first gets
+ * one ball; the balls left go to the tickets with the most numbers still missing, columns with
+ * the most balls left first. Within a ticket, the columns with the most numbers go first into
+ * the rows with the most room left. Both steps always fill every ticket with 5 numbers a row.
+ */
+const stripTickets = (variant: VariantRules, order: number[]): GridCardData[] => {
+  const rank = new Map(order.map((ball, i) => [ball, i]));
+  const { rows, stripSize, columnRanges } = variant;
+  const ticketSize = rows * NUMBERS_PER_TICKET_ROW;
+  const columnBalls = columnRanges.map(range => ballsOfColumn(range).sort((a, b) => rank.get(a)! - rank.get(b)!));
+
+  // How many balls of each column every ticket holds
+  const counts = Array.from({ length: stripSize }, () => columnRanges.map(() => 1));
+  const missing = counts.map(() => ticketSize - columnRanges.length);
+  const extras = columnBalls.map(balls => balls.length - stripSize);
+  sortedIndexes(columnRanges.length, (a, b) => extras[b] - extras[a] || a - b).forEach(column => {
+    const tieBreak = (ticket: number) => rank.get(columnRanges[column][0] + ticket)!;
+    sortedIndexes(stripSize, (a, b) => missing[b] - missing[a] || tieBreak(a) - tieBreak(b))
+      .slice(0, extras[column])
+      .forEach(ticket => { counts[ticket][column]++; missing[ticket]--; });
+  });
+
+  const nextBall = columnBalls.map(() => 0);
+  return counts.map(ticketCounts => {
+    const grid: (number | null)[][] = Array.from({ length: rows }, () => columnRanges.map(() => null));
+    const room = grid.map(() => NUMBERS_PER_TICKET_ROW);
+    sortedIndexes(columnRanges.length, (a, b) => ticketCounts[b] - ticketCounts[a] || a - b).forEach(column => {
+      const balls = columnBalls[column].slice(nextBall[column], nextBall[column] + ticketCounts[column]).sort((a, b) => a - b);
+      nextBall[column] += ticketCounts[column];
+      sortedIndexes(rows, (a, b) => room[b] - room[a] || a - b)
+        .slice(0, balls.length)
+        .sort((a, b) => a - b)
+        .forEach((row, i) => { grid[row][column] = balls[i]; room[row]--; });
+    });
+    return { rows: grid };
+  });
+};
+
+/** Card `number` of the series for `variant`; always the same card. */
+export const seriesCard = (series: string, number: number, variantId: GameVariant): CardData => {
+  const variant = getVariant(variantId);
+  if (variant.stripSize > 1) {
+    const strip = Math.ceil(number / variant.stripSize);
+    return stripTickets(variant, drawOrder(series, `strip#${strip}`, variant.totalBalls))[(number - 1) % variant.stripSize];
+  }
+  const columns = columnsCard(variant, drawOrder(series, `#${number}`, variant.totalBalls));
+  if (variant.id === 'ball75') {
+    const [B, I, N, G, O] = columns;
+    return { B, I, N, G, O } as BingoCardData;
+  }
+  return { rows: columns[0].map((_, row) => columns.map(column => column[row] as number)) };
+};
+
+// Ids only have to differ from the cards of other rounds; within one a number is sold once
+export const seriesCardId = (roundId: number, serial: string): string => `card-${roundId}-${serial}`;
+
+const cardSignature = (card: CardData): string =>
+  JSON.stringify(isBingoCardData(card) ? [card.B, card.I, card.N, card.G, card.O] : card.rows);
+
+// Same numbers, whatever their place on the card
+const cardContentSignature = (card: CardData): string => JSON.stringify(cardNumbers(card).sort((a, b) => a - b));
+
+export const isSeriesCard = (series: string, variant: GameVariant, card: GeneratedCard): boolean => {
+  const number = card.serial === undefined ? null : parseSerial(card.serial);
+  return number !== null && card.serial === formatSerial(number)
+    && cardSignature(card.cardData) === cardSignature(seriesCard(series, number, variant));
+};
+
+/**
+ * The lowest `quantity` numbers of the series that are free: not sold, ordered or kept aside, and
+ * not the same card as one that is (two numbers of a series can, very rarely, give the same card).
+ */
+export const nextSeriesCards = (
+  state: Pick<SharedGameState, 'roundId' | 'cardSeries' | 'gameVariant' | 'generatedCards' | 'cardOrders'>,
+  owner: string,
+  quantity: number,
+): GeneratedCard[] => {
+  const taken = takenCards(state);
+  const takenSerials = new Set(taken.map(card => card.serial));
+  const takenContents = new Set(taken.map(card => cardContentSignature(card.cardData)));
+  const cards: GeneratedCard[] = [];
+  for (let number = 1; cards.length < quantity; number++) {
+    const serial = formatSerial(number);
+    if (takenSerials.has(serial)) continue;
+    const cardData = seriesCard(state.cardSeries, number, state.gameVariant);
+    const content = cardContentSignature(cardData);
+    if (takenContents.has(content)) continue;
+    takenContents.add(content);
+    cards.push({ id: seriesCardId(state.roundId, serial), cardData, owner, serial });
+  }
+  return cards;
+};
+
+/** What the backends accept in a sale: cards of the room's series under their ids, each number once and not taken yet. */
+export const areFreeSeriesCards = (
+  state: Pick<SharedGameState, 'roundId' | 'cardSeries' | 'gameVariant' | 'generatedCards' | 'cardOrders'>,
+  cards: GeneratedCard[],
+): boolean => {
+  const takenSerials = new Set(takenCards(state).map(card => card.serial));
+  return new Set(cards.map(card => card.serial)).size === cards.length
+    && cards.every(card => !takenSerials.has(card.serial) && isSeriesCard(state.cardSeries, state.gameVariant, card)
+      && card.id === seriesCardId(state.roundId, card.serial ?? ''));
+};
+
+/** Cards of a round that its series doesn't account for (cards sold before series existed included). */
+export const cardsOutsideSeries = (series: string, variant: GameVariant, cards: GeneratedCard[]): GeneratedCard[] =>
+  cards.filter(card => !isSeriesCard(series, variant, card));
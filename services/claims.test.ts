@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { BingoCardData, BingoClaim, GeneratedCard, SharedGameState } from '../types';
+import { CLAIM_PAUSE_MS, areWinningCards, checkClaim, claimBlock, nextClaimPenalty, strikesOf } from './claims';
+import { createInitialGameState } from './gameReducer';
+
+// B 1-5, I 16-20, N 31-35 with the free space, G 46-50, O 61-65
+const cardData: BingoCardData = {
+  B: [1, 2, 3, 4, 5],
+  I: [16, 17, 18, 19, 20],
+  N: [31, 32, 'LIVRE', 34, 35],
+  G: [46, 47, 48, 49, 50],
+  O: [61, 62, 63, 64, 65],
+};
+// Column B of this one is 6-10
+const otherCardData: BingoCardData = { ...cardData, B: [6, 7, 8, 9, 10] };
+
+const cards: GeneratedCard[] = [
+  { id: 'a1', owner: 'ana', cardData: otherCardData },
+  { id: 'a2', owner: 'ana', cardData },
+  { id: 'b1', owner: 'bia', cardData },
+];
+
+const falseClaim = (playerName: string, timestamp: number, overrides: Partial<BingoClaim> = {}): BingoClaim =>
+  ({ playerName, cardId: 'a1', ballCount: 4, isValid: false, timestamp, ...overrides });
+
+const round = (drawnNumbers: number[], overrides: Partial<SharedGameState> = {}): SharedGameState =>
+  ({ ...createInitialGameState(), isGameActive: true, generatedCards: cards, drawnNumbers, ...overrides });
+
+describe('strikes', () => {
+  const claims = [falseClaim('ana', 0), falseClaim('ana', 1), falseClaim('bia', 2), { ...falseClaim('ana', 3), isValid: true }];
+
+  it('counts the false claims of the player', () => {
+    expect(strikesOf(claims, 'ana')).toBe(2);
+  });
+
+  it('bring the penalty on the claim that reaches the strike count', () => {
+    const rules = { strikes: 3, penalty: 'lockRound' as const, beforeNextBall: false };
+    expect(nextClaimPenalty(rules, claims, 'ana')).toBe('lockRound');
+    expect(nextClaimPenalty(rules, claims, 'bia')).toBeNull();
+    expect(nextClaimPenalty({ ...rules, strikes: 1, penalty: null }, claims, 'bia')).toBeNull();
+  });
+});
+
+describe('claimBlock', () => {
+  it('pauses the player for a moment after a false claim, not after a late one', () => {
+    const claims = [falseClaim('ana', 1000)];
+    expect(claimBlock(claims, 'ana', 1000 + CLAIM_PAUSE_MS - 1)).toBe('paused');
+    expect(claimBlock(claims, 'ana', 1000 + CLAIM_PAUSE_MS)).toBeNull();
+    expect(claimBlock(claims, 'bia', 1000)).toBeNull();
+    expect(claimBlock([falseClaim('ana', 1000, { winningBall: 5 })], 'ana', 1000)).toBeNull();
+  });
+
+  it('locks the player out for the rest of the round', () => {
+    expect(claimBlock([falseClaim('ana', 0, { penalty: 'lockRound' })], 'ana', 60_000)).toBe('lockedOut');
+  });
+});
+
+describe('checkClaim', () => {
+  it("finds the player's winning cards, not only the one on screen", () => {
+    expect(checkClaim(round([1, 2, 3, 4, 5]), 'ana')).toEqual({ verdict: 'winner', winners: [{ cardId: 'a2', playerName: 'ana' }], winningBall: 5 });
+    expect(checkClaim(round([1, 2, 3, 4]), 'ana')).toEqual({ verdict: 'notWinner', winners: [], winningBall: null });
+  });
+
+  it('leaves out the cards forfeited by a false claim', () => {
+    const claims = [falseClaim('ana', 0, { cardId: 'a2', penalty: 'forfeitCard' })];
+    expect(checkClaim(round([1, 2, 3, 4, 5], { claims }), 'ana').verdict).toBe('notWinner');
+  });
+
+  it('joins the last prize on the ball that decided it, even once the round is over', () => {
+    const award = {
+      prizeId: 1, prizeName: '1º Prêmio', pattern: 'line', ballCount: 5, tieRule: 'split' as const,
+      candidates: [{ cardId: 'b1', playerName: 'bia' }], winners: [{ cardId: 'b1', playerName: 'bia' }], shareValue: 'R$ 500,00',
+    };
+    const over = round([1, 2, 3, 4, 5], { isGameActive: false, awardedPrizes: [award], bingoWinners: award.winners });
+    expect(checkClaim(over, 'ana')).toEqual({ verdict: 'coWinner', winners: [{ cardId: 'a2', playerName: 'ana' }], winningBall: 5 });
+    expect(checkClaim({ ...over, drawnNumbers: [1, 2, 3, 4, 5, 6] }, 'ana').verdict).toBe('closed');
+  });
+
+  it('is late for a card that became a winner before the last ball, under the late claim rule', () => {
+    const claimRules = { ...createInitialGameState().claimRules, beforeNextBall: true };
+    expect(checkClaim(round([1, 2, 3, 4, 5, 70], { claimRules }), 'ana')).toEqual({ verdict: 'late', winners: [], winningBall: 5 });
+    expect(checkClaim(round([1, 2, 3, 4, 5, 70]), 'ana').verdict).toBe('winner');
+  });
+
+  it('counts a card as a winner from the ball that put the prize in play', () => {
+    const award = {
+      prizeId: 1, prizeName: '1º Prêmio', pattern: 'line', ballCount: 6, tieRule: 'split' as const,
+      candidates: [{ cardId: 'x', playerName: 'caio' }], winners: [{ cardId: 'x', playerName: 'caio' }], shareValue: 'R$ 500,00',
+    };
+    const claimRules = { ...createInitialGameState().claimRules, beforeNextBall: true };
+    const state = round([1, 2, 3, 4, 5, 70], { gameMode: 'line', awardedPrizes: [award], claimRules });
+    expect(checkClaim(state, 'ana')).toMatchObject({ verdict: 'winner', winningBall: 6 });
+  });
+
+  it('is closed once the staff stopped the round', () => {
+    const roundEnding = { outcome: 'voided' as const, reason: 'Globo travou', endedBy: 'bia', endedAt: 0 };
+    expect(checkClaim(round([1, 2, 3, 4, 5], { roundEnding }), 'ana').verdict).toBe('closed');
+  });
+});
+
+describe('areWinningCards', () => {
+  const state = round([1, 2, 3, 4, 5]);
+
+  it('accepts cards of their owners completing the pattern', () => {
+    expect(areWinningCards(state, [{ cardId: 'a2', playerName: 'ana' }, { cardId: 'b1', playerName: 'bia' }], 'line', 0)).toBe(true);
+  });
+
+  it('refuses a card that does not complete it, under another name, unknown or listed twice', () => {
+    expect(areWinningCards(state, [{ cardId: 'a1', playerName: 'ana' }], 'line', 0)).toBe(false);
+    expect(areWinningCards(state, [{ cardId: 'a2', playerName: 'bia' }], 'line', 0)).toBe(false);
+    expect(areWinningCards(state, [{ cardId: 'zz', playerName: 'ana' }], 'line', 0)).toBe(false);
+    expect(areWinningCards(state, [{ cardId: 'a2', playerName: 'ana' }, { cardId: 'a2', playerName: 'ana' }], 'line', 0)).toBe(false);
+  });
+
+  it('refuses a forfeited card', () => {
+    const claims = [falseClaim('ana', 0, { cardId: 'a2', penalty: 'forfeitCard' })];
+    expect(areWinningCards({ ...state, claims }, [{ cardId: 'a2', playerName: 'ana' }], 'line', 0)).toBe(false);
+  });
+
+  it('refuses a card that became a winner before the last ball, under the late claim rule', () => {
+    const claimRules = { ...state.claimRules, beforeNextBall: true };
+    const later = { ...state, drawnNumbers: [1, 2, 3, 4, 5, 70], claimRules };
+    expect(areWinningCards(later, [{ cardId: 'a2', playerName: 'ana' }], 'line', 0)).toBe(false);
+    expect(areWinningCards(later, [{ cardId: 'a2', playerName: 'ana' }], 'line', 6)).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import type { BingoClaim, ClaimPenalty, ClaimRules, GameMode, GeneratedCard, PrizeWinner, SharedGameState } from '../types';
+import { winningBallCount } from './patterns';
+
+// "BINGO!" calls of the players marking by hand. The backend checks a claim against its own draws
+// and the prize in play, over every card of the player: neither the balls the player has heard nor
+// the card on screen matter. Each false claim is a strike and a short wait before the next one;
+// from the room's strike count on, a false claim also locks the player out of the round or forfeits
+// the claimed card. Under the late claim rule, a card must be claimed before the ball after the one
+// that made it a winner; a late claim wins nothing but isn't a strike either. The Supabase
+// functions (supabase/migrations) follow the same rules.
+
+// Wait after a false claim before the player may claim again
+export const CLAIM_PAUSE_MS = 5000;
+export const MAX_CLAIM_STRIKES = 10;
+
+export const defaultClaimRules: ClaimRules = { strikes: 3, penalty: null, beforeNextBall: false };
+
+export const claimPenaltyLabels: Record<ClaimPenalty, string> = {
+  lockRound: 'Bloqueado até o fim da rodada',
+  forfeitCard: 'Cartela anulada',
+};
+
+export const isValidClaimRules = (rules: ClaimRules): boolean =>
+  Number.isInteger(rules.strikes) && rules.strikes >= 1 && rules.strikes <= MAX_CLAIM_STRIKES
+  && (rules.penalty === null || Object.hasOwn(claimPenaltyLabels, rules.penalty))
+  && typeof rules.beforeNextBall === 'boolean';
+
+/** No card of the player completed the prize; late claims had one. */
+export const isFalseClaim = (claim: BingoClaim): boolean => !claim.isValid && claim.winningBall === undefined;
+
+export const isLateClaim = (claim: BingoClaim): boolean => !claim.isValid && claim.winningBall !== undefined;
+
+/** False claims of the player this round. */
+export const strikesOf = (claims: BingoClaim[], playerName: string): number =>
+  claims.filter(c => c.playerName === playerName && isFalseClaim(c)).length;
+
+/** Cards forfeited by a false claim: they can't win anymore this round. */
+export const forfeitedCardIds = (claims: BingoClaim[]): Set<string> =>
+  new Set(claims.filter(c => c.penalty === 'forfeitCard').map(c => c.cardId));
+
+/** Penalty of the player's next false claim, if it would reach the strike count. */
+export const nextClaimPenalty = (rules: ClaimRules, claims: BingoClaim[], playerName: string): ClaimPenalty | null =>
+  rules.penalty && strikesOf(claims, playerName) + 1 >= rules.strikes ? rules.penalty : null;
+
+export type ClaimBlock =
+  // A false claim reached the strike count under the 'lockRound' penalty
+  | 'lockedOut'
+  // Within CLAIM_PAUSE_MS of the player's last false claim
+  | 'paused';
+
+/** Why the player can't claim right now, if they can't. */
+export const claimBlock = (claims: BingoClaim[], playerName: string, now: number): ClaimBlock | null => {
+  const own = claims.filter(c => c.playerName === playerName);
+  if (own.some(c => c.penalty === 'lockRound')) return 'lockedOut';
+  const lastFalse = own.filter(isFalseClaim).pop();
+  return lastFalse && now < lastFalse.timestamp + CLAIM_PAUSE_MS ? 'paused' : null;
+};
+
+export type ClaimVerdict =
+  // No prize to claim: the round isn't running, is over or was stopped by the staff
+  | 'closed'
+  // A card of the player completes the prize in play
+  | 'winner'
+  // A card of the player completes the last prize on the ball that decided it, so it joins its winners
+  | 'coWinner'
+  // A card of the player completes a prize, but became a winner before the last ball (late claim rule)
+  | 'late'
+  | 'notWinner';
+
+export interface ClaimCheck {
+  verdict: ClaimVerdict;
+  // The player's cards completing the prize, in card order; empty unless a winner or coWinner
+  winners: PrizeWinner[];
+  // Balls drawn when the (first winning, or latest late) card became a winner; null unless a card completes a prize
+  winningBall: number | null;
+}
+
+interface WinningCard {
+  card: GeneratedCard;
+  // Balls drawn when it became a winner: it completed the pattern, and the prize was in play
+  winningBall: number;
+}
+
+const winningCards = (cards: GeneratedCard[], drawnNumbers: number[], pattern: GameMode, inPlaySince: number): WinningCard[] =>
+  cards.flatMap(card => {
+    const ballCount = winningBallCount(card.cardData, drawnNumbers, pattern);
+    return ballCount === null ? [] : [{ card, winningBall: Math.max(ballCount, inPlaySince) }];
+  });
+
+/** Checks every card of the player still in the round against the balls drawn so far. */
+export const checkClaim = (
+  state: Pick<SharedGameState, 'generatedCards' | 'drawnNumbers' | 'isGameActive' | 'gameMode' | 'awardedPrizes' | 'bingoWinners' | 'roundEnding' | 'claims' | 'claimRules'>,
+  playerName: string,
+): ClaimCheck => {
+  const closed: ClaimCheck = { verdict: 'closed', winners: [], winningBall: null };
+  if (state.roundEnding) return closed;
+  const { drawnNumbers, awardedPrizes } = state;
+  const forfeited = forfeitedCardIds(state.claims);
+  const cards = state.generatedCards.filter(c => c.owner === playerName && !c.isPaper && !forfeited.has(c.id));
+
+  // Joining the last prize, on the ball that decided it, comes first; then the prize in play
+  const options: { verdict: 'winner' | 'coWinner'; found: WinningCard[] }[] = [];
+  const lastAward = awardedPrizes[awardedPrizes.length - 1];
+  if (lastAward && lastAward.tieRule !== 'firstClaim' && lastAward.ballCount === drawnNumbers.length) {
+    const newCards = cards.filter(card => !lastAward.candidates.some(c => c.cardId === card.id));
+    const inPlaySince = awardedPrizes[awardedPrizes.length - 2]?.ballCount ?? 0;
+    options.push({ verdict: 'coWinner', found: winningCards(newCards, drawnNumbers, lastAward.pattern, inPlaySince) });
+  }
+  const isPrizeInPlay = state.isGameActive && !state.bingoWinners;
+  if (isPrizeInPlay) {
+    options.push({ verdict: 'winner', found: winningCards(cards, drawnNumbers, state.gameMode, lastAward?.ballCount ?? 0) });
+  }
+
+  const found = options.flatMap(option => option.found);
+  if (found.length === 0) return isPrizeInPlay ? { verdict: 'notWinner', winners: [], winningBall: null } : closed;
+  for (const option of options) {
+    const timely = state.claimRules.beforeNextBall
+      ? option.found.filter(f => f.winningBall === drawnNumbers.length)
+      : option.found;
+    if (timely.length > 0) {
+      return {
+        verdict: option.verdict,
+        winners: timely.map(({ card }) => ({ cardId: card.id, playerName: card.owner })),
+        winningBall: timely[0].winningBall,
+      };
+    }
+  }
+  return { verdict: 'late', winners: [], winningBall: Math.max(...found.map(f => f.winningBall)) };
+};
+
+/**
+ * Whether every candidate of an award is, under its owner's name, a card of the round still in it
+ * that completes `pattern` with the balls drawn so far (in time, under the late claim rule).
+ * Checked however the award is recorded; `inPlaySince` is the ball count when the prize came into play.
+ */
+export const areWinningCards = (
+  state: Pick<SharedGameState, 'generatedCards' | 'drawnNumbers' | 'claims' | 'claimRules'>,
+  candidates: PrizeWinner[],
+  pattern: GameMode,
+  inPlaySince: number,
+): boolean => {
+  const forfeited = forfeitedCardIds(state.claims);
+  const cards = state.generatedCards.filter(card =>
+    !forfeited.has(card.id) && candidates.some(c => c.cardId === card.id && c.playerName === card.owner));
+  const found = winningCards(cards, state.drawnNumbers, pattern, inPlaySince)
+    .filter(f => !state.claimRules.beforeNextBall || f.winningBall === state.drawnNumbers.length);
+  return new Set(candidates.map(c => c.cardId)).size === candidates.length && found.length === candidates.length;
+};
@@ -0,0 +1,49 @@
+import type { UserProfile } from '../types';
+
+// Password hashing for the backends that keep their own accounts (memory and local server).
+// Uses WebCrypto, which both browsers and Node provide as `globalThis.crypto`.
+
+const PBKDF2_ITERATIONS = 210_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+// What the memory store and the local server keep per account; never sent to clients as is
+export interface StoredAccount {
+  profile: UserProfile;
+  password: PasswordHash;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const derive = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+    key,
+    HASH_BITS,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  return { salt, hash: await derive(password, salt, PBKDF2_ITERATIONS), iterations: PBKDF2_ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await derive(password, stored.salt, stored.iterations);
+  // Compare every character so the time taken doesn't reveal how much matched
+  let difference = hash.length ^ stored.hash.length;
+  for (let i = 0; i < hash.length; i++) {
+    difference |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i % stored.hash.length);
+  }
+  return difference === 0;
+};
+
+export const createSessionToken = (): string => toHex(crypto.getRandomValues(new Uint8Array(32)));
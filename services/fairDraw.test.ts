@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { TIE_BREAK_BALLS, TOTAL_BALLS, deriveRoundSeed, drawOffBalls, drawOrder, sha256Hex } from './fairDraw';
+
+describe('sha256Hex', () => {
+  it('matches the standard digest', () => {
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('drawOrder', () => {
+  it('draws every ball once', () => {
+    const order = drawOrder('seed', 'a,b');
+    expect(order).toHaveLength(TOTAL_BALLS);
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: TOTAL_BALLS }, (_, i) => i + 1));
+  });
+
+  it('is replayed from the seed and entropy', () => {
+    expect(drawOrder('seed', 'a,b')).toEqual(drawOrder('seed', 'a,b'));
+    expect(drawOrder('seed', 'a,b')).not.toEqual(drawOrder('seed', 'a,c'));
+  });
+});
+
+describe('deriveRoundSeed', () => {
+  it('gives each round its own seed', () => {
+    expect(deriveRoundSeed('secret', 1)).toBe(deriveRoundSeed('secret', 1));
+    expect(deriveRoundSeed('secret', 1)).not.toBe(deriveRoundSeed('secret', 2));
+  });
+});
+
+describe('drawOffBalls', () => {
+  it('gives distinct balls that a later co-winner does not change', () => {
+    const three = drawOffBalls('seed', 'a,b', 1, 3);
+    expect(new Set(three).size).toBe(3);
+    three.forEach(ball => expect(ball).toBeGreaterThanOrEqual(1));
+    three.forEach(ball => expect(ball).toBeLessThanOrEqual(TIE_BREAK_BALLS));
+    expect(drawOffBalls('seed', 'a,b', 1, 2)).toEqual(three.slice(0, 2));
+  });
+
+  it('draws separately for each prize', () => {
+    expect(drawOffBalls('seed', 'a,b', 1, 5)).not.toEqual(drawOffBalls('seed', 'a,b', 2, 5));
+  });
+});
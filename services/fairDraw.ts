@@ -0,0 +1,147 @@
+import type { GeneratedCard } from '../types';
+
+// Commit-reveal draw. Before a round, only sha256(serverSeed) is published. When the game starts,
+// the cards sold fix the public entropy, which nobody could know when the seed was committed.
+// The ball order is then the balls of the globe (1..75, 1..90, ... depending on the variant) sorted
+// by sha256(`${serverSeed}:${publicEntropy}:${n}`), and the seed is revealed once the round is over
+// so anyone can replay it.
+// The Postgres functions (supabase/migrations) implement the same rules; keep them in sync.
+
+// Of 75-ball bingo; the other variants pass their own count (services/variants.ts)
+export const TOTAL_BALLS = 75;
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+// --- SHA-256 ---
+// The reducer runs synchronously, and WebCrypto's digest is async, so the local backends use
+// this small implementation. The "Verificar sorteio" screen uses WebCrypto instead, so a
+// bug here would show up as a failed verification.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const sha256 = (message: Uint8Array): Uint8Array => {
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  // Padding: 0x80, zeros, then the message length in bits as a 64-bit big-endian number
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(message.length / 0x20000000));
+  view.setUint32(paddedLength - 4, (message.length * 8) >>> 0);
+
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  h.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+};
+
+export const sha256Hex = (text: string): string => toHex(sha256(encoder.encode(text)));
+
+const hmacSha256Hex = (key: string, text: string): string => {
+  let keyBytes = encoder.encode(key);
+  if (keyBytes.length > 64) keyBytes = sha256(keyBytes);
+  const inner = new Uint8Array(64 + encoder.encode(text).length);
+  const outer = new Uint8Array(64 + 32);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = (keyBytes[i] ?? 0) ^ 0x36;
+    outer[i] = (keyBytes[i] ?? 0) ^ 0x5c;
+  }
+  inner.set(encoder.encode(text), 64);
+  outer.set(sha256(inner), 64);
+  return toHex(sha256(outer));
+};
+
+// --- Draw rules ---
+
+/** Random secret for a local backend; every round's seed is derived from it. */
+export const createDrawSecret = (): string => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Revealing one round's seed says nothing about the secret or the other rounds
+export const deriveRoundSeed = (drawSecret: string, roundId: number): string =>
+  hmacSha256Hex(drawSecret, `round:${roundId}`);
+
+export const entropyFromCards = (cards: GeneratedCard[]): string =>
+  sha256Hex(cards.map(card => card.id).sort().join(','));
+
+const ballKey = (serverSeed: string, publicEntropy: string, ball: number) => `${serverSeed}:${publicEntropy}:${ball}`;
+
+const compareKeys = (a: { key: string; ball: number }, b: { key: string; ball: number }) =>
+  a.key < b.key ? -1 : a.key > b.key ? 1 : a.ball - b.ball;
+
+export const drawOrder = (serverSeed: string, publicEntropy: string, totalBalls = TOTAL_BALLS): number[] =>
+  Array.from({ length: totalBalls }, (_, i) => ({ ball: i + 1, key: sha256Hex(ballKey(serverSeed, publicEntropy, i + 1)) }))
+    .sort(compareKeys)
+    .map(entry => entry.ball);
+
+// Balls of a draw-off (tie rule 'drawOff'): the candidates of a prize, in the order they joined it,
+// take the first balls of 1..75 sorted by sha256(`${serverSeed}:${publicEntropy}:drawOff:${prizeId}:${n}`).
+// A co-winner joining later takes the next ball, so the balls already drawn don't change.
+export const TIE_BREAK_BALLS = 75;
+
+export const drawOffBalls = (serverSeed: string, publicEntropy: string, prizeId: number, count: number): number[] =>
+  Array.from({ length: TIE_BREAK_BALLS }, (_, i) => ({ ball: i + 1, key: sha256Hex(`${serverSeed}:${publicEntropy}:drawOff:${prizeId}:${i + 1}`) }))
+    .sort(compareKeys)
+    .slice(0, count)
+    .map(entry => entry.ball);
+
+// --- Verification (WebCrypto, independent from the implementation above) ---
+
+const webSha256Hex = async (text: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(text))));
+
+export interface DrawVerification {
+  seedMatchesHash: boolean;
+  order: number[];
+  // How many of the drawn balls came out in the order the seed dictates
+  matchingBalls: number;
+}
+
+export const verifyDraw = async (
+  serverSeed: string,
+  seedHash: string,
+  publicEntropy: string,
+  drawnNumbers: number[],
+  totalBalls = TOTAL_BALLS,
+): Promise<DrawVerification> => {
+  const keys = await Promise.all(
+    Array.from({ length: totalBalls }, async (_, i) => ({ ball: i + 1, key: await webSha256Hex(ballKey(serverSeed, publicEntropy, i + 1)) }))
+  );
+  const order = keys.sort(compareKeys).map(entry => entry.ball);
+  const firstMismatch = drawnNumbers.findIndex((ball, i) => order[i] !== ball);
+  return {
+    seedMatchesHash: (await webSha256Hex(serverSeed)) === seedHash.trim().toLowerCase(),
+    order,
+    matchingBalls: firstMismatch === -1 ? drawnNumbers.length : firstMismatch,
+  };
+};
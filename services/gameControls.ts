@@ -0,0 +1,47 @@
+import type { RoundEnding, RoundOutcome, SharedGameState } from '../types';
+import { getVariant } from './variants';
+
+// Live controls of the staff over a round being played: pausing it, the pace of the draw, calling
+// the balls by hand or typing in those of a physical globe, and stopping the round before its last
+// prize. The Supabase functions (supabase/migrations) follow the same rules.
+
+export const MIN_DRAW_INTERVAL_MS = 2000;
+export const MAX_DRAW_INTERVAL_MS = 30000;
+export const MAX_END_REASON_LENGTH = 200;
+
+// Paces offered in the admin panel; null leaves it to the game runner's default
+export const drawIntervalOptions: { value: number | null; label: string }[] = [
+  { value: null, label: 'Padrão' },
+  { value: 3000, label: 'Rápido (3s)' },
+  { value: 6000, label: 'Normal (6s)' },
+  { value: 10000, label: 'Lento (10s)' },
+  { value: 15000, label: 'Bem lento (15s)' },
+];
+
+/** A ball the caller may enter from the physical globe: in the room's globe and not drawn yet. */
+export const canEnterNumber = (state: Pick<SharedGameState, 'drawnNumbers' | 'gameVariant'>, number: number): boolean =>
+  Number.isInteger(number) && number >= 1 && number <= getVariant(state.gameVariant).totalBalls && !state.drawnNumbers.includes(number);
+
+/** The last ball if it can still be taken back: typed in from the globe, and no prize decided on it. */
+export const undoableNumber = (state: Pick<SharedGameState, 'drawnNumbers' | 'globeNumbers' | 'awardedPrizes'>): number | null => {
+  const last = state.drawnNumbers[state.drawnNumbers.length - 1];
+  const lastAward = state.awardedPrizes[state.awardedPrizes.length - 1];
+  if (last === undefined || !state.globeNumbers.includes(last) || lastAward?.ballCount === state.drawnNumbers.length) return null;
+  return last;
+};
+
+export const isValidDrawInterval = (intervalMs: number | null): boolean =>
+  intervalMs === null
+  || (Number.isInteger(intervalMs) && intervalMs >= MIN_DRAW_INTERVAL_MS && intervalMs <= MAX_DRAW_INTERVAL_MS);
+
+/** A voided round must say why; ending one without a winner may. */
+export const isValidEndReason = (outcome: RoundOutcome, reason: string): boolean =>
+  reason.trim().length <= MAX_END_REASON_LENGTH && (outcome !== 'voided' || reason.trim().length > 0);
+
+export const roundOutcomeLabels: Record<RoundOutcome, string> = {
+  voided: 'Rodada anulada',
+  noWinner: 'Rodada encerrada sem vencedor',
+};
+
+export const describeRoundEnding = (ending: RoundEnding): string =>
+  ending.reason ? `${roundOutcomeLabels[ending.outcome]}: ${ending.reason}` : roundOutcomeLabels[ending.outcome];
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import type { BingoCardData, GeneratedCard, PrizeWinner, SharedGameState } from '../types';
+import type { GameAction } from './gameStore';
+import { deriveRoundSeed, drawOrder } from './fairDraw';
+import { nextSeriesCards } from './cardSeries';
+import { applyGameAction, createInitialGameState } from './gameReducer';
+
+const ana: PrizeWinner = { cardId: 'a', playerName: 'ana' };
+const bia: PrizeWinner = { cardId: 'b', playerName: 'bia' };
+
+// B 1-5, I 16-20, N 31-35 with the free space, G 46-50, O 61-65
+const cardData: BingoCardData = {
+  B: [1, 2, 3, 4, 5],
+  I: [16, 17, 18, 19, 20],
+  N: [31, 32, 'LIVRE', 34, 35],
+  G: [46, 47, 48, 49, 50],
+  O: [61, 62, 63, 64, 65],
+};
+
+const context = { drawSecret: 'secret' };
+
+const defaultPrizes = createInitialGameState().prizes;
+
+const card = (id: string, owner: string): GeneratedCard => ({ id, owner, cardData });
+
+// Sales only take free cards of the room's series
+const seriesCards = (owner: string, quantity: number): GeneratedCard[] => nextSeriesCards(createInitialGameState(), owner, quantity);
+
+const activeGame = (drawnNumbers: number[] = [1, 2, 3, 4]): SharedGameState =>
+  ({ ...createInitialGameState(), isGameActive: true, drawnNumbers });
+
+describe('setUserOnline', () => {
+  it('keeps the online list sorted and without repeats', () => {
+    const online = [{ name: 'bia', online: true }, { name: 'ana', online: true }, { name: 'ana', online: true }]
+      .reduce((state, { name, online }) => applyGameAction(state, { type: 'setUserOnline', name, online }, context).state, createInitialGameState());
+    expect(online.onlineUsers).toEqual(['ana', 'bia']);
+    expect(applyGameAction(online, { type: 'setUserOnline', name: 'ana', online: false }, context).state.onlineUsers).toEqual(['bia']);
+  });
+});
+
+describe('startGame', () => {
+  it('draws in the order committed to before the round', () => {
+    const { state: started } = applyGameAction({ ...createInitialGameState(), generatedCards: [card('a', 'ana')] }, { type: 'startGame' }, context);
+    const commitment = started.drawCommitment;
+    expect(commitment?.seedHash).toHaveLength(64);
+    expect(commitment?.serverSeed).toBeNull();
+
+    const { result } = applyGameAction(started, { type: 'drawNextNumber' }, context);
+    expect(result).toBe(drawOrder(deriveRoundSeed('secret', 1), commitment?.publicEntropy ?? '')[0]);
+  });
+});
+
+describe('drawNextNumber', () => {
+  it('draws a new ball only while the game is active', () => {
+    expect(applyGameAction(createInitialGameState(), { type: 'drawNextNumber' }, context).result).toBeNull();
+
+    const { state, result } = applyGameAction(activeGame(), { type: 'drawNextNumber' }, context);
+    expect(result).toBeGreaterThan(4);
+    expect(result).toBeLessThanOrEqual(75);
+    expect(state.drawnNumbers).toEqual([1, 2, 3, 4, result]);
+  });
+});
+
+// Column B of the cards is a line
+const withCards = (drawnNumbers: number[] = [1, 2, 3, 4, 5]): SharedGameState =>
+  ({ ...activeGame(drawnNumbers), generatedCards: [card('a', 'ana'), card('b', 'bia')] });
+
+describe('recordAward', () => {
+  const action: GameAction = { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: 5, candidates: [ana] };
+
+  it('awards the prize in play and moves on to the next pattern', () => {
+    const { state, result } = applyGameAction(withCards(), action, context);
+    expect(result).toBe(true);
+    expect(state.awardedPrizes).toMatchObject([{ prizeId: 1, ballCount: 5, winners: [ana], shareValue: 'R$ 500,00' }]);
+    expect(state.gameMode).toBe(defaultPrizes[1].pattern);
+    expect(state.playerWins).toEqual({ ana: 1 });
+    expect(state.isGameActive).toBe(true);
+  });
+
+  it('is refused once the prize was awarded or another ball drawn', () => {
+    const { state } = applyGameAction(withCards(), action, context);
+    expect(applyGameAction(state, action, context).result).toBe(false);
+    expect(applyGameAction(withCards([1, 2, 3, 4, 5, 6]), action, context).result).toBe(false);
+  });
+
+  it('only awards cards of their owners that complete the prize', () => {
+    const award = (candidates: PrizeWinner[], drawnNumbers?: number[]) => applyGameAction(withCards(drawnNumbers),
+      { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: drawnNumbers?.length ?? 5, candidates }, context).result;
+    expect(award([ana], [1, 2, 3, 4])).toBe(false);
+    expect(award([{ cardId: 'a', playerName: 'bia' }])).toBe(false);
+    expect(award([{ cardId: 'x', playerName: 'ana' }])).toBe(false);
+    expect(award([ana, ana])).toBe(false);
+  });
+
+  it('ends the game on the last prize and reveals its seed', () => {
+    const drawCommitment = { roundId: 1, seedHash: '', publicEntropy: '', serverSeed: null };
+    const lastPrize = { ...withCards(), prizes: [defaultPrizes[0]], drawCommitment };
+    const { state } = applyGameAction(lastPrize, action, context);
+    expect(state.bingoWinners).toEqual([ana]);
+    expect(state.isGameActive).toBe(false);
+    expect(state.drawCommitment?.serverSeed).toBe(deriveRoundSeed('secret', 1));
+  });
+});
+
+describe('updateAward', () => {
+  const update: GameAction = { type: 'updateAward', roundId: 1, prizeId: 1, expectedCandidates: 1, ballCount: 5, coWinners: [bia] };
+
+  it('moves the win to the new winners on the same ball', () => {
+    const { state } = applyGameAction(withCards(), { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: 5, candidates: [ana] }, context);
+
+    const updated = applyGameAction(state, update, context);
+    expect(updated.result).toBe(true);
+    expect(updated.state.awardedPrizes[0].winners).toEqual([ana, bia]);
+    expect(updated.state.playerWins).toEqual({ ana: 1, bia: 1 });
+    expect(applyGameAction(updated.state, update, context).result).toBe(false);
+  });
+
+  it('only adds cards that complete the prize', () => {
+    const losing = { ...card('b', 'bia'), cardData: { ...cardData, B: [6, 7, 8, 9, 10] } };
+    const { state } = applyGameAction({ ...withCards(), generatedCards: [card('a', 'ana'), losing] },
+      { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: 5, candidates: [ana] }, context);
+    expect(applyGameAction(state, update, context).result).toBe(false);
+  });
+});
+
+describe('claimBingo', () => {
+  it('awards the prize to a card that completed it', () => {
+    const { state, result } = applyGameAction(withCards([1, 2, 3, 4, 5]), { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, context);
+    expect(result).toBe(true);
+    expect(state.awardedPrizes[0].winners).toEqual([ana]);
+    expect(state.claims).toMatchObject([{ playerName: 'ana', cardId: 'a', isValid: true }]);
+  });
+
+  it('flags a claim the draws do not back', () => {
+    const { state, result } = applyGameAction(withCards([1, 2, 3, 4]), { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, { ...context, now: 1000 });
+    expect(result).toBe(false);
+    expect(state.awardedPrizes).toEqual([]);
+    expect(state.invalidBingoClaim).toEqual({ playerName: 'ana', timestamp: 1000 });
+    expect(state.claims).toEqual([{ playerName: 'ana', cardId: 'a', ballCount: 4, isValid: false, timestamp: 1000 }]);
+  });
+
+  it('waits a moment after a false claim before taking the next one', () => {
+    const claim: GameAction = { type: 'claimBingo', playerName: 'ana', cardId: 'a' };
+    const { state } = applyGameAction(withCards([1, 2, 3, 4]), claim, { ...context, now: 1000 });
+    const drawn = { ...state, drawnNumbers: [1, 2, 3, 4, 5] };
+    expect(applyGameAction(drawn, claim, { ...context, now: 2000 })).toMatchObject({ result: false, state: { claims: state.claims } });
+    expect(applyGameAction(drawn, claim, { ...context, now: 6000 }).result).toBe(true);
+  });
+
+  it('forfeits the claimed card on the false claim that reaches the strike count', () => {
+    const rules = { ...withCards([1, 2, 3, 4]), claimRules: { strikes: 1, penalty: 'forfeitCard' as const, beforeNextBall: false } };
+    const { state } = applyGameAction(rules, { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, { ...context, now: 1000 });
+    expect(state.claims[0].penalty).toBe('forfeitCard');
+    const later = applyGameAction({ ...state, drawnNumbers: [1, 2, 3, 4, 5] }, { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, { ...context, now: 9000 });
+    expect(later.result).toBe(false);
+    expect(later.state.awardedPrizes).toEqual([]);
+  });
+
+  it('refuses a card of another player', () => {
+    expect(applyGameAction(withCards([1, 2, 3, 4, 5]), { type: 'claimBingo', playerName: 'ana', cardId: 'b' }, context).result).toBe(false);
+  });
+
+  it('gives nothing for a late claim under the late claim rule, without a strike or a pause', () => {
+    const base = withCards([1, 2, 3, 4, 5, 75]);
+    const late = { ...base, claimRules: { ...base.claimRules, strikes: 1, penalty: 'lockRound' as const, beforeNextBall: true } };
+    const { state, result } = applyGameAction(late, { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, { ...context, now: 1000 });
+    expect(result).toBe(false);
+    expect(state.awardedPrizes).toEqual([]);
+    expect(state.claims).toEqual([{ playerName: 'ana', cardId: 'a', ballCount: 6, isValid: false, timestamp: 1000, winningBall: 5 }]);
+    expect(state.invalidBingoClaim).toBeNull();
+    expect(applyGameAction(late, { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: 6, candidates: [ana] }, context).result).toBe(false);
+  });
+
+  it('joins the last prize on the ball that decided it, not after', () => {
+    const { state } = applyGameAction(withCards([1, 2, 3, 4, 5]), { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, context);
+    const joined = applyGameAction(state, { type: 'claimBingo', playerName: 'bia', cardId: 'b' }, context);
+    expect(joined.result).toBe(true);
+    expect(joined.state.awardedPrizes[0].candidates).toEqual([ana, bia]);
+
+    const late = applyGameAction({ ...state, drawnNumbers: [...state.drawnNumbers, 75] }, { type: 'claimBingo', playerName: 'bia', cardId: 'b' }, context);
+    expect(late.result).toBe(false);
+  });
+});
+
+describe('endRound', () => {
+  it('takes back the prizes of a voided round and refuses claims after it', () => {
+    const { state: awarded } = applyGameAction(withCards(), { type: 'claimBingo', playerName: 'ana', cardId: 'a' }, context);
+    const { state, result } = applyGameAction(awarded, { type: 'endRound', outcome: 'voided', reason: 'Globo travou', endedBy: 'bia' }, context);
+    expect(result).toBe(true);
+    expect(state.isGameActive).toBe(false);
+    expect(state.awardedPrizes).toEqual([]);
+    expect(state.playerWins).toEqual({ ana: 0 });
+    expect(applyGameAction(state, { type: 'claimBingo', playerName: 'bia', cardId: 'b' }, context).result).toBe(false);
+  });
+
+  it('needs a reason to void a round', () => {
+    expect(applyGameAction(activeGame(), { type: 'endRound', outcome: 'voided', reason: ' ', endedBy: 'bia' }, context).result).toBe(false);
+  });
+});
+
+describe('addCards', () => {
+  it('adds only free cards of the series', () => {
+    const [sold] = seriesCards('ana', 1);
+    const { state } = applyGameAction(createInitialGameState(), { type: 'addCards', cards: [sold] }, context);
+    expect(state.generatedCards).toEqual([sold]);
+    expect(applyGameAction(state, { type: 'addCards', cards: [sold] }, context).state.generatedCards).toEqual([sold]);
+    expect(applyGameAction(createInitialGameState(), { type: 'addCards', cards: [card('a', 'ana')] }, context).state.generatedCards).toEqual([]);
+  });
+});
+
+describe('card orders', () => {
+  const order: GameAction = { type: 'createOrder', orderId: 'P1', playerName: 'ana', cards: seriesCards('ana', 2) };
+
+  it('prices the order and adds its cards once paid', () => {
+    const { state: ordered } = applyGameAction(createInitialGameState(), order, context);
+    expect(ordered.cardOrders).toMatchObject([{ id: 'P1', amount: 30, status: 'pending' }]);
+    expect(ordered.generatedCards).toEqual([]);
+
+    const { state: paid } = applyGameAction(ordered, { type: 'confirmOrder', orderId: 'P1', confirmedBy: 'bia' }, context);
+    expect(paid.cardOrders[0]).toMatchObject({ status: 'paid', confirmedBy: 'bia' });
+    expect(paid.generatedCards.map(c => c.serial)).toEqual(['0001', '0002']);
+    expect(applyGameAction(paid, { type: 'cancelOrder', orderId: 'P1', cancelledBy: 'bia' }, context).result).toBe(false);
+  });
+
+  it('refuses orders once the game has started', () => {
+    expect(applyGameAction(activeGame([]), order, context).result).toBe(false);
+  });
+});
+
+describe('startNextGameCycle', () => {
+  it('starts a new round with a countdown, carrying over the pending orders', () => {
+    const pending = applyGameAction({ ...activeGame(), isGameActive: false }, { type: 'createOrder', orderId: 'P1', playerName: 'ana', cards: seriesCards('ana', 1) }, context);
+    const { state } = applyGameAction({ ...pending.state, isGameActive: true }, { type: 'startNextGameCycle' }, context);
+    expect(state.roundId).toBe(2);
+    expect(state.drawnNumbers).toEqual([]);
+    expect(state.awardedPrizes).toEqual([]);
+    expect(state.preGameCountdown).toBe(20);
+    expect(state.cardOrders.map(o => o.id)).toEqual(['P1']);
+  });
+
+  it('keeps the cards paid for a round nobody has played yet', () => {
+    const ordered = applyGameAction(createInitialGameState(), { type: 'createOrder', orderId: 'P1', playerName: 'ana', cards: seriesCards('ana', 1) }, context);
+    const paid = applyGameAction(ordered.state, { type: 'confirmOrder', orderId: 'P1', confirmedBy: 'bia' }, context);
+
+    const { state, result } = applyGameAction(paid.state, { type: 'startNextGameCycle' }, context);
+    expect(result).toBe(false);
+    expect(state.roundId).toBe(1);
+    expect(state.generatedCards.map(c => c.serial)).toEqual(['0001']);
+  });
+});
+
+describe('recordClaim', () => {
+  it('flags an invalid claim until its player clears it', () => {
+    const { state } = applyGameAction(activeGame(), { type: 'recordClaim', playerName: 'ana', cardId: 'a', isValid: false }, { ...context, now: 1000 });
+    expect(state.invalidBingoClaim).toEqual({ playerName: 'ana', timestamp: 1000 });
+    expect(applyGameAction(state, { type: 'clearInvalidClaim', playerName: 'bia' }, context).state.invalidBingoClaim).not.toBeNull();
+    expect(applyGameAction(state, { type: 'clearInvalidClaim', playerName: 'ana' }, context).state.invalidBingoClaim).toBeNull();
+  });
+});
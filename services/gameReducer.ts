@@ -0,0 +1,545 @@
+import type { AwardedPrize, BingoClaim, CardOrder, DrawCommitment, PlayerWin, Prize, PrizeWinner, SharedGameState, UserRole } from '../types';
+import type { ActionResult, GameAction } from './gameStore';
+import { DEFAULT_PATTERN_ID } from './patterns';
+import { type RoundSeed, canJoinAward, createAward, joinAward } from './awards';
+import { assignableRoles } from './permissions';
+import { isValidPercent, roundRevenue, withPoolLabels, withPoolValues } from './ledger';
+import { activePriceTable, defaultPriceTable, isValidPriceTable, priceForCards } from './pricing';
+import { deriveRoundSeed, drawOrder, entropyFromCards, sha256Hex } from './fairDraw';
+import { DEFAULT_COUNTDOWN_SECONDS, isPreOrder, isRoundOver, isSalesOpen, isValidScheduledGame } from './schedule';
+import { canEnterNumber, isValidDrawInterval, isValidEndReason, undoableNumber } from './gameControls';
+import { LEGACY_CARD_SERIES, areFreeSeriesCards } from './cardSeries';
+import { DEFAULT_VARIANT, canChangeVariant, getVariant, isGameVariant } from './variants';
+import { areWinningCards, checkClaim, claimBlock, defaultClaimRules, isValidClaimRules, nextClaimPenalty } from './claims';
+
+// In-process equivalent of the Postgres functions in supabase/migrations, used by the
+// memory store and the local server. Keep both in sync when changing game rules.
+
+// What the backend running the reducer knows beyond the shared state
+export interface GameContext {
+  // Never leaves the backend; each round's draw seed is derived from it
+  drawSecret: string;
+  now?: number;
+}
+
+const defaultPrizes = getVariant(DEFAULT_VARIANT).defaultPrizes;
+
+export const createInitialGameState = (): SharedGameState => ({
+  roundId: 1,
+  users: [],
+  onlineUsers: [],
+  generatedCards: [],
+  drawnNumbers: [],
+  drawnAt: [],
+  isGameActive: false,
+  bingoWinners: null,
+  playerWins: {},
+  gameMode: defaultPrizes[0].pattern,
+  prizes: defaultPrizes,
+  awardedPrizes: [],
+  tieRule: 'split',
+  preGameCountdown: null,
+  playerPreferences: {},
+  invalidBingoClaim: null,
+  claims: [],
+  lastReaction: null,
+  priceTable: defaultPriceTable,
+  charityPercent: 0,
+  roundPriceTable: null,
+  cardOrders: [],
+  pixReceiver: null,
+  drawCommitment: null,
+  lastDrawAudit: null,
+  scheduledGames: [],
+  isPaused: false,
+  drawMode: 'auto',
+  drawIntervalMs: null,
+  globeNumbers: [],
+  roundEnding: null,
+  cardSeries: LEGACY_CARD_SERIES,
+  gameVariant: DEFAULT_VARIANT,
+  claimRules: defaultClaimRules,
+});
+
+// Pattern of the next prize to award, or of the last one once the ladder is done
+const patternInPlay = (prizes: Prize[], awardedPrizes: AwardedPrize[]) =>
+  prizes[awardedPrizes.length]?.pattern ?? awardedPrizes[awardedPrizes.length - 1]?.pattern ?? DEFAULT_PATTERN_ID;
+
+const addPlayerWins = (playerWins: PlayerWin, winners: PrizeWinner[], delta: number): PlayerWin => {
+  const updated = { ...playerWins };
+  winners.forEach(w => {
+    updated[w.playerName] = Math.max(0, (updated[w.playerName] || 0) + delta);
+  });
+  return updated;
+};
+
+const unchanged = (state: SharedGameState, result: ActionResult = null) => ({ state, result });
+
+const commitTo = (roundId: number, drawSecret: string): DrawCommitment => ({
+  roundId,
+  seedHash: sha256Hex(deriveRoundSeed(drawSecret, roundId)),
+  publicEntropy: null,
+  serverSeed: null,
+});
+
+const revealSeed = (commitment: DrawCommitment | null, drawSecret: string): DrawCommitment | null =>
+  commitment && { ...commitment, serverSeed: deriveRoundSeed(drawSecret, commitment.roundId) };
+
+const roundSeed = (state: SharedGameState, drawSecret: string): RoundSeed => ({
+  serverSeed: deriveRoundSeed(drawSecret, state.roundId),
+  publicEntropy: state.drawCommitment?.publicEntropy ?? '',
+});
+
+// Awards the prize in play to `candidates` on the current ball; the round ends with the last prize
+const withAward = (state: SharedGameState, candidates: PrizeWinner[], drawSecret: string): SharedGameState | null => {
+  const prize = state.prizes[state.awardedPrizes.length];
+  if (!prize || candidates.length === 0) return null;
+  const award = createAward(prize, state.drawnNumbers.length, state.tieRule, candidates, roundSeed(state, drawSecret));
+  const isFinal = !state.prizes[state.awardedPrizes.length + 1];
+  const awardedPrizes = [...state.awardedPrizes, award];
+  return {
+    ...state,
+    awardedPrizes,
+    gameMode: patternInPlay(state.prizes, awardedPrizes),
+    bingoWinners: isFinal ? award.winners : null,
+    isGameActive: state.isGameActive && !isFinal,
+    drawCommitment: isFinal ? revealSeed(state.drawCommitment, drawSecret) : state.drawCommitment,
+    invalidBingoClaim: null,
+    playerWins: addPlayerWins(state.playerWins, award.winners, 1),
+  };
+};
+
+// Adds `coWinners` to the last prize, if no ball was drawn since it was decided
+const withCoWinners = (state: SharedGameState, coWinners: PrizeWinner[], drawSecret: string): SharedGameState | null => {
+  const index = state.awardedPrizes.length - 1;
+  const previous = state.awardedPrizes[index];
+  if (!previous || !canJoinAward(previous, state.drawnNumbers.length, coWinners)) return null;
+  const prizeValue = state.prizes.find(p => p.id === previous.prizeId)?.value ?? previous.shareValue;
+  const award = joinAward(previous, prizeValue, coWinners, roundSeed(state, drawSecret));
+  return {
+    ...state,
+    awardedPrizes: state.awardedPrizes.map((a, i) => i === index ? award : a),
+    bingoWinners: state.bingoWinners ? award.winners : null,
+    invalidBingoClaim: null,
+    playerWins: addPlayerWins(addPlayerWins(state.playerWins, previous.winners, -1), award.winners, 1),
+  };
+};
+
+// Publishes the seed hash of a round that has none yet (the very first one, or games saved before
+// the commit-reveal draw), as long as no ball has been drawn.
+const withCommitment = (state: SharedGameState, drawSecret: string): SharedGameState =>
+  state.drawCommitment?.roundId === state.roundId || state.drawnNumbers.length > 0
+    ? state
+    : { ...state, drawCommitment: commitTo(state.roundId, drawSecret) };
+
+// The round after `state`'s, waiting for its countdown: the seed of the finished one is revealed
+// and only the orders still to be paid, or paid ahead for a scheduled game, are kept
+const nextRound = (state: SharedGameState, drawSecret: string): SharedGameState => {
+  const revealed = revealSeed(state.drawCommitment, drawSecret);
+  return {
+    ...state,
+    lastDrawAudit: revealed && {
+      ...revealed,
+      drawnNumbers: state.drawnNumbers,
+      ...(state.globeNumbers.length > 0 && { globeNumbers: state.globeNumbers }),
+      gameVariant: state.gameVariant,
+    },
+    drawCommitment: commitTo(state.roundId + 1, drawSecret),
+    roundId: state.roundId + 1,
+    drawnNumbers: [],
+    drawnAt: [],
+    globeNumbers: [],
+    bingoWinners: null,
+    awardedPrizes: [],
+    prizes: withPoolLabels(state.prizes),
+    gameMode: patternInPlay(state.prizes, []),
+    isGameActive: false,
+    isPaused: false,
+    roundEnding: null,
+    preGameCountdown: null,
+    generatedCards: [],
+    roundPriceTable: null,
+    // Orders still waiting for payment carry over; their cards join whichever round is on when confirmed
+    cardOrders: state.cardOrders.filter(o => o.status === 'pending' || (o.status === 'paid' && isPreOrder(o))),
+    playerPreferences: {},
+    invalidBingoClaim: null,
+    claims: [],
+    lastReaction: null,
+  };
+};
+
+// Not a client action: accounts are created by the backend's auth, which then lists the player here.
+// The first account of a new room becomes its owner.
+export const addUser = (state: SharedGameState, name: string): SharedGameState => {
+  if (state.users.some(u => u.name === name)) return state;
+  const role: UserRole = state.users.some(u => u.role === 'owner') ? 'player' : 'owner';
+  return { ...state, users: [...state.users, { name, role }] };
+};
+
+export const applyGameAction = (
+  current: SharedGameState,
+  action: GameAction,
+  { drawSecret, now = Date.now() }: GameContext,
+): { state: SharedGameState; result: ActionResult } => {
+  const state = withCommitment(current, drawSecret);
+  switch (action.type) {
+    case 'setUserOnline': {
+      const isOnline = state.onlineUsers.includes(action.name);
+      if (isOnline === action.online) return unchanged(state);
+      const onlineUsers = action.online
+        ? [...state.onlineUsers, action.name].sort()
+        : state.onlineUsers.filter(u => u !== action.name);
+      return { state: { ...state, onlineUsers }, result: null };
+    }
+
+    case 'setUserRole': {
+      const user = state.users.find(u => u.name === action.name);
+      if (!user || user.role === 'owner' || !assignableRoles.includes(action.role)) return unchanged(state, false);
+      const users = state.users.map(u => u === user ? { ...u, role: action.role } : u);
+      return { state: { ...state, users }, result: true };
+    }
+
+    case 'addCards':
+      if (!areFreeSeriesCards(state, action.cards)) return unchanged(state);
+      return { state: { ...state, generatedCards: [...state.generatedCards, ...action.cards] }, result: null };
+
+    case 'createOrder': {
+      const scheduledGame = state.scheduledGames.find(g => g.id === action.scheduledGameId);
+      const isClosed = action.scheduledGameId
+        ? !scheduledGame || !isSalesOpen(scheduledGame, now)
+        : state.isGameActive || isRoundOver(state);
+      if (isClosed || action.cards.length === 0 || state.cardOrders.some(o => o.id === action.orderId) || !areFreeSeriesCards(state, action.cards)) {
+        return unchanged(state, false);
+      }
+      const order: CardOrder = {
+        id: action.orderId,
+        playerName: action.playerName,
+        cards: action.cards,
+        // Round promos don't apply to a later game
+        amount: priceForCards(action.cards.length, scheduledGame ? state.priceTable : activePriceTable(state)),
+        status: 'pending',
+        createdAt: now,
+        confirmedBy: null,
+        ...(scheduledGame && { scheduledGameId: scheduledGame.id }),
+      };
+      return { state: { ...state, cardOrders: [...state.cardOrders, order] }, result: true };
+    }
+
+    case 'confirmOrder': {
+      const order = state.cardOrders.find(o => o.id === action.orderId);
+      if (order?.status !== 'pending') return unchanged(state, false);
+      const cardIds = new Set(state.generatedCards.map(c => c.id));
+      // A pre-order's cards wait for its game
+      const newCards = isPreOrder(order) ? [] : order.cards.filter(c => !cardIds.has(c.id));
+      return {
+        state: {
+          ...state,
+          cardOrders: state.cardOrders.map(o => o === order ? { ...o, status: 'paid', confirmedBy: action.confirmedBy } : o),
+          generatedCards: [...state.generatedCards, ...newCards],
+        },
+        result: true,
+      };
+    }
+
+    case 'cancelOrder': {
+      const order = state.cardOrders.find(o => o.id === action.orderId);
+      if (order?.status !== 'pending') return unchanged(state, false);
+      const cardOrders = state.cardOrders.map(o => o === order ? { ...o, status: 'cancelled' as const, confirmedBy: action.cancelledBy } : o);
+      return { state: { ...state, cardOrders }, result: true };
+    }
+
+    case 'sellPaperCards': {
+      if (state.isGameActive || isRoundOver(state) || action.cards.length === 0 || action.cards.some(card => !card.isPaper)
+          || state.cardOrders.some(o => o.id === action.orderId) || !areFreeSeriesCards(state, action.cards)) {
+        return unchanged(state, false);
+      }
+      const order: CardOrder = {
+        id: action.orderId,
+        playerName: action.cashierName,
+        cards: action.cards,
+        amount: priceForCards(action.cards.length, activePriceTable(state)),
+        status: 'paid',
+        createdAt: now,
+        confirmedBy: action.cashierName,
+      };
+      return {
+        state: { ...state, cardOrders: [...state.cardOrders, order], generatedCards: [...state.generatedCards, ...action.cards] },
+        result: true,
+      };
+    }
+
+    case 'setPixReceiver':
+      return { state: { ...state, pixReceiver: action.receiver }, result: null };
+
+    case 'setPriceTable':
+      if (!isValidPriceTable(action.priceTable)) return unchanged(state, false);
+      return { state: { ...state, priceTable: action.priceTable }, result: true };
+
+    case 'setCharityPercent':
+      if (!isValidPercent(action.percent)) return unchanged(state, false);
+      return { state: { ...state, charityPercent: action.percent }, result: true };
+
+    case 'setRoundPriceTable':
+      if (action.priceTable && !isValidPriceTable(action.priceTable)) return unchanged(state, false);
+      return { state: { ...state, roundPriceTable: action.priceTable }, result: true };
+
+    case 'setPrizes': {
+      const hasInvalidPrize = action.prizes.some(p => p.poolPercent !== undefined && !isValidPercent(p.poolPercent));
+      if (state.isGameActive || action.prizes.length === 0 || hasInvalidPrize || new Set(action.prizes.map(p => p.id)).size !== action.prizes.length) {
+        return unchanged(state, false);
+      }
+      return { state: { ...state, prizes: action.prizes, gameMode: patternInPlay(action.prizes, state.awardedPrizes) }, result: true };
+    }
+
+    case 'setPrizePattern': {
+      const prizes = state.prizes.map(p => p.id === action.prizeId ? { ...p, pattern: action.pattern } : p);
+      return { state: { ...state, prizes, gameMode: patternInPlay(prizes, state.awardedPrizes) }, result: null };
+    }
+
+    case 'setTieRule':
+      return { state: { ...state, tieRule: action.tieRule }, result: null };
+
+    case 'setClaimRules':
+      if (!isValidClaimRules(action.rules)) return unchanged(state, false);
+      return { state: { ...state, claimRules: action.rules }, result: true };
+
+    case 'setPreGameCountdown':
+      return { state: { ...state, preGameCountdown: action.countdown }, result: null };
+
+    case 'startGame': {
+      // Card sales are over: the cards sold become the public entropy of the draw
+      const drawCommitment = state.drawCommitment && !state.drawCommitment.publicEntropy
+        ? { ...state.drawCommitment, publicEntropy: entropyFromCards(state.generatedCards) }
+        : state.drawCommitment;
+      const prizes = withPoolValues(state.prizes, roundRevenue(state));
+      return { state: { ...state, isGameActive: true, preGameCountdown: null, drawCommitment, prizes }, result: null };
+    }
+
+    case 'startNextGameCycle':
+      // Cards paid for a round nobody has played yet would be lost: that round has to be played first
+      if (state.drawnNumbers.length === 0 && state.cardOrders.some(o => o.status === 'paid' && !isPreOrder(o))) {
+        return unchanged(state, false);
+      }
+      return { state: { ...nextRound(state, drawSecret), preGameCountdown: DEFAULT_COUNTDOWN_SECONDS }, result: null };
+
+    case 'scheduleGame': {
+      if (!isValidScheduledGame(action.game, now) || state.scheduledGames.some(g => g.id === action.game.id)) {
+        return unchanged(state, false);
+      }
+      const game = { ...action.game, name: action.game.name.trim() };
+      const scheduledGames = [...state.scheduledGames, game].sort((a, b) => a.startsAt - b.startsAt);
+      return { state: { ...state, scheduledGames }, result: true };
+    }
+
+    case 'cancelScheduledGame': {
+      const game = state.scheduledGames.find(g => g.id === action.gameId);
+      if (!game || state.cardOrders.some(o => o.scheduledGameId === game.id && o.status === 'paid')) {
+        return unchanged(state, false);
+      }
+      const cardOrders = state.cardOrders.map(o => o.scheduledGameId === game.id && o.status === 'pending'
+        ? { ...o, status: 'cancelled' as const, confirmedBy: action.cancelledBy }
+        : o);
+      return { state: { ...state, scheduledGames: state.scheduledGames.filter(g => g !== game), cardOrders }, result: true };
+    }
+
+    case 'startScheduledGame': {
+      const game = state.scheduledGames.find(g => g.id === action.gameId);
+      if (!game || state.isGameActive || state.preGameCountdown !== null) return unchanged(state, false);
+      // A round nobody has played yet becomes the game's; a finished one makes way for a new round
+      const round = state.drawnNumbers.length > 0 ? nextRound(state, drawSecret) : state;
+      const cardIds = new Set(round.generatedCards.map(c => c.id));
+      const preOrders = round.cardOrders.filter(o => o.scheduledGameId === game.id);
+      const newCards = preOrders.filter(o => o.status === 'paid').flatMap(o => o.cards).filter(c => !cardIds.has(c.id));
+      return {
+        state: {
+          ...round,
+          scheduledGames: round.scheduledGames.filter(g => g !== game),
+          // The pre-orders become this round's sales
+          cardOrders: round.cardOrders.map(o => {
+            if (o.scheduledGameId !== game.id) return o;
+            const { scheduledGameId: _, ...order } = o;
+            return order;
+          }),
+          generatedCards: [...round.generatedCards, ...newCards],
+          preGameCountdown: game.countdownSeconds,
+        },
+        result: true,
+      };
+    }
+
+    case 'drawNextNumber': {
+      const { drawnNumbers, isGameActive, bingoWinners, isPaused } = state;
+      const { totalBalls } = getVariant(state.gameVariant);
+      if (drawnNumbers.length >= totalBalls || !isGameActive || bingoWinners || isPaused) return unchanged(state);
+
+      // Next ball of the committed order (skipping any drawn before the round had a commitment)
+      const drawnSet = new Set(drawnNumbers);
+      const seed = deriveRoundSeed(drawSecret, state.roundId);
+      const newNumber = drawOrder(seed, state.drawCommitment?.publicEntropy ?? '', totalBalls).find(n => !drawnSet.has(n))!;
+      return {
+        state: { ...state, drawnNumbers: [...drawnNumbers, newNumber], drawnAt: [...state.drawnAt, now], invalidBingoClaim: null },
+        result: newNumber,
+      };
+    }
+
+    case 'enterDrawnNumber': {
+      const { drawMode, isGameActive, bingoWinners, isPaused, drawnNumbers } = state;
+      if (drawMode !== 'globe' || !isGameActive || bingoWinners || isPaused || !canEnterNumber(state, action.number)) {
+        return unchanged(state, false);
+      }
+      return {
+        state: {
+          ...state,
+          drawnNumbers: [...drawnNumbers, action.number],
+          drawnAt: [...state.drawnAt, now],
+          globeNumbers: [...state.globeNumbers, action.number],
+          invalidBingoClaim: null,
+        },
+        result: true,
+      };
+    }
+
+    case 'undoDrawnNumber':
+      if (!state.isGameActive || undoableNumber(state) !== action.number) return unchanged(state, false);
+      return {
+        state: {
+          ...state,
+          drawnNumbers: state.drawnNumbers.slice(0, -1),
+          drawnAt: state.drawnAt.slice(0, -1),
+          globeNumbers: state.globeNumbers.filter(n => n !== action.number),
+          invalidBingoClaim: null,
+        },
+        result: true,
+      };
+
+    case 'setPaused':
+      if (!state.isGameActive && state.preGameCountdown === null) return unchanged(state, false);
+      return { state: { ...state, isPaused: action.paused }, result: true };
+
+    case 'setDrawMode':
+      return { state: { ...state, drawMode: action.mode }, result: true };
+
+    case 'setDrawInterval':
+      if (!isValidDrawInterval(action.intervalMs)) return unchanged(state, false);
+      return { state: { ...state, drawIntervalMs: action.intervalMs }, result: true };
+
+    case 'setGameVariant': {
+      if (!isGameVariant(action.variant) || !canChangeVariant(state)) return unchanged(state, false);
+      // The ladder's patterns are for the previous variant's cards
+      const { defaultPrizes: prizes } = getVariant(action.variant);
+      return {
+        state: { ...state, gameVariant: action.variant, prizes, gameMode: patternInPlay(prizes, state.awardedPrizes) },
+        result: true,
+      };
+    }
+
+    case 'endRound': {
+      if (!state.isGameActive || state.drawnNumbers.length === 0 || !isValidEndReason(action.outcome, action.reason)) {
+        return unchanged(state, false);
+      }
+      // A voided round pays nothing: the prizes already awarded are taken back
+      const isVoided = action.outcome === 'voided';
+      const awardedPrizes = isVoided ? [] : state.awardedPrizes;
+      const revokedWinners = isVoided ? state.awardedPrizes.flatMap(a => a.winners) : [];
+      return {
+        state: {
+          ...state,
+          isGameActive: false,
+          isPaused: false,
+          awardedPrizes,
+          gameMode: patternInPlay(state.prizes, awardedPrizes),
+          playerWins: addPlayerWins(state.playerWins, revokedWinners, -1),
+          drawCommitment: revealSeed(state.drawCommitment, drawSecret),
+          invalidBingoClaim: null,
+          roundEnding: { outcome: action.outcome, reason: action.reason.trim(), endedBy: action.endedBy, endedAt: now },
+        },
+        result: true,
+      };
+    }
+
+    case 'setPlayerPreference':
+      return {
+        state: { ...state, playerPreferences: { ...state.playerPreferences, [action.playerName]: action.preference } },
+        result: null,
+      };
+
+    case 'recordAward': {
+      if (action.roundId !== state.roundId
+        || state.roundEnding
+        || action.expectedAwards !== state.awardedPrizes.length
+        || action.ballCount !== state.drawnNumbers.length
+        || !areWinningCards(state, action.candidates, state.gameMode, state.awardedPrizes[state.awardedPrizes.length - 1]?.ballCount ?? 0)) {
+        return unchanged(state, false);
+      }
+      const awarded = withAward(state, action.candidates, drawSecret);
+      return awarded ? { state: awarded, result: true } : unchanged(state, false);
+    }
+
+    case 'updateAward': {
+      const previous = state.awardedPrizes[state.awardedPrizes.length - 1];
+      if (action.roundId !== state.roundId
+        || state.roundEnding
+        || previous?.prizeId !== action.prizeId
+        || previous.ballCount !== action.ballCount
+        || previous.candidates.length !== action.expectedCandidates
+        || !areWinningCards(state, action.coWinners, previous.pattern, state.awardedPrizes[state.awardedPrizes.length - 2]?.ballCount ?? 0)) {
+        return unchanged(state, false);
+      }
+      const joined = withCoWinners(state, action.coWinners, drawSecret);
+      return joined ? { state: joined, result: true } : unchanged(state, false);
+    }
+
+    case 'claimBingo': {
+      const card = state.generatedCards.find(c => c.id === action.cardId && c.owner === action.playerName);
+      if (!card || claimBlock(state.claims, action.playerName, now)) return unchanged(state, false);
+      const { verdict, winners, winningBall } = checkClaim(state, action.playerName);
+      if (verdict === 'closed') return unchanged(state, false);
+
+      const isValid = winners.length > 0;
+      // A late claim had a winning card: it wins nothing, but costs no strike
+      const isFalse = verdict === 'notWinner';
+      const penalty = isFalse ? nextClaimPenalty(state.claimRules, state.claims, action.playerName) : null;
+      const claim: BingoClaim = {
+        playerName: action.playerName,
+        cardId: isValid ? winners[0].cardId : card.id,
+        ballCount: state.drawnNumbers.length,
+        isValid,
+        timestamp: now,
+        ...(penalty && { penalty }),
+        ...(winningBall !== null && { winningBall }),
+      };
+      const claimed = {
+        ...state,
+        claims: [...state.claims, claim],
+        invalidBingoClaim: isFalse ? { playerName: action.playerName, timestamp: now } : state.invalidBingoClaim,
+      };
+      if (!isValid) return { state: claimed, result: false };
+
+      // The claim holds: the player's winning cards get the prize, as checked here
+      const awarded = verdict === 'coWinner'
+        ? withCoWinners(claimed, winners, drawSecret)
+        : withAward(claimed, winners, drawSecret);
+      return awarded ? { state: awarded, result: true } : unchanged(state, false);
+    }
+
+    case 'recordClaim': {
+      const claim: BingoClaim = {
+        playerName: action.playerName,
+        cardId: action.cardId,
+        ballCount: state.drawnNumbers.length,
+        isValid: action.isValid,
+        timestamp: now,
+      };
+      const claims = [...state.claims, claim];
+      if (action.isValid) return { state: { ...state, claims }, result: null };
+      return { state: { ...state, claims, invalidBingoClaim: { playerName: action.playerName, timestamp: now } }, result: null };
+    }
+
+    case 'clearInvalidClaim':
+      if (state.invalidBingoClaim?.playerName !== action.playerName) return unchanged(state);
+      return { state: { ...state, invalidBingoClaim: null }, result: null };
+
+    case 'triggerReaction':
+      return { state: { ...state, lastReaction: { type: action.reactionType, timestamp: now } }, result: null };
+  }
+};
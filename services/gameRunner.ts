@@ -0,0 +1,185 @@
+import type { SharedGameState } from '../types';
+import type { GameStateService } from './gameState';
+import { findAllWinners, getMinimumBallsForPattern } from './patterns';
+import type { PaymentProvider } from './payments';
+import { isPaperCard } from './paperCards';
+import { forfeitedCardIds } from './claims';
+import { countdownStartsAt, isRoundOver } from './schedule';
+
+export interface GameRunnerOptions {
+  /** Time between two balls unless the staff set one for the room; long enough for every client to narrate one. */
+  drawIntervalMs?: number;
+  /** Extra time after an intermediate prize so the winners can be announced. */
+  prizePauseMs?: number;
+  /** Celebration time between the last prize and the next round's countdown. */
+  celebrationMs?: number;
+  /** Confirms PIX orders automatically; without one a cashier confirms them by hand. */
+  paymentProvider?: PaymentProvider;
+}
+
+interface Step {
+  key: string;
+  delayMs: number;
+  run: () => Promise<void>;
+}
+
+const COUNTDOWN_TICK_MS = 1000;
+// Longest wait for a scheduled game before checking the clock again (timers drift while a machine sleeps)
+const SCHEDULE_CHECK_MS = 60000;
+
+// Drives the game on its own: countdown, draw cadence, winner detection for auto-marking
+// players, the restart after the last prize and the start of scheduled games. It waits while the
+// staff paused the game, and leaves the draw to them in the 'manual' and 'globe' draw modes. Clients only render and narrate, so the
+// game keeps going when a host closes the tab. Runs in the local server, in `npm run runner`
+// for Supabase, or in a staff member's tab for the in-browser backend. Run only one per game.
+export class GameRunner {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private scheduledKey: string | null = null;
+  private checkedKey: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private drawIntervalMs: number;
+  private prizePauseMs: number;
+  private celebrationMs: number;
+  private paymentProvider: PaymentProvider | null;
+  // Pending orders being watched by the payment provider, with the function that stops watching
+  private watchedOrders = new Map<string, () => void>();
+
+  constructor(private game: GameStateService, options: GameRunnerOptions = {}) {
+    this.drawIntervalMs = options.drawIntervalMs ?? 6000;
+    this.prizePauseMs = options.prizePauseMs ?? 8000;
+    this.celebrationMs = options.celebrationMs ?? 15000;
+    this.paymentProvider = options.paymentProvider ?? null;
+  }
+
+  async start(): Promise<void> {
+    await this.game.initialize();
+    this.unsubscribe = this.game.subscribe(state => this.handleState(state));
+    this.handleState(this.game.getState());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.scheduledKey = null;
+    this.watchedOrders.forEach(stopWatching => stopWatching());
+    this.watchedOrders.clear();
+  }
+
+  private handleState(state: SharedGameState): void {
+    this.checkForWinners(state).catch(error => console.error('Game runner winner check failed:', error));
+    this.watchPayments(state);
+
+    // A state change that doesn't change the next step (e.g. a player joining) keeps its timer
+    const step = this.nextStep(state);
+    if (step?.key === this.scheduledKey) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.scheduledKey = step?.key ?? null;
+    if (!step) return;
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await step.run();
+      } catch (error) {
+        console.error('Game runner step failed:', error);
+      }
+      // If the step changed nothing, the state won't call us back; try again on the next tick
+      if (this.scheduledKey === step.key && this.unsubscribe) {
+        this.scheduledKey = null;
+        this.handleState(this.game.getState());
+      }
+    }, step.delayMs);
+  }
+
+  private nextStep(state: SharedGameState): Step | null {
+    const { roundId, preGameCountdown, isGameActive, isPaused, drawMode, bingoWinners, drawnNumbers, awardedPrizes, scheduledGames } = state;
+
+    // With games on the calendar, the room waits for the next one instead of restarting
+    if (isRoundOver(state) && !isGameActive && scheduledGames.length === 0) {
+      return { key: `restart:${roundId}`, delayMs: this.celebrationMs, run: () => this.game.startNextGameCycle() };
+    }
+
+    if (isPaused) return null;
+
+    if (preGameCountdown !== null && !isGameActive) {
+      return {
+        key: `countdown:${roundId}:${preGameCountdown}`,
+        delayMs: COUNTDOWN_TICK_MS,
+        run: () => preGameCountdown <= 0
+          ? this.game.startGame()
+          : this.game.setPreGameCountdown(preGameCountdown - 1),
+      };
+    }
+
+    if (isGameActive && !bingoWinners && drawMode === 'auto') {
+      const lastAward = awardedPrizes[awardedPrizes.length - 1];
+      const justAwarded = lastAward?.ballCount === drawnNumbers.length;
+      const drawIntervalMs = state.drawIntervalMs ?? this.drawIntervalMs;
+      return {
+        key: `draw:${roundId}:${drawnNumbers.length}:${awardedPrizes.length}:${drawIntervalMs}`,
+        delayMs: drawIntervalMs + (justAwarded ? this.prizePauseMs : 0),
+        run: () => this.game.drawNextNumber(),
+      };
+    }
+
+    const nextGame = scheduledGames[0];
+    if (nextGame && !isGameActive && preGameCountdown === null) {
+      return {
+        key: `scheduled:${nextGame.id}`,
+        delayMs: Math.min(Math.max(0, countdownStartsAt(nextGame) - Date.now()), SCHEDULE_CHECK_MS),
+        run: async () => {
+          if (countdownStartsAt(nextGame) <= Date.now()) await this.game.startScheduledGame(nextGame.id);
+        },
+      };
+    }
+
+    return null;
+  }
+
+  private watchPayments(state: SharedGameState): void {
+    const provider = this.paymentProvider;
+    if (!provider) return;
+    const pendingIds = new Set(state.cardOrders.filter(o => o.status === 'pending').map(o => o.id));
+
+    // Confirmed or cancelled elsewhere (e.g. by a cashier)
+    this.watchedOrders.forEach((stopWatching, orderId) => {
+      if (pendingIds.has(orderId)) return;
+      stopWatching();
+      this.watchedOrders.delete(orderId);
+    });
+
+    state.cardOrders
+      .filter(order => order.status === 'pending' && !this.watchedOrders.has(order.id))
+      .forEach(order => {
+        this.watchedOrders.set(order.id, provider.watch(order, () => {
+          this.watchedOrders.delete(order.id);
+          this.game.confirmOrder(order.id, provider.name).catch(error => console.error('Payment confirmation failed:', error));
+        }));
+      });
+  }
+
+  // Players marking by hand must shout bingo themselves; everyone else is checked on each ball.
+  private async checkForWinners(state: SharedGameState): Promise<void> {
+    const { roundId, isGameActive, bingoWinners, drawnNumbers, generatedCards, playerPreferences, prizes, awardedPrizes, gameMode, claims } = state;
+    const currentPrize = prizes[awardedPrizes.length];
+    if (!isGameActive || bingoWinners || !currentPrize || drawnNumbers.length < getMinimumBallsForPattern(gameMode)) return;
+
+    // The last ball is part of the key: a ball typed in from the globe may be replaced after an undo
+    const key = `${roundId}:${drawnNumbers.length}:${drawnNumbers[drawnNumbers.length - 1]}:${awardedPrizes.length}`;
+    if (key === this.checkedKey) return;
+    this.checkedKey = key;
+
+    // Paper cards are only awarded once a host has checked them; forfeited cards can't win anymore
+    const forfeited = forfeitedCardIds(claims);
+    const cardsToCheck = generatedCards.filter(card =>
+      !isPaperCard(card) && !forfeited.has(card.id) && (playerPreferences[card.owner] ?? 'auto') === 'auto');
+    // Every card completing the pattern on this ball is a candidate; the tie rule decides who gets paid
+    const winners = findAllWinners(cardsToCheck, new Set(drawnNumbers), gameMode);
+    if (winners.length > 0) {
+      await this.game.awardPrize(currentPrize.id, winners);
+    }
+  }
+}
@@ -1,88 +1,37 @@
-import type { User, SharedGameState, GeneratedCard, GameMode, Reaction } from '../types';
-import { supabase } from './supabaseClient';
-import { RealtimeChannel } from '@supabase/supabase-js';
-
-const TABLE_NAME = 'game_state';
-const ROW_ID = 'singleton'; // Using a single row to store the entire game state
-
-// This utility function must be kept in sync with App.tsx
-const checkForWinner = (cards: GeneratedCard[], numbers: Set<number>, mode: GameMode) => {
-    for (const card of cards) {
-      const { B, I, N, G, O } = card.cardData;
-      const allNumbersOnCard = [...B, ...I, ...N, ...G, ...O].filter(n => typeof n === 'number') as number[];
-      
-      const checkLine = (line: (number | string)[]) => line.every(num => num === 'LIVRE' || numbers.has(num as number));
-      
-      if (mode === 'full') {
-        if (allNumbersOnCard.every(num => numbers.has(num))) return { cardId: card.id, playerName: card.owner };
-      } else {
-        const columns = [B, I, N, G, O];
-        for(const col of columns) if(checkLine(col)) return { cardId: card.id, playerName: card.owner };
-        for (let i = 0; i < 5; i++) {
-            const row = columns.map(col => col[i]);
-            if (checkLine(row)) return { cardId: card.id, playerName: card.owner };
-        }
-      }
-    }
-    return null;
-};
-
+import type { PixReceiver, PriceTable, Prize, UserRole, SharedGameState, GeneratedCard, GameMode, Reaction, PrizeWinner, TieRule, ScheduledGame, DrawMode, RoundOutcome, GameVariant, ClaimRules } from '../types';
+import type { GameAction, GameStore } from './gameStore';
+import { checkPaperCard } from './paperCards';
+import { createInitialGameState } from './gameReducer';
 
-class GameStateService {
+export class GameStateService {
   private state: SharedGameState;
   private listeners: Set<(state: SharedGameState) => void>;
-  private channel: RealtimeChannel | null = null;
-
-  private initialState: SharedGameState = {
-    users: [{ name: 'admin', password: 'admin', pixKey: 'admin' }],
-    onlineUsers: [],
-    generatedCards: [],
-    drawnNumbers: [],
-    isGameActive: false,
-    bingoWinner: null,
-    playerWins: {},
-    gameMode: 'line',
-    preGameCountdown: null,
-    playerPreferences: {},
-    invalidBingoClaim: null,
-    lastReaction: null,
-  };
-
-  constructor() {
-    this.state = { ...this.initialState };
+  private unsubscribeFromStore: (() => void) | null = null;
+
+  constructor(private store: GameStore) {
+    this.state = createInitialGameState();
     this.listeners = new Set();
   }
 
   async initialize(): Promise<void> {
-    const { data, error } = await supabase
-        .from(TABLE_NAME)
-        .select('state')
-        .eq('id', ROW_ID)
-        .single();
-
-    if (error && error.code !== 'PGRST116') { // PGRST116: "exact one row not found"
-      console.error('Error fetching game state:', error);
-      this.state = { ...this.initialState };
-    } else if (data) {
-        this.state = { ...this.initialState, ...data.state };
-    } else {
-      // No state found, so create it
-      this.state = { ...this.initialState };
-       const { error: upsertError } = await supabase
-        .from(TABLE_NAME)
-        .upsert({ id: ROW_ID, state: this.state });
-       if (upsertError) console.error('Failed to create initial state:', upsertError);
-    }
+    const state = await this.store.load();
+    if (state) this.state = state;
 
     this.notifyListeners();
-    this.setupRealtimeSubscription();
+    if (!this.unsubscribeFromStore) {
+      this.unsubscribeFromStore = this.store.subscribe(newState => {
+        // Only update if the state has genuinely changed to avoid re-renders.
+        if (JSON.stringify(this.state) !== JSON.stringify(newState)) {
+          this.state = newState;
+          this.notifyListeners();
+        }
+      });
+    }
   }
   
   cleanup(): void {
-    if (this.channel) {
-      supabase.removeChannel(this.channel);
-      this.channel = null;
-    }
+    this.unsubscribeFromStore?.();
+    this.unsubscribeFromStore = null;
   }
 
   // --- Public API for components ---
@@ -98,226 +47,207 @@ class GameStateService {
   
   // --- Actions ---
 
-  async registerUser(newUser: User): Promise<boolean> {
-    let success = false;
-    await this.fetchAndApplyUpdate(current => {
-        if (current.users.some(u => u.name === newUser.name)) {
-            success = false;
-            return null; // No update
-        }
-        success = true;
-        return { users: [...current.users, newUser] };
-    });
-    return success;
-  }
-  
   async login(name: string): Promise<void> {
-     await this.fetchAndApplyUpdate(current => {
-        if (!current.onlineUsers.includes(name)) {
-            return { onlineUsers: [...current.onlineUsers, name] };
-        }
-        return null; // No update needed
-    });
+    await this.dispatch({ type: 'setUserOnline', name, online: true });
   }
 
   async logout(name: string): Promise<void> {
-    await this.fetchAndApplyUpdate(current => {
-        if (current.onlineUsers.includes(name)) {
-            return { onlineUsers: current.onlineUsers.filter(u => u !== name) };
-        }
-        return null;
-    });
+    await this.dispatch({ type: 'setUserOnline', name, online: false });
+  }
+
+  async setUserRole(name: string, role: UserRole): Promise<boolean> {
+    return await this.dispatch({ type: 'setUserRole', name, role }) === true;
   }
 
   async addCards(newCards: GeneratedCard[]): Promise<void> {
-    await this.fetchAndApplyUpdate(current => ({ 
-        generatedCards: [...current.generatedCards, ...newCards] 
-    }));
+    await this.dispatch({ type: 'addCards', cards: newCards });
   }
 
-  async setGameMode(mode: GameMode): Promise<void> {
-    await this.fetchAndApplyUpdate(() => ({ gameMode: mode }));
+  async createOrder(orderId: string, playerName: string, cards: GeneratedCard[], scheduledGameId?: string): Promise<boolean> {
+    return await this.dispatch({ type: 'createOrder', orderId, playerName, cards, scheduledGameId }) === true;
+  }
+
+  async sellPaperCards(orderId: string, cashierName: string, cards: GeneratedCard[]): Promise<boolean> {
+    return await this.dispatch({ type: 'sellPaperCards', orderId, cashierName, cards }) === true;
+  }
+
+  async confirmOrder(orderId: string, confirmedBy: string): Promise<boolean> {
+    return await this.dispatch({ type: 'confirmOrder', orderId, confirmedBy }) === true;
+  }
+
+  async cancelOrder(orderId: string, cancelledBy: string): Promise<boolean> {
+    return await this.dispatch({ type: 'cancelOrder', orderId, cancelledBy }) === true;
+  }
+
+  async setPixReceiver(receiver: PixReceiver): Promise<void> {
+    await this.dispatch({ type: 'setPixReceiver', receiver });
+  }
+
+  async setCharityPercent(percent: number): Promise<boolean> {
+    return await this.dispatch({ type: 'setCharityPercent', percent }) === true;
+  }
+
+  async setPriceTable(priceTable: PriceTable): Promise<boolean> {
+    return await this.dispatch({ type: 'setPriceTable', priceTable }) === true;
+  }
+
+  async setRoundPriceTable(priceTable: PriceTable | null): Promise<boolean> {
+    return await this.dispatch({ type: 'setRoundPriceTable', priceTable }) === true;
+  }
+
+  async setPrizes(prizes: Prize[]): Promise<boolean> {
+    return await this.dispatch({ type: 'setPrizes', prizes }) === true;
+  }
+
+  async setPrizePattern(prizeId: number, mode: GameMode): Promise<void> {
+    await this.dispatch({ type: 'setPrizePattern', prizeId, pattern: mode });
   }
 
   async setPreGameCountdown(countdown: number | null): Promise<void> {
-    await this.fetchAndApplyUpdate(() => ({ preGameCountdown: countdown }));
+    await this.dispatch({ type: 'setPreGameCountdown', countdown });
   }
   
   async startGame(): Promise<void> {
-      await this.fetchAndApplyUpdate(() => ({
-          isGameActive: true,
-          preGameCountdown: null,
-      }));
+    await this.dispatch({ type: 'startGame' });
   }
 
   async startNextGameCycle(): Promise<void> {
-    await this.fetchAndApplyUpdate(() => ({
-        drawnNumbers: [],
-        bingoWinner: null,
-        isGameActive: false,
-        preGameCountdown: 20, // Start a 20-second countdown
-        generatedCards: [],
-        playerPreferences: {},
-        invalidBingoClaim: null,
-        lastReaction: null,
-    }));
+    await this.dispatch({ type: 'startNextGameCycle' });
+  }
+
+  async scheduleGame(game: ScheduledGame): Promise<boolean> {
+    return await this.dispatch({ type: 'scheduleGame', game }) === true;
+  }
+
+  async cancelScheduledGame(gameId: string, cancelledBy: string): Promise<boolean> {
+    return await this.dispatch({ type: 'cancelScheduledGame', gameId, cancelledBy }) === true;
+  }
+
+  async startScheduledGame(gameId: string): Promise<void> {
+    await this.dispatch({ type: 'startScheduledGame', gameId });
   }
 
   async drawNextNumber(): Promise<void> {
-    await this.fetchAndApplyUpdate(current => {
-        const { drawnNumbers, isGameActive, bingoWinner } = current;
-        if (drawnNumbers.length >= 75 || !isGameActive || bingoWinner) {
-          return null;
-        }
+    await this.dispatch({ type: 'drawNextNumber' });
+  }
 
-        let newNumber;
-        const drawnSet = new Set(drawnNumbers);
-        do {
-          newNumber = Math.floor(Math.random() * 75) + 1;
-        } while (drawnSet.has(newNumber));
+  async enterDrawnNumber(number: number): Promise<boolean> {
+    return await this.dispatch({ type: 'enterDrawnNumber', number }) === true;
+  }
 
-        return { drawnNumbers: [...drawnNumbers, newNumber], invalidBingoClaim: null };
-    });
+  async undoDrawnNumber(number: number): Promise<boolean> {
+    return await this.dispatch({ type: 'undoDrawnNumber', number }) === true;
+  }
+
+  async setPaused(paused: boolean): Promise<boolean> {
+    return await this.dispatch({ type: 'setPaused', paused }) === true;
+  }
+
+  async setDrawMode(mode: DrawMode): Promise<boolean> {
+    return await this.dispatch({ type: 'setDrawMode', mode }) === true;
+  }
+
+  async setDrawInterval(intervalMs: number | null): Promise<boolean> {
+    return await this.dispatch({ type: 'setDrawInterval', intervalMs }) === true;
   }
 
-  async setWinner(winner: { cardId: string; playerName: string }): Promise<void> {
-      await this.fetchAndApplyUpdate(current => ({
-          bingoWinner: winner,
-          isGameActive: false,
-          invalidBingoClaim: null,
-          playerWins: {
-              ...current.playerWins,
-              [winner.playerName]: (current.playerWins[winner.playerName] || 0) + 1,
-          }
-      }));
+  async setGameVariant(variant: GameVariant): Promise<boolean> {
+    return await this.dispatch({ type: 'setGameVariant', variant }) === true;
+  }
+
+  async endRound(outcome: RoundOutcome, reason: string, endedBy: string): Promise<boolean> {
+    return await this.dispatch({ type: 'endRound', outcome, reason, endedBy }) === true;
+  }
+
+  async awardPrize(prizeId: number, candidates: PrizeWinner[]): Promise<void> {
+    const current = await this.store.load();
+    // Another client may already have awarded this prize
+    if (!current || current.prizes[current.awardedPrizes.length]?.id !== prizeId || candidates.length === 0) return;
+    await this.recordPrizeAward(current, candidates);
+  }
+
+  async setTieRule(tieRule: TieRule): Promise<void> {
+    await this.dispatch({ type: 'setTieRule', tieRule });
+  }
+
+  async setClaimRules(rules: ClaimRules): Promise<boolean> {
+    return await this.dispatch({ type: 'setClaimRules', rules }) === true;
   }
   
   async setPlayerPreference(playerName: string, preference: 'auto' | 'manual'): Promise<void> {
-    await this.fetchAndApplyUpdate(current => ({
-        playerPreferences: {
-            ...current.playerPreferences,
-            [playerName]: preference,
-        }
-    }));
-  }
-
-  async claimBingo(playerName: string, cardId: string, drawnNumbers: Set<number>, gameMode: GameMode): Promise<void> {
-    let isInvalid = false;
-    await this.fetchAndApplyUpdate(current => {
-        if (current.bingoWinner || current.invalidBingoClaim?.playerName === playerName) return null;
-        
-        const claimedCard = current.generatedCards.find(c => c.id === cardId && c.owner === playerName);
-        if (!claimedCard) return null;
-        
-        const isWinner = checkForWinner([claimedCard], drawnNumbers, gameMode);
-        
-        if (isWinner) {
-            return {
-                bingoWinner: { cardId, playerName },
-                isGameActive: false,
-                invalidBingoClaim: null,
-                playerWins: {
-                    ...current.playerWins,
-                    [playerName]: (current.playerWins[playerName] || 0) + 1,
-                }
-            };
-        } else {
-            isInvalid = true;
-            return { invalidBingoClaim: { playerName, timestamp: Date.now() } };
-        }
-    });
+    await this.dispatch({ type: 'setPlayerPreference', playerName, preference });
+  }
 
-    if (isInvalid) {
-        setTimeout(() => {
-            this.clearInvalidBingoClaim(playerName);
-        }, 5000);
-    }
+  // `cardId` is the card on the player's screen; the backend checks all of their cards and awards
+  // the prize to the winning ones, and a false claim costs the player a strike (services/claims.ts).
+  async claimBingo(playerName: string, cardId: string): Promise<void> {
+    await this.dispatch({ type: 'claimBingo', playerName, cardId });
   }
   
+  // A bingo shouted on a paper card, confirmed by a host. Checked again here against the stored
+  // round; the claim is logged under the card's owner, the cashier who sold it.
+  async claimPaperCard(serial: string): Promise<boolean> {
+    const current = await this.store.load();
+    if (!current) return false;
+    const { card, verdict } = checkPaperCard(current, serial);
+    if (!card || (verdict !== 'winner' && verdict !== 'coWinner')) return false;
+
+    const winner = { cardId: card.id, playerName: card.owner };
+    const isAwarded = verdict === 'coWinner'
+        ? await this.joinAwardedPrize(current, [winner])
+        : await this.recordPrizeAward(current, [winner]);
+    if (isAwarded) await this.dispatch({ type: 'recordClaim', playerName: card.owner, cardId: card.id, isValid: true });
+    return isAwarded;
+  }
+
   async clearInvalidBingoClaim(playerName: string): Promise<void> {
-    await this.fetchAndApplyUpdate(current => {
-        if (current.invalidBingoClaim?.playerName === playerName) {
-            return { invalidBingoClaim: null };
-        }
-        return null;
-    });
+    await this.dispatch({ type: 'clearInvalidClaim', playerName });
   }
 
   async triggerReaction(type: Reaction['type']): Promise<void> {
-    await this.fetchAndApplyUpdate(current => ({ 
-        lastReaction: { type, timestamp: Date.now() } 
-    }));
+    await this.dispatch({ type: 'triggerReaction', reactionType: type });
   }
 
 
   // --- Private methods ---
-  private setupRealtimeSubscription(): void {
-    if (this.channel) return;
-
-    this.channel = supabase
-        .channel('game_state_channel')
-        .on(
-            'postgres_changes',
-            { event: 'UPDATE', schema: 'public', table: TABLE_NAME, filter: `id=eq.${ROW_ID}` },
-            (payload) => {
-                const newState = (payload.new as { state: SharedGameState }).state;
-                // Only update if the state has genuinely changed to avoid re-renders.
-                if (JSON.stringify(this.state) !== JSON.stringify(newState)) {
-                    this.state = { ...this.initialState, ...newState };
-                    this.notifyListeners();
-                }
-            }
-        )
-        .subscribe((status, err) => {
-            if (status === 'SUBSCRIBED') {
-                console.log('Connected to real-time channel!');
-            }
-            if (err) {
-                console.error('Real-time subscription error:', err);
-            }
-        });
+
+  // Awards the prize currently in play; the backend applies the tie rule, and the round only ends
+  // after the last prize. The store refuses the write if a prize was awarded or a ball drawn since
+  // `current` was read.
+  private async recordPrizeAward(current: SharedGameState, candidates: PrizeWinner[]): Promise<boolean> {
+    const recorded = await this.dispatch({
+        type: 'recordAward',
+        roundId: current.roundId,
+        expectedAwards: current.awardedPrizes.length,
+        ballCount: current.drawnNumbers.length,
+        candidates,
+    });
+    return recorded === true;
+  }
+
+  // Adds late claimants, already checked against the last prize's pattern, to the last awarded prize
+  // if no other ball was drawn since it was decided.
+  private async joinAwardedPrize(current: SharedGameState, coWinners: PrizeWinner[]): Promise<boolean> {
+    const lastAward = current.awardedPrizes[current.awardedPrizes.length - 1];
+    if (!lastAward) return false;
+    const updated = await this.dispatch({
+        type: 'updateAward',
+        roundId: current.roundId,
+        prizeId: lastAward.prizeId,
+        expectedCandidates: lastAward.candidates.length,
+        ballCount: lastAward.ballCount,
+        coWinners,
+    });
+    return updated === true;
   }
 
   private notifyListeners(): void {
     this.listeners.forEach(callback => callback(this.state));
   }
-  
-  private async fetchAndApplyUpdate(
-    updateFn: (currentState: SharedGameState) => Partial<SharedGameState> | null
-  ): Promise<void> {
-    const { data, error: fetchError } = await supabase
-        .from(TABLE_NAME)
-        .select('state')
-        .eq('id', ROW_ID)
-        .single();
-
-    if (fetchError && fetchError.code !== 'PGRST116') {
-        console.error('Failed to fetch state before update:', fetchError);
-        return; // Early exit on fetch failure
-    }
-
-    const currentState = data?.state ? { ...this.initialState, ...data.state } : { ...this.initialState };
-
-    const updates = updateFn(currentState);
-
-    if (updates === null) {
-        return; // No update needed
-    }
-
-    const newState = { ...currentState, ...updates };
-
-    const { error: upsertError } = await supabase
-        .from(TABLE_NAME)
-        .upsert({ id: ROW_ID, state: newState });
 
-    if (upsertError) {
-        console.error('Failed to save atomic state update to Supabase:', upsertError);
-    }
-    
+  private dispatch(action: GameAction) {
     // We don't update local state or notify listeners here.
-    // The realtime subscription is the single source of truth and will trigger the update.
-    // This prevents race conditions and ensures all clients are in sync.
+    // The store subscription is the single source of truth and will trigger the update.
+    return this.store.apply(action);
   }
 }
-
-export const gameStateService = new GameStateService();
\ No newline at end of file
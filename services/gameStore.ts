@@ -0,0 +1,188 @@
+import type {
+  ClaimRules,
+  DrawMode,
+  GameMode,
+  GameVariant,
+  GeneratedCard,
+  PayoutLedger,
+  PixReceiver,
+  PriceTable,
+  Prize,
+  PrizeWinner,
+  Reaction,
+  Room,
+  RoomListing,
+  RoundArchive,
+  RoundOutcome,
+  RoundSummary,
+  ScheduledGame,
+  SharedGameState,
+  TieRule,
+  UserProfile,
+  UserRole,
+} from '../types';
+
+// Every change to the game is one of these actions. Each backend applies them atomically:
+// Supabase maps them to Postgres functions, the local backends run them through gameReducer.ts.
+export type GameAction =
+  | { type: 'setUserOnline'; name: string; online: boolean }
+  | { type: 'setUserRole'; name: string; role: UserRole }
+  // Cards handed out by the staff without a PIX order
+  | { type: 'addCards'; cards: GeneratedCard[] }
+  // The backend prices the order; refused once the game has started, unless it is a pre-order
+  // for a scheduled game whose sales are open, or if a card isn't a free one of the room's series
+  | { type: 'createOrder'; orderId: string; playerName: string; cards: GeneratedCard[]; scheduledGameId?: string }
+  | { type: 'confirmOrder'; orderId: string; confirmedBy: string }
+  | { type: 'cancelOrder'; orderId: string; cancelledBy: string }
+  // Paper cards sold for cash at the counter: a paid order of the cashier's, whose cards join the
+  // round right away. Same sales window as the round's orders.
+  | { type: 'sellPaperCards'; orderId: string; cashierName: string; cards: GeneratedCard[] }
+  | { type: 'setPixReceiver'; receiver: PixReceiver }
+  | { type: 'setPriceTable'; priceTable: PriceTable }
+  | { type: 'setCharityPercent'; percent: number }
+  // null goes back to the regular table
+  | { type: 'setRoundPriceTable'; priceTable: PriceTable | null }
+  // Replaces the whole ladder; refused while a game is running
+  | { type: 'setPrizes'; prizes: Prize[] }
+  | { type: 'setPrizePattern'; prizeId: number; pattern: GameMode }
+  | { type: 'setTieRule'; tieRule: TieRule }
+  | { type: 'setClaimRules'; rules: ClaimRules }
+  | { type: 'setPreGameCountdown'; countdown: number | null }
+  | { type: 'startGame' }
+  | { type: 'startNextGameCycle' }
+  | { type: 'scheduleGame'; game: ScheduledGame }
+  // Refused once cards were paid for it; its pending pre-orders are cancelled
+  | { type: 'cancelScheduledGame'; gameId: string; cancelledBy: string }
+  // Moves on to the game's round and starts its countdown; refused while a round is being played
+  | { type: 'startScheduledGame'; gameId: string }
+  // Refused while the game is paused; with the 'manual' draw mode only the staff's button draws
+  | { type: 'drawNextNumber' }
+  // A ball called from a physical globe, in the 'globe' draw mode; refused if it was already drawn
+  | { type: 'enterDrawnNumber'; number: number }
+  // Takes back the last ball if it is `number`, came from the globe and decided no prize (typos)
+  | { type: 'undoDrawnNumber'; number: number }
+  // Refused unless a round is being played or counting down
+  | { type: 'setPaused'; paused: boolean }
+  | { type: 'setDrawMode'; mode: DrawMode }
+  // null goes back to the game runner's default
+  | { type: 'setDrawInterval'; intervalMs: number | null }
+  // Between rounds only, while no card is sold or ordered; the prize ladder goes back to the variant's default
+  | { type: 'setGameVariant'; variant: GameVariant }
+  // Stops the round being played, once its first ball is out; voiding it takes back the prizes already awarded
+  | { type: 'endRound'; outcome: RoundOutcome; reason: string; endedBy: string }
+  | { type: 'setPlayerPreference'; playerName: string; preference: 'auto' | 'manual' }
+  // Awards by the staff, the tie rule applied by the backend. Compare-and-swap: refused if a prize
+  // was awarded or a ball drawn since the candidates were found
+  | { type: 'recordAward'; roundId: number; expectedAwards: number; ballCount: number; candidates: PrizeWinner[] }
+  | { type: 'updateAward'; roundId: number; prizeId: number; expectedCandidates: number; ballCount: number; coWinners: PrizeWinner[] }
+  // A "BINGO!" of a player marking by hand, checked by the backend over all of the player's cards
+  // and logged; a winning card gets the prize in play (in time, under the late claim rule), or joins
+  // the last prize on the ball that decided it. Refused while the player is paused or locked out
+  | { type: 'claimBingo'; playerName: string; cardId: string }
+  // A claim checked by the staff, logged under the card's owner
+  | { type: 'recordClaim'; playerName: string; cardId: string; isValid: boolean }
+  | { type: 'clearInvalidClaim'; playerName: string }
+  | { type: 'triggerReaction'; reactionType: Reaction['type'] };
+
+// `true`/`false` for actions that can be refused, the drawn ball for `drawNextNumber`, otherwise null
+export type ActionResult = boolean | number | null;
+
+export interface GameStore {
+  /** Reads the current state, or null if the backend can't be reached or no room was entered. */
+  load(): Promise<SharedGameState | null>;
+  /** Applies one action atomically. Listeners are notified through `subscribe`, not here. */
+  apply(action: GameAction): Promise<ActionResult>;
+  /** Calls back with the new state whenever anyone changes the game. Returns an unsubscribe function. */
+  subscribe(callback: (state: SharedGameState) => void): () => void;
+}
+
+export type AuthResult = { user: UserProfile } | { error: string };
+
+export const authErrors = {
+  nameTaken: 'Este nome de usuário já existe.',
+  invalidCredentials: 'Nome de usuário ou senha inválidos.',
+  unavailable: 'Não foi possível falar com o servidor. Tente novamente.',
+};
+
+// Accounts are handled by the backend (Supabase Auth or the local equivalents) so passwords
+// are hashed where they are stored and never travel inside the shared game state.
+export interface AuthProvider {
+  register(name: string, password: string, pixKey: string): Promise<AuthResult>;
+  signIn(name: string, password: string): Promise<AuthResult>;
+  /** Resumes the session saved on this device, if it is still valid. */
+  restoreSession(): Promise<UserProfile | null>;
+  signOut(): Promise<void>;
+}
+
+// The prize pool ledger (services/ledger.ts). Only staff handling payments can read it, since it
+// holds the winners' PIX keys, so it is not part of the shared state.
+export interface LedgerProvider {
+  /** null when the session may not see it or the backend is unreachable. */
+  loadLedger(): Promise<PayoutLedger | null>;
+  markPayoutPaid(payoutId: string): Promise<boolean>;
+}
+
+// Finished rounds (services/history.ts), open to anyone. Kept apart from the shared state since
+// each archive holds every card and ball of its round.
+export interface HistoryProvider {
+  /** Most recent first; empty if the backend is unreachable. */
+  listRounds(): Promise<RoundSummary[]>;
+  /** null if the round isn't archived or the backend is unreachable. */
+  loadRound(roundId: number): Promise<RoundArchive | null>;
+  /** Every archived round, oldest first, for the player statistics (services/stats.ts). */
+  loadAllRounds(): Promise<RoundArchive[]>;
+}
+
+// Several games run side by side, each in a room of its own (services/rooms.ts). A store works
+// on one room at a time: the game state, ledger and history above are the entered room's.
+export interface RoomProvider {
+  /** The lobby: public rooms, newest first; empty if the backend is unreachable. */
+  listRooms(): Promise<RoomListing[]>;
+  /** Any room, public or private, by its join code; null if there is none. */
+  findRoom(code: string): Promise<RoomListing | null>;
+  /** Opens a room owned by the signed-in player; null if refused or unreachable. */
+  createRoom(name: string, isPublic: boolean): Promise<Room | null>;
+  /** Joins the room (as a player, the first time) and makes it the store's room. */
+  enterRoom(roomId: string): Promise<boolean>;
+  /** Back to the lobby; the store no longer has a room. */
+  leaveRoom(): void;
+}
+
+// --- Wire protocol between webSocketStore.ts and the local server (server/index.ts) ---
+
+export type LocalAuthRequest =
+  | { type: 'register'; name: string; password: string; pixKey: string }
+  | { type: 'signIn'; name: string; password: string }
+  | { type: 'resume'; token: string }
+  | { type: 'signOut' };
+
+export type LocalLedgerRequest =
+  | { type: 'load' }
+  | { type: 'markPaid'; payoutId: string };
+
+export type LocalHistoryRequest =
+  | { type: 'list' }
+  | { type: 'load'; roundId: number }
+  | { type: 'loadAll' };
+
+export type LocalRoomRequest =
+  | { type: 'list' }
+  | { type: 'find'; code: string }
+  | { type: 'create'; name: string; isPublic: boolean }
+  | { type: 'enter'; roomId: string }
+  | { type: 'leave' };
+
+export type LocalClientMessage =
+  | { requestId: number; action: GameAction }
+  | { requestId: number; auth: LocalAuthRequest }
+  | { requestId: number; ledger: LocalLedgerRequest }
+  | { requestId: number; history: LocalHistoryRequest }
+  | { requestId: number; room: LocalRoomRequest };
+
+export type LocalServerMessage =
+  | { type: 'state'; state: SharedGameState }
+  | { type: 'result'; requestId: number; result: ActionResult; error?: string }
+  | { type: 'authResult'; requestId: number; user?: UserProfile; token?: string; error?: string }
+  | { type: 'ledgerResult'; requestId: number; ledger?: PayoutLedger; ok?: boolean; error?: string }
+  | { type: 'historyResult'; requestId: number; rounds?: RoundSummary[]; round?: RoundArchive | null; archives?: RoundArchive[] }
+  | { type: 'roomResult'; requestId: number; rooms?: RoomListing[]; room?: RoomListing | Room | null; ok?: boolean; error?: string };
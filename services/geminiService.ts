@@ -35,3 +35,24 @@ export const generateBingoCard = async (): Promise<BingoCardData> => {
   // This is faster, cheaper, and guarantees 100% correctness and adherence to bingo rules.
   return createValidBingoCard();
 };
+
+// Two cards with the same numbers are the same card, wherever they sit
+const cardSignature = (card: BingoCardData): string =>
+  JSON.stringify([...card.B, ...card.I, ...card.N, ...card.G, ...card.O].filter(n => typeof n === 'number').sort());
+
+/** `quantity` new cards, none the same as one another or as `existingCards`. */
+export const generateUniqueCards = async (quantity: number, existingCards: BingoCardData[]): Promise<BingoCardData[]> => {
+  const signatures = new Set(existingCards.map(cardSignature));
+  const cards: BingoCardData[] = [];
+  for (let i = 0; i < quantity; i++) {
+    let card, signature, attempts = 0;
+    do {
+      card = await generateBingoCard();
+      signature = cardSignature(card);
+      if (++attempts > 100) throw new Error('Não foi possível gerar uma cartela única.');
+    } while (signatures.has(signature));
+    signatures.add(signature);
+    cards.push(card);
+  }
+  return cards;
+};
@@ -0,0 +1,44 @@
+import type { AwardedPrize, BingoClaim, DrawAudit, RoundArchive, RoundSummary, SharedGameState } from '../types';
+
+// Archive of the finished rounds. The local backends archive a round when the next one starts,
+// the same way they record the ledger (ledger.ts); on Supabase a round's rows are never deleted,
+// so the Postgres functions read the archive straight from them. Keep both in sync.
+
+const archiveRound = (state: SharedGameState, drawAudit: DrawAudit | null, now: number): RoundArchive => ({
+  roundId: state.roundId,
+  finishedAt: now,
+  cardCount: state.generatedCards.length,
+  ballCount: state.drawnNumbers.length,
+  winners: state.bingoWinners ?? [],
+  draws: state.drawnNumbers.map((number, i) => ({ number, drawnAt: state.drawnAt[i] ?? null })),
+  cards: state.generatedCards,
+  claims: state.claims,
+  awardedPrizes: state.awardedPrizes,
+  drawAudit,
+  cardSeries: state.cardSeries,
+  gameVariant: state.gameVariant,
+  ...(state.roundEnding && { ending: state.roundEnding }),
+});
+
+/** Archives the round `previous` was on if `next` moved past it; rounds without a single ball are skipped. */
+export const recordArchivedRound = (history: RoundArchive[], previous: SharedGameState, next: SharedGameState, now = Date.now()): RoundArchive[] => {
+  if (next.roundId === previous.roundId || previous.drawnNumbers.length === 0 || history.some(r => r.roundId === previous.roundId)) {
+    return history;
+  }
+  // The restart reveals the seed of the round it closes
+  const drawAudit = next.lastDrawAudit?.roundId === previous.roundId ? next.lastDrawAudit : null;
+  return [...history, archiveRound(previous, drawAudit, now)];
+};
+
+/** Most recent first. */
+export const listRounds = (history: RoundArchive[]): RoundSummary[] =>
+  history.map(({ roundId, finishedAt, cardCount, ballCount, winners, ending }) => ({ roundId, finishedAt, cardCount, ballCount, winners, ending })).reverse();
+
+// --- Replay ---
+
+/** Prizes already decided once `ballCount` balls have been replayed. */
+export const awardsAt = (archive: RoundArchive, ballCount: number): AwardedPrize[] =>
+  archive.awardedPrizes.filter(a => a.ballCount <= ballCount);
+
+export const claimsAt = (archive: RoundArchive, ballCount: number): BingoClaim[] =>
+  archive.claims.filter(c => c.ballCount <= ballCount);
@@ -0,0 +1,123 @@
+import type { PayoutLedger, Prize, PrizePayout, RoundLedger, SharedGameState } from '../types';
+import { isPreOrder } from './schedule';
+
+// Prize pool accounting. When a round is closed (the next one starts), the backend records what
+// it sold and what each winner is owed; cashiers then mark the payouts as paid. The ledger is
+// private to the staff handling payments, so it is loaded apart from the shared game state.
+// The Supabase functions (supabase/migrations) keep the same records; keep them in sync.
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const formatMoney = (amount: number): string => currencyFormatter.format(amount);
+
+/** "R$ 1.234,56" -> 1234.56; anything not in reais (e.g. "Extra") is not money. */
+export const parseMoney = (value: string): number | null => {
+  if (!value.includes('R$')) return null;
+  const amount = parseFloat(value.replace(/[^\d,]/g, '').replace(',', '.'));
+  return isNaN(amount) ? null : amount;
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Pre-orders count towards the round of their scheduled game
+export const roundRevenue = (state: Pick<SharedGameState, 'cardOrders'>): number =>
+  roundCents(state.cardOrders.filter(o => o.status === 'paid' && !isPreOrder(o)).reduce((sum, o) => sum + o.amount, 0));
+
+// What a percentage prize shows while cards are still being sold
+export const poolValueLabel = (percent: number): string => `${percent}% do arrecadado`;
+
+/** Card sales are closed when the game starts: percentage prizes become fixed amounts. */
+export const withPoolValues = (prizes: Prize[], revenue: number): Prize[] =>
+  prizes.map(p => p.poolPercent === undefined ? p : { ...p, value: formatMoney(roundCents(revenue * p.poolPercent / 100)) });
+
+/** Back to the percentage for the next round's sales. */
+export const withPoolLabels = (prizes: Prize[]): Prize[] =>
+  prizes.map(p => p.poolPercent === undefined ? p : { ...p, value: poolValueLabel(p.poolPercent) });
+
+export const isValidPercent = (percent: number): boolean => Number.isFinite(percent) && percent >= 0 && percent <= 100;
+
+// --- Stored ledger (memory store and local server) ---
+
+export type StoredPayout = Omit<PrizePayout, 'pixKey'>;
+
+export interface StoredLedger {
+  rounds: RoundLedger[];
+  payouts: StoredPayout[];
+}
+
+export const emptyLedger = (): StoredLedger => ({ rounds: [], payouts: [] });
+
+const closeRound = (state: SharedGameState, now: number): StoredLedger => {
+  const revenue = roundRevenue(state);
+  const payouts: StoredPayout[] = state.awardedPrizes.flatMap(award => award.winners.map(winner => ({
+    id: `${state.roundId}:${award.prizeId}:${winner.cardId}`,
+    roundId: state.roundId,
+    prizeName: award.prizeName,
+    playerName: winner.playerName,
+    cardId: winner.cardId,
+    amount: parseMoney(award.shareValue),
+    description: award.shareValue,
+    status: 'pending',
+    paidBy: null,
+    paidAt: null,
+  })));
+  const round: RoundLedger = {
+    roundId: state.roundId,
+    finishedAt: now,
+    cardsSold: state.generatedCards.length,
+    revenue,
+    charityPercent: state.charityPercent,
+    charityAmount: roundCents(revenue * state.charityPercent / 100),
+    prizesTotal: roundCents(payouts.reduce((sum, p) => sum + (p.amount ?? 0), 0)),
+  };
+  return { rounds: [round], payouts };
+};
+
+/** Records the round `previous` was on if `next` moved past it. */
+export const recordClosedRound = (ledger: StoredLedger, previous: SharedGameState, next: SharedGameState, now = Date.now()): StoredLedger => {
+  if (next.roundId === previous.roundId || ledger.rounds.some(r => r.roundId === previous.roundId)) return ledger;
+  const closed = closeRound(previous, now);
+  return { rounds: [...ledger.rounds, ...closed.rounds], payouts: [...ledger.payouts, ...closed.payouts] };
+};
+
+export const markPaid = (ledger: StoredLedger, payoutId: string, paidBy: string, now = Date.now()): StoredLedger | null => {
+  const payout = ledger.payouts.find(p => p.id === payoutId);
+  if (payout?.status !== 'pending') return null;
+  return { ...ledger, payouts: ledger.payouts.map(p => p === payout ? { ...p, status: 'paid', paidBy, paidAt: now } : p) };
+};
+
+export const withPixKeys = (ledger: StoredLedger, pixKeys: Record<string, string>): PayoutLedger => ({
+  rounds: ledger.rounds,
+  payouts: ledger.payouts.map(p => ({ ...p, pixKey: pixKeys[p.playerName] ?? null })),
+});
+
+// --- CSV export ---
+// Semicolons and decimal commas, which is what spreadsheets in pt-BR expect.
+
+type CsvValue = string | number | null;
+
+const csvCell = (value: CsvValue): string => {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? value.toFixed(2).replace('.', ',') : value;
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: CsvValue[][]): string => rows.map(row => row.map(csvCell).join(';')).join('\n');
+
+const formatDate = (timestamp: number | null) => timestamp === null ? null : new Date(timestamp).toLocaleString('pt-BR');
+
+export const roundsCsv = (ledger: PayoutLedger): string => toCsv([
+  ['Rodada', 'Encerrada em', 'Cartelas', 'Arrecadado (R$)', 'Caridade (%)', 'Caridade (R$)', 'Prêmios (R$)', 'Saldo (R$)'],
+  ...ledger.rounds.map(r => [
+    String(r.roundId), formatDate(r.finishedAt), String(r.cardsSold), r.revenue, r.charityPercent, r.charityAmount, r.prizesTotal,
+    roundCents(r.revenue - r.charityAmount - r.prizesTotal),
+  ]),
+]);
+
+export const payoutsCsv = (ledger: PayoutLedger): string => toCsv([
+  ['Rodada', 'Prêmio', 'Ganhador', 'Cartela', 'Valor (R$)', 'Descrição', 'Chave PIX', 'Situação', 'Pago por', 'Pago em'],
+  ...ledger.payouts.map(p => [
+    String(p.roundId), p.prizeName, p.playerName, p.cardId, p.amount, p.description, p.pixKey,
+    p.status === 'paid' ? 'Pago' : 'Pendente', p.paidBy, formatDate(p.paidAt),
+  ]),
+]);
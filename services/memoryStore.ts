@@ -0,0 +1,360 @@
+import type { PayoutLedger, Room, RoomListing, RoundArchive, RoundSummary, SharedGameState, UserProfile } from '../types';
+import {
+  authErrors,
+  type ActionResult,
+  type AuthProvider,
+  type AuthResult,
+  type GameAction,
+  type GameStore,
+  type HistoryProvider,
+  type LedgerProvider,
+  type RoomProvider,
+} from './gameStore';
+import { addUser, applyGameAction, createInitialGameState } from './gameReducer';
+import { canPerform, hasPermission } from './permissions';
+import { emptyLedger, markPaid, recordClosedRound, withPixKeys, type StoredLedger } from './ledger';
+import { listRounds, recordArchivedRound } from './history';
+import {
+  LEGACY_ROOM_ID,
+  LEGACY_ROOM_NAME,
+  createRoomCode,
+  createRoomState,
+  isValidRoomName,
+  normalizeRoomCode,
+  openRooms,
+  toRoomListing,
+} from './rooms';
+import { createDrawSecret } from './fairDraw';
+import { createSessionToken, hashPassword, verifyPassword, type StoredAccount } from './credentials';
+
+const CHANNEL_NAME = 'bingo-game-state';
+const ROOMS_KEY = 'bingoRooms';
+const ACCOUNTS_KEY = 'bingoAccounts';
+const SESSION_KEY = 'bingoSession';
+// Kept per room, under `${key}:${roomId}`
+const STORAGE_KEY = 'bingoGameState';
+const DRAW_SECRET_KEY = 'bingoDrawSecret';
+const LEDGER_KEY = 'bingoLedger';
+const HISTORY_KEY = 'bingoHistory';
+// localStorage only holds a few megabytes; older rounds are dropped
+const MAX_ARCHIVED_ROUNDS = 50;
+const LOCK_NAME = 'bingo-game-state-lock';
+
+interface MemoryGameStoreOptions {
+  // Shares the game between tabs of the same browser (omit for a store private to this process)
+  storage?: Storage;
+}
+
+type ItemStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Stands in for localStorage when the store is private to this process
+const createMemoryItems = (): ItemStore => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); },
+  };
+};
+
+const roomKey = (key: string, roomId: string) => `${key}:${roomId}`;
+
+interface AccountBook {
+  accounts: Record<string, StoredAccount>;
+  sessions: Record<string, string>; // token -> player name
+}
+
+// Runs the whole game inside the browser: state in localStorage, changes announced to the
+// other tabs through a BroadcastChannel. Without `storage` it is a plain in-memory store,
+// which is what tests and single-device games need.
+export class MemoryGameStore implements GameStore, AuthProvider, LedgerProvider, HistoryProvider, RoomProvider {
+  private items: ItemStore;
+  private isShared: boolean;
+  private roomId: string | null = null;
+  private state: SharedGameState | null = null;
+  private listeners = new Set<(state: SharedGameState) => void>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(options: MemoryGameStoreOptions = {}) {
+    this.items = options.storage ?? createMemoryItems();
+    this.isShared = !!options.storage;
+    this.moveLegacyGame();
+
+    if (this.isShared && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      // Other tabs announce the room they changed
+      this.channel.onmessage = (event) => {
+        if (!this.roomId || event.data !== this.roomId) return;
+        const stored = this.readStoredState(this.roomId);
+        if (stored) this.setState(stored);
+      };
+    }
+  }
+
+  // --- Auth ---
+
+  async register(name: string, password: string, pixKey: string): Promise<AuthResult> {
+    const hashedPassword = await hashPassword(password);
+    return this.withLock(() => {
+      const book = this.readAccountBook();
+      if (book.accounts[name]) return { error: authErrors.nameTaken };
+
+      const profile: UserProfile = { name, pixKey };
+      book.accounts[name] = { profile, password: hashedPassword };
+      this.startSession(book, name);
+      return { user: profile };
+    });
+  }
+
+  async signIn(name: string, password: string): Promise<AuthResult> {
+    const account = this.readAccountBook().accounts[name];
+    if (!account || !(await verifyPassword(password, account.password))) {
+      return { error: authErrors.invalidCredentials };
+    }
+    return this.withLock(() => {
+      this.startSession(this.readAccountBook(), name);
+      return { user: account.profile };
+    });
+  }
+
+  async restoreSession(): Promise<UserProfile | null> {
+    const name = this.sessionPlayerName();
+    return name ? this.readAccountBook().accounts[name]?.profile ?? null : null;
+  }
+
+  async signOut(): Promise<void> {
+    const token = this.items.getItem(SESSION_KEY);
+    if (!token) return;
+    await this.withLock(() => {
+      const book = this.readAccountBook();
+      delete book.sessions[token];
+      this.writeAccountBook(book);
+    });
+    this.items.removeItem(SESSION_KEY);
+  }
+
+  // --- Rooms ---
+
+  async listRooms(): Promise<RoomListing[]> {
+    return openRooms(this.readRooms().map(room => this.toListing(room)));
+  }
+
+  async findRoom(code: string): Promise<RoomListing | null> {
+    const room = this.readRooms().find(r => r.id === normalizeRoomCode(code));
+    return room ? this.toListing(room) : null;
+  }
+
+  async createRoom(name: string, isPublic: boolean): Promise<Room | null> {
+    return this.withLock(() => {
+      const hostName = this.sessionPlayerName();
+      if (!hostName || !isValidRoomName(name)) return null;
+
+      const rooms = this.readRooms();
+      let id;
+      do {
+        id = createRoomCode();
+      } while (rooms.some(r => r.id === id));
+      const room: Room = { id, name: name.trim(), hostName, isPublic, createdAt: Date.now() };
+      this.writeRooms([...rooms, room]);
+      this.items.setItem(roomKey(DRAW_SECRET_KEY, id), createDrawSecret());
+      this.writeState(id, createRoomState(hostName));
+      return room;
+    });
+  }
+
+  async enterRoom(roomId: string): Promise<boolean> {
+    return this.withLock(() => {
+      const name = this.sessionPlayerName();
+      if (!name || !this.readRooms().some(r => r.id === roomId)) return false;
+
+      this.roomId = roomId;
+      const current = this.readStoredState(roomId) ?? createInitialGameState();
+      const joined = addUser(current, name);
+      if (joined !== current) {
+        this.writeState(roomId, joined);
+      } else {
+        this.setState(current);
+      }
+      return true;
+    });
+  }
+
+  leaveRoom(): void {
+    this.roomId = null;
+    this.state = null;
+  }
+
+  // --- Game state ---
+
+  async load(): Promise<SharedGameState | null> {
+    return this.roomId ? this.readStoredState(this.roomId) ?? this.state : null;
+  }
+
+  async apply(action: GameAction): Promise<ActionResult> {
+    const roomId = this.roomId;
+    if (!roomId) return null;
+    return this.withLock(() => {
+      // Another tab may have written since our last update
+      const current = this.readStoredState(roomId) ?? createInitialGameState();
+      const actor = current.users.find(u => u.name === this.sessionPlayerName());
+      if (!canPerform(action, actor)) {
+        console.error(`Not allowed to ${action.type} in this session`);
+        return null;
+      }
+      const { state, result } = applyGameAction(current, action, { drawSecret: this.readDrawSecret(roomId) });
+      if (state !== current) {
+        const ledger = this.readLedger(roomId);
+        const updatedLedger = recordClosedRound(ledger, current, state);
+        if (updatedLedger !== ledger) this.write(roomKey(LEDGER_KEY, roomId), updatedLedger);
+        const history = this.readHistory(roomId);
+        const updatedHistory = recordArchivedRound(history, current, state);
+        if (updatedHistory !== history) this.write(roomKey(HISTORY_KEY, roomId), updatedHistory.slice(-MAX_ARCHIVED_ROUNDS));
+        this.writeState(roomId, state);
+      }
+      return result;
+    });
+  }
+
+  subscribe(callback: (state: SharedGameState) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  // --- Ledger ---
+
+  async loadLedger(): Promise<PayoutLedger | null> {
+    if (!this.roomId || !this.canManagePayments(this.roomId)) return null;
+    const pixKeys = Object.fromEntries(Object.values(this.readAccountBook().accounts).map(a => [a.profile.name, a.profile.pixKey]));
+    return withPixKeys(this.readLedger(this.roomId), pixKeys);
+  }
+
+  async markPayoutPaid(payoutId: string): Promise<boolean> {
+    const roomId = this.roomId;
+    if (!roomId) return false;
+    return this.withLock(() => {
+      const paidBy = this.sessionPlayerName();
+      if (!paidBy || !this.canManagePayments(roomId)) return false;
+      const ledger = markPaid(this.readLedger(roomId), payoutId, paidBy);
+      if (ledger) this.write(roomKey(LEDGER_KEY, roomId), ledger);
+      return !!ledger;
+    });
+  }
+
+  // --- History ---
+
+  async listRounds(): Promise<RoundSummary[]> {
+    return this.roomId ? listRounds(this.readHistory(this.roomId)) : [];
+  }
+
+  async loadRound(roundId: number): Promise<RoundArchive | null> {
+    return this.roomId ? this.readHistory(this.roomId).find(r => r.roundId === roundId) ?? null : null;
+  }
+
+  async loadAllRounds(): Promise<RoundArchive[]> {
+    return this.roomId ? this.readHistory(this.roomId) : [];
+  }
+
+  private canManagePayments(roomId: string): boolean {
+    const current = this.readStoredState(roomId);
+    return hasPermission(current?.users.find(u => u.name === this.sessionPlayerName())?.role, 'managePayments');
+  }
+
+  private toListing(room: Room): RoomListing {
+    return toRoomListing(room, this.readStoredState(room.id) ?? createInitialGameState());
+  }
+
+  // Games saved before rooms existed become the legacy room, items and all
+  private moveLegacyGame(): void {
+    const legacyState = this.items.getItem(STORAGE_KEY);
+    if (!legacyState || this.items.getItem(ROOMS_KEY)) return;
+    for (const key of [STORAGE_KEY, DRAW_SECRET_KEY, LEDGER_KEY, HISTORY_KEY]) {
+      const item = this.items.getItem(key);
+      if (item) this.items.setItem(roomKey(key, LEGACY_ROOM_ID), item);
+      this.items.removeItem(key);
+    }
+    const hostName = this.readStoredState(LEGACY_ROOM_ID)?.users.find(u => u.role === 'owner')?.name ?? '';
+    this.writeRooms([{ id: LEGACY_ROOM_ID, name: LEGACY_ROOM_NAME, hostName, isPublic: true, createdAt: Date.now() }]);
+  }
+
+  private readRooms(): Room[] {
+    return this.read(ROOMS_KEY, [], 'rooms');
+  }
+
+  private writeRooms(rooms: Room[]): void {
+    this.write(ROOMS_KEY, rooms);
+  }
+
+  private readDrawSecret(roomId: string): string {
+    const key = roomKey(DRAW_SECRET_KEY, roomId);
+    const secret = this.items.getItem(key) ?? createDrawSecret();
+    this.items.setItem(key, secret);
+    return secret;
+  }
+
+  private readLedger(roomId: string): StoredLedger {
+    return this.read(roomKey(LEDGER_KEY, roomId), emptyLedger(), 'ledger');
+  }
+
+  private readHistory(roomId: string): RoundArchive[] {
+    return this.read(roomKey(HISTORY_KEY, roomId), [], 'history');
+  }
+
+  private sessionPlayerName(): string | null {
+    const token = this.items.getItem(SESSION_KEY);
+    return token ? this.readAccountBook().sessions[token] ?? null : null;
+  }
+
+  private startSession(book: AccountBook, name: string): void {
+    const token = createSessionToken();
+    book.sessions[token] = name;
+    this.writeAccountBook(book);
+    this.items.setItem(SESSION_KEY, token);
+  }
+
+  private writeState(roomId: string, state: SharedGameState): void {
+    this.write(roomKey(STORAGE_KEY, roomId), state);
+    this.channel?.postMessage(roomId);
+    if (roomId === this.roomId) this.setState(state);
+  }
+
+  private setState(state: SharedGameState): void {
+    this.state = state;
+    this.listeners.forEach(callback => callback(state));
+  }
+
+  private readStoredState(roomId: string): SharedGameState | null {
+    const stored = this.read<Partial<SharedGameState> | null>(roomKey(STORAGE_KEY, roomId), null, 'game state');
+    return stored && { ...createInitialGameState(), ...stored };
+  }
+
+  private readAccountBook(): AccountBook {
+    return this.read(ACCOUNTS_KEY, { accounts: {}, sessions: {} }, 'accounts');
+  }
+
+  private writeAccountBook(book: AccountBook): void {
+    this.write(ACCOUNTS_KEY, book);
+  }
+
+  private read<T>(key: string, fallback: T, description: string): T {
+    const item = this.items.getItem(key);
+    if (!item) return fallback;
+    try {
+      return JSON.parse(item);
+    } catch (error) {
+      console.error(`Discarding unreadable stored ${description}:`, error);
+      return fallback;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    this.items.setItem(key, JSON.stringify(value));
+  }
+
+  // Web Locks make the read-modify-write atomic across tabs; a single process needs no lock.
+  private async withLock<T>(fn: () => T): Promise<T> {
+    if (this.isShared && typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(LOCK_NAME, fn);
+    }
+    return fn();
+  }
+}
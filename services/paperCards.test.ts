@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { AwardedPrize, BingoCardData, GeneratedCard, SharedGameState } from '../types';
+import { checkPaperCard, nextPaperCards, normalizeSerial } from './paperCards';
+
+// B 1-5, I 16-20, N 31-35 with the free space, G 46-50, O 61-65
+const cardData: BingoCardData = {
+  B: [1, 2, 3, 4, 5],
+  I: [16, 17, 18, 19, 20],
+  N: [31, 32, 'LIVRE', 34, 35],
+  G: [46, 47, 48, 49, 50],
+  O: [61, 62, 63, 64, 65],
+};
+
+const card: GeneratedCard = { id: 'card-3-0421', owner: 'caio', cardData, serial: '0421', isPaper: true };
+
+type CheckedState = Parameters<typeof checkPaperCard>[0];
+
+const round = (drawnNumbers: number[], overrides: Partial<SharedGameState> = {}): CheckedState => ({
+  generatedCards: [card],
+  drawnNumbers,
+  gameMode: 'line',
+  awardedPrizes: [],
+  bingoWinners: null,
+  roundEnding: null,
+  claimRules: { strikes: 3, penalty: null, beforeNextBall: false },
+  ...overrides,
+});
+
+const award = (ballCount: number, overrides: Partial<AwardedPrize> = {}): AwardedPrize => ({
+  prizeId: 1,
+  prizeName: '1º Prêmio',
+  pattern: 'line',
+  ballCount,
+  tieRule: 'split',
+  candidates: [{ cardId: 'x', playerName: 'ana' }],
+  winners: [{ cardId: 'x', playerName: 'ana' }],
+  shareValue: 'R$ 500,00',
+  ...overrides,
+});
+
+describe('nextPaperCards', () => {
+  it('sells the next free cards of the series, owned by the cashier', () => {
+    const state = { roundId: 3, cardSeries: 'serie', gameVariant: 'ball75' as const, generatedCards: [card], cardOrders: [] };
+    expect(nextPaperCards(state, 'caio', 2)).toMatchObject([
+      { id: 'card-3-0001', owner: 'caio', serial: '0001', isPaper: true },
+      { id: 'card-3-0002', owner: 'caio', serial: '0002', isPaper: true },
+    ]);
+  });
+});
+
+describe('checkPaperCard', () => {
+  it('finds the paper card by its serial, as typed or read out', () => {
+    expect(normalizeSerial(' #421 ')).toBe('0421');
+    expect(checkPaperCard(round([]), '421').card).toBe(card);
+    expect(checkPaperCard(round([]), '0422').verdict).toBe('unknown');
+    expect(checkPaperCard(round([], { generatedCards: [{ ...card, isPaper: undefined }] }), '0421').verdict).toBe('unknown');
+  });
+
+  it('counts the cells still missing for the prize in play', () => {
+    expect(checkPaperCard(round([1, 2]), card.serial)).toMatchObject({ verdict: 'notWinner', missingCells: 3 });
+  });
+
+  it('is a winner when it completes the prize in play', () => {
+    expect(checkPaperCard(round([1, 2, 3, 4, 5]), card.serial).verdict).toBe('winner');
+  });
+
+  it('joins the last prize only on the ball that decided it', () => {
+    const decided = round([1, 2, 3, 4, 5], { gameMode: 'full', awardedPrizes: [award(5)] });
+    expect(checkPaperCard(decided, card.serial).verdict).toBe('coWinner');
+    const later = round([1, 2, 3, 4, 5, 70], { gameMode: 'full', awardedPrizes: [award(5)] });
+    expect(checkPaperCard(later, card.serial).verdict).toBe('notWinner');
+  });
+
+  it('can win the prize in play after winning an earlier one', () => {
+    const earlier = award(5, { candidates: [{ cardId: card.id, playerName: 'caio' }], winners: [{ cardId: card.id, playerName: 'caio' }] });
+    const drawn = [1, 2, 3, 4, 5, 61, 62, 63, 64, 65, 16, 31, 46, 17, 32, 47, 18, 48, 19, 34, 49, 20, 35, 50];
+    expect(checkPaperCard(round(drawn.slice(0, 5), { gameMode: 'full', awardedPrizes: [earlier] }), card.serial).verdict).toBe('awarded');
+    expect(checkPaperCard(round(drawn, { gameMode: 'full', awardedPrizes: [earlier] }), card.serial).verdict).toBe('winner');
+  });
+
+  it('is late for a card that became a winner before the last ball, under the late claim rule', () => {
+    const claimRules = { strikes: 3, penalty: null, beforeNextBall: true };
+    expect(checkPaperCard(round([1, 2, 3, 4, 5, 70], { claimRules }), card.serial).verdict).toBe('late');
+    expect(checkPaperCard(round([1, 2, 3, 4, 70, 5], { claimRules }), card.serial).verdict).toBe('winner');
+  });
+
+  it('is closed once the round is over or stopped', () => {
+    expect(checkPaperCard(round([1, 2, 3, 4, 5], { bingoWinners: [] }), card.serial).verdict).toBe('closed');
+    const ending = { outcome: 'voided' as const, reason: 'Globo travou', endedBy: 'bia', endedAt: 0 };
+    expect(checkPaperCard(round([1, 2, 3, 4, 5], { roundEnding: ending }), card.serial).verdict).toBe('closed');
+  });
+});
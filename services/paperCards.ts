@@ -0,0 +1,105 @@
+import type { GameMode, GeneratedCard, SharedGameState } from '../types';
+import { countMissingCells, winningBallCount } from './patterns';
+import { INVITE_PARAM, inviteLink } from './rooms';
+import { formatSerial, nextSeriesCards, parseSerial } from './cardSeries';
+
+// Paper cards for hybrid events: the cashier sells printed cards for cash at the counter. They are
+// cards of the room's series registered with the round like any sold card, but owned by the cashier
+// who sold them and never marked or claimed in the app: their holders shout, and a host checks the
+// card by its serial (or the QR code printed on it, a link that opens the check) against the balls
+// drawn so far.
+
+export const MAX_PAPER_BATCH = 60;
+// Printed per A4 page, 2 x 2
+export const CARDS_PER_PAGE = 4;
+
+const CARD_PARAM = 'cartela';
+
+/** "421" or "#0421", as typed or read out -> "0421" */
+export const normalizeSerial = (serial: string): string => {
+  const number = parseSerial(serial);
+  return number === null ? serial.trim() : formatSerial(number);
+};
+
+export const isPaperCard = (card: GeneratedCard): boolean => !!card.isPaper;
+
+export const nextPaperCards = (
+  state: Pick<SharedGameState, 'roundId' | 'cardSeries' | 'gameVariant' | 'generatedCards' | 'cardOrders'>,
+  cashierName: string,
+  quantity: number,
+): GeneratedCard[] => nextSeriesCards(state, cashierName, quantity).map(card => ({ ...card, isPaper: true }));
+
+/** What the QR code of a paper card holds: the room's invite link, opening the card's check. */
+export const paperCardLink = (roomId: string, serial: string): string =>
+  `${inviteLink(roomId)}&${CARD_PARAM}=${encodeURIComponent(serial)}`;
+
+/** Serial of the paper card whose QR code the app was opened with, if any. */
+export const scannedCardSerial = (): string | null => {
+  const params = new URLSearchParams(window.location.search);
+  const serial = params.get(CARD_PARAM);
+  return serial && params.has(INVITE_PARAM) ? normalizeSerial(serial) : null;
+};
+
+export type PaperCardVerdict =
+  // No paper card of this round has the serial
+  | 'unknown'
+  // The round is over or was stopped by the staff
+  | 'closed'
+  // Already among the cards of the last prize, and doesn't complete the one in play
+  | 'awarded'
+  // Completes the prize in play
+  | 'winner'
+  // Completes the last prize on the ball that decided it, so it joins its winners
+  | 'coWinner'
+  // Completes a prize, but became a winner before the last ball (late claim rule)
+  | 'late'
+  | 'notWinner';
+
+export interface PaperCardCheck {
+  card: GeneratedCard | null;
+  verdict: PaperCardVerdict;
+  // Cells still missing for the prize in play; null unless the verdict is 'notWinner'
+  missingCells: number | null;
+}
+
+export const paperCardVerdictLabels: Record<PaperCardVerdict, string> = {
+  unknown: 'Cartela de papel não encontrada nesta rodada',
+  closed: 'A rodada já terminou',
+  awarded: 'Esta cartela já foi premiada',
+  winner: 'BINGO! A cartela completa o prêmio em jogo',
+  coWinner: 'BINGO! A cartela empata com o último prêmio',
+  late: 'Pedido atrasado: a cartela completou o prêmio antes da última bola',
+  notWinner: 'A cartela ainda não completou o prêmio',
+};
+
+// Balls drawn when the card became a winner of a prize in play since `inPlaySince` balls, as for a claim
+const winningBall = (card: GeneratedCard, drawnNumbers: number[], pattern: GameMode, inPlaySince: number): number | null => {
+  const ballCount = winningBallCount(card.cardData, drawnNumbers, pattern);
+  return ballCount === null ? null : Math.max(ballCount, inPlaySince);
+};
+
+/** Checks a shouted bingo against the round's draws, like a claim made in the app (services/gameReducer.ts). */
+export const checkPaperCard = (
+  state: Pick<SharedGameState, 'generatedCards' | 'drawnNumbers' | 'gameMode' | 'awardedPrizes' | 'bingoWinners' | 'roundEnding' | 'claimRules'>,
+  serial: string,
+): PaperCardCheck => {
+  const card = state.generatedCards.find(c => c.isPaper && c.serial === normalizeSerial(serial)) ?? null;
+  if (!card) return { card, verdict: 'unknown', missingCells: null };
+  if (state.roundEnding) return { card, verdict: 'closed', missingCells: null };
+
+  // A card that won an earlier prize can still win the one in play
+  const { drawnNumbers, awardedPrizes } = state;
+  const lastAward = awardedPrizes[awardedPrizes.length - 1];
+  const isInLastAward = !!lastAward?.candidates.some(c => c.cardId === card.id);
+  const joinBall = lastAward && !isInLastAward && lastAward.tieRule !== 'firstClaim' && lastAward.ballCount === drawnNumbers.length
+    ? winningBall(card, drawnNumbers, lastAward.pattern, awardedPrizes[awardedPrizes.length - 2]?.ballCount ?? 0)
+    : null;
+  const prizeBall = state.bingoWinners ? null : winningBall(card, drawnNumbers, state.gameMode, lastAward?.ballCount ?? 0);
+  const isTimely = (ball: number | null) => ball !== null && (!state.claimRules.beforeNextBall || ball === drawnNumbers.length);
+  if (isTimely(joinBall)) return { card, verdict: 'coWinner', missingCells: null };
+  if (isTimely(prizeBall)) return { card, verdict: 'winner', missingCells: null };
+  if (joinBall !== null || prizeBall !== null) return { card, verdict: 'late', missingCells: null };
+  if (isInLastAward) return { card, verdict: 'awarded', missingCells: null };
+  if (state.bingoWinners) return { card, verdict: 'closed', missingCells: null };
+  return { card, verdict: 'notWinner', missingCells: countMissingCells(card.cardData, new Set(drawnNumbers), state.gameMode) };
+};
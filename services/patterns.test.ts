@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { BingoCardData, GeneratedCard } from '../types';
+import { cardMatchesPattern, checkForWinner, getCardCells, getMinimumBallsForPattern, getWinPattern } from './patterns';
+
+// B 1-5, I 16-20, N 31-35 with the free space, G 46-50, O 61-65
+const cardData: BingoCardData = {
+    B: [1, 2, 3, 4, 5],
+    I: [16, 17, 18, 19, 20],
+    N: [31, 32, 'LIVRE', 34, 35],
+    G: [46, 47, 48, 49, 50],
+    O: [61, 62, 63, 64, 65],
+};
+
+const card = (id: string, owner: string): GeneratedCard => ({ id, owner, cardData });
+
+describe('getCardCells', () => {
+    it('reads the columns row by row', () => {
+        expect(getCardCells(cardData).slice(0, 5)).toEqual([1, 16, 31, 46, 61]);
+        expect(getCardCells(cardData)[12]).toBe('LIVRE');
+    });
+});
+
+describe('cardMatchesPattern', () => {
+    it('counts the free space as marked', () => {
+        expect(cardMatchesPattern(cardData, new Set([3, 18, 48, 63]), 'line')).toBe(true);
+    });
+
+    it('accepts columns and diagonals as lines', () => {
+        expect(cardMatchesPattern(cardData, new Set([16, 17, 18, 19, 20]), 'line')).toBe(true);
+        expect(cardMatchesPattern(cardData, new Set([1, 17, 49, 65]), 'line')).toBe(true);
+    });
+
+    it('needs every cell of a mask', () => {
+        expect(cardMatchesPattern(cardData, new Set([1, 16, 31, 46]), 'line')).toBe(false);
+        expect(cardMatchesPattern(cardData, new Set([1, 5, 61]), 'fourCorners')).toBe(false);
+        expect(cardMatchesPattern(cardData, new Set([1, 5, 61, 65]), 'fourCorners')).toBe(true);
+    });
+
+    it('needs two different lines for twoLines', () => {
+        expect(cardMatchesPattern(cardData, new Set([1, 16, 31, 46, 61]), 'twoLines')).toBe(false);
+        expect(cardMatchesPattern(cardData, new Set([1, 16, 31, 46, 61, 2, 17, 32, 47, 62]), 'twoLines')).toBe(true);
+        // A row and a column sharing a cell
+        expect(cardMatchesPattern(cardData, new Set([1, 16, 31, 46, 61, 2, 3, 4, 5]), 'twoLines')).toBe(true);
+    });
+
+    it('falls back to the default pattern for unknown ids', () => {
+        expect(getWinPattern('removed')).toBe(getWinPattern('line'));
+    });
+});
+
+describe('getMinimumBallsForPattern', () => {
+    it('leaves out the free space', () => {
+        expect(getMinimumBallsForPattern('line')).toBe(4);
+        expect(getMinimumBallsForPattern('fourCorners')).toBe(4);
+        expect(getMinimumBallsForPattern('full')).toBe(24);
+    });
+});
+
+describe('checkForWinner', () => {
+    it('returns the first winning card and its owner', () => {
+        const numbers = new Set([1, 5, 61, 65]);
+        expect(checkForWinner([card('a', 'ana'), card('b', 'bia')], numbers, 'fourCorners')).toEqual({ cardId: 'a', playerName: 'ana' });
+        expect(checkForWinner([card('a', 'ana')], numbers, 'full')).toBeNull();
+    });
+});
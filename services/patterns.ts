@@ -0,0 +1,284 @@
+import type { CardData, GameMode, GameVariant, GeneratedCard, PrizeWinner, WinPattern } from '../types';
+import { FREE_SPACE, cardRows, getVariant } from './variants';
+
+// Turns a drawing of the card into a mask. Every 'X' is a cell that must be marked.
+const drawMask = (...rows: string[]): number[] => {
+    const cells: number[] = [];
+    rows.forEach((row, rowIndex) => {
+        [...row].forEach((cell, colIndex) => {
+            if (cell === 'X') cells.push(rowIndex * row.length + colIndex);
+        });
+    });
+    return cells;
+};
+
+const indexes = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+const rowMasksOf = (rows: number, columns: number) => indexes(rows).map(row => indexes(columns).map(col => row * columns + col));
+
+// Rows, columns and both diagonals of a square card
+const squareLineMasks = (size: number) => [
+    ...rowMasksOf(size, size),
+    ...indexes(size).map(col => indexes(size).map(row => row * size + col)),
+    indexes(size).map(i => i * size + i),
+    indexes(size).map(i => i * size + (size - 1 - i)),
+];
+
+// Every combination of two different masks, merged into a single mask
+const pairsOf = (masks: number[][]) => masks.flatMap((first, i) =>
+    masks.slice(i + 1).map(second => Array.from(new Set([...first, ...second]))),
+);
+
+const allCells = (rows: number, columns: number) => [indexes(rows * columns)];
+
+const lineMasks = squareLineMasks(5);
+const ticketRowMasks = rowMasksOf(3, 9);
+
+const builtInPatterns: WinPattern[] = [
+    // --- 75 balls ---
+    {
+        id: 'line',
+        variant: 'ball75',
+        name: 'Linha (horizontal, vertical ou diagonal)',
+        masks: lineMasks,
+    },
+    {
+        id: 'twoLines',
+        variant: 'ball75',
+        name: 'Duas Linhas',
+        masks: pairsOf(lineMasks),
+    },
+    {
+        id: 'fourCorners',
+        variant: 'ball75',
+        name: 'Quatro Cantos',
+        masks: [drawMask(
+            'X...X',
+            '.....',
+            '.....',
+            '.....',
+            'X...X',
+        )],
+    },
+    {
+        id: 'x',
+        variant: 'ball75',
+        name: 'Letra X',
+        masks: [drawMask(
+            'X...X',
+            '.X.X.',
+            '..X..',
+            '.X.X.',
+            'X...X',
+        )],
+    },
+    {
+        id: 'letterT',
+        variant: 'ball75',
+        name: 'Letra T',
+        masks: [drawMask(
+            'XXXXX',
+            '..X..',
+            '..X..',
+            '..X..',
+            '..X..',
+        )],
+    },
+    {
+        id: 'letterL',
+        variant: 'ball75',
+        name: 'Letra L',
+        masks: [drawMask(
+            'X....',
+            'X....',
+            'X....',
+            'X....',
+            'XXXXX',
+        )],
+    },
+    {
+        id: 'frame',
+        variant: 'ball75',
+        name: 'Moldura',
+        masks: [drawMask(
+            'XXXXX',
+            'X...X',
+            'X...X',
+            'X...X',
+            'XXXXX',
+        )],
+    },
+    {
+        id: 'postageStamp',
+        variant: 'ball75',
+        name: 'Selo (2x2 em um canto)',
+        masks: [
+            drawMask('XX...', 'XX...', '.....', '.....', '.....'),
+            drawMask('...XX', '...XX', '.....', '.....', '.....'),
+            drawMask('.....', '.....', '.....', 'XX...', 'XX...'),
+            drawMask('.....', '.....', '.....', '...XX', '...XX'),
+        ],
+    },
+    {
+        id: 'full',
+        variant: 'ball75',
+        name: 'Cartela Cheia',
+        masks: allCells(5, 5),
+    },
+    // --- 90 balls: only the rows count, each holding 5 numbers and 4 blanks ---
+    {
+        id: 'ninetyOneLine',
+        variant: 'ball90',
+        name: 'Uma Linha',
+        masks: ticketRowMasks,
+        minimumBalls: 5,
+    },
+    {
+        id: 'ninetyTwoLines',
+        variant: 'ball90',
+        name: 'Duas Linhas',
+        masks: pairsOf(ticketRowMasks),
+        minimumBalls: 10,
+    },
+    {
+        id: 'ninetyFullHouse',
+        variant: 'ball90',
+        name: 'Cartela Cheia',
+        masks: allCells(3, 9),
+        minimumBalls: 15,
+    },
+    // --- 80 balls ---
+    {
+        id: 'eightyLine',
+        variant: 'ball80',
+        name: 'Linha (horizontal, vertical ou diagonal)',
+        masks: squareLineMasks(4),
+    },
+    {
+        id: 'eightyFourCorners',
+        variant: 'ball80',
+        name: 'Quatro Cantos',
+        masks: [drawMask(
+            'X..X',
+            '....',
+            '....',
+            'X..X',
+        )],
+    },
+    {
+        id: 'eightyCenter',
+        variant: 'ball80',
+        name: 'Quadrado Central',
+        masks: [drawMask(
+            '....',
+            '.XX.',
+            '.XX.',
+            '....',
+        )],
+    },
+    {
+        id: 'eightyFrame',
+        variant: 'ball80',
+        name: 'Moldura',
+        masks: [drawMask(
+            'XXXX',
+            'X..X',
+            'X..X',
+            'XXXX',
+        )],
+    },
+    {
+        id: 'eightyFull',
+        variant: 'ball80',
+        name: 'Cartela Cheia',
+        masks: allCells(4, 4),
+    },
+    // --- 30 balls ---
+    {
+        id: 'thirtyLine',
+        variant: 'ball30',
+        name: 'Linha (horizontal, vertical ou diagonal)',
+        masks: squareLineMasks(3),
+    },
+    {
+        id: 'thirtyFull',
+        variant: 'ball30',
+        name: 'Cartela Cheia',
+        masks: allCells(3, 3),
+    },
+];
+
+const patternRegistry = new Map<GameMode, WinPattern>(builtInPatterns.map(p => [p.id, p]));
+
+export const DEFAULT_PATTERN_ID: GameMode = 'line';
+
+/** Adds (or replaces) a pattern so themed rounds can use it by id. */
+export const registerWinPattern = (pattern: WinPattern): void => {
+    patternRegistry.set(pattern.id, pattern);
+};
+
+/** The patterns a card of `variant` can be played for. */
+export const getWinPatterns = (variant: GameVariant): WinPattern[] =>
+    Array.from(patternRegistry.values()).filter(pattern => pattern.variant === variant);
+
+// Unknown ids (e.g. a pattern removed after being saved in the shared state) fall back to the default.
+export const getWinPattern = (id: GameMode): WinPattern =>
+    patternRegistry.get(id) ?? patternRegistry.get(DEFAULT_PATTERN_ID)!;
+
+/** The card's cells in row-major order, the order of the mask indexes. */
+export const getCardCells = (cardData: CardData): (number | string | null)[] => cardRows(cardData).flat();
+
+// Cells past the end of the card (a pattern of another variant) are never marked
+const isCellMarked = (cell: number | string | null | undefined, numbers: Set<number>) =>
+    cell === FREE_SPACE || cell === null || numbers.has(cell as number);
+
+export const cardMatchesPattern = (cardData: CardData, numbers: Set<number>, mode: GameMode): boolean => {
+    const cells = getCardCells(cardData);
+    return getWinPattern(mode).masks.some(mask => mask.every(index => isCellMarked(cells[index], numbers)));
+};
+
+/** Fewest cells still unmarked on any mask of the pattern; 0 means the card completes it. */
+export const countMissingCells = (cardData: CardData, numbers: Set<number>, mode: GameMode): number => {
+    const cells = getCardCells(cardData);
+    return Math.min(...getWinPattern(mode).masks.map(mask => mask.filter(index => !isCellMarked(cells[index], numbers)).length));
+};
+
+/** Numbers still unmarked on the masks closest to completion (countMissingCells of them each). */
+export const getMissingNumbers = (cardData: CardData, numbers: Set<number>, mode: GameMode): number[] => {
+    const cells = getCardCells(cardData);
+    const missingCells = countMissingCells(cardData, numbers, mode);
+    const missing = getWinPattern(mode).masks
+        .map(mask => mask.filter(index => !isCellMarked(cells[index], numbers)))
+        .filter(mask => mask.length === missingCells)
+        .flatMap(mask => mask.map(index => cells[index]))
+        .filter((cell): cell is number => typeof cell === 'number');
+    return Array.from(new Set(missing)).sort((a, b) => a - b);
+};
+
+/** How many balls had been drawn when the card first completed the pattern; null if it hasn't yet. */
+export const winningBallCount = (cardData: CardData, drawnNumbers: number[], mode: GameMode): number | null => {
+    const cells = getCardCells(cardData);
+    const drawnAt = new Map(drawnNumbers.map((number, i) => [number, i + 1]));
+    // Ball on which each cell got marked: 0 for the cells marked from the start
+    const markedAt = (cell: number | string | null | undefined) =>
+        cell === FREE_SPACE || cell === null ? 0 : drawnAt.get(cell as number) ?? Infinity;
+    const ballCount = Math.min(...getWinPattern(mode).masks.map(mask => Math.max(0, ...mask.map(index => markedAt(cells[index])))));
+    return Number.isFinite(ballCount) ? ballCount : null;
+};
+
+/** Smallest number of balls that could possibly complete the pattern (the free space is always marked). */
+export const getMinimumBallsForPattern = (mode: GameMode): number => {
+    const pattern = getWinPattern(mode);
+    const { freeCells } = getVariant(pattern.variant);
+    return pattern.minimumBalls ?? Math.min(...pattern.masks.map(mask => mask.filter(index => !freeCells.includes(index)).length));
+};
+
+// Authoritative bingo check - independent of local user settings
+export const checkForWinner = (cards: GeneratedCard[], numbers: Set<number>, mode: GameMode): PrizeWinner | null =>
+    findAllWinners(cards, numbers, mode)[0] ?? null;
+
+/** Every card completing the pattern, in card order, so ties on the same ball can be resolved. */
+export const findAllWinners = (cards: GeneratedCard[], numbers: Set<number>, mode: GameMode): PrizeWinner[] =>
+    cards
+        .filter(card => cardMatchesPattern(card.cardData, numbers, mode))
+        .map(card => ({ cardId: card.id, playerName: card.owner }));
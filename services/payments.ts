@@ -0,0 +1,24 @@
+import type { CardOrder } from '../types';
+
+// Automatic confirmation of PIX orders. The game runner asks the provider to watch each pending
+// order and confirms it in the provider's name once paid; without a provider, a cashier confirms
+// orders by hand in the admin panel. A real provider would poll the PSP's cob API by txid
+// (the order id) or receive its webhook.
+export interface PaymentProvider {
+  /** Recorded as `confirmedBy` on the orders it confirms. */
+  name: string;
+  /** Calls `onPaid` once the order is paid; the returned function stops watching it. */
+  watch(order: CardOrder, onPaid: () => void): () => void;
+}
+
+// Treats every order as paid after a delay, for demos and local testing
+export class MockPaymentProvider implements PaymentProvider {
+  name = 'PIX simulado';
+
+  constructor(private delayMs: number) {}
+
+  watch(_order: CardOrder, onPaid: () => void): () => void {
+    const timer = setTimeout(onPaid, this.delayMs);
+    return () => clearTimeout(timer);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { User } from '../types';
+import type { GameAction } from './gameStore';
+import { canPerform } from './permissions';
+
+const owner: User = { name: 'ana', role: 'owner' };
+const host: User = { name: 'bia', role: 'host' };
+const cashier: User = { name: 'caio', role: 'cashier' };
+const player: User = { name: 'duda', role: 'player' };
+
+describe('canPerform', () => {
+  it('leaves running the game to the owner and hosts', () => {
+    const draw: GameAction = { type: 'drawNextNumber' };
+    expect(canPerform(draw, owner)).toBe(true);
+    expect(canPerform(draw, host)).toBe(true);
+    expect(canPerform(draw, cashier)).toBe(false);
+    expect(canPerform(draw, player)).toBe(false);
+  });
+
+  it('leaves awarding prizes by hand to the staff running the game', () => {
+    const award: GameAction = { type: 'recordAward', roundId: 1, expectedAwards: 0, ballCount: 4, candidates: [{ cardId: 'a', playerName: 'duda' }] };
+    const join: GameAction = { type: 'updateAward', roundId: 1, prizeId: 1, expectedCandidates: 1, ballCount: 4, coWinners: [{ cardId: 'a', playerName: 'duda' }] };
+    expect(canPerform(award, host)).toBe(true);
+    expect(canPerform(award, player)).toBe(false);
+    expect(canPerform(join, player)).toBe(false);
+  });
+
+  it('lets players claim only for themselves', () => {
+    expect(canPerform({ type: 'claimBingo', playerName: 'duda', cardId: 'a' }, player)).toBe(true);
+    expect(canPerform({ type: 'claimBingo', playerName: 'duda', cardId: 'a' }, host)).toBe(false);
+  });
+
+  it("lets the staff log a claim under the card's owner", () => {
+    const claim: GameAction = { type: 'recordClaim', playerName: 'duda', cardId: 'a', isValid: true };
+    expect(canPerform(claim, host)).toBe(true);
+    expect(canPerform(claim, player)).toBe(false);
+  });
+
+  it('lets only the claiming player clear a false claim notice', () => {
+    expect(canPerform({ type: 'clearInvalidClaim', playerName: 'duda' }, player)).toBe(true);
+    expect(canPerform({ type: 'clearInvalidClaim', playerName: 'duda' }, host)).toBe(false);
+  });
+
+  it('needs an actor listed in the game', () => {
+    expect(canPerform({ type: 'triggerReaction', reactionType: 'goodLuck' }, undefined)).toBe(false);
+  });
+});
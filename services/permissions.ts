@@ -0,0 +1,102 @@
+import type { User, UserRole } from '../types';
+import type { GameAction } from './gameStore';
+
+// Who may do what. The Supabase migration enforces the same table in `require_permission`;
+// keep both in sync.
+export type Permission = 'runGame' | 'managePayments' | 'manageRoles';
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  owner: ['runGame', 'managePayments', 'manageRoles'],
+  host: ['runGame'],
+  cashier: ['managePayments'],
+  player: [],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  owner: 'Dono da sala',
+  host: 'Co-apresentador',
+  cashier: 'Caixa',
+  player: 'Jogador',
+};
+
+// The owner is set when the room is created and can't be handed out from the staff screen
+export const assignableRoles: UserRole[] = ['host', 'cashier', 'player'];
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean =>
+  !!role && rolePermissions[role].includes(permission);
+
+// Roles that get the admin panel instead of going straight to the cards
+export const isStaff = (role: UserRole | undefined): boolean =>
+  !!role && rolePermissions[role].length > 0;
+
+const requiredPermission = (action: GameAction): Permission | null => {
+  switch (action.type) {
+    case 'setPrizePattern':
+    case 'setPrizes':
+    case 'setTieRule':
+    case 'setClaimRules':
+    case 'setPreGameCountdown':
+    case 'startGame':
+    case 'startNextGameCycle':
+    case 'drawNextNumber':
+    case 'enterDrawnNumber':
+    case 'undoDrawnNumber':
+    case 'recordAward':
+    case 'updateAward':
+    case 'recordClaim':
+    case 'scheduleGame':
+    case 'cancelScheduledGame':
+    case 'startScheduledGame':
+    case 'setPaused':
+    case 'setDrawMode':
+    case 'setDrawInterval':
+    case 'setGameVariant':
+    case 'endRound':
+      return 'runGame';
+    case 'setUserRole':
+      return 'manageRoles';
+    case 'addCards':
+    case 'confirmOrder':
+    case 'cancelOrder':
+    case 'sellPaperCards':
+    case 'setPixReceiver':
+    case 'setPriceTable':
+    case 'setCharityPercent':
+    case 'setRoundPriceTable':
+      return 'managePayments';
+    default:
+      return null;
+  }
+};
+
+// The player an action speaks for must be the one performing it
+const actsForOtherPlayer = (action: GameAction, actorName: string): boolean => {
+  switch (action.type) {
+    case 'setUserOnline':
+      return action.name !== actorName;
+    case 'createOrder':
+      return action.playerName !== actorName || action.cards.some(card => card.owner !== actorName);
+    case 'confirmOrder':
+      return action.confirmedBy !== actorName;
+    case 'sellPaperCards':
+      return action.cashierName !== actorName || action.cards.some(card => card.owner !== actorName);
+    case 'cancelOrder':
+    case 'cancelScheduledGame':
+      return action.cancelledBy !== actorName;
+    case 'endRound':
+      return action.endedBy !== actorName;
+    case 'setPlayerPreference':
+    case 'claimBingo':
+    case 'clearInvalidClaim':
+      return action.playerName !== actorName;
+    default:
+      return false;
+  }
+};
+
+/** Whether `actor` (as listed in the game state) may perform `action`. */
+export const canPerform = (action: GameAction, actor: User | undefined): boolean => {
+  if (!actor || actsForOtherPlayer(action, actor.name)) return false;
+  const permission = requiredPermission(action);
+  return !permission || hasPermission(actor.role, permission);
+};
@@ -0,0 +1,47 @@
+import type { PixReceiver } from '../types';
+
+// PIX "copia e cola" (BR Code): an EMV QR payload as specified by the Banco Central's
+// "Manual de Padrões para Iniciação do Pix". Each field is ID + two-digit length + value,
+// and the payload ends with a CRC16 of everything before it.
+
+const MAX_NAME_LENGTH = 25;
+const MAX_CITY_LENGTH = 15;
+const MAX_TXID_LENGTH = 25;
+
+const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// Banking apps only accept plain ASCII in the name and city: "São Paulo" -> "Sao Paulo"
+const toAscii = (text: string, maxLength: number) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '').trim().slice(0, maxLength);
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/** Order ids double as txids, which only allow up to 25 letters and digits. */
+export const createOrderId = (): string =>
+  `B${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, MAX_TXID_LENGTH);
+
+export const buildPixPayload = (receiver: PixReceiver, amount: number, txid: string): string => {
+  const payload = [
+    field('00', '01'),
+    field('26', field('00', 'br.gov.bcb.pix') + field('01', receiver.key.trim())),
+    field('52', '0000'),
+    field('53', '986'), // BRL
+    field('54', amount.toFixed(2)),
+    field('58', 'BR'),
+    field('59', toAscii(receiver.name, MAX_NAME_LENGTH)),
+    field('60', toAscii(receiver.city, MAX_CITY_LENGTH)),
+    field('62', field('05', txid.slice(0, MAX_TXID_LENGTH))),
+  ].join('') + '6304';
+  return payload + crc16(payload);
+};
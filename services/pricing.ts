@@ -0,0 +1,28 @@
+import type { PriceTable, SharedGameState } from '../types';
+
+// Card prices live in the game state and are edited in the admin panel. The Supabase function
+// `order_price` charges the same way; keep them in sync.
+
+export const defaultPriceTable: PriceTable = [
+  { quantity: 1, price: 20 },
+  { quantity: 2, price: 30 },
+];
+
+export const activePriceTable = (state: Pick<SharedGameState, 'priceTable' | 'roundPriceTable'>): PriceTable =>
+  state.roundPriceTable ?? state.priceTable;
+
+/** Bundles with positive whole quantities and non-negative prices, one of them of a single card. */
+export const isValidPriceTable = (table: PriceTable): boolean =>
+  table.some(b => b.quantity === 1) &&
+  table.every(b => Number.isInteger(b.quantity) && b.quantity > 0 && Number.isFinite(b.price) && b.price >= 0) &&
+  new Set(table.map(b => b.quantity)).size === table.length;
+
+/** Cheapest way to buy exactly `quantity` cards by combining the table's bundles. */
+export const priceForCards = (quantity: number, table: PriceTable): number => {
+  // cheapest[n] = lowest price for exactly n cards
+  const cheapest = [0];
+  for (let n = 1; n <= quantity; n++) {
+    cheapest[n] = Math.min(...table.filter(b => b.quantity <= n).map(b => cheapest[n - b.quantity] + b.price));
+  }
+  return Math.round(cheapest[quantity] * 100) / 100;
+};
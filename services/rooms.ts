@@ -0,0 +1,55 @@
+import type { Room, RoomListing, SharedGameState } from '../types';
+import { addUser, createInitialGameState } from './gameReducer';
+import { createCardSeries } from './cardSeries';
+
+// Rooms: each one is a game of its own, with its own players, staff, prizes, prices, ledger and
+// history. The memory store and the local server keep one set of records per room; on Supabase
+// every table is scoped to a room (supabase/migrations). Same code alphabet in both.
+
+const ROOM_CODE_LENGTH = 6;
+// No 0/O or 1/I, so a code read aloud or copied off a screen isn't mistyped
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const MAX_ROOM_NAME_LENGTH = 40;
+
+// Games saved before rooms existed move into this room
+export const LEGACY_ROOM_ID = 'FABAO';
+export const LEGACY_ROOM_NAME = 'Bingo do Fabão';
+
+/** Room ids double as the join code players type in. */
+export const createRoomCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH)), b => ROOM_CODE_ALPHABET[b % ROOM_CODE_ALPHABET.length]).join('');
+
+/** What a player typed (or an invite link carried) -> room id. */
+export const normalizeRoomCode = (code: string): string => code.trim().toUpperCase();
+
+export const isValidRoomName = (name: string): boolean => name.trim().length > 0 && name.trim().length <= MAX_ROOM_NAME_LENGTH;
+
+/** The host starts out as the only player, and the owner, of a room with a card series of its own. */
+export const createRoomState = (hostName: string): SharedGameState =>
+  ({ ...addUser(createInitialGameState(), hostName), cardSeries: createCardSeries() });
+
+export const toRoomListing = (room: Room, state: SharedGameState): RoomListing => ({
+  ...room,
+  onlineCount: state.onlineUsers.length,
+  isGameActive: state.isGameActive,
+  roundId: state.roundId,
+  scheduledGames: state.scheduledGames,
+});
+
+/** What the lobby lists: public rooms, newest first. */
+export const openRooms = (listings: RoomListing[]): RoomListing[] =>
+  listings.filter(r => r.isPublic).sort((a, b) => b.createdAt - a.createdAt);
+
+// --- Invite links ---
+
+export const INVITE_PARAM = 'sala';
+
+export const inviteLink = (roomId: string): string =>
+  `${window.location.origin}${window.location.pathname}?${INVITE_PARAM}=${roomId}`;
+
+/** Room code of the invite link the app was opened with, if any. */
+export const invitedRoomCode = (): string | null => {
+  const code = new URLSearchParams(window.location.search).get(INVITE_PARAM);
+  return code ? normalizeRoomCode(code) : null;
+};
@@ -0,0 +1,58 @@
+import type { CardOrder, GeneratedCard, RoomListing, ScheduledGame, SharedGameState } from '../types';
+
+// Scheduled games: rounds booked for a date and time. Sales for one open at its `salesOpenAt`,
+// even while another round is being played; the cards bought are kept aside until the game
+// begins. The game runner starts the game's countdown so that it ends at `startsAt`. The
+// Supabase functions (supabase/migrations) follow the same rules.
+
+// Countdown of a round started by hand ("Iniciar Novo Jogo") or by the restart after the last prize
+export const DEFAULT_COUNTDOWN_SECONDS = 20;
+export const MIN_COUNTDOWN_SECONDS = 5;
+export const MAX_COUNTDOWN_SECONDS = 300;
+export const MAX_GAME_NAME_LENGTH = 40;
+
+export const createScheduledGameId = (): string => `game-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** When the runner starts the countdown (each second down to 0 is shown) so the game begins at `startsAt`. */
+export const countdownStartsAt = (game: ScheduledGame): number => game.startsAt - (game.countdownSeconds + 1) * 1000;
+
+export const isSalesOpen = (game: ScheduledGame, now = Date.now()): boolean => now >= game.salesOpenAt;
+
+export const isValidScheduledGame = (game: ScheduledGame, now = Date.now()): boolean =>
+  game.name.trim().length > 0
+  && game.name.trim().length <= MAX_GAME_NAME_LENGTH
+  && Number.isInteger(game.countdownSeconds)
+  && game.countdownSeconds >= MIN_COUNTDOWN_SECONDS
+  && game.countdownSeconds <= MAX_COUNTDOWN_SECONDS
+  && countdownStartsAt(game) > now
+  && game.salesOpenAt <= game.startsAt;
+
+/** Orders kept aside for a game that hasn't begun yet; not part of the current round's sales. */
+export const isPreOrder = (order: CardOrder): boolean => !!order.scheduledGameId;
+
+/** Cards a new one must not repeat: the round's, plus those still waiting for their payment or their game. */
+export const takenCards = (state: Pick<SharedGameState, 'generatedCards' | 'cardOrders'>): GeneratedCard[] =>
+  [...state.generatedCards, ...state.cardOrders.filter(o => o.status === 'pending' || isPreOrder(o)).flatMap(o => o.cards)];
+
+/** The finished round (last prize awarded, or stopped by the staff) stays on screen until the next one starts. */
+export const isRoundOver = (state: Pick<SharedGameState, 'bingoWinners' | 'roundEnding'>): boolean =>
+  state.bingoWinners !== null || state.roundEnding !== null;
+
+// --- Lobby calendar ---
+
+export interface CalendarEntry {
+  game: ScheduledGame;
+  room: RoomListing;
+}
+
+/** Upcoming games of every listed room, soonest first. */
+export const upcomingGames = (rooms: RoomListing[]): CalendarEntry[] =>
+  rooms
+    .flatMap(room => room.scheduledGames.map(game => ({ game, room })))
+    .sort((a, b) => a.game.startsAt - b.game.startsAt);
+
+export const formatGameDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('pt-BR', { weekday: 'long', day: 'numeric', month: 'long' });
+
+export const formatGameTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
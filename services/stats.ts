@@ -0,0 +1,85 @@
+import type { GameMode, RoundArchive } from '../types';
+import { countMissingCells } from './patterns';
+import { parseMoney } from './ledger';
+import { isPaperCard } from './paperCards';
+
+// Player statistics, worked out in the browser from the archived rounds (history.ts) since
+// near-misses need the win patterns, which only exist here.
+
+export interface PlayerStats {
+  playerName: string;
+  roundsPlayed: number;
+  cardsBought: number;
+  wins: number;
+  winsByPattern: Record<GameMode, number>;
+  // Cards one ball away from a prize when it was decided for someone else
+  nearMisses: number;
+  // Balls drawn when their prizes were decided, on average; null without wins
+  averageBallsToWin: number | null;
+  // Cash prizes, in reais
+  moneyWon: number;
+}
+
+const emptyStats = (playerName: string): PlayerStats => ({
+  playerName,
+  roundsPlayed: 0,
+  cardsBought: 0,
+  wins: 0,
+  winsByPattern: {},
+  nearMisses: 0,
+  averageBallsToWin: null,
+  moneyWon: 0,
+});
+
+export const buildPlayerStats = (rounds: RoundArchive[]): PlayerStats[] => {
+  const stats = new Map<string, PlayerStats>();
+  const ballsToWin = new Map<string, number>();
+  const statsFor = (playerName: string) => {
+    if (!stats.has(playerName)) stats.set(playerName, emptyStats(playerName));
+    return stats.get(playerName)!;
+  };
+
+  rounds.forEach(round => {
+    // Paper cards belong to the cashier who sold them, not to whoever played them
+    const cards = round.cards.filter(card => !isPaperCard(card));
+    const paperCardIds = new Set(round.cards.filter(isPaperCard).map(card => card.id));
+    new Set(cards.map(c => c.owner)).forEach(owner => statsFor(owner).roundsPlayed++);
+    cards.forEach(card => statsFor(card.owner).cardsBought++);
+
+    round.awardedPrizes.forEach(award => {
+      award.winners.filter(winner => !paperCardIds.has(winner.cardId)).forEach(winner => {
+        const player = statsFor(winner.playerName);
+        player.wins++;
+        player.winsByPattern[award.pattern] = (player.winsByPattern[award.pattern] ?? 0) + 1;
+        player.moneyWon += parseMoney(award.shareValue) ?? 0;
+        ballsToWin.set(winner.playerName, (ballsToWin.get(winner.playerName) ?? 0) + award.ballCount);
+      });
+
+      const numbers = new Set(round.draws.slice(0, award.ballCount).map(d => d.number));
+      const candidateIds = new Set(award.candidates.map(c => c.cardId));
+      cards
+        .filter(card => !candidateIds.has(card.id) && countMissingCells(card.cardData, numbers, award.pattern) === 1)
+        .forEach(card => statsFor(card.owner).nearMisses++);
+    });
+  });
+
+  return Array.from(stats.values()).map(player => ({
+    ...player,
+    moneyWon: Math.round(player.moneyWon * 100) / 100,
+    averageBallsToWin: player.wins > 0 ? ballsToWin.get(player.playerName)! / player.wins : null,
+  }));
+};
+
+/** Most prizes first, then most money, then the fastest winners. */
+export const rankPlayers = (stats: PlayerStats[]): PlayerStats[] =>
+  [...stats].sort((a, b) =>
+    b.wins - a.wins
+    || b.moneyWon - a.moneyWon
+    || (a.averageBallsToWin ?? Infinity) - (b.averageBallsToWin ?? Infinity)
+    || a.playerName.localeCompare(b.playerName));
+
+// "2026-10", in local time
+export const monthOf = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
@@ -0,0 +1,353 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { PayoutLedger, Room, RoomListing, RoundArchive, RoundSummary, SharedGameState, UserProfile } from '../types';
+import {
+  authErrors,
+  type ActionResult,
+  type AuthProvider,
+  type AuthResult,
+  type GameAction,
+  type GameStore,
+  type HistoryProvider,
+  type LedgerProvider,
+  type RoomProvider,
+} from './gameStore';
+import { supabase } from './supabaseClient';
+import { normalizeRoomCode } from './rooms';
+
+// The game lives in normalized tables (see supabase/migrations). Every action is a Postgres
+// function so it runs atomically; `game_events` is bumped after each one to notify clients.
+const EVENTS_TABLE = 'game_events';
+
+// Every call names the room it is about; the functions read it back with `current_room_id()`,
+// so their signatures are the same whichever room a client is in.
+const ROOM_HEADER = 'x-bingo-room';
+
+// Players sign in with a name, but Supabase Auth wants an e-mail: derive a stable, private one.
+// "Confirm email" must be disabled in the Auth settings since nobody can receive these.
+const PLAYER_EMAIL_DOMAIN = 'jogadores.bingodofabao.app';
+
+const toPlayerEmail = (name: string) =>
+  `${Array.from(new TextEncoder().encode(name), b => b.toString(16).padStart(2, '0')).join('')}@${PLAYER_EMAIL_DOMAIN}`;
+
+const toRpc = (action: GameAction): [string, Record<string, unknown>?] => {
+  switch (action.type) {
+    case 'setUserOnline':
+      return ['set_user_online', { p_name: action.name, p_online: action.online }];
+    case 'setUserRole':
+      return ['set_user_role', { p_name: action.name, p_role: action.role }];
+    case 'addCards':
+      return ['add_cards', { p_cards: action.cards }];
+    case 'createOrder':
+      return ['create_order', {
+        p_order_id: action.orderId,
+        p_player_name: action.playerName,
+        p_cards: action.cards,
+        p_scheduled_game_id: action.scheduledGameId ?? null,
+      }];
+    case 'confirmOrder':
+      return ['confirm_order', { p_order_id: action.orderId }];
+    case 'cancelOrder':
+      return ['cancel_order', { p_order_id: action.orderId }];
+    case 'sellPaperCards':
+      return ['sell_paper_cards', { p_order_id: action.orderId, p_cards: action.cards }];
+    case 'setCharityPercent':
+      return ['set_charity_percent', { p_percent: action.percent }];
+    case 'setPriceTable':
+      return ['set_price_table', { p_price_table: action.priceTable }];
+    case 'setRoundPriceTable':
+      return ['set_round_price_table', { p_price_table: action.priceTable }];
+    case 'setPrizes':
+      return ['set_prizes', { p_prizes: action.prizes }];
+    case 'setPixReceiver':
+      return ['set_pix_receiver', { p_key: action.receiver.key, p_name: action.receiver.name, p_city: action.receiver.city }];
+    case 'setPrizePattern':
+      return ['set_prize_pattern', { p_prize_id: action.prizeId, p_pattern: action.pattern }];
+    case 'setTieRule':
+      return ['set_tie_rule', { p_tie_rule: action.tieRule }];
+    case 'setClaimRules':
+      return ['set_claim_rules', {
+        p_strikes: action.rules.strikes,
+        p_penalty: action.rules.penalty,
+        p_before_next_ball: action.rules.beforeNextBall,
+      }];
+    case 'setPreGameCountdown':
+      return ['set_pre_game_countdown', { p_countdown: action.countdown }];
+    case 'startGame':
+      return ['start_game'];
+    case 'startNextGameCycle':
+      return ['start_next_game_cycle'];
+    case 'scheduleGame':
+      return ['schedule_game', {
+        p_game_id: action.game.id,
+        p_name: action.game.name,
+        p_starts_at: new Date(action.game.startsAt).toISOString(),
+        p_sales_open_at: new Date(action.game.salesOpenAt).toISOString(),
+        p_countdown_seconds: action.game.countdownSeconds,
+      }];
+    case 'cancelScheduledGame':
+      return ['cancel_scheduled_game', { p_game_id: action.gameId }];
+    case 'startScheduledGame':
+      return ['start_scheduled_game', { p_game_id: action.gameId }];
+    case 'drawNextNumber':
+      return ['draw_next_number'];
+    case 'enterDrawnNumber':
+      return ['enter_drawn_number', { p_number: action.number }];
+    case 'undoDrawnNumber':
+      return ['undo_drawn_number', { p_number: action.number }];
+    case 'setPaused':
+      return ['set_paused', { p_paused: action.paused }];
+    case 'setDrawMode':
+      return ['set_draw_mode', { p_mode: action.mode }];
+    case 'setGameVariant':
+      return ['set_game_variant', { p_variant: action.variant }];
+    case 'setDrawInterval':
+      return ['set_draw_interval', { p_interval_ms: action.intervalMs }];
+    case 'endRound':
+      return ['end_round', { p_outcome: action.outcome, p_reason: action.reason }];
+    case 'setPlayerPreference':
+      return ['set_player_preference', { p_player_name: action.playerName, p_preference: action.preference }];
+    case 'claimBingo':
+      return ['claim_bingo', { p_player_name: action.playerName, p_card_id: action.cardId }];
+    case 'recordAward':
+      return ['record_award', {
+        p_round_id: action.roundId,
+        p_expected_awards: action.expectedAwards,
+        p_ball_count: action.ballCount,
+        p_candidates: action.candidates,
+      }];
+    case 'updateAward':
+      return ['update_award', {
+        p_round_id: action.roundId,
+        p_prize_id: action.prizeId,
+        p_expected_candidates: action.expectedCandidates,
+        p_ball_count: action.ballCount,
+        p_co_winners: action.coWinners,
+      }];
+    case 'claimBingo':
+      return ['claim_bingo', { p_player_name: action.playerName, p_card_id: action.cardId }];
+    case 'recordClaim':
+      return ['record_claim', { p_player_name: action.playerName, p_card_id: action.cardId, p_is_valid: action.isValid }];
+    case 'clearInvalidClaim':
+      return ['clear_invalid_claim', { p_player_name: action.playerName }];
+    case 'triggerReaction':
+      return ['trigger_reaction', { p_type: action.reactionType }];
+  }
+};
+
+export class SupabaseGameStore implements GameStore, AuthProvider, LedgerProvider, HistoryProvider, RoomProvider {
+  private roomId: string | null = null;
+  private listeners = new Set<(state: SharedGameState) => void>();
+  private channel: RealtimeChannel | null = null;
+  private isRefreshing = false;
+  private hasPendingRefresh = false;
+
+  // --- Auth ---
+
+  async register(name: string, password: string, pixKey: string): Promise<AuthResult> {
+    const { data, error } = await supabase.auth.signUp({ email: toPlayerEmail(name), password, options: { data: { name } } });
+    if (error) {
+      return { error: error.code === 'user_already_exists' ? authErrors.nameTaken : error.message };
+    }
+    if (!data.session) {
+      console.error('Supabase Auth returned no session; is "Confirm email" enabled?');
+      return { error: authErrors.unavailable };
+    }
+
+    const { data: created, error: profileError } = await this.rpc('register_profile', { p_name: name, p_pix_key: pixKey });
+    if (profileError || created !== true) {
+      await supabase.auth.signOut();
+      return { error: profileError ? authErrors.unavailable : authErrors.nameTaken };
+    }
+    return { user: { name, pixKey } };
+  }
+
+  async signIn(name: string, password: string): Promise<AuthResult> {
+    const { error } = await supabase.auth.signInWithPassword({ email: toPlayerEmail(name), password });
+    if (error) return { error: authErrors.invalidCredentials };
+
+    const profile = await this.loadProfile();
+    return profile ? { user: profile } : { error: authErrors.invalidCredentials };
+  }
+
+  async restoreSession(): Promise<UserProfile | null> {
+    // supabase-js keeps the session (and refreshes its token) on its own
+    const { data } = await supabase.auth.getSession();
+    return data.session ? this.loadProfile() : null;
+  }
+
+  async signOut(): Promise<void> {
+    await supabase.auth.signOut();
+  }
+
+  // --- Rooms ---
+
+  async listRooms(): Promise<RoomListing[]> {
+    const { data, error } = await this.rpc('list_rooms');
+    if (error) {
+      console.error('Failed to list the rooms on Supabase:', error);
+      return [];
+    }
+    return data as RoomListing[];
+  }
+
+  async findRoom(code: string): Promise<RoomListing | null> {
+    const { data, error } = await this.rpc('find_room', { p_code: normalizeRoomCode(code) });
+    if (error) console.error('Failed to look up the room on Supabase:', error);
+    return (data as RoomListing | null) ?? null;
+  }
+
+  async createRoom(name: string, isPublic: boolean): Promise<Room | null> {
+    const { data, error } = await this.rpc('create_room', { p_name: name.trim(), p_is_public: isPublic });
+    if (error) console.error('Failed to create the room on Supabase:', error);
+    return (data as Room | null) ?? null;
+  }
+
+  async enterRoom(roomId: string): Promise<boolean> {
+    const { data, error } = await this.rpc('enter_room', { p_room_id: roomId });
+    if (error || data !== true) {
+      if (error) console.error('Failed to enter the room on Supabase:', error);
+      return false;
+    }
+    this.closeChannel();
+    this.roomId = roomId;
+    this.openChannel();
+    return true;
+  }
+
+  leaveRoom(): void {
+    this.closeChannel();
+    this.roomId = null;
+  }
+
+  // --- Ledger ---
+
+  async loadLedger(): Promise<PayoutLedger | null> {
+    const { data, error } = await this.rpc('get_payout_ledger');
+    if (error) {
+      console.error('Failed to load the payout ledger from Supabase:', error);
+      return null;
+    }
+    return data as PayoutLedger;
+  }
+
+  async markPayoutPaid(payoutId: string): Promise<boolean> {
+    const { data, error } = await this.rpc('mark_payout_paid', { p_payout_id: payoutId });
+    if (error) console.error('Failed to mark the payout as paid on Supabase:', error);
+    return data === true;
+  }
+
+  // --- History ---
+
+  async listRounds(): Promise<RoundSummary[]> {
+    const { data, error } = await this.rpc('get_round_history');
+    if (error) {
+      console.error('Failed to load the round history from Supabase:', error);
+      return [];
+    }
+    return data as RoundSummary[];
+  }
+
+  async loadRound(roundId: number): Promise<RoundArchive | null> {
+    const { data, error } = await this.rpc('get_round_archive', { p_round_id: roundId });
+    if (error) console.error('Failed to load the round archive from Supabase:', error);
+    return (data as RoundArchive | null) ?? null;
+  }
+
+  async loadAllRounds(): Promise<RoundArchive[]> {
+    const { data, error } = await this.rpc('get_round_archives');
+    if (error) {
+      console.error('Failed to load the round archives from Supabase:', error);
+      return [];
+    }
+    return data as RoundArchive[];
+  }
+
+  // --- Game state ---
+
+  async load(): Promise<SharedGameState | null> {
+    if (!this.roomId) return null;
+    const { data, error } = await this.rpc('get_game_state');
+    if (error) {
+      console.error('Error fetching game state:', error);
+      return null;
+    }
+    return data as SharedGameState;
+  }
+
+  async apply(action: GameAction): Promise<ActionResult> {
+    const [fn, params] = toRpc(action);
+    const { data, error } = await this.rpc(fn, params);
+    if (error) {
+      console.error(`Failed to run ${fn} on Supabase:`, error);
+      return null;
+    }
+    // Void functions come back as an empty value
+    return typeof data === 'boolean' || typeof data === 'number' ? data : null;
+  }
+
+  subscribe(callback: (state: SharedGameState) => void): () => void {
+    this.listeners.add(callback);
+    this.openChannel();
+    return () => {
+      this.listeners.delete(callback);
+      if (this.listeners.size === 0) this.closeChannel();
+    };
+  }
+
+  private rpc(fn: string, params?: Record<string, unknown>) {
+    const query = supabase.rpc(fn, params);
+    return this.roomId ? query.setHeader(ROOM_HEADER, this.roomId) : query;
+  }
+
+  // Listens to the entered room's row of `game_events` only
+  private openChannel(): void {
+    if (this.channel || !this.roomId || this.listeners.size === 0) return;
+    this.channel = supabase
+      .channel(`game_state_channel:${this.roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: EVENTS_TABLE, filter: `room_id=eq.${this.roomId}` },
+        () => this.refresh()
+      )
+      .subscribe((status, err) => {
+        if (status === 'SUBSCRIBED') {
+          console.log('Connected to real-time channel!');
+        }
+        if (err) {
+          console.error('Real-time subscription error:', err);
+        }
+      });
+  }
+
+  private closeChannel(): void {
+    if (this.channel) supabase.removeChannel(this.channel);
+    this.channel = null;
+  }
+
+  private async loadProfile(): Promise<UserProfile | null> {
+    const { data, error } = await this.rpc('get_my_profile');
+    if (error) console.error('Failed to load player profile:', error);
+    return (data as UserProfile | null) ?? null;
+  }
+
+  // Several actions can land while a fetch is in flight; coalesce them into one extra fetch.
+  private async refresh(): Promise<void> {
+    if (this.isRefreshing) {
+      this.hasPendingRefresh = true;
+      return;
+    }
+    this.isRefreshing = true;
+    try {
+      const roomId = this.roomId;
+      const state = await this.load();
+      // Dropped if the player moved to another room meanwhile
+      if (state && roomId === this.roomId) this.listeners.forEach(callback => callback(state));
+    } finally {
+      this.isRefreshing = false;
+      if (this.hasPendingRefresh) {
+        this.hasPendingRefresh = false;
+        this.refresh();
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import type { BingoCardData, CardData, GameVariant, Prize, SharedGameState } from '../types';
+import { takenCards } from './schedule';
+
+// The kinds of bingo a room can play. Each has its own globe, card layout and win patterns
+// (services/patterns.ts); the room switches between them between rounds, while no card is sold.
+// The Supabase functions (supabase/migrations) know the same globes and cards.
+
+export interface VariantRules {
+  id: GameVariant;
+  name: string;
+  // How the cards look, shown when the staff picks the variant
+  description: string;
+  totalBalls: number;
+  rows: number;
+  columns: number;
+  // Called before the number, one per column (B-I-N-G-O); null where the cards have no letters
+  letters: string[] | null;
+  // First and last ball of each column; a card column only holds balls of its range
+  columnRanges: [number, number][];
+  // Cells marked from the start (row * columns + column)
+  freeCells: number[];
+  // Cards generated together so that, between them, they hold every ball once (90-ball strips of six)
+  stripSize: number;
+  defaultPrizes: Prize[];
+}
+
+export const FREE_SPACE = 'LIVRE';
+
+// Even ranges of `size` balls, one per column
+const evenRanges = (columns: number, size: number): [number, number][] =>
+  Array.from({ length: columns }, (_, i) => [i * size + 1, (i + 1) * size]);
+
+export const variantRules: Record<GameVariant, VariantRules> = {
+  ball75: {
+    id: 'ball75',
+    name: '75 bolas',
+    description: 'Cartela 5x5 B-I-N-G-O com espaço livre no centro',
+    totalBalls: 75,
+    rows: 5,
+    columns: 5,
+    letters: ['B', 'I', 'N', 'G', 'O'],
+    columnRanges: evenRanges(5, 15),
+    freeCells: [12],
+    stripSize: 1,
+    // Same ladder as the seed data of the Supabase migration
+    defaultPrizes: [
+      { id: 1, name: '1º Prêmio', value: 'R$ 500,00', pattern: 'line' },
+      { id: 2, name: '2º Prêmio', value: 'R$ 300,00', pattern: 'twoLines' },
+      { id: 3, name: '3º Prêmio', value: 'R$ 200,00', pattern: 'x' },
+      { id: 4, name: '4º Prêmio', value: 'R$ 150,00', pattern: 'frame' },
+      { id: 5, name: '5º Prêmio', value: 'Extra', pattern: 'full' },
+    ],
+  },
+  ball90: {
+    id: 'ball90',
+    name: '90 bolas',
+    description: 'Cartela 3x9 com 5 números por linha, em tiras de 6 que somam as 90 bolas',
+    totalBalls: 90,
+    rows: 3,
+    columns: 9,
+    letters: null,
+    columnRanges: [[1, 9], [10, 19], [20, 29], [30, 39], [40, 49], [50, 59], [60, 69], [70, 79], [80, 90]],
+    freeCells: [],
+    stripSize: 6,
+    defaultPrizes: [
+      { id: 1, name: '1º Prêmio', value: 'R$ 200,00', pattern: 'ninetyOneLine' },
+      { id: 2, name: '2º Prêmio', value: 'R$ 300,00', pattern: 'ninetyTwoLines' },
+      { id: 3, name: '3º Prêmio', value: 'R$ 500,00', pattern: 'ninetyFullHouse' },
+    ],
+  },
+  ball80: {
+    id: 'ball80',
+    name: '80 bolas',
+    description: 'Cartela 4x4 sem espaço livre, uma coluna para cada 20 bolas',
+    totalBalls: 80,
+    rows: 4,
+    columns: 4,
+    letters: null,
+    columnRanges: evenRanges(4, 20),
+    freeCells: [],
+    stripSize: 1,
+    defaultPrizes: [
+      { id: 1, name: '1º Prêmio', value: 'R$ 200,00', pattern: 'eightyLine' },
+      { id: 2, name: '2º Prêmio', value: 'R$ 300,00', pattern: 'eightyFrame' },
+      { id: 3, name: '3º Prêmio', value: 'R$ 500,00', pattern: 'eightyFull' },
+    ],
+  },
+  ball30: {
+    id: 'ball30',
+    name: '30 bolas',
+    description: 'Cartela 3x3 para rodadas rápidas',
+    totalBalls: 30,
+    rows: 3,
+    columns: 3,
+    letters: null,
+    columnRanges: evenRanges(3, 10),
+    freeCells: [],
+    stripSize: 1,
+    defaultPrizes: [
+      { id: 1, name: '1º Prêmio', value: 'R$ 100,00', pattern: 'thirtyLine' },
+      { id: 2, name: '2º Prêmio', value: 'R$ 200,00', pattern: 'thirtyFull' },
+    ],
+  },
+};
+
+export const DEFAULT_VARIANT: GameVariant = 'ball75';
+
+export const gameVariants = Object.values(variantRules);
+
+// Unknown ids (saved by a newer version) fall back to the default
+export const getVariant = (id: GameVariant | undefined): VariantRules =>
+  variantRules[id ?? DEFAULT_VARIANT] ?? variantRules[DEFAULT_VARIANT];
+
+export const isGameVariant = (id: string): id is GameVariant => Object.hasOwn(variantRules, id);
+
+export const isBingoCardData = (cardData: CardData): cardData is BingoCardData => !('rows' in cardData);
+
+/** The card row by row: numbers, 'LIVRE' for the free space and null for the blanks of a 90-ball ticket. */
+export const cardRows = (cardData: CardData): (number | string | null)[][] => {
+  if (!isBingoCardData(cardData)) return cardData.rows;
+  const columns = [cardData.B, cardData.I, cardData.N, cardData.G, cardData.O];
+  return columns[0].map((_, row) => columns.map(column => column[row]));
+};
+
+export const cardNumbers = (cardData: CardData): number[] =>
+  cardRows(cardData).flat().filter((cell): cell is number => typeof cell === 'number');
+
+/** Column of the card where `ball` goes. */
+export const columnOfBall = (variant: VariantRules, ball: number): number =>
+  variant.columnRanges.findIndex(([first, last]) => ball >= first && ball <= last);
+
+/** "B" for ball 7 of a 75-ball game; null where the cards have no letters. */
+export const letterForBall = (variant: VariantRules, ball: number): string | null =>
+  variant.letters?.[columnOfBall(variant, ball)] ?? null;
+
+/** Whether the room may switch variants: no ball drawn in the round, and no card sold, ordered or kept aside. */
+export const canChangeVariant = (state: Pick<SharedGameState, 'isGameActive' | 'drawnNumbers' | 'generatedCards' | 'cardOrders'>): boolean =>
+  !state.isGameActive && state.drawnNumbers.length === 0 && takenCards(state).length === 0;
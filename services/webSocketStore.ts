@@ -0,0 +1,277 @@
+import type { PayoutLedger, Room, RoomListing, RoundArchive, RoundSummary, SharedGameState, UserProfile } from '../types';
+import {
+  authErrors,
+  type ActionResult,
+  type AuthProvider,
+  type AuthResult,
+  type GameAction,
+  type GameStore,
+  type HistoryProvider,
+  type LedgerProvider,
+  type RoomProvider,
+  type LocalAuthRequest,
+  type LocalClientMessage,
+  type LocalHistoryRequest,
+  type LocalLedgerRequest,
+  type LocalRoomRequest,
+  type LocalServerMessage,
+} from './gameStore';
+
+const RECONNECT_DELAY_MS = 2000;
+const SESSION_KEY = 'bingoSessionToken';
+
+type AuthResponse = Extract<LocalServerMessage, { type: 'authResult' }>;
+type LedgerResponse = Extract<LocalServerMessage, { type: 'ledgerResult' }>;
+type HistoryResponse = Extract<LocalServerMessage, { type: 'historyResult' }>;
+type RoomResponse = Extract<LocalServerMessage, { type: 'roomResult' }>;
+
+// Talks to the local Node server (`npm run server`), so a bingo night can run on a LAN without internet.
+// The server ties each connection to the account that signed in on it and the room it entered,
+// so the session token and the room are replayed after every reconnect.
+export class WebSocketGameStore implements GameStore, AuthProvider, LedgerProvider, HistoryProvider, RoomProvider {
+  private socket: WebSocket | null = null;
+  private state: SharedGameState | null = null;
+  private listeners = new Set<(state: SharedGameState) => void>();
+  private pendingRequests = new Map<number, (result: ActionResult) => void>();
+  private pendingAuth = new Map<number, (response: AuthResponse | null) => void>();
+  private pendingLedger = new Map<number, (response: LedgerResponse | null) => void>();
+  private pendingHistory = new Map<number, (response: HistoryResponse | null) => void>();
+  private pendingRoom = new Map<number, (response: RoomResponse | null) => void>();
+  private roomId: string | null = null;
+  private stateWaiters: ((state: SharedGameState) => void)[] = [];
+  private nextRequestId = 1;
+
+  constructor(private url: string) {}
+
+  // --- Auth ---
+
+  async register(name: string, password: string, pixKey: string): Promise<AuthResult> {
+    return this.toAuthResult(await this.sendAuth({ type: 'register', name, password, pixKey }));
+  }
+
+  async signIn(name: string, password: string): Promise<AuthResult> {
+    return this.toAuthResult(await this.sendAuth({ type: 'signIn', name, password }));
+  }
+
+  async restoreSession(): Promise<UserProfile | null> {
+    const token = localStorage.getItem(SESSION_KEY);
+    if (!token) return null;
+    const response = await this.sendAuth({ type: 'resume', token });
+    if (response?.user) return response.user;
+    if (response) localStorage.removeItem(SESSION_KEY); // Only forget the token if the server refused it
+    return null;
+  }
+
+  async signOut(): Promise<void> {
+    await this.sendAuth({ type: 'signOut' });
+    localStorage.removeItem(SESSION_KEY);
+  }
+
+  // --- Rooms ---
+
+  async listRooms(): Promise<RoomListing[]> {
+    return (await this.sendRoom({ type: 'list' }))?.rooms ?? [];
+  }
+
+  async findRoom(code: string): Promise<RoomListing | null> {
+    return ((await this.sendRoom({ type: 'find', code }))?.room as RoomListing | null | undefined) ?? null;
+  }
+
+  async createRoom(name: string, isPublic: boolean): Promise<Room | null> {
+    return (await this.sendRoom({ type: 'create', name, isPublic }))?.room ?? null;
+  }
+
+  async enterRoom(roomId: string): Promise<boolean> {
+    this.state = null;
+    // The server sends the room's state right before its answer
+    const entered = (await this.sendRoom({ type: 'enter', roomId }))?.ok === true;
+    this.roomId = entered ? roomId : null;
+    return entered;
+  }
+
+  leaveRoom(): void {
+    this.roomId = null;
+    this.state = null;
+    const message: LocalClientMessage = { requestId: this.nextRequestId++, room: { type: 'leave' } };
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private async sendRoom(room: LocalRoomRequest): Promise<RoomResponse | null> {
+    const socket = await this.openSocket();
+    const requestId = this.nextRequestId++;
+    const message: LocalClientMessage = { requestId, room };
+    return new Promise(resolve => {
+      this.pendingRoom.set(requestId, resolve);
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  // --- Game state ---
+
+  async load(): Promise<SharedGameState | null> {
+    if (!this.roomId) return null;
+    this.connect();
+    if (this.state) return this.state;
+    // The server sends the full state as soon as the connection opens
+    return new Promise(resolve => this.stateWaiters.push(resolve));
+  }
+
+  async apply(action: GameAction): Promise<ActionResult> {
+    const socket = await this.openSocket();
+    const requestId = this.nextRequestId++;
+    const message: LocalClientMessage = { requestId, action };
+    return new Promise(resolve => {
+      this.pendingRequests.set(requestId, resolve);
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  subscribe(callback: (state: SharedGameState) => void): () => void {
+    this.connect();
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  // --- Ledger ---
+
+  async loadLedger(): Promise<PayoutLedger | null> {
+    const response = await this.sendLedger({ type: 'load' });
+    if (response?.error) console.error('Local bingo server refused the ledger:', response.error);
+    return response?.ledger ?? null;
+  }
+
+  async markPayoutPaid(payoutId: string): Promise<boolean> {
+    return (await this.sendLedger({ type: 'markPaid', payoutId }))?.ok === true;
+  }
+
+  private async sendLedger(ledger: LocalLedgerRequest): Promise<LedgerResponse | null> {
+    const socket = await this.openSocket();
+    const requestId = this.nextRequestId++;
+    const message: LocalClientMessage = { requestId, ledger };
+    return new Promise(resolve => {
+      this.pendingLedger.set(requestId, resolve);
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  // --- History ---
+
+  async listRounds(): Promise<RoundSummary[]> {
+    return (await this.sendHistory({ type: 'list' }))?.rounds ?? [];
+  }
+
+  async loadRound(roundId: number): Promise<RoundArchive | null> {
+    return (await this.sendHistory({ type: 'load', roundId }))?.round ?? null;
+  }
+
+  async loadAllRounds(): Promise<RoundArchive[]> {
+    return (await this.sendHistory({ type: 'loadAll' }))?.archives ?? [];
+  }
+
+  private async sendHistory(history: LocalHistoryRequest): Promise<HistoryResponse | null> {
+    const socket = await this.openSocket();
+    const requestId = this.nextRequestId++;
+    const message: LocalClientMessage = { requestId, history };
+    return new Promise(resolve => {
+      this.pendingHistory.set(requestId, resolve);
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  private toAuthResult(response: AuthResponse | null): AuthResult {
+    if (!response) return { error: authErrors.unavailable };
+    if (!response.user) return { error: response.error ?? authErrors.unavailable };
+    if (response.token) localStorage.setItem(SESSION_KEY, response.token);
+    return { user: response.user };
+  }
+
+  private async sendAuth(auth: LocalAuthRequest): Promise<AuthResponse | null> {
+    const socket = await this.openSocket();
+    const requestId = this.nextRequestId++;
+    const message: LocalClientMessage = { requestId, auth };
+    return new Promise(resolve => {
+      this.pendingAuth.set(requestId, resolve);
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  private async openSocket(): Promise<WebSocket> {
+    const socket = this.connect();
+    if (socket.readyState !== WebSocket.OPEN) {
+      await new Promise(resolve => socket.addEventListener('open', resolve, { once: true }));
+    }
+    return socket;
+  }
+
+  private connect(): WebSocket {
+    if (this.socket) return this.socket;
+
+    const socket = new WebSocket(this.url);
+    socket.onopen = () => {
+      // Sent before anything queued behind 'open', so actions run as the signed-in player again
+      const token = localStorage.getItem(SESSION_KEY);
+      if (token) {
+        const message: LocalClientMessage = { requestId: this.nextRequestId++, auth: { type: 'resume', token } };
+        socket.send(JSON.stringify(message));
+      }
+      if (this.roomId) {
+        const message: LocalClientMessage = { requestId: this.nextRequestId++, room: { type: 'enter', roomId: this.roomId } };
+        socket.send(JSON.stringify(message));
+      }
+    };
+    socket.onmessage = (event) => this.handleMessage(JSON.parse(event.data) as LocalServerMessage);
+    socket.onclose = () => {
+      console.warn('Lost connection to the local bingo server, reconnecting...');
+      this.socket = null;
+      // Requests in flight are lost with the connection; don't leave callers hanging.
+      this.pendingRequests.forEach(resolve => resolve(null));
+      this.pendingRequests.clear();
+      this.pendingAuth.forEach(resolve => resolve(null));
+      this.pendingAuth.clear();
+      this.pendingLedger.forEach(resolve => resolve(null));
+      this.pendingLedger.clear();
+      this.pendingHistory.forEach(resolve => resolve(null));
+      this.pendingHistory.clear();
+      this.pendingRoom.forEach(resolve => resolve(null));
+      this.pendingRoom.clear();
+      setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    };
+    socket.onerror = (error) => console.error('Local bingo server error:', error);
+    this.socket = socket;
+    return socket;
+  }
+
+  private handleMessage(message: LocalServerMessage): void {
+    if (message.type === 'result') {
+      if (message.error) console.error('Local bingo server rejected an action:', message.error);
+      this.pendingRequests.get(message.requestId)?.(message.result);
+      this.pendingRequests.delete(message.requestId);
+      return;
+    }
+    if (message.type === 'authResult') {
+      this.pendingAuth.get(message.requestId)?.(message);
+      this.pendingAuth.delete(message.requestId);
+      return;
+    }
+    if (message.type === 'ledgerResult') {
+      this.pendingLedger.get(message.requestId)?.(message);
+      this.pendingLedger.delete(message.requestId);
+      return;
+    }
+    if (message.type === 'historyResult') {
+      this.pendingHistory.get(message.requestId)?.(message);
+      this.pendingHistory.delete(message.requestId);
+      return;
+    }
+    if (message.type === 'roomResult') {
+      if (message.error) console.error('Local bingo server refused a room request:', message.error);
+      this.pendingRoom.get(message.requestId)?.(message);
+      this.pendingRoom.delete(message.requestId);
+      return;
+    }
+    this.state = message.state;
+    this.stateWaiters.forEach(resolve => resolve(message.state));
+    this.stateWaiters = [];
+    this.listeners.forEach(callback => callback(message.state));
+  }
+}
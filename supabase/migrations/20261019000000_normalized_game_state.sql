@@ -0,0 +1,514 @@
+-- Normalized storage for the game, replacing the single JSON row in `game_state`.
+-- Every client action goes through one of the functions below, so it runs in a single
+-- transaction and concurrent players can no longer overwrite each other's changes.
+
+-- Plain Postgres (outside Supabase) doesn't ship the API roles; create them so the grants below work.
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then
+    create role anon nologin;
+  end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+    create role authenticated nologin;
+  end if;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Tables
+-- ---------------------------------------------------------------------------
+
+create table if not exists users (
+  name text primary key,
+  password text not null,
+  pix_key text not null,
+  is_online boolean not null default false,
+  wins integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists settings (
+  id boolean primary key default true check (id),
+  tie_rule text not null default 'split' check (tie_rule in ('split', 'drawOff', 'firstClaim'))
+);
+
+-- Prize ladder, awarded in `position` order during a round
+create table if not exists prizes (
+  id integer primary key,
+  position integer not null unique,
+  name text not null,
+  value text not null,
+  pattern text not null
+);
+
+-- One row per game cycle; the current round is the one with the highest id
+create table if not exists rounds (
+  id bigserial primary key,
+  is_active boolean not null default false,
+  pre_game_countdown integer,
+  invalid_claim_player text references users (name) on delete set null,
+  invalid_claim_at timestamptz,
+  created_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create table if not exists cards (
+  id text primary key,
+  round_id bigint not null references rounds (id) on delete cascade,
+  owner text not null references users (name) on delete cascade,
+  card_data jsonb not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists cards_round_id_idx on cards (round_id);
+
+create table if not exists draws (
+  round_id bigint not null references rounds (id) on delete cascade,
+  position integer not null,
+  number integer not null check (number between 1 and 75),
+  drawn_at timestamptz not null default now(),
+  primary key (round_id, position),
+  unique (round_id, number)
+);
+
+create table if not exists player_preferences (
+  round_id bigint not null references rounds (id) on delete cascade,
+  user_name text not null references users (name) on delete cascade,
+  preference text not null check (preference in ('auto', 'manual')),
+  primary key (round_id, user_name)
+);
+
+-- Every BINGO! pressed by a manual-marking player, valid or not
+create table if not exists claims (
+  id bigserial primary key,
+  round_id bigint not null references rounds (id) on delete cascade,
+  user_name text not null references users (name) on delete cascade,
+  card_id text not null references cards (id) on delete cascade,
+  ball_count integer not null,
+  is_valid boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists wins (
+  id bigserial primary key,
+  round_id bigint not null references rounds (id) on delete cascade,
+  prize_id integer not null,
+  prize_name text not null,
+  pattern text not null,
+  ball_count integer not null,
+  tie_rule text not null,
+  share_value text not null,
+  is_final boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (round_id, prize_id)
+);
+
+-- Cards that completed a prize on its deciding ball; `is_winner` marks who is paid after the tie rule
+create table if not exists win_cards (
+  win_id bigint not null references wins (id) on delete cascade,
+  card_id text not null references cards (id) on delete cascade,
+  player_name text not null,
+  position integer not null,
+  is_winner boolean not null,
+  draw_off_ball integer,
+  primary key (win_id, card_id)
+);
+
+create table if not exists reactions (
+  id bigserial primary key,
+  round_id bigint not null references rounds (id) on delete cascade,
+  type text not null check (type in ('goodLuck', 'shake')),
+  created_at timestamptz not null default now()
+);
+
+-- Bumped at the end of every action; clients subscribe to it and reload the state
+create table if not exists game_events (
+  id boolean primary key default true check (id),
+  version bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+-- ---------------------------------------------------------------------------
+-- Seed data
+-- ---------------------------------------------------------------------------
+
+insert into users (name, password, pix_key) values ('admin', 'admin', 'admin') on conflict do nothing;
+insert into settings default values on conflict do nothing;
+insert into game_events default values on conflict do nothing;
+insert into prizes (id, position, name, value, pattern) values
+  (1, 1, '1º Prêmio', 'R$ 500,00', 'line'),
+  (2, 2, '2º Prêmio', 'R$ 300,00', 'twoLines'),
+  (3, 3, '3º Prêmio', 'R$ 200,00', 'x'),
+  (4, 4, '4º Prêmio', 'R$ 150,00', 'frame'),
+  (5, 5, '5º Prêmio', 'Extra', 'full')
+on conflict do nothing;
+insert into rounds (is_active) select false where not exists (select 1 from rounds);
+
+-- ---------------------------------------------------------------------------
+-- Access: tables are only reachable through the functions below
+-- ---------------------------------------------------------------------------
+
+alter table users enable row level security;
+alter table settings enable row level security;
+alter table prizes enable row level security;
+alter table rounds enable row level security;
+alter table cards enable row level security;
+alter table draws enable row level security;
+alter table player_preferences enable row level security;
+alter table claims enable row level security;
+alter table wins enable row level security;
+alter table win_cards enable row level security;
+alter table reactions enable row level security;
+alter table game_events enable row level security;
+
+drop policy if exists "game events are public" on game_events;
+create policy "game events are public" on game_events for select using (true);
+grant select on game_events to anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'game_events') then
+    alter publication supabase_realtime add table game_events;
+  end if;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+create or replace function current_round_id() returns bigint
+language sql stable set search_path = public as $$
+  select max(id) from rounds;
+$$;
+
+create or replace function touch_game_events() returns void
+language sql set search_path = public as $$
+  update game_events set version = version + 1, updated_at = now();
+$$;
+
+create or replace function epoch_ms(ts timestamptz) returns bigint
+language sql immutable as $$
+  select (extract(epoch from ts) * 1000)::bigint;
+$$;
+
+-- Replaces the cards of a win with the candidates/winners of an award built by the client
+create or replace function save_win_cards(p_win_id bigint, p_award jsonb) returns void
+language plpgsql set search_path = public as $$
+begin
+  delete from win_cards where win_id = p_win_id;
+  insert into win_cards (win_id, card_id, player_name, position, is_winner, draw_off_ball)
+  select
+    p_win_id,
+    c.value->>'cardId',
+    c.value->>'playerName',
+    c.ordinality,
+    exists (select 1 from jsonb_array_elements(p_award->'winners') w where w->>'cardId' = c.value->>'cardId'),
+    (p_award->'drawOffBalls'->>(c.value->>'cardId'))::integer
+  from jsonb_array_elements(p_award->'candidates') with ordinality c;
+end $$;
+
+create or replace function add_user_wins(p_winners jsonb, p_delta integer) returns void
+language sql set search_path = public as $$
+  update users u
+  set wins = greatest(0, u.wins + p_delta * w.total)
+  from (
+    select value->>'playerName' as name, count(*) as total
+    from jsonb_array_elements(p_winners)
+    group by 1
+  ) w
+  where u.name = w.name;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Read model: assembles the same shape as `SharedGameState` in types.ts
+-- ---------------------------------------------------------------------------
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'password', password, 'pixKey', pix_key) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1)
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Actions
+-- ---------------------------------------------------------------------------
+
+create or replace function register_user(p_name text, p_password text, p_pix_key text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into users (name, password, pix_key) values (p_name, p_password, p_pix_key);
+  perform touch_game_events();
+  return true;
+exception when unique_violation then
+  return false;
+end $$;
+
+create or replace function set_user_online(p_name text, p_online boolean) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update users set is_online = p_online where name = p_name and is_online <> p_online;
+  if found then perform touch_game_events(); end if;
+end $$;
+
+create or replace function add_cards(p_cards jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+  from jsonb_array_elements(p_cards) c;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_prize_pattern(p_prize_id integer, p_pattern text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update prizes set pattern = p_pattern where id = p_prize_id;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_tie_rule(p_tie_rule text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update settings set tie_rule = p_tie_rule;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_pre_game_countdown(p_countdown integer) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update rounds set pre_game_countdown = p_countdown where id = current_round_id();
+  perform touch_game_events();
+end $$;
+
+create or replace function start_game() returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update rounds set is_active = true, pre_game_countdown = null where id = current_round_id();
+  perform touch_game_events();
+end $$;
+
+-- Cards, draws, preferences, claims and reactions all hang off the round, so a new row resets them.
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = current_round_id();
+  insert into rounds (is_active, pre_game_countdown) values (false, 20);
+  perform touch_game_events();
+end $$;
+
+create or replace function draw_next_number() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+  v_number integer;
+begin
+  -- Row lock serializes concurrent draws of the same round
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return null;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  if v_count >= 75 then return null; end if;
+
+  select n into v_number
+  from generate_series(1, 75) n
+  where n not in (select number from draws where round_id = v_round.id)
+  order by random()
+  limit 1;
+
+  insert into draws (round_id, position, number) values (v_round.id, v_count + 1, v_number);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return v_number;
+end $$;
+
+create or replace function set_player_preference(p_player_name text, p_preference text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into player_preferences (round_id, user_name, preference)
+  values (current_round_id(), p_player_name, p_preference)
+  on conflict (round_id, user_name) do update set preference = excluded.preference;
+  perform touch_game_events();
+end $$;
+
+-- Records an award built by the client from the state it read. The expected counts make it a
+-- compare-and-swap: if another prize was awarded or another ball drawn meanwhile, nothing is written.
+create or replace function record_award(
+  p_round_id bigint,
+  p_expected_awards integer,
+  p_ball_count integer,
+  p_award jsonb,
+  p_is_final boolean
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_id bigint;
+begin
+  select * into v_round from rounds where id = p_round_id for update;
+  if not found or p_round_id <> current_round_id() then return false; end if;
+  if (select count(*) from wins where round_id = p_round_id) <> p_expected_awards then return false; end if;
+  if (select count(*) from draws where round_id = p_round_id) <> p_ball_count then return false; end if;
+
+  insert into wins (round_id, prize_id, prize_name, pattern, ball_count, tie_rule, share_value, is_final)
+  values (
+    p_round_id,
+    (p_award->>'prizeId')::integer,
+    p_award->>'prizeName',
+    p_award->>'pattern',
+    p_ball_count,
+    p_award->>'tieRule',
+    p_award->>'shareValue',
+    p_is_final
+  )
+  returning id into v_win_id;
+
+  perform save_win_cards(v_win_id, p_award);
+  perform add_user_wins(p_award->'winners', 1);
+
+  update rounds
+  set is_active = is_active and not p_is_final,
+      finished_at = case when p_is_final then now() else finished_at end,
+      invalid_claim_player = null,
+      invalid_claim_at = null
+  where id = p_round_id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Replaces the candidates/winners of an awarded prize when a co-winner joins it on the same ball
+create or replace function update_award(
+  p_round_id bigint,
+  p_expected_candidates integer,
+  p_ball_count integer,
+  p_award jsonb
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_win wins%rowtype;
+  v_previous_winners jsonb;
+begin
+  perform 1 from rounds where id = p_round_id for update;
+  select * into v_win from wins where round_id = p_round_id and prize_id = (p_award->>'prizeId')::integer;
+  if not found or v_win.ball_count <> p_ball_count then return false; end if;
+  if (select count(*) from win_cards where win_id = v_win.id) <> p_expected_candidates then return false; end if;
+  if (select count(*) from draws where round_id = p_round_id) <> p_ball_count then return false; end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('playerName', player_name)), '[]'::jsonb)
+  into v_previous_winners
+  from win_cards where win_id = v_win.id and is_winner;
+
+  perform add_user_wins(v_previous_winners, -1);
+  perform save_win_cards(v_win.id, p_award);
+  perform add_user_wins(p_award->'winners', 1);
+  update wins set share_value = p_award->>'shareValue' where id = v_win.id;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = p_round_id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function record_claim(p_player_name text, p_card_id text, p_is_valid boolean) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round_id, p_player_name, p_card_id, (select count(*) from draws where round_id = v_round_id), p_is_valid);
+  if not p_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round_id;
+  end if;
+  perform touch_game_events();
+end $$;
+
+create or replace function clear_invalid_claim(p_player_name text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  update rounds set invalid_claim_player = null, invalid_claim_at = null
+  where id = current_round_id() and invalid_claim_player = p_player_name;
+  if found then perform touch_game_events(); end if;
+end $$;
+
+create or replace function trigger_reaction(p_type text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into reactions (round_id, type) values (current_round_id(), p_type);
+  perform touch_game_events();
+end $$;
+
+grant execute on function
+  get_game_state(),
+  register_user(text, text, text),
+  set_user_online(text, boolean),
+  add_cards(jsonb),
+  set_prize_pattern(integer, text),
+  set_tie_rule(text),
+  set_pre_game_countdown(integer),
+  start_game(),
+  start_next_game_cycle(),
+  draw_next_number(),
+  set_player_preference(text, text),
+  record_award(bigint, integer, integer, jsonb, boolean),
+  update_award(bigint, integer, integer, jsonb),
+  record_claim(text, text, boolean),
+  clear_invalid_claim(text),
+  trigger_reaction(text)
+to anon, authenticated;
+
+-- Internal helpers are not part of the API
+revoke execute on function touch_game_events(), save_win_cards(bigint, jsonb), add_user_wins(jsonb, integer) from public, anon, authenticated;
@@ -0,0 +1,203 @@
+-- Accounts move to Supabase Auth: passwords are hashed by Auth and never stored in our tables,
+-- and neither passwords nor PIX keys are part of the state broadcast to clients.
+
+-- Plain Postgres has no Auth schema; provide the bits we rely on so the migrations still run locally.
+do $$
+begin
+  if not exists (select 1 from pg_namespace where nspname = 'auth') then
+    create schema auth;
+    create table auth.users (id uuid primary key);
+    create function auth.uid() returns uuid language sql stable as
+      $fn$ select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $fn$;
+  end if;
+end $$;
+
+alter table users drop column if exists password;
+alter table users add column if not exists auth_user_id uuid unique references auth.users (id) on delete set null;
+
+-- Name of the player signed in on this request, or null
+create or replace function current_user_name() returns text
+language sql stable security definer set search_path = public as $$
+  select name from users where auth_user_id = auth.uid();
+$$;
+
+-- Called right after `auth.signUp`. An existing row without an account (players from before
+-- Supabase Auth, or the seeded `admin`) is claimed by the first account registering its name.
+create or replace function register_profile(p_name text, p_pix_key text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null or current_user_name() is not null then return false; end if;
+
+  update users set auth_user_id = auth.uid(), pix_key = p_pix_key
+  where name = p_name and auth_user_id is null;
+  if not found then
+    begin
+      insert into users (name, pix_key, auth_user_id) values (p_name, p_pix_key, auth.uid());
+    exception when unique_violation then
+      return false;
+    end;
+  end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function get_my_profile() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select jsonb_build_object('name', name, 'pixKey', pix_key) from users where auth_user_id = auth.uid();
+$$;
+
+drop function if exists register_user(text, text, text);
+
+-- Player-owned actions only act on behalf of the signed-in player
+
+create or replace function set_user_online(p_name text, p_online boolean) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  update users set is_online = p_online where name = p_name and is_online <> p_online;
+  if found then perform touch_game_events(); end if;
+end $$;
+
+create or replace function add_cards(p_cards jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from current_user_name()) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+  from jsonb_array_elements(p_cards) c;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_player_preference(p_player_name text, p_preference text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  insert into player_preferences (round_id, user_name, preference)
+  values (current_round_id(), p_player_name, p_preference)
+  on conflict (round_id, user_name) do update set preference = excluded.preference;
+  perform touch_game_events();
+end $$;
+
+create or replace function record_claim(p_player_name text, p_card_id text, p_is_valid boolean) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round_id, p_player_name, p_card_id, (select count(*) from draws where round_id = v_round_id), p_is_valid);
+  if not p_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round_id;
+  end if;
+  perform touch_game_events();
+end $$;
+
+-- Same read model as before, minus passwords and PIX keys
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1)
+  );
+end $$;
+
+-- Only signed-in players can act; visitors can still watch the game
+revoke execute on function
+  set_user_online(text, boolean),
+  add_cards(jsonb),
+  set_prize_pattern(integer, text),
+  set_tie_rule(text),
+  set_pre_game_countdown(integer),
+  start_game(),
+  start_next_game_cycle(),
+  draw_next_number(),
+  set_player_preference(text, text),
+  record_award(bigint, integer, integer, jsonb, boolean),
+  update_award(bigint, integer, integer, jsonb),
+  record_claim(text, text, boolean),
+  clear_invalid_claim(text),
+  trigger_reaction(text),
+  register_profile(text, text),
+  get_my_profile()
+from public, anon;
+
+grant execute on function
+  set_user_online(text, boolean),
+  add_cards(jsonb),
+  set_prize_pattern(integer, text),
+  set_tie_rule(text),
+  set_pre_game_countdown(integer),
+  start_game(),
+  start_next_game_cycle(),
+  draw_next_number(),
+  set_player_preference(text, text),
+  record_award(bigint, integer, integer, jsonb, boolean),
+  update_award(bigint, integer, integer, jsonb),
+  record_claim(text, text, boolean),
+  clear_invalid_claim(text),
+  trigger_reaction(text),
+  register_profile(text, text),
+  get_my_profile()
+to authenticated;
+
+revoke execute on function current_user_name() from public, anon, authenticated;
@@ -0,0 +1,499 @@
+-- Staff roles replace the hardcoded `admin` account. The same table lives in services/permissions.ts.
+--   owner: runs the room and manages the staff; host: co-host/caller; cashier: payments
+
+alter table users add column if not exists role text not null default 'player'
+  check (role in ('owner', 'host', 'cashier', 'player'));
+
+-- The old admin account becomes the owner; without one, the earliest player does
+update users set role = 'owner' where name = 'admin';
+update users set role = 'owner'
+where name = (select name from users order by created_at limit 1)
+  and not exists (select 1 from users where role = 'owner');
+
+create or replace function has_permission(p_permission text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce((
+    select case p_permission
+      when 'runGame' then role in ('owner', 'host')
+      when 'managePayments' then role in ('owner', 'cashier')
+      when 'manageRoles' then role = 'owner'
+      else false
+    end
+    from users where auth_user_id = auth.uid()
+  ), false);
+$$;
+
+create or replace function require_permission(p_permission text) returns void
+language plpgsql stable security definer set search_path = public as $$
+begin
+  if not has_permission(p_permission) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+end $$;
+
+-- The first account of a new room becomes its owner
+create or replace function register_profile(p_name text, p_pix_key text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null or current_user_name() is not null then return false; end if;
+
+  update users set auth_user_id = auth.uid(), pix_key = p_pix_key
+  where name = p_name and auth_user_id is null;
+  if not found then
+    begin
+      insert into users (name, pix_key, auth_user_id, role)
+      values (p_name, p_pix_key, auth.uid(),
+              case when exists (select 1 from users where role = 'owner') then 'player' else 'owner' end);
+    exception when unique_violation then
+      return false;
+    end;
+  end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- The owner can't be demoted here, so the room always keeps one
+create or replace function set_user_role(p_name text, p_role text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('manageRoles');
+  if p_role not in ('host', 'cashier', 'player') then return false; end if;
+
+  update users set role = p_role where name = p_name and role <> 'owner';
+  if not found then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Running the game is reserved to the owner and co-hosts
+
+create or replace function set_prize_pattern(p_prize_id integer, p_pattern text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update prizes set pattern = p_pattern where id = p_prize_id;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_tie_rule(p_tie_rule text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update settings set tie_rule = p_tie_rule;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_pre_game_countdown(p_countdown integer) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update rounds set pre_game_countdown = p_countdown where id = current_round_id();
+  perform touch_game_events();
+end $$;
+
+create or replace function start_game() returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update rounds set is_active = true, pre_game_countdown = null where id = current_round_id();
+  perform touch_game_events();
+end $$;
+
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = current_round_id();
+  insert into rounds (is_active, pre_game_countdown) values (false, 20);
+  perform touch_game_events();
+end $$;
+
+create or replace function draw_next_number() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+  v_number integer;
+begin
+  perform require_permission('runGame');
+
+  -- Row lock serializes concurrent draws of the same round
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return null;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  if v_count >= 75 then return null; end if;
+
+  select n into v_number
+  from generate_series(1, 75) n
+  where n not in (select number from draws where round_id = v_round.id)
+  order by random()
+  limit 1;
+
+  insert into draws (round_id, position, number) values (v_round.id, v_count + 1, v_number);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return v_number;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Claims and awards: checked here, so players can't record prizes for themselves
+-- ---------------------------------------------------------------------------
+
+-- Win patterns of services/patterns.ts: each mask lists the cells to mark (row * 5 + column)
+create table if not exists win_patterns (
+  id text primary key,
+  masks jsonb not null
+);
+alter table win_patterns enable row level security;
+
+insert into win_patterns (id, masks) values
+  ('line', '[
+    [0, 1, 2, 3, 4], [5, 6, 7, 8, 9], [10, 11, 12, 13, 14], [15, 16, 17, 18, 19], [20, 21, 22, 23, 24], [0, 5, 10, 15, 20],
+    [1, 6, 11, 16, 21], [2, 7, 12, 17, 22], [3, 8, 13, 18, 23], [4, 9, 14, 19, 24], [0, 6, 12, 18, 24], [4, 8, 12, 16, 20]]'),
+  ('fourCorners', '[[0, 4, 20, 24]]'),
+  ('x', '[[0, 4, 6, 8, 12, 16, 18, 20, 24]]'),
+  ('letterT', '[[0, 1, 2, 3, 4, 7, 12, 17, 22]]'),
+  ('letterL', '[[0, 5, 10, 15, 20, 21, 22, 23, 24]]'),
+  ('frame', '[[0, 1, 2, 3, 4, 5, 9, 10, 14, 15, 19, 20, 21, 22, 23, 24]]'),
+  ('postageStamp', '[[0, 1, 5, 6], [3, 4, 8, 9], [15, 16, 20, 21], [18, 19, 23, 24]]'),
+  ('full', '[[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24]]')
+on conflict (id) do nothing;
+
+-- Any two different lines at once (pairsOf in services/patterns.ts)
+insert into win_patterns (id, masks)
+select 'twoLines', (
+  select jsonb_agg(a.mask || b.mask order by a.i, b.i)
+  from jsonb_array_elements(line.masks) with ordinality a (mask, i),
+       jsonb_array_elements(line.masks) with ordinality b (mask, i)
+  where a.i < b.i)
+from win_patterns line where line.id = 'line'
+on conflict (id) do nothing;
+
+-- The card row by row, flattened: numbers and 'LIVRE' for the free space
+create or replace function card_cells(p_card_data jsonb) returns jsonb
+language sql immutable as $$
+  select jsonb_agg(p_card_data -> letter -> r order by r, c)
+  from unnest(array['B', 'I', 'N', 'G', 'O']) with ordinality letters (letter, c), generate_series(0, 4) r;
+$$;
+
+-- Whether every cell of one of the pattern's masks is marked by the drawn balls
+create or replace function card_completes_pattern(p_card_data jsonb, p_pattern text, p_drawn integer[]) returns boolean
+language sql stable set search_path = public as $$
+  select exists (
+    select 1
+    from win_patterns p, jsonb_array_elements(p.masks) mask, lateral (select card_cells(p_card_data) as cells) card
+    where p.id = p_pattern
+      and not exists (
+        select 1
+        from jsonb_array_elements_text(mask) cell,
+             lateral (select card.cells -> cell::integer as value) v
+        where v.value is null
+           or (jsonb_typeof(v.value) = 'number' and not (v.value::text::integer = any (p_drawn)))));
+$$;
+
+-- Winners, share and tie-break balls of a prize between `p_candidates` (same rules as
+-- services/awards.ts). Tie-break balls already drawn are kept so a late co-winner doesn't redo
+-- the draw-off.
+create or replace function resolve_tie(p_candidates jsonb, p_tie_rule text, p_value text, p_previous_balls jsonb)
+returns jsonb
+language plpgsql set search_path = public as $$
+declare
+  v_count integer := jsonb_array_length(p_candidates);
+  v_balls jsonb := coalesce(p_previous_balls, '{}'::jsonb);
+  v_card_id text;
+  v_amount numeric;
+begin
+  if v_count = 1 or p_tie_rule = 'firstClaim' then
+    return jsonb_build_object('winners', jsonb_build_array(p_candidates -> 0), 'shareValue', p_value);
+  end if;
+
+  if p_tie_rule = 'drawOff' then
+    for v_card_id in select c ->> 'cardId' from jsonb_array_elements(p_candidates) c loop
+      continue when v_balls ? v_card_id;
+      v_balls := v_balls || jsonb_build_object(v_card_id, (
+        select ball from generate_series(1, 75) ball
+        where ball not in (select value::integer from jsonb_each_text(v_balls))
+        order by random()
+        limit 1));
+    end loop;
+    return jsonb_build_object(
+      'winners', (select jsonb_build_array(c.value)
+                  from jsonb_array_elements(p_candidates) with ordinality c (value, i)
+                  order by (v_balls ->> (c.value ->> 'cardId'))::integer desc, c.i
+                  limit 1),
+      'shareValue', p_value,
+      'drawOffBalls', v_balls);
+  end if;
+
+  -- "R$ 500,00" split by 3 -> "R$ 166,66"; non-monetary prizes (e.g. "Extra") are just flagged as shared
+  v_amount := replace(nullif(regexp_replace(p_value, '[^0-9,]', '', 'g'), ''), ',', '.')::numeric;
+  return jsonb_build_object('winners', p_candidates, 'shareValue', case
+    when v_amount is null then p_value || ' (dividido por ' || v_count || ')'
+    else 'R$ ' || replace(to_char(floor(v_amount / v_count * 100) / 100, 'FM999999990.00'), '.', ',') end);
+end $$;
+
+-- Awards the prize in play to `p_candidates` on the current ball; the round ends with the last prize.
+-- The caller holds the round's row lock.
+create or replace function award_prize_in_play(p_round_id bigint, p_candidates jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win_count integer;
+  v_prize prizes%rowtype;
+  v_tie_rule text := (select tie_rule from settings);
+  v_is_final boolean;
+  v_award jsonb;
+  v_win_id bigint;
+begin
+  select count(*) into v_win_count from wins where round_id = p_round_id;
+  select * into v_prize from prizes order by position offset v_win_count limit 1;
+  if v_prize.id is null or coalesce(jsonb_array_length(p_candidates), 0) = 0 then return false; end if;
+  v_is_final := (select count(*) from prizes) <= v_win_count + 1;
+
+  v_award := jsonb_build_object('candidates', p_candidates) || resolve_tie(p_candidates, v_tie_rule, v_prize.value, null);
+  insert into wins (round_id, prize_id, prize_name, pattern, ball_count, tie_rule, share_value, is_final)
+  values (p_round_id, v_prize.id, v_prize.name, v_prize.pattern,
+          (select count(*) from draws where round_id = p_round_id), v_tie_rule, v_award ->> 'shareValue', v_is_final)
+  returning id into v_win_id;
+
+  perform save_win_cards(v_win_id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+
+  update rounds
+  set is_active = is_active and not v_is_final,
+      finished_at = case when v_is_final then now() else finished_at end,
+      invalid_claim_player = null,
+      invalid_claim_at = null
+  where id = p_round_id;
+  return true;
+end $$;
+
+-- Adds `p_co_winners` to the round's last prize, if no ball was drawn since it was decided and they
+-- aren't among its cards yet. Same lock as award_prize_in_play.
+create or replace function join_last_award(p_round_id bigint, p_co_winners jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win wins%rowtype;
+  v_candidates jsonb;
+  v_previous_winners jsonb;
+  v_previous_balls jsonb;
+  v_award jsonb;
+begin
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.id is null or v_win.tie_rule = 'firstClaim' or coalesce(jsonb_array_length(p_co_winners), 0) = 0
+     or v_win.ball_count <> (select count(*) from draws where round_id = p_round_id)
+     or exists (select 1 from jsonb_array_elements(p_co_winners) c
+                where c ->> 'cardId' in (select card_id from win_cards where win_id = v_win.id)) then
+    return false;
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('cardId', card_id, 'playerName', player_name) order by position), '[]'::jsonb)
+         || p_co_winners,
+         jsonb_object_agg(card_id, draw_off_ball) filter (where draw_off_ball is not null)
+  into v_candidates, v_previous_balls
+  from win_cards where win_id = v_win.id;
+  select coalesce(jsonb_agg(jsonb_build_object('playerName', player_name)), '[]'::jsonb)
+  into v_previous_winners
+  from win_cards where win_id = v_win.id and is_winner;
+
+  v_award := jsonb_build_object('candidates', v_candidates)
+    || resolve_tie(v_candidates, v_win.tie_rule,
+                   coalesce((select value from prizes where id = v_win.prize_id), v_win.share_value), v_previous_balls);
+  perform add_user_wins(v_previous_winners, -1);
+  perform save_win_cards(v_win.id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+  update wins set share_value = v_award ->> 'shareValue' where id = v_win.id;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = p_round_id;
+  return true;
+end $$;
+
+-- True if the card completes the prize in play, or the last prize on the ball that decided it; the
+-- card then wins it. A false claim is flagged until the player clears it; refused (false, nothing
+-- logged) while flagged and once the round is over.
+create or replace function claim_bingo(p_player_name text, p_card_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_card cards%rowtype;
+  v_drawn integer[];
+  v_last wins%rowtype;
+  v_winner jsonb;
+  v_is_valid boolean := false;
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  -- Same row lock as the draws: the claim is checked against the balls out when it is made
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_card from cards where id = p_card_id and round_id = v_round.id and owner = p_player_name;
+  if v_card.id is null or v_round.invalid_claim_player is not distinct from p_player_name then return false; end if;
+  v_drawn := array(select number from draws where round_id = v_round.id order by position);
+  v_winner := jsonb_build_array(jsonb_build_object('cardId', v_card.id, 'playerName', p_player_name));
+
+  -- A claim on the ball that decided the last prize joins it as a co-winner
+  select * into v_last from wins where round_id = v_round.id order by id desc limit 1;
+  if v_last.id is not null and card_completes_pattern(v_card.card_data, v_last.pattern, v_drawn) then
+    v_is_valid := join_last_award(v_round.id, v_winner);
+  end if;
+
+  if not v_is_valid then
+    if exists (select 1 from wins where round_id = v_round.id and is_final) then return false; end if;
+    -- Always checked against the prize currently in play
+    if card_completes_pattern(v_card.card_data,
+         (select pattern from prizes order by position offset (select count(*) from wins where round_id = v_round.id) limit 1),
+         v_drawn) then
+      v_is_valid := award_prize_in_play(v_round.id, v_winner);
+    end if;
+  end if;
+
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round.id, p_player_name, p_card_id, cardinality(v_drawn), v_is_valid);
+  if not v_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round.id;
+  end if;
+  perform touch_game_events();
+  return v_is_valid;
+end $$;
+
+-- Awards by hand are left to the staff: the caller only says which cards completed the prize, and
+-- the tie rule is applied here
+
+drop function if exists record_award(bigint, integer, integer, jsonb, boolean);
+drop function if exists update_award(bigint, integer, integer, jsonb);
+
+-- Refused if a prize was awarded or a ball drawn since the candidates were found
+create or replace function record_award(p_round_id bigint, p_expected_awards integer, p_ball_count integer, p_candidates jsonb)
+returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  perform 1 from rounds where id = p_round_id for update;
+  if not found or p_round_id <> current_round_id() then return false; end if;
+  if (select count(*) from wins where round_id = p_round_id) <> p_expected_awards then return false; end if;
+  if (select count(*) from draws where round_id = p_round_id) <> p_ball_count then return false; end if;
+  if not award_prize_in_play(p_round_id, p_candidates) then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function update_award(
+  p_round_id bigint,
+  p_prize_id integer,
+  p_expected_candidates integer,
+  p_ball_count integer,
+  p_co_winners jsonb
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_win wins%rowtype;
+begin
+  perform require_permission('runGame');
+  if p_round_id is distinct from current_round_id() then return false; end if;
+  perform 1 from rounds where id = p_round_id for update;
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.prize_id is distinct from p_prize_id or v_win.ball_count <> p_ball_count then return false; end if;
+  if (select count(*) from win_cards where win_id = v_win.id) <> p_expected_candidates then return false; end if;
+  if not join_last_award(p_round_id, p_co_winners) then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- A claim checked by the staff, logged under the card's owner
+create or replace function record_claim(p_player_name text, p_card_id text, p_is_valid boolean) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round_id, p_player_name, p_card_id, (select count(*) from draws where round_id = v_round_id), p_is_valid);
+  if not p_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round_id;
+  end if;
+  perform touch_game_events();
+end $$;
+
+-- Roles are public so every client knows who runs the room
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1)
+  );
+end $$;
+
+revoke execute on function has_permission(text), require_permission(text) from public, anon, authenticated;
+revoke execute on function set_user_role(text, text) from public, anon;
+grant execute on function set_user_role(text, text) to authenticated;
+revoke execute on function
+  claim_bingo(text, text),
+  record_award(bigint, integer, integer, jsonb),
+  update_award(bigint, integer, integer, integer, jsonb)
+from public, anon;
+grant execute on function
+  claim_bingo(text, text),
+  record_award(bigint, integer, integer, jsonb),
+  update_award(bigint, integer, integer, integer, jsonb)
+to authenticated;
+revoke execute on function
+  card_cells(jsonb),
+  card_completes_pattern(jsonb, text, integer[]),
+  resolve_tie(jsonb, text, text, jsonb),
+  award_prize_in_play(bigint, jsonb),
+  join_last_award(bigint, jsonb)
+from public, anon, authenticated;
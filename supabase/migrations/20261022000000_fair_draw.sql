@@ -0,0 +1,273 @@
+-- Commit-reveal draw (same rules as services/fairDraw.ts). Each round gets a secret seed whose
+-- sha256 is published before the round; the cards sold fix the public entropy when the game starts;
+-- balls come out in the order of sha256(seed:entropy:ball); the seed is revealed once the round is over.
+
+create or replace function new_draw_seed() returns text
+language sql volatile as $$
+  select encode(sha256(convert_to(gen_random_uuid()::text || gen_random_uuid()::text, 'UTF8')), 'hex');
+$$;
+
+create or replace function seed_hash(p_seed text) returns text
+language sql immutable as $$
+  select encode(sha256(convert_to(p_seed, 'UTF8')), 'hex');
+$$;
+
+-- Existing rounds get a seed too; their balls already drawn simply can't be verified
+alter table rounds add column if not exists server_seed text not null default new_draw_seed();
+alter table rounds add column if not exists public_entropy text;
+
+-- Ball order of a round: 1..75 by the bytes of sha256(seed:entropy:ball), then by ball
+create or replace function draw_order_key(p_seed text, p_entropy text, p_ball integer) returns bytea
+language sql immutable as $$
+  select sha256(convert_to(p_seed || ':' || coalesce(p_entropy, '') || ':' || p_ball, 'UTF8'));
+$$;
+
+create or replace function start_game() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  -- Card sales are over: the cards sold become the public entropy of the draw
+  update rounds set
+    is_active = true,
+    pre_game_countdown = null,
+    public_entropy = coalesce(public_entropy, (
+      select encode(sha256(convert_to(coalesce(string_agg(id, ',' order by id collate "C"), ''), 'UTF8')), 'hex')
+      from cards where round_id = v_round_id))
+  where id = v_round_id;
+  perform touch_game_events();
+end $$;
+
+create or replace function draw_next_number() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+  v_number integer;
+begin
+  perform require_permission('runGame');
+
+  -- Row lock serializes concurrent draws of the same round
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return null;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  if v_count >= 75 then return null; end if;
+
+  -- Next ball of the committed order (skipping any drawn before the round had a seed)
+  select n into v_number
+  from generate_series(1, 75) n
+  where n not in (select number from draws where round_id = v_round.id)
+  order by draw_order_key(v_round.server_seed, v_round.public_entropy, n), n
+  limit 1;
+
+  insert into draws (round_id, position, number) values (v_round.id, v_count + 1, v_number);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return v_number;
+end $$;
+
+-- Seeds stay hidden until their round is over
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Draw-off: the tie-break balls come from the round's seed too
+-- ---------------------------------------------------------------------------
+
+-- First `p_count` balls of 1..75 by the bytes of sha256(seed:entropy:drawOff:prize:ball), then by ball.
+-- A co-winner joining later takes the next ball, so the balls already drawn don't change.
+create or replace function draw_off_balls(p_seed text, p_entropy text, p_prize_id integer, p_count integer) returns integer[]
+language sql immutable as $$
+  select array(
+    select ball
+    from generate_series(1, 75) ball
+    order by sha256(convert_to(p_seed || ':' || coalesce(p_entropy, '') || ':drawOff:' || p_prize_id || ':' || ball, 'UTF8')), ball
+    limit p_count);
+$$;
+
+drop function if exists resolve_tie(jsonb, text, text, jsonb);
+
+-- Winners, share and tie-break balls of a prize between `p_candidates`, in the order they joined it
+-- (same rules as services/awards.ts)
+create or replace function resolve_tie(p_round_id bigint, p_prize_id integer, p_candidates jsonb, p_tie_rule text, p_value text)
+returns jsonb
+language plpgsql stable set search_path = public as $$
+declare
+  v_count integer := jsonb_array_length(p_candidates);
+  v_round rounds%rowtype;
+  v_balls integer[];
+  v_amount numeric;
+begin
+  if v_count = 1 or p_tie_rule = 'firstClaim' then
+    return jsonb_build_object('winners', jsonb_build_array(p_candidates -> 0), 'shareValue', p_value);
+  end if;
+
+  if p_tie_rule = 'drawOff' then
+    select * into v_round from rounds where id = p_round_id;
+    v_balls := draw_off_balls(v_round.server_seed, v_round.public_entropy, p_prize_id, v_count);
+    return jsonb_build_object(
+      'winners', (select jsonb_build_array(c.value)
+                  from jsonb_array_elements(p_candidates) with ordinality c (value, i)
+                  order by coalesce(v_balls[c.i], 0) desc, c.i
+                  limit 1),
+      'shareValue', p_value,
+      'drawOffBalls', (select jsonb_object_agg(c.value ->> 'cardId', coalesce(v_balls[c.i], 0))
+                       from jsonb_array_elements(p_candidates) with ordinality c (value, i)));
+  end if;
+
+  -- "R$ 500,00" split by 3 -> "R$ 166,66"; non-monetary prizes (e.g. "Extra") are just flagged as shared
+  v_amount := replace(nullif(regexp_replace(p_value, '[^0-9,]', '', 'g'), ''), ',', '.')::numeric;
+  return jsonb_build_object('winners', p_candidates, 'shareValue', case
+    when v_amount is null then p_value || ' (dividido por ' || v_count || ')'
+    else 'R$ ' || replace(to_char(floor(v_amount / v_count * 100) / 100, 'FM999999990.00'), '.', ',') end);
+end $$;
+
+-- Same as before, with the seeded draw-off
+create or replace function award_prize_in_play(p_round_id bigint, p_candidates jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win_count integer;
+  v_prize prizes%rowtype;
+  v_tie_rule text := (select tie_rule from settings);
+  v_is_final boolean;
+  v_award jsonb;
+  v_win_id bigint;
+begin
+  select count(*) into v_win_count from wins where round_id = p_round_id;
+  select * into v_prize from prizes order by position offset v_win_count limit 1;
+  if v_prize.id is null or coalesce(jsonb_array_length(p_candidates), 0) = 0 then return false; end if;
+  v_is_final := (select count(*) from prizes) <= v_win_count + 1;
+
+  v_award := jsonb_build_object('candidates', p_candidates)
+    || resolve_tie(p_round_id, v_prize.id, p_candidates, v_tie_rule, v_prize.value);
+  insert into wins (round_id, prize_id, prize_name, pattern, ball_count, tie_rule, share_value, is_final)
+  values (p_round_id, v_prize.id, v_prize.name, v_prize.pattern,
+          (select count(*) from draws where round_id = p_round_id), v_tie_rule, v_award ->> 'shareValue', v_is_final)
+  returning id into v_win_id;
+
+  perform save_win_cards(v_win_id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+
+  update rounds
+  set is_active = is_active and not v_is_final,
+      finished_at = case when v_is_final then now() else finished_at end,
+      invalid_claim_player = null,
+      invalid_claim_at = null
+  where id = p_round_id;
+  return true;
+end $$;
+
+create or replace function join_last_award(p_round_id bigint, p_co_winners jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win wins%rowtype;
+  v_candidates jsonb;
+  v_previous_winners jsonb;
+  v_award jsonb;
+begin
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.id is null or v_win.tie_rule = 'firstClaim' or coalesce(jsonb_array_length(p_co_winners), 0) = 0
+     or v_win.ball_count <> (select count(*) from draws where round_id = p_round_id)
+     or exists (select 1 from jsonb_array_elements(p_co_winners) c
+                where c ->> 'cardId' in (select card_id from win_cards where win_id = v_win.id)) then
+    return false;
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('cardId', card_id, 'playerName', player_name) order by position), '[]'::jsonb)
+         || p_co_winners
+  into v_candidates
+  from win_cards where win_id = v_win.id;
+  select coalesce(jsonb_agg(jsonb_build_object('playerName', player_name)), '[]'::jsonb)
+  into v_previous_winners
+  from win_cards where win_id = v_win.id and is_winner;
+
+  v_award := jsonb_build_object('candidates', v_candidates)
+    || resolve_tie(p_round_id, v_win.prize_id, v_candidates, v_win.tie_rule,
+                   coalesce((select value from prizes where id = v_win.prize_id), v_win.share_value));
+  perform add_user_wins(v_previous_winners, -1);
+  perform save_win_cards(v_win.id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+  update wins set share_value = v_award ->> 'shareValue' where id = v_win.id;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = p_round_id;
+  return true;
+end $$;
+
+revoke execute on function new_draw_seed(), seed_hash(text), draw_order_key(text, text, integer) from public, anon, authenticated;
+revoke execute on function
+  draw_off_balls(text, text, integer, integer),
+  resolve_tie(bigint, integer, jsonb, text, text)
+from public, anon, authenticated;
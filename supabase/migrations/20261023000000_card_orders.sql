@@ -0,0 +1,227 @@
+-- Card sales through PIX orders (same rules as the reducer in services/gameReducer.ts). A player
+-- creates an order priced by the server; its cards only join the round once a cashier confirms
+-- the payment. Handing out cards directly is now a cashier action too.
+
+alter table settings add column if not exists pix_key text;
+alter table settings add column if not exists pix_name text;
+alter table settings add column if not exists pix_city text;
+
+create table if not exists card_orders (
+  -- Also the txid of the PIX charge
+  id text primary key check (id ~ '^[A-Za-z0-9]{1,25}$'),
+  -- Round the cards join; moved to the current round when a carried-over order is confirmed
+  round_id bigint not null references rounds (id) on delete cascade,
+  player_name text not null references users (name) on delete cascade,
+  cards jsonb not null,
+  amount numeric(10, 2) not null,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'cancelled')),
+  created_at timestamptz not null default now(),
+  confirmed_by text,
+  confirmed_at timestamptz
+);
+create index if not exists card_orders_round_id_idx on card_orders (round_id);
+
+alter table card_orders enable row level security;
+
+-- Same price table as services/pricing.ts: a pair costs less than two singles
+create or replace function order_price(p_quantity integer) returns numeric
+language sql immutable as $$
+  select (p_quantity / 2) * 30.00 + (p_quantity % 2) * 20.00;
+$$;
+
+create or replace function add_cards(p_cards jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+  from jsonb_array_elements(p_cards) c;
+  perform touch_game_events();
+end $$;
+
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  select * into v_round from rounds where id = current_round_id();
+  if v_round.is_active or jsonb_array_length(p_cards) = 0 then
+    return false;
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount)
+  values (p_order_id, v_round.id, p_player_name, p_cards, order_price(jsonb_array_length(p_cards)))
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function confirm_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_order card_orders%rowtype;
+begin
+  perform require_permission('managePayments');
+
+  select * into v_order from card_orders where id = p_order_id for update;
+  if v_order.status is distinct from 'pending' then
+    return false;
+  end if;
+
+  update card_orders set
+    status = 'paid',
+    round_id = current_round_id(),
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id;
+
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+  from jsonb_array_elements(v_order.cards) c
+  on conflict (id) do nothing;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function cancel_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update card_orders set
+    status = 'cancelled',
+    round_id = current_round_id(),
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id and status = 'pending';
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_pix_receiver(p_key text, p_name text, p_city text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update settings set pix_key = nullif(trim(p_key), ''), pix_name = p_name, pix_city = p_city;
+  perform touch_game_events();
+end $$;
+
+-- Cards paid for a round nobody has played yet would be lost: that round has to be played first
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  perform 1 from rounds where id = v_round_id for update;
+  if not exists (select 1 from draws where round_id = v_round_id)
+     and exists (select 1 from card_orders where round_id = v_round_id and status = 'paid') then
+    return;
+  end if;
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = v_round_id;
+  insert into rounds (is_active, pre_game_countdown) values (false, 20);
+  perform touch_game_events();
+end $$;
+
+-- Orders and the PIX receiver join the shared state
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by) order by created_at, id)
+                            from card_orders where status = 'pending' or round_id = v_round.id), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+revoke execute on function order_price(integer) from public, anon, authenticated;
+revoke execute on function
+  create_order(text, text, jsonb),
+  confirm_order(text),
+  cancel_order(text),
+  set_pix_receiver(text, text, text)
+from public, anon;
+grant execute on function
+  create_order(text, text, jsonb),
+  confirm_order(text),
+  cancel_order(text),
+  set_pix_receiver(text, text, text)
+to authenticated;
@@ -0,0 +1,187 @@
+-- Price tables and the prize ladder become editable from the admin panel (same rules as
+-- services/pricing.ts and the reducer). A round can override the regular price table.
+
+alter table settings add column if not exists price_table jsonb not null
+  default '[{"quantity": 1, "price": 20}, {"quantity": 2, "price": 30}]'::jsonb;
+alter table rounds add column if not exists price_table jsonb;
+
+create or replace function is_valid_price_table(p_table jsonb) returns boolean
+language sql immutable as $$
+  select jsonb_typeof(p_table) = 'array'
+    and exists (select 1 from jsonb_array_elements(p_table) b where b->>'quantity' = '1')
+    and not exists (
+      select 1 from jsonb_array_elements(p_table) b
+      where jsonb_typeof(b->'quantity') <> 'number' or jsonb_typeof(b->'price') <> 'number'
+         or (b->>'quantity')::numeric <> trunc((b->>'quantity')::numeric) or (b->>'quantity')::numeric < 1
+         or (b->>'price')::numeric < 0)
+    and (select count(distinct b->>'quantity') = count(*) from jsonb_array_elements(p_table) b);
+$$;
+
+-- Cheapest way to buy exactly p_quantity cards by combining the table's bundles
+drop function if exists order_price(integer);
+create or replace function order_price(p_quantity integer, p_table jsonb) returns numeric
+language plpgsql immutable as $$
+declare
+  v_cheapest numeric[] := array[0];
+  v_best numeric;
+begin
+  for n in 1..p_quantity loop
+    select min(v_cheapest[n - (b->>'quantity')::integer + 1] + (b->>'price')::numeric) into v_best
+    from jsonb_array_elements(p_table) b
+    where (b->>'quantity')::integer <= n;
+    v_cheapest := v_cheapest || v_best;
+  end loop;
+  return round(v_cheapest[p_quantity + 1], 2);
+end $$;
+
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  select * into v_round from rounds where id = current_round_id();
+  if v_round.is_active or jsonb_array_length(p_cards) = 0 then
+    return false;
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount)
+  values (p_order_id, v_round.id, p_player_name, p_cards, order_price(jsonb_array_length(p_cards), coalesce(v_round.price_table, (select price_table from settings))))
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_price_table(p_price_table jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  if not is_valid_price_table(p_price_table) then return false; end if;
+  update settings set price_table = p_price_table;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- null goes back to the regular table
+create or replace function set_round_price_table(p_price_table jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  if p_price_table is not null and jsonb_typeof(p_price_table) <> 'null' and not is_valid_price_table(p_price_table) then
+    return false;
+  end if;
+  update rounds set price_table = nullif(p_price_table, 'null'::jsonb) where id = current_round_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Replaces the whole ladder; refused while a game is running
+create or replace function set_prizes(p_prizes jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if (select is_active from rounds where id = current_round_id())
+     or jsonb_array_length(p_prizes) = 0
+     or (select count(distinct p->>'id') <> count(*) from jsonb_array_elements(p_prizes) p) then
+    return false;
+  end if;
+
+  delete from prizes where true;
+  insert into prizes (id, position, name, value, pattern)
+  select (p->>'id')::integer, position, p->>'name', p->>'value', p->>'pattern'
+  from jsonb_array_elements(p_prizes) with ordinality as t (p, position);
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Price tables join the shared state
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'name', name, 'value', value, 'pattern', pattern) order by position) from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by) order by created_at, id)
+                            from card_orders where status = 'pending' or round_id = v_round.id), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+revoke execute on function is_valid_price_table(jsonb), order_price(integer, jsonb) from public, anon, authenticated;
+revoke execute on function set_price_table(jsonb), set_round_price_table(jsonb), set_prizes(jsonb) from public, anon;
+grant execute on function set_price_table(jsonb), set_round_price_table(jsonb), set_prizes(jsonb) to authenticated;
@@ -0,0 +1,296 @@
+-- Prize pool accounting (same rules as services/ledger.ts). Closing a round records its sales,
+-- the charity's share and what each winner is owed; cashiers mark the payouts as paid. Only staff
+-- handling payments can read the ledger, since it lists the winners' PIX keys.
+
+alter table prizes add column if not exists pool_percent numeric check (pool_percent between 0 and 100);
+alter table settings add column if not exists charity_percent numeric not null default 0
+  check (charity_percent between 0 and 100);
+
+create table if not exists round_ledgers (
+  round_id bigint primary key references rounds (id) on delete cascade,
+  finished_at timestamptz not null default now(),
+  cards_sold integer not null,
+  revenue numeric(10, 2) not null,
+  charity_percent numeric not null,
+  charity_amount numeric(10, 2) not null,
+  prizes_total numeric(10, 2) not null
+);
+
+create table if not exists prize_payouts (
+  id text primary key,
+  round_id bigint not null references rounds (id) on delete cascade,
+  prize_name text not null,
+  player_name text not null,
+  card_id text not null,
+  -- null for non-cash prizes
+  amount numeric(10, 2),
+  description text not null,
+  status text not null default 'pending' check (status in ('pending', 'paid')),
+  paid_by text,
+  paid_at timestamptz
+);
+create index if not exists prize_payouts_round_id_idx on prize_payouts (round_id);
+
+alter table round_ledgers enable row level security;
+alter table prize_payouts enable row level security;
+
+create or replace function money_text(p_amount numeric) returns text
+language sql immutable as $$
+  select 'R$ ' || replace(to_char(p_amount, 'FM999999990.00'), '.', ',');
+$$;
+
+-- "R$ 1.234,56" -> 1234.56; anything not in reais (e.g. "Extra") is not money
+create or replace function parse_money(p_value text) returns numeric
+language sql immutable as $$
+  select case when position('R$' in p_value) > 0
+    then replace(nullif(regexp_replace(p_value, '[^0-9,]', '', 'g'), ''), ',', '.')::numeric end;
+$$;
+
+-- Splits a prize with the same money rules as the ledger
+create or replace function resolve_tie(p_round_id bigint, p_prize_id integer, p_candidates jsonb, p_tie_rule text, p_value text)
+returns jsonb
+language plpgsql stable set search_path = public as $$
+declare
+  v_count integer := jsonb_array_length(p_candidates);
+  v_round rounds%rowtype;
+  v_balls integer[];
+  v_amount numeric;
+begin
+  if v_count = 1 or p_tie_rule = 'firstClaim' then
+    return jsonb_build_object('winners', jsonb_build_array(p_candidates -> 0), 'shareValue', p_value);
+  end if;
+
+  if p_tie_rule = 'drawOff' then
+    select * into v_round from rounds where id = p_round_id;
+    v_balls := draw_off_balls(v_round.server_seed, v_round.public_entropy, p_prize_id, v_count);
+    return jsonb_build_object(
+      'winners', (select jsonb_build_array(c.value)
+                  from jsonb_array_elements(p_candidates) with ordinality c (value, i)
+                  order by coalesce(v_balls[c.i], 0) desc, c.i
+                  limit 1),
+      'shareValue', p_value,
+      'drawOffBalls', (select jsonb_object_agg(c.value ->> 'cardId', coalesce(v_balls[c.i], 0))
+                       from jsonb_array_elements(p_candidates) with ordinality c (value, i)));
+  end if;
+
+  -- "R$ 500,00" split by 3 -> "R$ 166,66"; non-monetary prizes are just flagged as shared
+  v_amount := parse_money(p_value);
+  return jsonb_build_object('winners', p_candidates, 'shareValue', case
+    when v_amount is null then p_value || ' (dividido por ' || v_count || ')'
+    else money_text(floor(v_amount / v_count * 100) / 100) end);
+end $$;
+
+create or replace function round_revenue(p_round_id bigint) returns numeric
+language sql stable as $$
+  select coalesce(sum(amount), 0) from card_orders where round_id = p_round_id and status = 'paid';
+$$;
+
+create or replace function start_game() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  -- Card sales are over: the cards sold become the public entropy of the draw
+  update rounds set
+    is_active = true,
+    pre_game_countdown = null,
+    public_entropy = coalesce(public_entropy, (
+      select encode(sha256(convert_to(coalesce(string_agg(id, ',' order by id collate "C"), ''), 'UTF8')), 'hex')
+      from cards where round_id = v_round_id))
+  where id = v_round_id;
+  -- ...and percentage prizes become fixed amounts
+  update prizes set value = money_text(round(round_revenue(v_round_id) * pool_percent / 100, 2))
+  where pool_percent is not null;
+  perform touch_game_events();
+end $$;
+
+create or replace function close_round_ledger(p_round_id bigint) returns void
+language plpgsql as $$
+declare
+  v_revenue numeric := round_revenue(p_round_id);
+  v_charity_percent numeric := (select charity_percent from settings);
+begin
+  if exists (select 1 from round_ledgers where round_id = p_round_id) then return; end if;
+
+  insert into prize_payouts (id, round_id, prize_name, player_name, card_id, amount, description)
+  select p_round_id || ':' || w.prize_id || ':' || wc.card_id, p_round_id, w.prize_name, wc.player_name, wc.card_id,
+         parse_money(w.share_value), w.share_value
+  from wins w join win_cards wc on wc.win_id = w.id
+  where w.round_id = p_round_id and wc.is_winner;
+
+  insert into round_ledgers (round_id, cards_sold, revenue, charity_percent, charity_amount, prizes_total)
+  values (
+    p_round_id,
+    (select count(*) from cards where round_id = p_round_id),
+    v_revenue,
+    v_charity_percent,
+    round(v_revenue * v_charity_percent / 100, 2),
+    (select coalesce(sum(amount), 0) from prize_payouts where round_id = p_round_id));
+end $$;
+
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  perform 1 from rounds where id = v_round_id for update;
+  -- Cards paid for a round nobody has played yet would be lost
+  if not exists (select 1 from draws where round_id = v_round_id)
+     and exists (select 1 from card_orders where round_id = v_round_id and status = 'paid') then
+    return;
+  end if;
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = v_round_id;
+  perform close_round_ledger(v_round_id);
+  -- Percentage prizes go back to showing the share for the next round's sales
+  update prizes set value = pool_percent || '% do arrecadado' where pool_percent is not null;
+  insert into rounds (is_active, pre_game_countdown) values (false, 20);
+  perform touch_game_events();
+end $$;
+
+create or replace function set_prizes(p_prizes jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if (select is_active from rounds where id = current_round_id())
+     or jsonb_array_length(p_prizes) = 0
+     or exists (select 1 from jsonb_array_elements(p_prizes) p
+                where p ? 'poolPercent' and not (p->>'poolPercent')::numeric between 0 and 100)
+     or (select count(distinct p->>'id') <> count(*) from jsonb_array_elements(p_prizes) p) then
+    return false;
+  end if;
+
+  delete from prizes where true;
+  insert into prizes (id, position, name, value, pattern, pool_percent)
+  select (p->>'id')::integer, position, p->>'name', p->>'value', p->>'pattern', (p->>'poolPercent')::numeric
+  from jsonb_array_elements(p_prizes) with ordinality as t (p, position);
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_charity_percent(p_percent numeric) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  if p_percent is null or p_percent not between 0 and 100 then return false; end if;
+  update settings set charity_percent = p_percent;
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function get_payout_ledger() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  return jsonb_build_object(
+    'rounds', coalesce((select jsonb_agg(jsonb_build_object(
+                'roundId', round_id, 'finishedAt', epoch_ms(finished_at), 'cardsSold', cards_sold, 'revenue', revenue,
+                'charityPercent', charity_percent, 'charityAmount', charity_amount, 'prizesTotal', prizes_total) order by round_id)
+              from round_ledgers), '[]'::jsonb),
+    'payouts', coalesce((select jsonb_agg(jsonb_build_object(
+                 'id', p.id, 'roundId', p.round_id, 'prizeName', p.prize_name, 'playerName', p.player_name, 'cardId', p.card_id,
+                 'amount', p.amount, 'description', p.description, 'pixKey', u.pix_key, 'status', p.status,
+                 'paidBy', p.paid_by, 'paidAt', epoch_ms(p.paid_at)) order by p.round_id, p.id)
+               from prize_payouts p left join users u on u.name = p.player_name), '[]'::jsonb)
+  );
+end $$;
+
+create or replace function mark_payout_paid(p_payout_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update prize_payouts set status = 'paid', paid_by = current_user_name(), paid_at = now()
+  where id = p_payout_id and status = 'pending';
+  return found;
+end $$;
+
+-- Prize percentages and the charity share join the shared state
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings),
+    'charityPercent', (select charity_percent from settings),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by) order by created_at, id)
+                            from card_orders where status = 'pending' or round_id = v_round.id), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+revoke execute on function money_text(numeric), parse_money(text), round_revenue(bigint), close_round_ledger(bigint)
+from public, anon, authenticated;
+revoke execute on function set_charity_percent(numeric), get_payout_ledger(), mark_payout_paid(text) from public, anon;
+grant execute on function set_charity_percent(numeric), get_payout_ledger(), mark_payout_paid(text) to authenticated;
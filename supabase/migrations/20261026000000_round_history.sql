@@ -0,0 +1,166 @@
+-- Round history (same archive as services/history.ts). A round's rows are never deleted, so the
+-- archive of a finished round is read straight from them; only the draw times and the claims are
+-- new in the shared state.
+
+create or replace function round_claims(p_round_id bigint) returns jsonb
+language sql stable as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'playerName', user_name, 'cardId', card_id, 'ballCount', ball_count, 'isValid', is_valid,
+           'timestamp', epoch_ms(created_at)) order by id), '[]'::jsonb)
+  from claims where round_id = p_round_id;
+$$;
+
+-- Same shape as the awardedPrizes of get_game_state
+create or replace function round_awards(p_round_id bigint) returns jsonb
+language sql stable as $$
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  from wins w where w.round_id = p_round_id;
+$$;
+
+-- Rounds before the current one with at least one ball drawn
+create or replace function archived_round_summary(p_round rounds) returns jsonb
+language sql stable as $$
+  select jsonb_build_object(
+    'roundId', p_round.id,
+    'finishedAt', epoch_ms(coalesce(p_round.finished_at, p_round.created_at)),
+    'cardCount', (select count(*) from cards where round_id = p_round.id),
+    'ballCount', (select count(*) from draws where round_id = p_round.id),
+    'winners', coalesce((select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                         from wins w join win_cards wc on wc.win_id = w.id
+                         where w.round_id = p_round.id and w.is_final and wc.is_winner), '[]'::jsonb));
+$$;
+
+create or replace function get_round_history() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(archived_round_summary(r) order by r.id desc), '[]'::jsonb)
+  from rounds r
+  where r.id < current_round_id() and exists (select 1 from draws where round_id = r.id);
+$$;
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                       from cards where round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb)));
+end $$;
+
+-- Draw times and claims join the shared state
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', name, 'role', role) order by created_at) from users), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(name order by name) from users where is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(name, wins) from users where wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings),
+    'charityPercent', (select charity_percent from settings),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by) order by created_at, id)
+                            from card_orders where status = 'pending' or round_id = v_round.id), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+revoke execute on function round_claims(bigint), round_awards(bigint), archived_round_summary(rounds) from public, anon, authenticated;
+-- Visitors can browse the history, like they can watch the game
+grant execute on function get_round_history(), get_round_archive(bigint) to anon, authenticated;
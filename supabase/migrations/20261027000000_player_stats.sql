@@ -0,0 +1,11 @@
+-- Player statistics are worked out in the browser (services/stats.ts), which needs every
+-- archived round at once.
+
+create or replace function get_round_archives() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(get_round_archive(r.id) order by r.id), '[]'::jsonb)
+  from rounds r
+  where r.id < current_round_id() and exists (select 1 from draws where round_id = r.id);
+$$;
+
+grant execute on function get_round_archives() to anon, authenticated;
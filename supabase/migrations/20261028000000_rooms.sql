@@ -0,0 +1,764 @@
+-- Rooms: several games run side by side, each with its own players, staff, prizes, prices, rounds
+-- and ledger (same rules as services/rooms.ts). Every call names its room in the `x-bingo-room`
+-- request header (services/supabaseStore.ts), read back by current_room_id(), so the functions
+-- keep their signatures. Accounts stay global; roles, online status and wins belong to a room.
+
+create table if not exists rooms (
+  -- Also the join code
+  id text primary key check (id ~ '^[A-Z0-9]{4,12}$'),
+  name text not null check (length(name) between 1 and 40),
+  host_name text references users (name) on delete set null,
+  -- Private rooms are left out of the lobby and can only be joined by code
+  is_public boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists room_members (
+  room_id text not null references rooms (id) on delete cascade,
+  user_name text not null references users (name) on delete cascade,
+  role text not null default 'player' check (role in ('owner', 'host', 'cashier', 'player')),
+  is_online boolean not null default false,
+  wins integer not null default 0,
+  joined_at timestamptz not null default now(),
+  primary key (room_id, user_name)
+);
+
+alter table rooms enable row level security;
+alter table room_members enable row level security;
+
+-- The game from before rooms becomes the legacy room, with every player in it
+insert into rooms (id, name, host_name)
+select 'FABAO', 'Bingo do Fabão', (select name from users where role = 'owner' order by created_at limit 1)
+on conflict do nothing;
+
+insert into room_members (room_id, user_name, role, is_online, wins, joined_at)
+select 'FABAO', name, role, is_online, wins, created_at from users
+on conflict do nothing;
+
+alter table users drop column if exists role;
+alter table users drop column if exists is_online;
+alter table users drop column if exists wins;
+
+-- Settings, the prize ladder, rounds and change notifications are per room; everything else
+-- hangs off a round
+alter table settings add column if not exists room_id text references rooms (id) on delete cascade;
+update settings set room_id = 'FABAO' where room_id is null;
+alter table settings drop constraint if exists settings_pkey;
+alter table settings drop column if exists id;
+alter table settings alter column room_id set not null;
+alter table settings add primary key (room_id);
+
+alter table prizes add column if not exists room_id text references rooms (id) on delete cascade;
+update prizes set room_id = 'FABAO' where room_id is null;
+alter table prizes alter column room_id set not null;
+alter table prizes drop constraint if exists prizes_pkey;
+alter table prizes drop constraint if exists prizes_position_key;
+alter table prizes add primary key (room_id, id);
+alter table prizes add unique (room_id, position);
+
+alter table rounds add column if not exists room_id text references rooms (id) on delete cascade;
+update rounds set room_id = 'FABAO' where room_id is null;
+alter table rounds alter column room_id set not null;
+create index if not exists rounds_room_id_idx on rounds (room_id, id);
+
+-- Clients listen to their room's row only
+alter table game_events add column if not exists room_id text references rooms (id) on delete cascade;
+update game_events set room_id = 'FABAO' where room_id is null;
+alter table game_events drop constraint if exists game_events_pkey;
+alter table game_events drop column if exists id;
+alter table game_events alter column room_id set not null;
+alter table game_events add primary key (room_id);
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+-- Room named by the request, or null
+create or replace function current_room_id() returns text
+language sql stable as $$
+  select nullif(current_setting('request.headers', true), '')::json->>'x-bingo-room';
+$$;
+
+create or replace function current_round_id() returns bigint
+language sql stable set search_path = public as $$
+  select max(id) from rounds where room_id = current_room_id();
+$$;
+
+create or replace function touch_game_events() returns void
+language sql set search_path = public as $$
+  update game_events set version = version + 1, updated_at = now() where room_id = current_room_id();
+$$;
+
+-- The signed-in account, whichever room the request is about
+create or replace function current_account_name() returns text
+language sql stable security definer set search_path = public as $$
+  select name from users where auth_user_id = auth.uid();
+$$;
+
+-- Name of the player signed in on this request, as long as they joined its room: every action
+-- a player takes for themselves is limited to the rooms they are in
+create or replace function current_user_name() returns text
+language sql stable security definer set search_path = public as $$
+  select m.user_name from room_members m
+  where m.room_id = current_room_id() and m.user_name = current_account_name();
+$$;
+
+create or replace function has_permission(p_permission text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce((
+    select case p_permission
+      when 'runGame' then role in ('owner', 'host')
+      when 'managePayments' then role in ('owner', 'cashier')
+      when 'manageRoles' then role = 'owner'
+      else false
+    end
+    from room_members where room_id = current_room_id() and user_name = current_account_name()
+  ), false);
+$$;
+
+create or replace function add_user_wins(p_winners jsonb, p_delta integer) returns void
+language sql set search_path = public as $$
+  update room_members m
+  set wins = greatest(0, m.wins + p_delta * w.total)
+  from (
+    select value->>'playerName' as name, count(*) as total
+    from jsonb_array_elements(p_winners)
+    group by 1
+  ) w
+  where m.room_id = current_room_id() and m.user_name = w.name;
+$$;
+
+-- Same alphabet as services/rooms.ts: no 0/O or 1/I
+create or replace function new_room_code() returns text
+language sql volatile as $$
+  select string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + get_byte(r.bytes, i) % 32, 1), '' order by i)
+  from (select sha256(convert_to(gen_random_uuid()::text, 'UTF8')) as bytes) r, generate_series(0, 5) i;
+$$;
+
+-- Same shape as RoomListing in types.ts
+create or replace function room_listing(p_room rooms) returns jsonb
+language sql stable set search_path = public as $$
+  select jsonb_build_object(
+    'id', p_room.id,
+    'name', p_room.name,
+    'hostName', coalesce(p_room.host_name, ''),
+    'isPublic', p_room.is_public,
+    'createdAt', epoch_ms(p_room.created_at),
+    'onlineCount', (select count(*) from room_members where room_id = p_room.id and is_online),
+    'isGameActive', coalesce((select is_active from rounds where room_id = p_room.id order by id desc limit 1), false),
+    'roundId', (select max(id) from rounds where room_id = p_room.id));
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Rooms
+-- ---------------------------------------------------------------------------
+
+-- The lobby: public rooms, newest first
+create or replace function list_rooms() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(room_listing(r) order by r.created_at desc), '[]'::jsonb)
+  from rooms r where r.is_public;
+$$;
+
+create or replace function find_room(p_code text) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select room_listing(r) from rooms r where r.id = upper(trim(p_code));
+$$;
+
+-- Opens a room owned by the signed-in player, with the default prize ladder and its first round
+create or replace function create_room(p_name text, p_is_public boolean) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_host text := current_account_name();
+  v_id text;
+  v_room rooms%rowtype;
+begin
+  if v_host is null or length(trim(coalesce(p_name, ''))) not between 1 and 40 then return null; end if;
+
+  loop
+    v_id := new_room_code();
+    exit when not exists (select 1 from rooms where id = v_id);
+  end loop;
+
+  insert into rooms (id, name, host_name, is_public) values (v_id, trim(p_name), v_host, coalesce(p_is_public, true))
+  returning * into v_room;
+  insert into room_members (room_id, user_name, role) values (v_id, v_host, 'owner');
+  insert into settings (room_id) values (v_id);
+  insert into game_events (room_id) values (v_id);
+  insert into prizes (room_id, id, position, name, value, pattern) values
+    (v_id, 1, 1, '1º Prêmio', 'R$ 500,00', 'line'),
+    (v_id, 2, 2, '2º Prêmio', 'R$ 300,00', 'twoLines'),
+    (v_id, 3, 3, '3º Prêmio', 'R$ 200,00', 'x'),
+    (v_id, 4, 4, '4º Prêmio', 'R$ 150,00', 'frame'),
+    (v_id, 5, 5, '5º Prêmio', 'Extra', 'full');
+  insert into rounds (room_id) values (v_id);
+  return room_listing(v_room);
+end $$;
+
+-- Joins the room as a player the first time
+create or replace function enter_room(p_room_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_name text := current_account_name();
+begin
+  if v_name is null or not exists (select 1 from rooms where id = p_room_id) then return false; end if;
+  insert into room_members (room_id, user_name) values (p_room_id, v_name) on conflict do nothing;
+  if found then
+    update game_events set version = version + 1, updated_at = now() where room_id = p_room_id;
+  end if;
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Accounts and staff
+-- ---------------------------------------------------------------------------
+
+-- Accounts no longer get a role: they join rooms, and whoever creates a room owns it
+create or replace function register_profile(p_name text, p_pix_key text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null or current_account_name() is not null then return false; end if;
+
+  update users set auth_user_id = auth.uid(), pix_key = p_pix_key
+  where name = p_name and auth_user_id is null;
+  if not found then
+    begin
+      insert into users (name, pix_key, auth_user_id) values (p_name, p_pix_key, auth.uid());
+    exception when unique_violation then
+      return false;
+    end;
+  end if;
+  return true;
+end $$;
+
+create or replace function set_user_online(p_name text, p_online boolean) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  update room_members set is_online = p_online
+  where room_id = current_room_id() and user_name = p_name and is_online <> p_online;
+  if found then perform touch_game_events(); end if;
+end $$;
+
+-- The owner can't be demoted here, so the room always keeps one
+create or replace function set_user_role(p_name text, p_role text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('manageRoles');
+  if p_role not in ('host', 'cashier', 'player') then return false; end if;
+
+  update room_members set role = p_role where room_id = current_room_id() and user_name = p_name and role <> 'owner';
+  if not found then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Settings and the prize ladder of the request's room
+-- ---------------------------------------------------------------------------
+
+create or replace function set_prize_pattern(p_prize_id integer, p_pattern text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update prizes set pattern = p_pattern where room_id = current_room_id() and id = p_prize_id;
+  perform touch_game_events();
+end $$;
+
+create or replace function set_tie_rule(p_tie_rule text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update settings set tie_rule = p_tie_rule where room_id = current_room_id();
+  perform touch_game_events();
+end $$;
+
+create or replace function set_pix_receiver(p_key text, p_name text, p_city text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update settings set pix_key = nullif(trim(p_key), ''), pix_name = p_name, pix_city = p_city
+  where room_id = current_room_id();
+  perform touch_game_events();
+end $$;
+
+create or replace function set_price_table(p_price_table jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  if not is_valid_price_table(p_price_table) then return false; end if;
+  update settings set price_table = p_price_table where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_charity_percent(p_percent numeric) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  if p_percent is null or p_percent not between 0 and 100 then return false; end if;
+  update settings set charity_percent = p_percent where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_prizes(p_prizes jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if (select is_active from rounds where id = current_round_id())
+     or jsonb_array_length(p_prizes) = 0
+     or exists (select 1 from jsonb_array_elements(p_prizes) p
+                where p ? 'poolPercent' and not (p->>'poolPercent')::numeric between 0 and 100)
+     or (select count(distinct p->>'id') <> count(*) from jsonb_array_elements(p_prizes) p) then
+    return false;
+  end if;
+
+  delete from prizes where room_id = current_room_id();
+  insert into prizes (room_id, id, position, name, value, pattern, pool_percent)
+  select current_room_id(), (p->>'id')::integer, position, p->>'name', p->>'value', p->>'pattern', (p->>'poolPercent')::numeric
+  from jsonb_array_elements(p_prizes) with ordinality as t (p, position);
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Rounds
+-- ---------------------------------------------------------------------------
+
+create or replace function start_game() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  -- Card sales are over: the cards sold become the public entropy of the draw
+  update rounds set
+    is_active = true,
+    pre_game_countdown = null,
+    public_entropy = coalesce(public_entropy, (
+      select encode(sha256(convert_to(coalesce(string_agg(id, ',' order by id collate "C"), ''), 'UTF8')), 'hex')
+      from cards where round_id = v_round_id))
+  where id = v_round_id;
+  -- ...and percentage prizes become fixed amounts
+  update prizes set value = money_text(round(round_revenue(v_round_id) * pool_percent / 100, 2))
+  where room_id = current_room_id() and pool_percent is not null;
+  perform touch_game_events();
+end $$;
+
+create or replace function close_round_ledger(p_round_id bigint) returns void
+language plpgsql as $$
+declare
+  v_revenue numeric := round_revenue(p_round_id);
+  v_charity_percent numeric := (select s.charity_percent from settings s join rounds r on r.room_id = s.room_id where r.id = p_round_id);
+begin
+  if exists (select 1 from round_ledgers where round_id = p_round_id) then return; end if;
+
+  insert into prize_payouts (id, round_id, prize_name, player_name, card_id, amount, description)
+  select p_round_id || ':' || w.prize_id || ':' || wc.card_id, p_round_id, w.prize_name, wc.player_name, wc.card_id,
+         parse_money(w.share_value), w.share_value
+  from wins w join win_cards wc on wc.win_id = w.id
+  where w.round_id = p_round_id and wc.is_winner;
+
+  insert into round_ledgers (round_id, cards_sold, revenue, charity_percent, charity_amount, prizes_total)
+  values (
+    p_round_id,
+    (select count(*) from cards where round_id = p_round_id),
+    v_revenue,
+    v_charity_percent,
+    round(v_revenue * v_charity_percent / 100, 2),
+    (select coalesce(sum(amount), 0) from prize_payouts where round_id = p_round_id));
+end $$;
+
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  perform 1 from rounds where id = v_round_id for update;
+  -- Cards paid for a round nobody has played yet would be lost
+  if not exists (select 1 from draws where round_id = v_round_id)
+     and exists (select 1 from card_orders where round_id = v_round_id and status = 'paid') then
+    return;
+  end if;
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = v_round_id;
+  perform close_round_ledger(v_round_id);
+  -- Percentage prizes go back to showing the share for the next round's sales
+  update prizes set value = pool_percent || '% do arrecadado' where room_id = current_room_id() and pool_percent is not null;
+  insert into rounds (room_id, is_active, pre_game_countdown) values (current_room_id(), false, 20);
+  perform touch_game_events();
+end $$;
+
+-- Prizes and the tie rule of the round's room. record_award, update_award and claim_bingo only take
+-- the round of the request's room.
+create or replace function award_prize_in_play(p_round_id bigint, p_candidates jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_room_id text := (select room_id from rounds where id = p_round_id);
+  v_win_count integer;
+  v_prize prizes%rowtype;
+  v_tie_rule text := (select tie_rule from settings where room_id = v_room_id);
+  v_is_final boolean;
+  v_award jsonb;
+  v_win_id bigint;
+begin
+  select count(*) into v_win_count from wins where round_id = p_round_id;
+  select * into v_prize from prizes where room_id = v_room_id order by position offset v_win_count limit 1;
+  if v_prize.id is null or coalesce(jsonb_array_length(p_candidates), 0) = 0 then return false; end if;
+  v_is_final := (select count(*) from prizes where room_id = v_room_id) <= v_win_count + 1;
+
+  v_award := jsonb_build_object('candidates', p_candidates)
+    || resolve_tie(p_round_id, v_prize.id, p_candidates, v_tie_rule, v_prize.value);
+  insert into wins (round_id, prize_id, prize_name, pattern, ball_count, tie_rule, share_value, is_final)
+  values (p_round_id, v_prize.id, v_prize.name, v_prize.pattern,
+          (select count(*) from draws where round_id = p_round_id), v_tie_rule, v_award ->> 'shareValue', v_is_final)
+  returning id into v_win_id;
+
+  perform save_win_cards(v_win_id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+
+  update rounds
+  set is_active = is_active and not v_is_final,
+      finished_at = case when v_is_final then now() else finished_at end,
+      invalid_claim_player = null,
+      invalid_claim_at = null
+  where id = p_round_id;
+  return true;
+end $$;
+
+create or replace function join_last_award(p_round_id bigint, p_co_winners jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win wins%rowtype;
+  v_candidates jsonb;
+  v_previous_winners jsonb;
+  v_award jsonb;
+begin
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.id is null or v_win.tie_rule = 'firstClaim' or coalesce(jsonb_array_length(p_co_winners), 0) = 0
+     or v_win.ball_count <> (select count(*) from draws where round_id = p_round_id)
+     or exists (select 1 from jsonb_array_elements(p_co_winners) c
+                where c ->> 'cardId' in (select card_id from win_cards where win_id = v_win.id)) then
+    return false;
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('cardId', card_id, 'playerName', player_name) order by position), '[]'::jsonb)
+         || p_co_winners
+  into v_candidates
+  from win_cards where win_id = v_win.id;
+  select coalesce(jsonb_agg(jsonb_build_object('playerName', player_name)), '[]'::jsonb)
+  into v_previous_winners
+  from win_cards where win_id = v_win.id and is_winner;
+
+  v_award := jsonb_build_object('candidates', v_candidates)
+    || resolve_tie(p_round_id, v_win.prize_id, v_candidates, v_win.tie_rule,
+                   coalesce((select value from prizes
+                             where room_id = (select room_id from rounds where id = p_round_id) and id = v_win.prize_id),
+                            v_win.share_value));
+  perform add_user_wins(v_previous_winners, -1);
+  perform save_win_cards(v_win.id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+  update wins set share_value = v_award ->> 'shareValue' where id = v_win.id;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = p_round_id;
+  return true;
+end $$;
+
+create or replace function claim_bingo(p_player_name text, p_card_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_card cards%rowtype;
+  v_drawn integer[];
+  v_last wins%rowtype;
+  v_winner jsonb;
+  v_is_valid boolean := false;
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  -- Same row lock as the draws: the claim is checked against the balls out when it is made
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_card from cards where id = p_card_id and round_id = v_round.id and owner = p_player_name;
+  if v_card.id is null or v_round.invalid_claim_player is not distinct from p_player_name then return false; end if;
+  v_drawn := array(select number from draws where round_id = v_round.id order by position);
+  v_winner := jsonb_build_array(jsonb_build_object('cardId', v_card.id, 'playerName', p_player_name));
+
+  -- A claim on the ball that decided the last prize joins it as a co-winner
+  select * into v_last from wins where round_id = v_round.id order by id desc limit 1;
+  if v_last.id is not null and card_completes_pattern(v_card.card_data, v_last.pattern, v_drawn) then
+    v_is_valid := join_last_award(v_round.id, v_winner);
+  end if;
+
+  if not v_is_valid then
+    if exists (select 1 from wins where round_id = v_round.id and is_final) then return false; end if;
+    -- Always checked against the prize currently in play
+    if card_completes_pattern(v_card.card_data,
+         (select pattern from prizes where room_id = v_round.room_id order by position
+          offset (select count(*) from wins where round_id = v_round.id) limit 1),
+         v_drawn) then
+      v_is_valid := award_prize_in_play(v_round.id, v_winner);
+    end if;
+  end if;
+
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round.id, p_player_name, p_card_id, cardinality(v_drawn), v_is_valid);
+  if not v_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round.id;
+  end if;
+  perform touch_game_events();
+  return v_is_valid;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Card orders and the ledger of the request's room
+-- ---------------------------------------------------------------------------
+
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  select * into v_round from rounds where id = current_round_id();
+  if v_round.is_active or jsonb_array_length(p_cards) = 0 then
+    return false;
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount)
+  values (p_order_id, v_round.id, p_player_name, p_cards,
+          order_price(jsonb_array_length(p_cards), coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id))))
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function confirm_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_order card_orders%rowtype;
+begin
+  perform require_permission('managePayments');
+
+  select * into v_order from card_orders
+  where id = p_order_id and round_id in (select id from rounds where room_id = current_room_id())
+  for update;
+  if v_order.status is distinct from 'pending' then
+    return false;
+  end if;
+
+  update card_orders set
+    status = 'paid',
+    round_id = current_round_id(),
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id;
+
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+  from jsonb_array_elements(v_order.cards) c
+  on conflict (id) do nothing;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function cancel_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update card_orders set
+    status = 'cancelled',
+    round_id = current_round_id(),
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id and status = 'pending' and round_id in (select id from rounds where room_id = current_room_id());
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function get_payout_ledger() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  return jsonb_build_object(
+    'rounds', coalesce((select jsonb_agg(jsonb_build_object(
+                'roundId', l.round_id, 'finishedAt', epoch_ms(l.finished_at), 'cardsSold', l.cards_sold, 'revenue', l.revenue,
+                'charityPercent', l.charity_percent, 'charityAmount', l.charity_amount, 'prizesTotal', l.prizes_total) order by l.round_id)
+              from round_ledgers l join rounds r on r.id = l.round_id
+              where r.room_id = current_room_id()), '[]'::jsonb),
+    'payouts', coalesce((select jsonb_agg(jsonb_build_object(
+                 'id', p.id, 'roundId', p.round_id, 'prizeName', p.prize_name, 'playerName', p.player_name, 'cardId', p.card_id,
+                 'amount', p.amount, 'description', p.description, 'pixKey', u.pix_key, 'status', p.status,
+                 'paidBy', p.paid_by, 'paidAt', epoch_ms(p.paid_at)) order by p.round_id, p.id)
+               from prize_payouts p join rounds r on r.id = p.round_id left join users u on u.name = p.player_name
+               where r.room_id = current_room_id()), '[]'::jsonb)
+  );
+end $$;
+
+create or replace function mark_payout_paid(p_payout_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('managePayments');
+  update prize_payouts set status = 'paid', paid_by = current_user_name(), paid_at = now()
+  where id = p_payout_id and status = 'pending' and round_id in (select id from rounds where room_id = current_room_id());
+  return found;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- History of the request's room
+-- ---------------------------------------------------------------------------
+
+create or replace function get_round_history() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(archived_round_summary(r) order by r.id desc), '[]'::jsonb)
+  from rounds r
+  where r.room_id = current_room_id() and r.id < current_round_id() and exists (select 1 from draws where round_id = r.id);
+$$;
+
+create or replace function get_round_archives() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(get_round_archive(r.id) order by r.id), '[]'::jsonb)
+  from rounds r
+  where r.room_id = current_room_id() and r.id < current_round_id() and exists (select 1 from draws where round_id = r.id);
+$$;
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and room_id = current_room_id() and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                       from cards where round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb)));
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read model of the request's room; null without one
+-- ---------------------------------------------------------------------------
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by) order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id)
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end
+  );
+end $$;
+
+revoke execute on function
+  current_room_id(),
+  current_account_name(),
+  new_room_code(),
+  room_listing(rooms)
+from public, anon, authenticated;
+-- Visitors can browse the lobby; opening and joining rooms takes an account
+grant execute on function list_rooms(), find_room(text) to anon, authenticated;
+revoke execute on function create_room(text, boolean), enter_room(text) from public, anon;
+grant execute on function create_room(text, boolean), enter_room(text) to authenticated;
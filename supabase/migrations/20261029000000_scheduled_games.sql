@@ -0,0 +1,359 @@
+-- Scheduled games: rounds booked for a date and time, with a sales window and a countdown of
+-- their own (same rules as services/schedule.ts and the reducer). Cards can be bought for a game
+-- as soon as its sales open, even during another round; they are kept aside (card_orders with a
+-- scheduled_game_id) and join the game's round when `npm run runner` starts it.
+
+create table if not exists scheduled_games (
+  id text primary key check (id ~ '^[A-Za-z0-9-]{1,40}$'),
+  room_id text not null references rooms (id) on delete cascade,
+  name text not null check (length(name) between 1 and 40),
+  -- When the game starts; its countdown ends then
+  starts_at timestamptz not null,
+  sales_open_at timestamptz not null,
+  countdown_seconds integer not null check (countdown_seconds between 5 and 300),
+  check (sales_open_at <= starts_at)
+);
+create index if not exists scheduled_games_room_id_idx on scheduled_games (room_id, starts_at);
+alter table scheduled_games enable row level security;
+
+-- Pre-orders: paid ones wait for the game; the link is dropped once the game's round begins
+alter table card_orders add column if not exists scheduled_game_id text references scheduled_games (id) on delete set null;
+create index if not exists card_orders_scheduled_game_id_idx on card_orders (scheduled_game_id);
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+-- Pre-orders count towards the round of their scheduled game
+create or replace function round_revenue(p_round_id bigint) returns numeric
+language sql stable as $$
+  select coalesce(sum(amount), 0) from card_orders
+  where round_id = p_round_id and status = 'paid' and scheduled_game_id is null;
+$$;
+
+-- Same shape as ScheduledGame in types.ts, soonest first
+create or replace function room_scheduled_games(p_room_id text) returns jsonb
+language sql stable set search_path = public as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'name', name,
+    'startsAt', epoch_ms(starts_at),
+    'salesOpenAt', epoch_ms(sales_open_at),
+    'countdownSeconds', countdown_seconds) order by starts_at, id), '[]'::jsonb)
+  from scheduled_games where room_id = p_room_id;
+$$;
+
+-- Closes the room's round and opens the next one, waiting for its countdown
+create or replace function open_next_round(p_countdown integer) returns bigint
+language plpgsql set search_path = public as $$
+declare
+  v_round_id bigint;
+begin
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = current_round_id();
+  perform close_round_ledger(current_round_id());
+  -- Percentage prizes go back to showing the share for the next round's sales
+  update prizes set value = pool_percent || '% do arrecadado' where room_id = current_room_id() and pool_percent is not null;
+  insert into rounds (room_id, is_active, pre_game_countdown) values (current_room_id(), false, p_countdown)
+  returning id into v_round_id;
+  return v_round_id;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Rounds
+-- ---------------------------------------------------------------------------
+
+create or replace function start_next_game_cycle() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round_id bigint := current_round_id();
+begin
+  perform require_permission('runGame');
+  perform 1 from rounds where id = v_round_id for update;
+  -- Cards paid for a round nobody has played yet would be lost; pre-orders wait for their game
+  if not exists (select 1 from draws where round_id = v_round_id)
+     and exists (select 1 from card_orders where round_id = v_round_id and status = 'paid' and scheduled_game_id is null) then
+    return;
+  end if;
+  perform open_next_round(20);
+  perform touch_game_events();
+end $$;
+
+create or replace function schedule_game(
+  p_game_id text,
+  p_name text,
+  p_starts_at timestamptz,
+  p_sales_open_at timestamptz,
+  p_countdown_seconds integer
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if length(trim(coalesce(p_name, ''))) not between 1 and 40
+     or p_countdown_seconds is null or p_countdown_seconds not between 5 and 300
+     or p_starts_at - make_interval(secs => p_countdown_seconds + 1) <= now()
+     or p_sales_open_at is null or p_sales_open_at > p_starts_at then
+    return false;
+  end if;
+
+  insert into scheduled_games (id, room_id, name, starts_at, sales_open_at, countdown_seconds)
+  values (p_game_id, current_room_id(), trim(p_name), p_starts_at, p_sales_open_at, p_countdown_seconds)
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Refused once cards were paid for the game; its pending pre-orders are cancelled
+create or replace function cancel_scheduled_game(p_game_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  perform 1 from scheduled_games where id = p_game_id and room_id = current_room_id() for update;
+  if not found or exists (select 1 from card_orders where scheduled_game_id = p_game_id and status = 'paid') then
+    return false;
+  end if;
+
+  update card_orders set status = 'cancelled', confirmed_by = current_user_name(), confirmed_at = now()
+  where scheduled_game_id = p_game_id and status = 'pending';
+  delete from scheduled_games where id = p_game_id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Moves on to the game's round and starts its countdown. A round nobody has played yet becomes the
+-- game's; a finished one makes way for a new round. Refused while a round is being played.
+create or replace function start_scheduled_game(p_game_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_game scheduled_games%rowtype;
+  v_round_id bigint;
+begin
+  perform require_permission('runGame');
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_game from scheduled_games where id = p_game_id and room_id = current_room_id() for update;
+  if v_game.id is null or v_round.is_active or v_round.pre_game_countdown is not null then
+    return false;
+  end if;
+
+  v_round_id := case
+    when exists (select 1 from draws where round_id = v_round.id) then open_next_round(null)
+    else v_round.id
+  end;
+  update rounds set pre_game_countdown = v_game.countdown_seconds where id = v_round_id;
+
+  -- The pre-orders become this round's sales
+  insert into cards (id, round_id, owner, card_data)
+  select c->>'id', v_round_id, c->>'owner', c->'cardData'
+  from card_orders o, jsonb_array_elements(o.cards) c
+  where o.scheduled_game_id = p_game_id and o.status = 'paid'
+  on conflict (id) do nothing;
+  update card_orders set round_id = v_round_id, scheduled_game_id = null where scheduled_game_id = p_game_id;
+  delete from scheduled_games where id = p_game_id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Card orders
+-- ---------------------------------------------------------------------------
+
+drop function if exists create_order(text, text, jsonb);
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb, p_scheduled_game_id text default null)
+returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_game scheduled_games%rowtype;
+  v_price_table jsonb;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  if jsonb_array_length(p_cards) = 0 then return false; end if;
+
+  select * into v_round from rounds where id = current_round_id();
+  if p_scheduled_game_id is null then
+    -- Sales for the round close when it starts, and stay closed once it is over
+    if v_round.is_active or exists (select 1 from wins where round_id = v_round.id and is_final) then
+      return false;
+    end if;
+    v_price_table := coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id));
+  else
+    select * into v_game from scheduled_games where id = p_scheduled_game_id and room_id = v_round.room_id;
+    if not found or v_game.sales_open_at > now() then return false; end if;
+    -- Round promos don't apply to a later game
+    v_price_table := (select price_table from settings where room_id = v_round.room_id);
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount, scheduled_game_id)
+  values (p_order_id, v_round.id, p_player_name, p_cards, order_price(jsonb_array_length(p_cards), v_price_table), p_scheduled_game_id)
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- A pre-order's cards wait for its game
+create or replace function confirm_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_order card_orders%rowtype;
+begin
+  perform require_permission('managePayments');
+
+  select * into v_order from card_orders
+  where id = p_order_id and round_id in (select id from rounds where room_id = current_room_id())
+  for update;
+  if v_order.status is distinct from 'pending' then
+    return false;
+  end if;
+
+  update card_orders set
+    status = 'paid',
+    round_id = case when v_order.scheduled_game_id is null then current_round_id() else round_id end,
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id;
+
+  if v_order.scheduled_game_id is null then
+    insert into cards (id, round_id, owner, card_data)
+    select c->>'id', current_round_id(), c->>'owner', c->'cardData'
+    from jsonb_array_elements(v_order.cards) c
+    on conflict (id) do nothing;
+  end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models: the lobby's calendar and the room's state
+-- ---------------------------------------------------------------------------
+
+-- Same shape as RoomListing in types.ts
+create or replace function room_listing(p_room rooms) returns jsonb
+language sql stable set search_path = public as $$
+  select jsonb_build_object(
+    'id', p_room.id,
+    'name', p_room.name,
+    'hostName', coalesce(p_room.host_name, ''),
+    'isPublic', p_room.is_public,
+    'createdAt', epoch_ms(p_room.created_at),
+    'onlineCount', (select count(*) from room_members where room_id = p_room.id and is_online),
+    'isGameActive', coalesce((select is_active from rounds where room_id = p_room.id order by id desc limit 1), false),
+    'roundId', (select max(id) from rounds where room_id = p_room.id),
+    'scheduledGames', room_scheduled_games(p_room.id));
+$$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end,
+    'scheduledGames', room_scheduled_games(v_round.room_id)
+  );
+end $$;
+
+revoke execute on function room_scheduled_games(text), open_next_round(integer) from public, anon, authenticated;
+revoke execute on function
+  schedule_game(text, text, timestamptz, timestamptz, integer),
+  cancel_scheduled_game(text),
+  start_scheduled_game(text),
+  create_order(text, text, jsonb, text)
+from public, anon;
+grant execute on function
+  schedule_game(text, text, timestamptz, timestamptz, integer),
+  cancel_scheduled_game(text),
+  start_scheduled_game(text),
+  create_order(text, text, jsonb, text)
+to authenticated;
@@ -0,0 +1,388 @@
+-- Live game controls (same rules as services/gameControls.ts and the reducer): the staff can pause
+-- the round, set the pace of the draw, call the balls by hand from a physical globe, and stop the
+-- round before its last prize, either voiding it (its prizes are taken back) or ending it without
+-- a winner (the prizes already awarded stand).
+
+alter table rounds add column if not exists is_paused boolean not null default false;
+alter table rounds add column if not exists ended_outcome text check (ended_outcome in ('voided', 'noWinner'));
+alter table rounds add column if not exists ended_reason text check (length(ended_reason) <= 200);
+alter table rounds add column if not exists ended_by text;
+
+alter table settings add column if not exists draw_mode text not null default 'auto' check (draw_mode in ('auto', 'manual'));
+-- null leaves the pace to `npm run runner` (BINGO_DRAW_INTERVAL_MS)
+alter table settings add column if not exists draw_interval_ms integer check (draw_interval_ms between 2000 and 30000);
+
+-- ---------------------------------------------------------------------------
+-- Controls
+-- ---------------------------------------------------------------------------
+
+-- Refused unless a round is being played or counting down
+create or replace function set_paused(p_paused boolean) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  update rounds set is_paused = p_paused
+  where id = current_round_id() and (is_active or pre_game_countdown is not null);
+  if not found then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_draw_mode(p_mode text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if p_mode is null or p_mode not in ('auto', 'manual') then return false; end if;
+  update settings set draw_mode = p_mode where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function set_draw_interval(p_interval_ms integer) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if p_interval_ms not between 2000 and 30000 then return false; end if;
+  update settings set draw_interval_ms = p_interval_ms where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Stops the round being played, once its first ball is out. A voided round must say why.
+create or replace function end_round(p_outcome text, p_reason text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_reason text := trim(coalesce(p_reason, ''));
+begin
+  perform require_permission('runGame');
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active
+     or not exists (select 1 from draws where round_id = v_round.id)
+     or p_outcome is null or p_outcome not in ('voided', 'noWinner')
+     or length(v_reason) > 200
+     or (p_outcome = 'voided' and v_reason = '') then
+    return false;
+  end if;
+
+  -- A voided round pays nothing: the prizes already awarded are taken back
+  if p_outcome = 'voided' then
+    perform add_user_wins(coalesce((select jsonb_agg(jsonb_build_object('playerName', wc.player_name))
+                                    from wins w join win_cards wc on wc.win_id = w.id
+                                    where w.round_id = v_round.id and wc.is_winner), '[]'::jsonb), -1);
+    delete from wins where round_id = v_round.id;
+  end if;
+
+  update rounds set
+    is_active = false,
+    is_paused = false,
+    finished_at = now(),
+    ended_outcome = p_outcome,
+    ended_reason = v_reason,
+    ended_by = current_user_name(),
+    invalid_claim_player = null,
+    invalid_claim_at = null
+  where id = v_round.id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- The draw and the prizes respect the controls
+-- ---------------------------------------------------------------------------
+
+create or replace function draw_next_number() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+  v_number integer;
+begin
+  perform require_permission('runGame');
+
+  -- Row lock serializes concurrent draws of the same round
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active or v_round.is_paused or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return null;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  if v_count >= 75 then return null; end if;
+
+  -- Next ball of the committed order (skipping any drawn before the round had a seed)
+  select n into v_number
+  from generate_series(1, 75) n
+  where n not in (select number from draws where round_id = v_round.id)
+  order by draw_order_key(v_round.server_seed, v_round.public_entropy, n), n
+  limit 1;
+
+  insert into draws (round_id, position, number) values (v_round.id, v_count + 1, v_number);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return v_number;
+end $$;
+
+-- Awards and claims are refused once the staff stopped the round
+create or replace function record_award(p_round_id bigint, p_expected_awards integer, p_ball_count integer, p_candidates jsonb)
+returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  perform require_permission('runGame');
+  select * into v_round from rounds where id = p_round_id for update;
+  if not found or p_round_id <> current_round_id() or v_round.ended_outcome is not null then return false; end if;
+  if (select count(*) from wins where round_id = p_round_id) <> p_expected_awards then return false; end if;
+  if (select count(*) from draws where round_id = p_round_id) <> p_ball_count then return false; end if;
+  if not award_prize_in_play(p_round_id, p_candidates) then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function update_award(
+  p_round_id bigint,
+  p_prize_id integer,
+  p_expected_candidates integer,
+  p_ball_count integer,
+  p_co_winners jsonb
+) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_win wins%rowtype;
+begin
+  perform require_permission('runGame');
+  if p_round_id is distinct from current_round_id() then return false; end if;
+  perform 1 from rounds where id = p_round_id and ended_outcome is null for update;
+  if not found then return false; end if;
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.prize_id is distinct from p_prize_id or v_win.ball_count <> p_ball_count then return false; end if;
+  if (select count(*) from win_cards where win_id = v_win.id) <> p_expected_candidates then return false; end if;
+  if not join_last_award(p_round_id, p_co_winners) then return false; end if;
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function claim_bingo(p_player_name text, p_card_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_card cards%rowtype;
+  v_drawn integer[];
+  v_last wins%rowtype;
+  v_winner jsonb;
+  v_is_valid boolean := false;
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  -- Same row lock as the draws: the claim is checked against the balls out when it is made
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_card from cards where id = p_card_id and round_id = v_round.id and owner = p_player_name;
+  if v_card.id is null or v_round.ended_outcome is not null
+     or v_round.invalid_claim_player is not distinct from p_player_name then
+    return false;
+  end if;
+  v_drawn := array(select number from draws where round_id = v_round.id order by position);
+  v_winner := jsonb_build_array(jsonb_build_object('cardId', v_card.id, 'playerName', p_player_name));
+
+  -- A claim on the ball that decided the last prize joins it as a co-winner
+  select * into v_last from wins where round_id = v_round.id order by id desc limit 1;
+  if v_last.id is not null and card_completes_pattern(v_card.card_data, v_last.pattern, v_drawn) then
+    v_is_valid := join_last_award(v_round.id, v_winner);
+  end if;
+
+  if not v_is_valid then
+    if exists (select 1 from wins where round_id = v_round.id and is_final) then return false; end if;
+    -- Always checked against the prize currently in play
+    if card_completes_pattern(v_card.card_data,
+         (select pattern from prizes where room_id = v_round.room_id order by position
+          offset (select count(*) from wins where round_id = v_round.id) limit 1),
+         v_drawn) then
+      v_is_valid := award_prize_in_play(v_round.id, v_winner);
+    end if;
+  end if;
+
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid)
+  values (v_round.id, p_player_name, p_card_id, cardinality(v_drawn), v_is_valid);
+  if not v_is_valid then
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round.id;
+  end if;
+  perform touch_game_events();
+  return v_is_valid;
+end $$;
+
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb, p_scheduled_game_id text default null)
+returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_game scheduled_games%rowtype;
+  v_price_table jsonb;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  if jsonb_array_length(p_cards) = 0 then return false; end if;
+
+  select * into v_round from rounds where id = current_round_id();
+  if p_scheduled_game_id is null then
+    -- Sales for the round close when it starts, and stay closed once it is over
+    if v_round.is_active or v_round.ended_outcome is not null
+       or exists (select 1 from wins where round_id = v_round.id and is_final) then
+      return false;
+    end if;
+    v_price_table := coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id));
+  else
+    select * into v_game from scheduled_games where id = p_scheduled_game_id and room_id = v_round.room_id;
+    if not found or v_game.sales_open_at > now() then return false; end if;
+    -- Round promos don't apply to a later game
+    v_price_table := (select price_table from settings where room_id = v_round.room_id);
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount, scheduled_game_id)
+  values (p_order_id, v_round.id, p_player_name, p_cards, order_price(jsonb_array_length(p_cards), v_price_table), p_scheduled_game_id)
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models
+-- ---------------------------------------------------------------------------
+
+-- Rounds the staff stopped carry how and why, as in RoundSummary
+create or replace function archived_round_summary(p_round rounds) returns jsonb
+language sql stable as $$
+  select jsonb_build_object(
+    'roundId', p_round.id,
+    'finishedAt', epoch_ms(coalesce(p_round.finished_at, p_round.created_at)),
+    'cardCount', (select count(*) from cards where round_id = p_round.id),
+    'ballCount', (select count(*) from draws where round_id = p_round.id),
+    'winners', coalesce((select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                         from wins w join win_cards wc on wc.win_id = w.id
+                         where w.round_id = p_round.id and w.is_final and wc.is_winner), '[]'::jsonb))
+  || case when p_round.ended_outcome is null then '{}'::jsonb else jsonb_build_object('ending', jsonb_build_object(
+       'outcome', p_round.ended_outcome,
+       'reason', p_round.ended_reason,
+       'endedBy', p_round.ended_by,
+       'endedAt', epoch_ms(p_round.finished_at))) end;
+$$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb)) end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function
+  set_paused(boolean),
+  set_draw_mode(text),
+  set_draw_interval(integer),
+  end_round(text, text)
+from public, anon;
+grant execute on function
+  set_paused(boolean),
+  set_draw_mode(text),
+  set_draw_interval(integer),
+  end_round(text, text)
+to authenticated;
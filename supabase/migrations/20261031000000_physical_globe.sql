@@ -0,0 +1,210 @@
+-- Physical globe mode (same rules as services/gameControls.ts and the reducer): in the 'globe' draw
+-- mode the caller types in the balls of a real cage. They are called and checked like drawn balls,
+-- but the seed doesn't decide them, so they are flagged for the draw verifier. The last one can be
+-- taken back (typos) as long as no prize was decided on it.
+
+alter table draws add column if not exists from_globe boolean not null default false;
+
+alter table settings drop constraint if exists settings_draw_mode_check;
+alter table settings add constraint settings_draw_mode_check check (draw_mode in ('auto', 'manual', 'globe'));
+
+-- Balls of the round typed in from the globe, in draw order
+create or replace function round_globe_numbers(p_round_id bigint) returns jsonb
+language sql stable as $$
+  select coalesce(jsonb_agg(number order by position), '[]'::jsonb) from draws where round_id = p_round_id and from_globe;
+$$;
+
+create or replace function set_draw_mode(p_mode text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if p_mode is null or p_mode not in ('auto', 'manual', 'globe') then return false; end if;
+  update settings set draw_mode = p_mode where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function enter_drawn_number(p_number integer) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+begin
+  perform require_permission('runGame');
+
+  -- Same row lock as draw_next_number
+  select * into v_round from rounds where id = current_round_id() for update;
+  if (select draw_mode from settings where room_id = v_round.room_id) <> 'globe'
+     or not v_round.is_active or v_round.is_paused
+     or exists (select 1 from wins where round_id = v_round.id and is_final)
+     or p_number is null or p_number not between 1 and 75
+     or exists (select 1 from draws where round_id = v_round.id and number = p_number) then
+    return false;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  insert into draws (round_id, position, number, from_globe) values (v_round.id, v_count + 1, p_number, true);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- Takes back the last ball if it is p_number, came from the globe and decided no prize
+create or replace function undo_drawn_number(p_number integer) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_last draws%rowtype;
+begin
+  perform require_permission('runGame');
+
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_last from draws where round_id = v_round.id order by position desc limit 1;
+  if not v_round.is_active or v_last.number is distinct from p_number or not v_last.from_globe
+     or exists (select 1 from wins where round_id = v_round.id and ball_count = v_last.position) then
+    return false;
+  end if;
+
+  delete from draws where round_id = v_round.id and position = v_last.position;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models: the globe's balls go along with the draw audits
+-- ---------------------------------------------------------------------------
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and room_id = current_room_id() and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                       from cards where round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_round.id)) else '{}'::jsonb end);
+end $$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(jsonb_build_object('id', id, 'cardData', card_data, 'owner', owner) order by created_at, id)
+                                from cards where round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function round_globe_numbers(bigint) from public, anon, authenticated;
+revoke execute on function enter_drawn_number(integer), undo_drawn_number(integer) from public, anon;
+grant execute on function enter_drawn_number(integer), undo_drawn_number(integer) to authenticated;
@@ -0,0 +1,191 @@
+-- Paper cards for hybrid events (same rules as services/paperCards.ts and the reducer): the cashier
+-- sells printed cards for cash at the counter. They are recorded as a paid order of the cashier's,
+-- so they count in the round's accounts, and join the round right away with the serial printed on
+-- them. A host checks a shouted bingo by that serial and records the award like any claim.
+
+alter table cards add column if not exists serial text;
+create unique index if not exists cards_round_serial_idx on cards (round_id, serial) where serial is not null;
+
+-- Same shape as GeneratedCard in types.ts
+create or replace function card_json(p_card cards) returns jsonb
+language sql stable as $$
+  select jsonb_build_object('id', p_card.id, 'cardData', p_card.card_data, 'owner', p_card.owner)
+    || case when p_card.serial is not null then jsonb_build_object('serial', p_card.serial) else '{}'::jsonb end;
+$$;
+
+-- Same sales window as the round's orders in create_order
+create or replace function sell_paper_cards(p_order_id text, p_cards jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_cashier text := current_user_name();
+begin
+  perform require_permission('managePayments');
+  if exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from v_cashier) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  if jsonb_array_length(p_cards) = 0
+     or exists (select 1 from jsonb_array_elements(p_cards) c where coalesce(c->>'serial', '') = '') then
+    return false;
+  end if;
+
+  select * into v_round from rounds where id = current_round_id() for update;
+  if v_round.is_active or v_round.ended_outcome is not null
+     or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return false;
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount, status, confirmed_by, confirmed_at)
+  values (
+    p_order_id, v_round.id, v_cashier, p_cards,
+    order_price(jsonb_array_length(p_cards), coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id))),
+    'paid', v_cashier, now()
+  )
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  insert into cards (id, round_id, owner, card_data, serial)
+  select c->>'id', v_round.id, v_cashier, c->'cardData', c->>'serial'
+  from jsonb_array_elements(p_cards) c;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models: cards carry their serial
+-- ---------------------------------------------------------------------------
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and room_id = current_room_id() and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                       from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_round.id)) else '{}'::jsonb end);
+end $$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                                from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function card_json(cards) from public, anon, authenticated;
+revoke execute on function sell_paper_cards(text, jsonb) from public, anon;
+grant execute on function sell_paper_cards(text, jsonb) to authenticated;
@@ -0,0 +1,360 @@
+-- Card series (same rules as services/cardSeries.ts): every room has a public seed from which card
+-- #1, #2, #3... are derived, so a card number always gives the same card. A card takes, column by
+-- column, the first balls of the draw order of sha256(series:#n:ball), like the draw does with the
+-- round's seed. Card sales only accept cards of the room's series whose numbers aren't taken yet,
+-- so any round's cards can be checked against the series afterwards.
+
+alter table settings add column if not exists card_series text not null default left(new_draw_seed(), 16);
+alter table cards add column if not exists is_paper boolean not null default false;
+
+create or replace function series_card(p_series text, p_number integer) returns jsonb
+language sql immutable set search_path = public as $$
+  with ranked as (
+    select ball, (ball - 1) / 15 as col,
+           row_number() over (partition by (ball - 1) / 15 order by draw_order_key(p_series, '#' || p_number, ball), ball) as rank
+    from generate_series(1, 75) ball
+  ), columns as (
+    select col, jsonb_agg(ball order by ball) as numbers
+    from ranked
+    where rank <= case when col = 2 then 4 else 5 end
+    group by col
+  )
+  select jsonb_build_object(
+    'B', (select numbers from columns where col = 0),
+    'I', (select numbers from columns where col = 1),
+    'N', (select jsonb_build_array(numbers -> 0, numbers -> 1, 'LIVRE', numbers -> 2, numbers -> 3) from columns where col = 2),
+    'G', (select numbers from columns where col = 3),
+    'O', (select numbers from columns where col = 4));
+$$;
+
+-- Cards of the round's series under their ids (seriesCardId in services/cardSeries.ts), each number
+-- once, none sold, ordered or kept aside for a game yet
+create or replace function are_free_series_cards(p_round rounds, p_cards jsonb) returns boolean
+language sql stable set search_path = public as $$
+  select (select count(distinct c->>'serial') from jsonb_array_elements(p_cards) c) = jsonb_array_length(p_cards)
+    and not exists (
+      select 1
+      from jsonb_array_elements(p_cards) c,
+           lateral (select case when c->>'serial' ~ '^[0-9]{1,9}$' then (c->>'serial')::integer end as number) s
+      where s.number is null or s.number = 0
+         -- Written the way formatSerial writes it: "0421"
+         or c->>'serial' <> lpad(s.number::text, greatest(4, length(s.number::text)), '0')
+         or c->>'id' is distinct from 'card-' || p_round.id || '-' || (c->>'serial')
+         or c->'cardData' is distinct from series_card(
+              (select card_series from settings where room_id = p_round.room_id), s.number)
+         or exists (select 1 from cards where round_id = p_round.id and serial = c->>'serial')
+         or exists (
+              select 1
+              from card_orders o, jsonb_array_elements(o.cards) oc
+              where o.round_id in (select id from rounds where room_id = p_round.room_id)
+                and (o.status = 'pending' or o.scheduled_game_id is not null)
+                and oc->>'serial' = c->>'serial'));
+$$;
+
+create or replace function insert_round_cards(p_round_id bigint, p_cards jsonb) returns void
+language sql set search_path = public as $$
+  insert into cards (id, round_id, owner, card_data, serial, is_paper)
+  select c->>'id', p_round_id, c->>'owner', c->'cardData', c->>'serial', coalesce((c->>'isPaper')::boolean, false)
+  from jsonb_array_elements(p_cards) c
+  on conflict (id) do nothing;
+$$;
+
+-- Same shape as GeneratedCard in types.ts
+create or replace function card_json(p_card cards) returns jsonb
+language sql stable as $$
+  select jsonb_build_object('id', p_card.id, 'cardData', p_card.card_data, 'owner', p_card.owner)
+    || case when p_card.serial is not null then jsonb_build_object('serial', p_card.serial) else '{}'::jsonb end
+    || case when p_card.is_paper then jsonb_build_object('isPaper', true) else '{}'::jsonb end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Card sales: only free cards of the series
+-- ---------------------------------------------------------------------------
+
+create or replace function add_cards(p_cards jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  perform require_permission('managePayments');
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not are_free_series_cards(v_round, p_cards) then return; end if;
+  perform insert_round_cards(v_round.id, p_cards);
+  perform touch_game_events();
+end $$;
+
+create or replace function create_order(p_order_id text, p_player_name text, p_cards jsonb, p_scheduled_game_id text default null)
+returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_game scheduled_games%rowtype;
+  v_price_table jsonb;
+begin
+  if p_player_name is distinct from current_user_name()
+     or exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from p_player_name) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  if jsonb_array_length(p_cards) = 0 then return false; end if;
+
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not are_free_series_cards(v_round, p_cards) then return false; end if;
+  if p_scheduled_game_id is null then
+    -- Sales for the round close when it starts, and stay closed once it is over
+    if v_round.is_active or v_round.ended_outcome is not null
+       or exists (select 1 from wins where round_id = v_round.id and is_final) then
+      return false;
+    end if;
+    v_price_table := coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id));
+  else
+    select * into v_game from scheduled_games where id = p_scheduled_game_id and room_id = v_round.room_id;
+    if not found or v_game.sales_open_at > now() then return false; end if;
+    -- Round promos don't apply to a later game
+    v_price_table := (select price_table from settings where room_id = v_round.room_id);
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount, scheduled_game_id)
+  values (p_order_id, v_round.id, p_player_name, p_cards, order_price(jsonb_array_length(p_cards), v_price_table), p_scheduled_game_id)
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function confirm_order(p_order_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_order card_orders%rowtype;
+begin
+  perform require_permission('managePayments');
+
+  select * into v_order from card_orders
+  where id = p_order_id and round_id in (select id from rounds where room_id = current_room_id())
+  for update;
+  if v_order.status is distinct from 'pending' then
+    return false;
+  end if;
+
+  update card_orders set
+    status = 'paid',
+    round_id = case when v_order.scheduled_game_id is null then current_round_id() else round_id end,
+    confirmed_by = current_user_name(),
+    confirmed_at = now()
+  where id = p_order_id;
+
+  if v_order.scheduled_game_id is null then
+    perform insert_round_cards(current_round_id(), v_order.cards);
+  end if;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function sell_paper_cards(p_order_id text, p_cards jsonb) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_cashier text := current_user_name();
+begin
+  perform require_permission('managePayments');
+  if exists (select 1 from jsonb_array_elements(p_cards) c where c->>'owner' is distinct from v_cashier) then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  if jsonb_array_length(p_cards) = 0
+     or exists (select 1 from jsonb_array_elements(p_cards) c where (c->>'isPaper') is distinct from 'true') then
+    return false;
+  end if;
+
+  select * into v_round from rounds where id = current_round_id() for update;
+  if v_round.is_active or v_round.ended_outcome is not null
+     or exists (select 1 from wins where round_id = v_round.id and is_final)
+     or not are_free_series_cards(v_round, p_cards) then
+    return false;
+  end if;
+
+  insert into card_orders (id, round_id, player_name, cards, amount, status, confirmed_by, confirmed_at)
+  values (
+    p_order_id, v_round.id, v_cashier, p_cards,
+    order_price(jsonb_array_length(p_cards), coalesce(v_round.price_table, (select price_table from settings where room_id = v_round.room_id))),
+    'paid', v_cashier, now()
+  )
+  on conflict (id) do nothing;
+  if not found then return false; end if;
+
+  perform insert_round_cards(v_round.id, p_cards);
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+create or replace function start_scheduled_game(p_game_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_game scheduled_games%rowtype;
+  v_round_id bigint;
+begin
+  perform require_permission('runGame');
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_game from scheduled_games where id = p_game_id and room_id = current_room_id() for update;
+  if v_game.id is null or v_round.is_active or v_round.pre_game_countdown is not null then
+    return false;
+  end if;
+
+  v_round_id := case
+    when exists (select 1 from draws where round_id = v_round.id) then open_next_round(null)
+    else v_round.id
+  end;
+  update rounds set pre_game_countdown = v_game.countdown_seconds where id = v_round_id;
+
+  -- The pre-orders become this round's sales
+  perform insert_round_cards(v_round_id, coalesce((
+    select jsonb_agg(c) from card_orders o, jsonb_array_elements(o.cards) c
+    where o.scheduled_game_id = p_game_id and o.status = 'paid'), '[]'::jsonb));
+  update card_orders set round_id = v_round_id, scheduled_game_id = null where scheduled_game_id = p_game_id;
+  delete from scheduled_games where id = p_game_id;
+
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models: the series goes along with the room's state and the archived rounds
+-- ---------------------------------------------------------------------------
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and room_id = current_room_id() and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                       from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_round.id)) else '{}'::jsonb end);
+end $$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                                from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function series_card(text, integer) from public, anon;
+grant execute on function series_card(text, integer) to authenticated;
+revoke execute on function are_free_series_cards(rounds, jsonb), insert_round_cards(bigint, jsonb) from public, anon, authenticated;
@@ -0,0 +1,458 @@
+-- Game variants (same rules as services/variants.ts): a room plays 75-, 90-, 80- or 30-ball bingo.
+-- The variant belongs to the round, so archived rounds keep theirs, and the next round inherits it;
+-- the staff switch it between rounds, while no card is sold, ordered or kept aside. The variant
+-- sets the globe, how series cards are derived and the default prize ladder.
+
+alter table rounds add column if not exists game_variant text not null default 'ball75'
+  check (game_variant in ('ball75', 'ball90', 'ball80', 'ball30'));
+alter table draws drop constraint if exists draws_number_check;
+alter table draws add constraint draws_number_check check (number between 1 and 90);
+
+create or replace function variant_total_balls(p_variant text) returns integer
+language sql immutable as $$
+  select case p_variant when 'ball90' then 90 when 'ball80' then 80 when 'ball30' then 30 else 75 end;
+$$;
+
+-- Prize ladder a room gets when it switches to the variant
+create or replace function variant_default_prizes(p_variant text) returns jsonb
+language sql immutable as $$
+  select case p_variant
+    when 'ball90' then '[
+      {"id": 1, "name": "1º Prêmio", "value": "R$ 200,00", "pattern": "ninetyOneLine"},
+      {"id": 2, "name": "2º Prêmio", "value": "R$ 300,00", "pattern": "ninetyTwoLines"},
+      {"id": 3, "name": "3º Prêmio", "value": "R$ 500,00", "pattern": "ninetyFullHouse"}]'
+    when 'ball80' then '[
+      {"id": 1, "name": "1º Prêmio", "value": "R$ 200,00", "pattern": "eightyLine"},
+      {"id": 2, "name": "2º Prêmio", "value": "R$ 300,00", "pattern": "eightyFrame"},
+      {"id": 3, "name": "3º Prêmio", "value": "R$ 500,00", "pattern": "eightyFull"}]'
+    when 'ball30' then '[
+      {"id": 1, "name": "1º Prêmio", "value": "R$ 100,00", "pattern": "thirtyLine"},
+      {"id": 2, "name": "2º Prêmio", "value": "R$ 200,00", "pattern": "thirtyFull"}]'
+    else '[
+      {"id": 1, "name": "1º Prêmio", "value": "R$ 500,00", "pattern": "line"},
+      {"id": 2, "name": "2º Prêmio", "value": "R$ 300,00", "pattern": "twoLines"},
+      {"id": 3, "name": "3º Prêmio", "value": "R$ 200,00", "pattern": "x"},
+      {"id": 4, "name": "4º Prêmio", "value": "R$ 150,00", "pattern": "frame"},
+      {"id": 5, "name": "5º Prêmio", "value": "Extra", "pattern": "full"}]'
+  end::jsonb;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Series cards of every variant
+-- ---------------------------------------------------------------------------
+
+-- Strip #k of a 90-ball series: six tickets of 3 rows x 9 columns that hold the 90 balls between
+-- them, five per row and one to three per column. Balls are dealt in the draw order of
+-- sha256(series:strip#k:ball); see stripTickets in services/cardSeries.ts for the steps.
+create or replace function series_strip(p_series text, p_strip integer) returns jsonb
+language plpgsql immutable set search_path = public as $$
+declare
+  v_first integer[] := array[1, 10, 20, 30, 40, 50, 60, 70, 80];
+  v_last integer[] := array[9, 19, 29, 39, 49, 59, 69, 79, 90];
+  -- Position of each ball in the strip's draw order
+  v_rank integer[];
+  -- Numbers of each ticket (rows) in each column
+  v_counts integer[] := array_fill(1, array[6, 9]);
+  v_missing integer[] := array_fill(6, array[6]);
+  v_room integer[];
+  v_grid integer[];
+  v_balls integer[];
+  v_rows integer[];
+  v_tickets jsonb := '[]'::jsonb;
+  v_column integer;
+  v_ticket integer;
+  v_taken integer;
+  i integer;
+begin
+  select array_agg(rank order by ball) into v_rank
+  from (select ball, row_number() over (order by draw_order_key(p_series, 'strip#' || p_strip, ball), ball) as rank
+        from generate_series(1, 90) ball) r;
+
+  -- Every ticket has a number in every column; the rest of a column goes to the tickets missing the most
+  for v_column in select c from generate_series(1, 9) c order by v_last[c] - v_first[c] desc, c loop
+    for v_ticket in
+      select t from generate_series(1, 6) t
+      order by v_missing[t] desc, v_rank[v_first[v_column] + t - 1]
+      limit v_last[v_column] - v_first[v_column] + 1 - 6
+    loop
+      v_counts[v_ticket][v_column] := v_counts[v_ticket][v_column] + 1;
+      v_missing[v_ticket] := v_missing[v_ticket] - 1;
+    end loop;
+  end loop;
+
+  for v_ticket in 1..6 loop
+    v_room := array[5, 5, 5];
+    v_grid := array_fill(null::integer, array[3, 9]);
+    -- Fullest columns first, each into the rows with the most room left
+    for v_column in select c from generate_series(1, 9) c order by v_counts[v_ticket][c] desc, c loop
+      v_taken := coalesce((select sum(v_counts[t][v_column]) from generate_series(1, v_ticket - 1) t), 0);
+      select array_agg(ball order by ball) into v_balls
+      from (select ball from generate_series(v_first[v_column], v_last[v_column]) ball
+            order by v_rank[ball] offset v_taken limit v_counts[v_ticket][v_column]) b;
+      select array_agg(r order by r) into v_rows
+      from (select r from generate_series(1, 3) r order by v_room[r] desc, r limit v_counts[v_ticket][v_column]) s;
+      for i in 1..array_length(v_rows, 1) loop
+        v_grid[v_rows[i]][v_column] := v_balls[i];
+        v_room[v_rows[i]] := v_room[v_rows[i]] - 1;
+      end loop;
+    end loop;
+    v_tickets := v_tickets || jsonb_build_array(jsonb_build_object('rows', (
+      select jsonb_agg((select jsonb_agg(v_grid[r][c] order by c) from generate_series(1, 9) c) order by r)
+      from generate_series(1, 3) r)));
+  end loop;
+  return v_tickets;
+end $$;
+
+drop function if exists series_card(text, integer);
+
+-- Card #n of a series: a 90-ball ticket of strip ceil(n / 6), or, in the other variants, the first
+-- balls of each column in the draw order of sha256(series:#n:ball)
+create or replace function series_card(p_series text, p_number integer, p_variant text) returns jsonb
+language sql immutable set search_path = public as $$
+  with sizes as (
+    select case p_variant when 'ball80' then 20 when 'ball30' then 10 else 15 end as column_size,
+           case p_variant when 'ball80' then 4 when 'ball30' then 3 else 5 end as row_count
+  ), ranked as (
+    select ball, (ball - 1) / column_size as col,
+           row_number() over (partition by (ball - 1) / column_size order by draw_order_key(p_series, '#' || p_number, ball), ball) as rank
+    from sizes, generate_series(1, variant_total_balls(p_variant)) ball
+    where p_variant <> 'ball90'
+  ), columns as (
+    select col, jsonb_agg(ball order by ball) as numbers
+    from ranked, sizes
+    where rank <= case when p_variant = 'ball75' and col = 2 then 4 else row_count end
+    group by col
+  )
+  select case p_variant
+    when 'ball90' then series_strip(p_series, (p_number + 5) / 6) -> ((p_number - 1) % 6)
+    when 'ball75' then jsonb_build_object(
+      'B', (select numbers from columns where col = 0),
+      'I', (select numbers from columns where col = 1),
+      'N', (select jsonb_build_array(numbers -> 0, numbers -> 1, 'LIVRE', numbers -> 2, numbers -> 3) from columns where col = 2),
+      'G', (select numbers from columns where col = 3),
+      'O', (select numbers from columns where col = 4))
+    else jsonb_build_object('rows', (
+      select jsonb_agg((select jsonb_agg(numbers -> r order by col) from columns) order by r)
+      from sizes, generate_series(0, row_count - 1) r))
+  end;
+$$;
+
+-- Cards of the round's series under their ids, each number once, none sold, ordered or kept aside
+-- for a game yet
+create or replace function are_free_series_cards(p_round rounds, p_cards jsonb) returns boolean
+language sql stable set search_path = public as $$
+  select (select count(distinct c->>'serial') from jsonb_array_elements(p_cards) c) = jsonb_array_length(p_cards)
+    and not exists (
+      select 1
+      from jsonb_array_elements(p_cards) c,
+           lateral (select case when c->>'serial' ~ '^[0-9]{1,9}$' then (c->>'serial')::integer end as number) s
+      where s.number is null or s.number = 0
+         -- Written the way formatSerial writes it: "0421"
+         or c->>'serial' <> lpad(s.number::text, greatest(4, length(s.number::text)), '0')
+         or c->>'id' is distinct from 'card-' || p_round.id || '-' || (c->>'serial')
+         or c->'cardData' is distinct from series_card(
+              (select card_series from settings where room_id = p_round.room_id), s.number, p_round.game_variant)
+         or exists (select 1 from cards where round_id = p_round.id and serial = c->>'serial')
+         or exists (
+              select 1
+              from card_orders o, jsonb_array_elements(o.cards) oc
+              where o.round_id in (select id from rounds where room_id = p_round.room_id)
+                and (o.status = 'pending' or o.scheduled_game_id is not null)
+                and oc->>'serial' = c->>'serial'));
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Claims: the variant's patterns, checked on its cards
+-- ---------------------------------------------------------------------------
+
+-- Masks list the cells to mark, row * columns + column, on the variant's card
+alter table win_patterns add column if not exists variant text not null default 'ball75';
+
+insert into win_patterns (id, variant, masks) values
+  ('ninetyOneLine', 'ball90', '[[0, 1, 2, 3, 4, 5, 6, 7, 8], [9, 10, 11, 12, 13, 14, 15, 16, 17], [18, 19, 20, 21, 22, 23, 24, 25, 26]]'),
+  ('ninetyFullHouse', 'ball90', '[[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26]]'),
+  ('eightyLine', 'ball80', '[
+    [0, 1, 2, 3], [4, 5, 6, 7], [8, 9, 10, 11], [12, 13, 14, 15], [0, 4, 8, 12], [1, 5, 9, 13],
+    [2, 6, 10, 14], [3, 7, 11, 15], [0, 5, 10, 15], [3, 6, 9, 12]]'),
+  ('eightyFourCorners', 'ball80', '[[0, 3, 12, 15]]'),
+  ('eightyCenter', 'ball80', '[[5, 6, 9, 10]]'),
+  ('eightyFrame', 'ball80', '[[0, 1, 2, 3, 4, 7, 8, 11, 12, 13, 14, 15]]'),
+  ('eightyFull', 'ball80', '[[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]]'),
+  ('thirtyLine', 'ball30', '[[0, 1, 2], [3, 4, 5], [6, 7, 8], [0, 3, 6], [1, 4, 7], [2, 5, 8], [0, 4, 8], [2, 4, 6]]'),
+  ('thirtyFull', 'ball30', '[[0, 1, 2, 3, 4, 5, 6, 7, 8]]')
+on conflict (id) do nothing;
+
+-- Any two of the ticket's rows at once (pairsOf in services/patterns.ts)
+insert into win_patterns (id, variant, masks)
+select 'ninetyTwoLines', line.variant, (
+  select jsonb_agg(a.mask || b.mask order by a.i, b.i)
+  from jsonb_array_elements(line.masks) with ordinality a (mask, i),
+       jsonb_array_elements(line.masks) with ordinality b (mask, i)
+  where a.i < b.i)
+from win_patterns line where line.id = 'ninetyOneLine'
+on conflict (id) do nothing;
+
+-- The card row by row, flattened: numbers, 'LIVRE' for the free space and null for the blanks
+create or replace function card_cells(p_card_data jsonb) returns jsonb
+language sql immutable as $$
+  select case when p_card_data ? 'rows' then (
+    select jsonb_agg(cell order by r, c)
+    from jsonb_array_elements(p_card_data -> 'rows') with ordinality rows (card_row, r),
+         jsonb_array_elements(card_row) with ordinality cells (cell, c))
+  else (
+    select jsonb_agg(p_card_data -> letter -> r order by r, c)
+    from unnest(array['B', 'I', 'N', 'G', 'O']) with ordinality letters (letter, c), generate_series(0, 4) r)
+  end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Draws: the variant's globe
+-- ---------------------------------------------------------------------------
+
+create or replace function draw_next_number() returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+  v_number integer;
+begin
+  perform require_permission('runGame');
+
+  -- Row lock serializes concurrent draws of the same round
+  select * into v_round from rounds where id = current_round_id() for update;
+  if not v_round.is_active or v_round.is_paused or exists (select 1 from wins where round_id = v_round.id and is_final) then
+    return null;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  if v_count >= variant_total_balls(v_round.game_variant) then return null; end if;
+
+  -- Next ball of the committed order (skipping any drawn before the round had a seed)
+  select n into v_number
+  from generate_series(1, variant_total_balls(v_round.game_variant)) n
+  where n not in (select number from draws where round_id = v_round.id)
+  order by draw_order_key(v_round.server_seed, v_round.public_entropy, n), n
+  limit 1;
+
+  insert into draws (round_id, position, number) values (v_round.id, v_count + 1, v_number);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return v_number;
+end $$;
+
+create or replace function enter_drawn_number(p_number integer) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_count integer;
+begin
+  perform require_permission('runGame');
+
+  -- Same row lock as draw_next_number
+  select * into v_round from rounds where id = current_round_id() for update;
+  if (select draw_mode from settings where room_id = v_round.room_id) <> 'globe'
+     or not v_round.is_active or v_round.is_paused
+     or exists (select 1 from wins where round_id = v_round.id and is_final)
+     or p_number is null or p_number not between 1 and variant_total_balls(v_round.game_variant)
+     or exists (select 1 from draws where round_id = v_round.id and number = p_number) then
+    return false;
+  end if;
+
+  select count(*) into v_count from draws where round_id = v_round.id;
+  insert into draws (round_id, position, number, from_globe) values (v_round.id, v_count + 1, p_number, true);
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = v_round.id;
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Rounds: the next one plays the same variant
+-- ---------------------------------------------------------------------------
+
+create or replace function open_next_round(p_countdown integer) returns bigint
+language plpgsql set search_path = public as $$
+declare
+  v_round_id bigint;
+begin
+  update rounds set is_active = false, finished_at = coalesce(finished_at, now()) where id = current_round_id();
+  perform close_round_ledger(current_round_id());
+  -- Percentage prizes go back to showing the share for the next round's sales
+  update prizes set value = pool_percent || '% do arrecadado' where room_id = current_room_id() and pool_percent is not null;
+  insert into rounds (room_id, is_active, pre_game_countdown, game_variant)
+  values (current_room_id(), false, p_countdown, (select game_variant from rounds where id = current_round_id()))
+  returning id into v_round_id;
+  return v_round_id;
+end $$;
+
+-- Refused once a ball is drawn or a card is sold, ordered or kept aside for a game
+create or replace function set_game_variant(p_variant text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  perform require_permission('runGame');
+  select * into v_round from rounds where id = current_round_id() for update;
+  if p_variant is null or p_variant not in ('ball75', 'ball90', 'ball80', 'ball30')
+     or v_round.is_active
+     or exists (select 1 from draws where round_id = v_round.id)
+     or exists (select 1 from cards where round_id = v_round.id)
+     or exists (select 1 from card_orders
+                where round_id in (select id from rounds where room_id = v_round.room_id)
+                  and (status = 'pending' or scheduled_game_id is not null)) then
+    return false;
+  end if;
+
+  update rounds set game_variant = p_variant where id = v_round.id;
+  -- The patterns of the old ladder don't fit the new cards
+  delete from prizes where room_id = v_round.room_id;
+  insert into prizes (room_id, id, position, name, value, pattern)
+  select v_round.room_id, (p->>'id')::integer, position, p->>'name', p->>'value', p->>'pattern'
+  from jsonb_array_elements(variant_default_prizes(p_variant)) with ordinality as t (p, position);
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read models: the variant goes along with the room's state, the draw audits and the archived rounds
+-- ---------------------------------------------------------------------------
+
+create or replace function get_round_archive(p_round_id bigint) returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+begin
+  select * into v_round from rounds
+  where id = p_round_id and room_id = current_room_id() and id < current_round_id() and exists (select 1 from draws where round_id = p_round_id);
+  if not found then return null; end if;
+
+  return archived_round_summary(v_round) || jsonb_build_object(
+    'draws', coalesce((select jsonb_agg(jsonb_build_object('number', number, 'drawnAt', epoch_ms(drawn_at)) order by position)
+                       from draws where round_id = v_round.id), '[]'::jsonb),
+    'cards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                       from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'claims', round_claims(v_round.id),
+    'awardedPrizes', round_awards(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'gameVariant', v_round.game_variant,
+    'drawAudit', jsonb_build_object(
+      'roundId', v_round.id,
+      'gameVariant', v_round.game_variant,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', v_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_round.id)) else '{}'::jsonb end);
+end $$;
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                                from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'gameVariant', v_last_round.game_variant,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'gameVariant', v_round.game_variant,
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function series_card(text, integer, text), set_game_variant(text) from public, anon;
+grant execute on function series_card(text, integer, text), set_game_variant(text) to authenticated;
+revoke execute on function variant_total_balls(text), variant_default_prizes(text), series_strip(text, integer)
+  from public, anon, authenticated;
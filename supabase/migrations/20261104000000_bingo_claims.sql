@@ -0,0 +1,354 @@
+-- Bingo claims (same rules as services/claims.ts): a player marking by hand claims with a card id
+-- only. The claim is checked here against the round's draws and the prize in play, over all of the
+-- player's cards, awarded to the winning ones and logged. Each false claim is a strike and a
+-- 5-second wait; from the room's strike count on, a false claim also locks the player out of the
+-- round or forfeits the claimed card. Awards recorded by the staff go through the same check.
+
+alter table settings add column if not exists claim_strikes integer not null default 3 check (claim_strikes between 1 and 10);
+alter table settings add column if not exists claim_penalty text check (claim_penalty in ('lockRound', 'forfeitCard'));
+alter table claims add column if not exists penalty text check (penalty in ('lockRound', 'forfeitCard'));
+
+-- The round's cards still in it (not forfeited by a false claim) completing the pattern, in card
+-- order, leaving out the cards of win `p_skip_win_id`
+create or replace function winning_cards(p_round_id bigint, p_pattern text, p_drawn integer[], p_skip_win_id bigint)
+returns table (card_id text, owner text, is_paper boolean, card_order bigint)
+language sql stable set search_path = public as $$
+  select c.id, c.owner, c.is_paper, row_number() over (order by c.created_at, c.id)
+  from cards c
+  where c.round_id = p_round_id and card_completes_pattern(c.card_data, p_pattern, p_drawn)
+    and c.id not in (select cl.card_id from claims cl where cl.round_id = p_round_id and cl.penalty = 'forfeitCard')
+    and c.id not in (select wc.card_id from win_cards wc where wc.win_id = p_skip_win_id);
+$$;
+
+-- The player's own cards among them; paper cards are claimed by a host (services/paperCards.ts)
+create or replace function player_winning_cards(
+  p_round_id bigint, p_player_name text, p_pattern text, p_drawn integer[], p_skip_win_id bigint
+) returns table (card_id text, card_order bigint)
+language sql stable set search_path = public as $$
+  select w.card_id, w.card_order
+  from winning_cards(p_round_id, p_pattern, p_drawn, p_skip_win_id) w
+  where w.owner = p_player_name and not w.is_paper;
+$$;
+
+-- Whether every candidate is, under its owner's name, one of those cards (areWinningCards in
+-- services/claims.ts), each listed once
+create or replace function are_winning_cards(p_round_id bigint, p_candidates jsonb, p_pattern text, p_skip_win_id bigint)
+returns boolean
+language sql stable set search_path = public as $$
+  select count(*) = jsonb_array_length(p_candidates)
+  from winning_cards(p_round_id, p_pattern,
+                     array(select number from draws where round_id = p_round_id order by position), p_skip_win_id) w
+  join (select distinct c ->> 'cardId' as card_id, c ->> 'playerName' as player_name
+        from jsonb_array_elements(p_candidates) c) candidate
+    on candidate.card_id = w.card_id and candidate.player_name = w.owner;
+$$;
+
+-- Same shape as BingoClaim in types.ts
+create or replace function round_claims(p_round_id bigint) returns jsonb
+language sql stable as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'playerName', user_name, 'cardId', card_id, 'ballCount', ball_count, 'isValid', is_valid,
+           'timestamp', epoch_ms(created_at))
+           || case when penalty is not null then jsonb_build_object('penalty', penalty) else '{}'::jsonb end
+           order by id), '[]'::jsonb)
+  from claims where round_id = p_round_id;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Claims
+-- ---------------------------------------------------------------------------
+
+create or replace function set_claim_rules(p_strikes integer, p_penalty text) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if p_strikes is null or p_strikes not between 1 and 10 or p_penalty not in ('lockRound', 'forfeitCard') then
+    return false;
+  end if;
+  update settings set claim_strikes = p_strikes, claim_penalty = p_penalty where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- True if cards of the player complete the prize in play, or the last prize on the ball that
+-- decided it; those cards then win it. Refused (false, nothing logged) while the player waits after
+-- a false claim or is locked out, and when there is no prize to claim.
+create or replace function claim_bingo(p_player_name text, p_card_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_settings settings%rowtype;
+  v_drawn integer[];
+  v_last wins%rowtype;
+  v_is_co_winner boolean := false;
+  v_winners jsonb;
+  v_penalty text;
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  -- Same row lock as the draws: the claim is checked against the balls out when it is made
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_settings from settings where room_id = v_round.room_id;
+  if not exists (select 1 from cards where id = p_card_id and round_id = v_round.id and owner = p_player_name)
+     or v_round.ended_outcome is not null
+     or exists (select 1 from claims where round_id = v_round.id and user_name = p_player_name and penalty = 'lockRound')
+     or exists (select 1 from claims where round_id = v_round.id and user_name = p_player_name and not is_valid
+                and created_at > now() - interval '5 seconds') then
+    return false;
+  end if;
+  v_drawn := array(select number from draws where round_id = v_round.id order by position);
+
+  -- A claim on the ball that decided the last prize joins it; then the prize in play
+  select * into v_last from wins where round_id = v_round.id order by id desc limit 1;
+  if v_last.id is not null and v_last.tie_rule <> 'firstClaim' and v_last.ball_count = cardinality(v_drawn) then
+    select jsonb_agg(jsonb_build_object('cardId', w.card_id, 'playerName', p_player_name) order by w.card_order)
+    into v_winners
+    from player_winning_cards(v_round.id, p_player_name, v_last.pattern, v_drawn, v_last.id) w;
+    v_is_co_winner := v_winners is not null;
+  end if;
+
+  if v_winners is null then
+    if not v_round.is_active or exists (select 1 from wins where round_id = v_round.id and is_final) then
+      return false;
+    end if;
+    select jsonb_agg(jsonb_build_object('cardId', w.card_id, 'playerName', p_player_name) order by w.card_order)
+    into v_winners
+    from player_winning_cards(v_round.id, p_player_name,
+           (select pattern from prizes where room_id = v_round.room_id order by position
+            offset (select count(*) from wins where round_id = v_round.id) limit 1),
+           v_drawn, null) w;
+  end if;
+
+  if v_winners is not null then
+    -- The claim holds: the player's winning cards get the prize
+    if not (case when v_is_co_winner then join_last_award(v_round.id, v_winners)
+                 else award_prize_in_play(v_round.id, v_winners) end) then
+      return false;
+    end if;
+  else
+    v_penalty := case
+      when (select count(*) + 1 from claims where round_id = v_round.id and user_name = p_player_name and not is_valid)
+           >= v_settings.claim_strikes
+      then v_settings.claim_penalty end;
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round.id;
+  end if;
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid, penalty)
+  values (v_round.id, p_player_name, coalesce(v_winners -> 0 ->> 'cardId', p_card_id), cardinality(v_drawn),
+          v_winners is not null, v_penalty);
+  perform touch_game_events();
+  return v_winners is not null;
+end $$;
+
+-- Only the player who made a false claim clears its notice
+create or replace function clear_invalid_claim(p_player_name text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null
+  where id = current_round_id() and invalid_claim_player = p_player_name;
+  if found then perform touch_game_events(); end if;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Awards: only to cards that complete the prize, whoever records them (a claim, the game runner or
+-- a host checking a paper card)
+-- ---------------------------------------------------------------------------
+
+create or replace function award_prize_in_play(p_round_id bigint, p_candidates jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_room_id text := (select room_id from rounds where id = p_round_id);
+  v_win_count integer;
+  v_prize prizes%rowtype;
+  v_tie_rule text := (select tie_rule from settings where room_id = v_room_id);
+  v_is_final boolean;
+  v_award jsonb;
+  v_win_id bigint;
+begin
+  select count(*) into v_win_count from wins where round_id = p_round_id;
+  select * into v_prize from prizes where room_id = v_room_id order by position offset v_win_count limit 1;
+  if v_prize.id is null or coalesce(jsonb_array_length(p_candidates), 0) = 0
+     or not are_winning_cards(p_round_id, p_candidates, v_prize.pattern, null) then
+    return false;
+  end if;
+  v_is_final := (select count(*) from prizes where room_id = v_room_id) <= v_win_count + 1;
+
+  v_award := jsonb_build_object('candidates', p_candidates)
+    || resolve_tie(p_round_id, v_prize.id, p_candidates, v_tie_rule, v_prize.value);
+  insert into wins (round_id, prize_id, prize_name, pattern, ball_count, tie_rule, share_value, is_final)
+  values (p_round_id, v_prize.id, v_prize.name, v_prize.pattern,
+          (select count(*) from draws where round_id = p_round_id), v_tie_rule, v_award ->> 'shareValue', v_is_final)
+  returning id into v_win_id;
+
+  perform save_win_cards(v_win_id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+
+  update rounds
+  set is_active = is_active and not v_is_final,
+      finished_at = case when v_is_final then now() else finished_at end,
+      invalid_claim_player = null,
+      invalid_claim_at = null
+  where id = p_round_id;
+  return true;
+end $$;
+
+create or replace function join_last_award(p_round_id bigint, p_co_winners jsonb) returns boolean
+language plpgsql set search_path = public as $$
+declare
+  v_win wins%rowtype;
+  v_candidates jsonb;
+  v_previous_winners jsonb;
+  v_award jsonb;
+begin
+  select * into v_win from wins where round_id = p_round_id order by id desc limit 1;
+  if v_win.id is null or v_win.tie_rule = 'firstClaim' or coalesce(jsonb_array_length(p_co_winners), 0) = 0
+     or v_win.ball_count <> (select count(*) from draws where round_id = p_round_id)
+     or not are_winning_cards(p_round_id, p_co_winners, v_win.pattern, v_win.id) then
+    return false;
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('cardId', card_id, 'playerName', player_name) order by position), '[]'::jsonb)
+         || p_co_winners
+  into v_candidates
+  from win_cards where win_id = v_win.id;
+  select coalesce(jsonb_agg(jsonb_build_object('playerName', player_name)), '[]'::jsonb)
+  into v_previous_winners
+  from win_cards where win_id = v_win.id and is_winner;
+
+  v_award := jsonb_build_object('candidates', v_candidates)
+    || resolve_tie(p_round_id, v_win.prize_id, v_candidates, v_win.tie_rule,
+                   coalesce((select value from prizes
+                             where room_id = (select room_id from rounds where id = p_round_id) and id = v_win.prize_id),
+                            v_win.share_value));
+  perform add_user_wins(v_previous_winners, -1);
+  perform save_win_cards(v_win.id, v_award);
+  perform add_user_wins(v_award -> 'winners', 1);
+  update wins set share_value = v_award ->> 'shareValue' where id = v_win.id;
+  update rounds set invalid_claim_player = null, invalid_claim_at = null where id = p_round_id;
+  return true;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read model: the claim rules go along with the room's state
+-- ---------------------------------------------------------------------------
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                                from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'gameVariant', v_last_round.game_variant,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'gameVariant', v_round.game_variant,
+    'claimRules', (select jsonb_build_object('strikes', claim_strikes, 'penalty', claim_penalty)
+                   from settings where room_id = v_round.room_id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function set_claim_rules(integer, text), claim_bingo(text, text) from public, anon;
+grant execute on function set_claim_rules(integer, text), claim_bingo(text, text) to authenticated;
+revoke execute on function
+  winning_cards(bigint, text, integer[], bigint),
+  player_winning_cards(bigint, text, text, integer[], bigint),
+  are_winning_cards(bigint, jsonb, text, bigint)
+from public, anon, authenticated;
@@ -0,0 +1,313 @@
+-- Late claims (same rules as services/claims.ts): each claim records the ball on which the player's
+-- card became a winner, that is, completed the pattern while its prize was in play. Under the room's
+-- late claim rule, a card only wins if claimed before the ball after that one; a late claim wins
+-- nothing, but is neither a strike nor a reason to wait. Awards recorded by the staff follow the rule too.
+
+alter table settings add column if not exists claim_before_next_ball boolean not null default false;
+alter table claims add column if not exists winning_ball integer;
+
+-- Balls drawn when the card first completed the pattern (winningBallCount in services/patterns.ts);
+-- null if it hasn't yet
+create or replace function card_winning_ball(p_card_data jsonb, p_pattern text, p_drawn integer[]) returns integer
+language sql stable set search_path = public as $$
+  select min(mask_ball)
+  from win_patterns p, jsonb_array_elements(p.masks) mask, lateral (select card_cells(p_card_data) as cells) card,
+       lateral (
+         -- Ball on which the last cell of the mask got marked: 0 for the cells marked from the start
+         select max(case when jsonb_typeof(v.value) = 'number' then array_position(p_drawn, v.value::text::integer) else 0 end) as mask_ball,
+                bool_and(v.value is not null
+                         and (jsonb_typeof(v.value) <> 'number' or v.value::text::integer = any (p_drawn))) as is_complete
+         from jsonb_array_elements_text(mask) cell,
+              lateral (select card.cells -> cell::integer as value) v) m
+  where p.id = p_pattern and m.is_complete;
+$$;
+
+create or replace function card_completes_pattern(p_card_data jsonb, p_pattern text, p_drawn integer[]) returns boolean
+language sql stable set search_path = public as $$
+  select card_winning_ball(p_card_data, p_pattern, p_drawn) is not null;
+$$;
+
+-- The winning cards now carry the ball on which each became a winner: not before its prize was in
+-- play, that is, before `p_in_play_since` balls
+drop function if exists are_winning_cards(bigint, jsonb, text, bigint);
+drop function if exists player_winning_cards(bigint, text, text, integer[], bigint);
+drop function if exists winning_cards(bigint, text, integer[], bigint);
+
+create or replace function winning_cards(
+  p_round_id bigint, p_pattern text, p_drawn integer[], p_in_play_since integer, p_skip_win_id bigint
+) returns table (card_id text, owner text, is_paper boolean, card_order bigint, winning_ball integer)
+language sql stable set search_path = public as $$
+  select c.id, c.owner, c.is_paper, row_number() over (order by c.created_at, c.id), greatest(b.ball, p_in_play_since)
+  from cards c, lateral (select card_winning_ball(c.card_data, p_pattern, p_drawn) as ball) b
+  where c.round_id = p_round_id and b.ball is not null
+    and c.id not in (select cl.card_id from claims cl where cl.round_id = p_round_id and cl.penalty = 'forfeitCard')
+    and c.id not in (select wc.card_id from win_cards wc where wc.win_id = p_skip_win_id);
+$$;
+
+create or replace function player_winning_cards(
+  p_round_id bigint, p_player_name text, p_pattern text, p_drawn integer[], p_in_play_since integer, p_skip_win_id bigint
+) returns table (card_id text, card_order bigint, winning_ball integer)
+language sql stable set search_path = public as $$
+  select w.card_id, w.card_order, w.winning_ball
+  from winning_cards(p_round_id, p_pattern, p_drawn, p_in_play_since, p_skip_win_id) w
+  where w.owner = p_player_name and not w.is_paper;
+$$;
+
+-- Under the late claim rule, an award also needs each card to have become a winner on the last ball.
+-- The prize came into play on the ball that decided the win before `p_skip_win_id` (or before any
+-- new one)
+create or replace function are_winning_cards(p_round_id bigint, p_candidates jsonb, p_pattern text, p_skip_win_id bigint)
+returns boolean
+language sql stable set search_path = public as $$
+  select count(*) = jsonb_array_length(p_candidates)
+  from winning_cards(p_round_id, p_pattern,
+                     array(select number from draws where round_id = p_round_id order by position),
+                     coalesce((select ball_count from wins where round_id = p_round_id and (p_skip_win_id is null or id < p_skip_win_id)
+                               order by id desc limit 1), 0),
+                     p_skip_win_id) w
+  join (select distinct c ->> 'cardId' as card_id, c ->> 'playerName' as player_name
+        from jsonb_array_elements(p_candidates) c) candidate
+    on candidate.card_id = w.card_id and candidate.player_name = w.owner
+  where not (select s.claim_before_next_ball from settings s join rounds r on r.room_id = s.room_id where r.id = p_round_id)
+     or w.winning_ball = (select count(*) from draws where round_id = p_round_id);
+$$;
+
+-- Same shape as BingoClaim in types.ts
+create or replace function round_claims(p_round_id bigint) returns jsonb
+language sql stable as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'playerName', user_name, 'cardId', card_id, 'ballCount', ball_count, 'isValid', is_valid,
+           'timestamp', epoch_ms(created_at))
+           || case when penalty is not null then jsonb_build_object('penalty', penalty) else '{}'::jsonb end
+           || case when winning_ball is not null then jsonb_build_object('winningBall', winning_ball) else '{}'::jsonb end
+           order by id), '[]'::jsonb)
+  from claims where round_id = p_round_id;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Claims
+-- ---------------------------------------------------------------------------
+
+drop function if exists set_claim_rules(integer, text);
+
+create or replace function set_claim_rules(p_strikes integer, p_penalty text, p_before_next_ball boolean) returns boolean
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_permission('runGame');
+  if p_strikes is null or p_strikes not between 1 and 10 or p_penalty not in ('lockRound', 'forfeitCard')
+     or p_before_next_ball is null then
+    return false;
+  end if;
+  update settings set claim_strikes = p_strikes, claim_penalty = p_penalty, claim_before_next_ball = p_before_next_ball
+  where room_id = current_room_id();
+  perform touch_game_events();
+  return true;
+end $$;
+
+-- True if cards of the player complete the prize in play, or the last prize on the ball that
+-- decided it, in time under the late claim rule; those cards then win it. A late claim wins nothing
+-- and costs no strike. Refused (false, nothing logged) while the player waits after a false claim or
+-- is locked out, and when there is no prize to claim.
+create or replace function claim_bingo(p_player_name text, p_card_id text) returns boolean
+language plpgsql security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_settings settings%rowtype;
+  v_drawn integer[];
+  v_last wins%rowtype;
+  v_is_prize_in_play boolean;
+  v_is_co_winner boolean := false;
+  v_winners jsonb;
+  v_winning_ball integer;
+  v_late_ball integer;
+  v_penalty text;
+begin
+  if p_player_name is distinct from current_user_name() then
+    raise exception 'not allowed' using errcode = '42501';
+  end if;
+
+  -- Same row lock as the draws: the claim is checked against the balls out when it is made
+  select * into v_round from rounds where id = current_round_id() for update;
+  select * into v_settings from settings where room_id = v_round.room_id;
+  if not exists (select 1 from cards where id = p_card_id and round_id = v_round.id and owner = p_player_name)
+     or v_round.ended_outcome is not null
+     or exists (select 1 from claims where round_id = v_round.id and user_name = p_player_name and penalty = 'lockRound')
+     or exists (select 1 from claims where round_id = v_round.id and user_name = p_player_name
+                and not is_valid and winning_ball is null and created_at > now() - interval '5 seconds') then
+    return false;
+  end if;
+  v_drawn := array(select number from draws where round_id = v_round.id order by position);
+  v_is_prize_in_play := v_round.is_active and not exists (select 1 from wins where round_id = v_round.id and is_final);
+
+  -- A claim on the ball that decided the last prize joins it; then the prize in play. The cards in
+  -- time win, and the latest of the others dates a late claim.
+  select * into v_last from wins where round_id = v_round.id order by id desc limit 1;
+  if v_last.id is not null and v_last.tie_rule <> 'firstClaim' and v_last.ball_count = cardinality(v_drawn) then
+    select jsonb_agg(jsonb_build_object('cardId', w.card_id, 'playerName', p_player_name) order by w.card_order) filter (where w.is_timely),
+           (array_agg(w.winning_ball order by w.card_order) filter (where w.is_timely))[1],
+           max(w.winning_ball)
+    into v_winners, v_winning_ball, v_late_ball
+    from (select pw.*, not v_settings.claim_before_next_ball or pw.winning_ball = cardinality(v_drawn) as is_timely
+          from player_winning_cards(v_round.id, p_player_name, v_last.pattern, v_drawn,
+                 coalesce((select ball_count from wins where round_id = v_round.id and id < v_last.id order by id desc limit 1), 0),
+                 v_last.id) pw) w;
+    v_is_co_winner := v_winners is not null;
+  end if;
+
+  if v_winners is null and v_is_prize_in_play then
+    select jsonb_agg(jsonb_build_object('cardId', w.card_id, 'playerName', p_player_name) order by w.card_order) filter (where w.is_timely),
+           (array_agg(w.winning_ball order by w.card_order) filter (where w.is_timely))[1],
+           greatest(v_late_ball, max(w.winning_ball))
+    into v_winners, v_winning_ball, v_late_ball
+    from (select pw.*, not v_settings.claim_before_next_ball or pw.winning_ball = cardinality(v_drawn) as is_timely
+          from player_winning_cards(v_round.id, p_player_name,
+                 (select pattern from prizes where room_id = v_round.room_id order by position
+                  offset (select count(*) from wins where round_id = v_round.id) limit 1),
+                 v_drawn, coalesce(v_last.ball_count, 0), null) pw) w;
+  end if;
+
+  if v_winners is null and v_late_ball is null and not v_is_prize_in_play then
+    return false;
+  end if;
+  if v_winners is not null then
+    -- The claim holds: the player's winning cards get the prize
+    if not (case when v_is_co_winner then join_last_award(v_round.id, v_winners)
+                 else award_prize_in_play(v_round.id, v_winners) end) then
+      return false;
+    end if;
+  elsif v_late_ball is null then
+    v_penalty := case
+      when (select count(*) + 1 from claims where round_id = v_round.id and user_name = p_player_name
+            and not is_valid and winning_ball is null)
+           >= v_settings.claim_strikes
+      then v_settings.claim_penalty end;
+    update rounds set invalid_claim_player = p_player_name, invalid_claim_at = now() where id = v_round.id;
+  end if;
+  insert into claims (round_id, user_name, card_id, ball_count, is_valid, penalty, winning_ball)
+  values (v_round.id, p_player_name, coalesce(v_winners -> 0 ->> 'cardId', p_card_id), cardinality(v_drawn),
+          v_winners is not null, v_penalty, coalesce(v_winning_ball, v_late_ball));
+  perform touch_game_events();
+  return v_winners is not null;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Read model: the late claim rule goes along with the other claim rules
+-- ---------------------------------------------------------------------------
+
+create or replace function get_game_state() returns jsonb
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_round rounds%rowtype;
+  v_win_count integer;
+  v_awards jsonb;
+  v_final_winners jsonb;
+  v_last_round rounds%rowtype;
+begin
+  select * into v_round from rounds where id = current_round_id();
+  if not found then return null; end if;
+  select count(*) into v_win_count from wins where round_id = v_round.id;
+
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'prizeId', w.prize_id,
+    'prizeName', w.prize_name,
+    'pattern', w.pattern,
+    'ballCount', w.ball_count,
+    'tieRule', w.tie_rule,
+    'candidates', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                   from win_cards wc where wc.win_id = w.id),
+    'winners', (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+                from win_cards wc where wc.win_id = w.id and wc.is_winner),
+    'shareValue', w.share_value,
+    'drawOffBalls', (select jsonb_object_agg(wc.card_id, wc.draw_off_ball)
+                     from win_cards wc where wc.win_id = w.id and wc.draw_off_ball is not null)
+  )) order by w.id), '[]'::jsonb)
+  into v_awards
+  from wins w where w.round_id = v_round.id;
+
+  select (select jsonb_agg(jsonb_build_object('cardId', wc.card_id, 'playerName', wc.player_name) order by wc.position)
+          from win_cards wc where wc.win_id = w.id and wc.is_winner)
+  into v_final_winners
+  from wins w where w.round_id = v_round.id and w.is_final;
+
+  select * into v_last_round from rounds where room_id = v_round.room_id and id < v_round.id order by id desc limit 1;
+
+  return jsonb_build_object(
+    'roundId', v_round.id,
+    'users', coalesce((select jsonb_agg(jsonb_build_object('name', user_name, 'role', role) order by joined_at, user_name)
+                       from room_members where room_id = v_round.room_id), '[]'::jsonb),
+    'onlineUsers', coalesce((select jsonb_agg(user_name order by user_name) from room_members where room_id = v_round.room_id and is_online), '[]'::jsonb),
+    'generatedCards', coalesce((select jsonb_agg(card_json(c) order by c.created_at, c.id)
+                                from cards c where c.round_id = v_round.id), '[]'::jsonb),
+    'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'drawnAt', coalesce((select jsonb_agg(epoch_ms(drawn_at) order by position) from draws where round_id = v_round.id), '[]'::jsonb),
+    'isGameActive', v_round.is_active,
+    'bingoWinners', v_final_winners,
+    'playerWins', coalesce((select jsonb_object_agg(user_name, wins) from room_members where room_id = v_round.room_id and wins > 0), '{}'::jsonb),
+    'gameMode', coalesce(
+      (select pattern from prizes where room_id = v_round.room_id order by position offset v_win_count limit 1),
+      (select pattern from wins where round_id = v_round.id order by id desc limit 1),
+      'line'),
+    'prizes', coalesce((select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+                          'id', id, 'name', name, 'value', value, 'pattern', pattern, 'poolPercent', pool_percent)) order by position)
+                        from prizes where room_id = v_round.room_id), '[]'::jsonb),
+    'awardedPrizes', v_awards,
+    'tieRule', (select tie_rule from settings where room_id = v_round.room_id),
+    'preGameCountdown', v_round.pre_game_countdown,
+    'playerPreferences', coalesce((select jsonb_object_agg(user_name, preference) from player_preferences where round_id = v_round.id), '{}'::jsonb),
+    'invalidBingoClaim', case when v_round.invalid_claim_player is null then null
+                          else jsonb_build_object('playerName', v_round.invalid_claim_player, 'timestamp', epoch_ms(v_round.invalid_claim_at)) end,
+    'claims', round_claims(v_round.id),
+    'lastReaction', (select jsonb_build_object('type', type, 'timestamp', epoch_ms(created_at))
+                     from reactions where round_id = v_round.id order by id desc limit 1),
+    'priceTable', (select price_table from settings where room_id = v_round.room_id),
+    'charityPercent', (select charity_percent from settings where room_id = v_round.room_id),
+    'roundPriceTable', v_round.price_table,
+    'cardOrders', coalesce((select jsonb_agg(jsonb_build_object(
+                              'id', id, 'playerName', player_name, 'cards', cards, 'amount', amount, 'status', status,
+                              'createdAt', epoch_ms(created_at), 'confirmedBy', confirmed_by)
+                              || case when scheduled_game_id is not null then jsonb_build_object('scheduledGameId', scheduled_game_id) else '{}'::jsonb end
+                              order by created_at, id)
+                            from card_orders
+                            where (status = 'pending' or round_id = v_round.id or (status = 'paid' and scheduled_game_id is not null))
+                              and round_id in (select id from rounds where room_id = v_round.room_id)), '[]'::jsonb),
+    'pixReceiver', (select case when pix_key is not null then jsonb_build_object('key', pix_key, 'name', pix_name, 'city', pix_city) end
+                    from settings where room_id = v_round.room_id),
+    'drawCommitment', jsonb_build_object(
+      'roundId', v_round.id,
+      'seedHash', seed_hash(v_round.server_seed),
+      'publicEntropy', v_round.public_entropy,
+      'serverSeed', case when v_final_winners is not null or v_round.ended_outcome is not null then v_round.server_seed end),
+    'lastDrawAudit', case when v_last_round.id is not null then jsonb_build_object(
+      'roundId', v_last_round.id,
+      'gameVariant', v_last_round.game_variant,
+      'seedHash', seed_hash(v_last_round.server_seed),
+      'publicEntropy', v_last_round.public_entropy,
+      'serverSeed', v_last_round.server_seed,
+      'drawnNumbers', coalesce((select jsonb_agg(number order by position) from draws where round_id = v_last_round.id), '[]'::jsonb))
+      || case when round_globe_numbers(v_last_round.id) <> '[]'::jsonb
+           then jsonb_build_object('globeNumbers', round_globe_numbers(v_last_round.id)) else '{}'::jsonb end end,
+    'scheduledGames', room_scheduled_games(v_round.room_id),
+    'isPaused', v_round.is_paused,
+    'drawMode', (select draw_mode from settings where room_id = v_round.room_id),
+    'drawIntervalMs', (select draw_interval_ms from settings where room_id = v_round.room_id),
+    'globeNumbers', round_globe_numbers(v_round.id),
+    'cardSeries', (select card_series from settings where room_id = v_round.room_id),
+    'gameVariant', v_round.game_variant,
+    'claimRules', (select jsonb_build_object('strikes', claim_strikes, 'penalty', claim_penalty, 'beforeNextBall', claim_before_next_ball)
+                   from settings where room_id = v_round.room_id),
+    'roundEnding', case when v_round.ended_outcome is not null then jsonb_build_object(
+      'outcome', v_round.ended_outcome,
+      'reason', v_round.ended_reason,
+      'endedBy', v_round.ended_by,
+      'endedAt', epoch_ms(v_round.finished_at)) end
+  );
+end $$;
+
+revoke execute on function set_claim_rules(integer, text, boolean) from public, anon;
+grant execute on function set_claim_rules(integer, text, boolean) to authenticated;
+revoke execute on function
+  card_winning_ball(jsonb, text, integer[]),
+  winning_cards(bigint, text, integer[], integer, bigint),
+  player_winning_cards(bigint, text, text, integer[], integer, bigint),
+  are_winning_cards(bigint, jsonb, text, bigint)
+from public, anon, authenticated;
@@ -2,8 +2,40 @@ export interface Prize {
   id: number;
   name: string;
   value: string;
+  pattern: GameMode;
+  // Share of the round's card sales; `value` is recomputed from it when the game starts
+  poolPercent?: number;
 }
 
+export interface PrizeWinner {
+  cardId: string;
+  playerName: string;
+}
+
+// How a prize is resolved when several cards complete the pattern on the same ball
+export type TieRule = 'split' | 'drawOff' | 'firstClaim';
+
+// A prize of the ladder that has already been given out in the current round
+export interface AwardedPrize {
+  prizeId: number;
+  prizeName: string;
+  pattern: GameMode;
+  ballCount: number;
+  tieRule: TieRule;
+  // Every card that completed the pattern on the deciding ball
+  candidates: PrizeWinner[];
+  // Who receives the prize once the tie rule is applied
+  winners: PrizeWinner[];
+  // What each winner receives
+  shareValue: string;
+  // Tie-break ball drawn for each candidate card when the rule is 'drawOff'
+  drawOffBalls?: Record<string, number>;
+}
+
+// Which bingo a room plays: 75, 90, 80 or 30 balls (services/variants.ts)
+export type GameVariant = 'ball75' | 'ball90' | 'ball80' | 'ball30';
+
+// A 75-ball card: the B-I-N-G-O columns top to bottom, 'LIVRE' in the middle of N
 export interface BingoCardData {
   B: number[];
   I: number[];
@@ -12,15 +44,37 @@ export interface BingoCardData {
   O: number[];
 }
 
+// Any other card, row by row: 90-ball tickets (3 x 9, null for the blanks), 80-ball (4 x 4) and 30-ball (3 x 3) cards
+export interface GridCardData {
+  rows: (number | null)[][];
+}
+
+export type CardData = BingoCardData | GridCardData;
+
 export interface GeneratedCard {
   id: string;
-  cardData: BingoCardData;
+  cardData: CardData;
   owner: string;
+  // Number of the card in its room's card series, e.g. "0421" (services/cardSeries.ts); cards sold
+  // before series existed have none
+  serial?: string;
+  // Sold on paper at the counter (services/paperCards.ts); the cashier who sold it is its owner
+  isPaper?: boolean;
 }
 
+// owner: runs the room and manages the staff; host: co-host/caller; cashier: handles payments
+export type UserRole = 'owner' | 'host' | 'cashier' | 'player';
+
+// Public view of a player, shared with every client
 export interface User {
   name: string;
-  password?: string;
+  role: UserRole;
+}
+
+// The signed-in player's own account; only ever sent to its owner. The role lives in the
+// shared `users` list so promotions show up without signing in again.
+export interface UserProfile {
+  name: string;
   pixKey: string;
 }
 
@@ -28,7 +82,19 @@ export interface PlayerWin {
     [playerName: string]: number;
 }
 
-export type GameMode = 'line' | 'full';
+// Id of a win pattern registered in services/patterns.ts ('line', 'fourCorners', 'full', ...)
+export type GameMode = string;
+
+export interface WinPattern {
+  id: GameMode;
+  name: string;
+  variant: GameVariant;
+  // Each mask lists the cell indexes (row * columns + column) that must be marked; any mask wins.
+  // Blanks and the free space count as marked.
+  masks: number[][];
+  // Fewest balls that complete it, where the masks include blanks (90-ball tickets)
+  minimumBalls?: number;
+}
 
 export interface PlayerPreferences {
   [playerName: string]: 'auto' | 'manual';
@@ -39,17 +105,258 @@ export interface Reaction {
   timestamp: number;
 }
 
+// A pack of cards sold for a fixed price, e.g. 5 for R$ 60,00; a quantity of 1 sets the unit price
+export interface CardBundle {
+  quantity: number;
+  // In reais
+  price: number;
+  // Shown next to the bundle, e.g. "Promoção"
+  label?: string;
+}
+
+// Always has a bundle of quantity 1, so any quantity can be bought
+export type PriceTable = CardBundle[];
+
+export type OrderStatus = 'pending' | 'paid' | 'cancelled';
+
+// Cards bought through PIX; they only join the round once the payment is confirmed
+export interface CardOrder {
+  // Also the txid of the PIX charge
+  id: string;
+  playerName: string;
+  cards: GeneratedCard[];
+  // In reais, set by the backend from the price table when the order is created
+  amount: number;
+  status: OrderStatus;
+  createdAt: number;
+  // Cashier (or payment provider) who confirmed or cancelled it
+  confirmedBy: string | null;
+  // Pre-order for a scheduled game that hasn't begun; its cards join that game's round
+  scheduledGameId?: string;
+}
+
+// Account receiving the card payments, used to build the PIX "copia e cola" code
+export interface PixReceiver {
+  key: string;
+  name: string;
+  city: string;
+}
+
+// Money side of a finished round, kept for the charity's accounts
+export interface RoundLedger {
+  roundId: number;
+  finishedAt: number;
+  cardsSold: number;
+  // Paid card orders, in reais
+  revenue: number;
+  charityPercent: number;
+  charityAmount: number;
+  // Cash prizes owed to the winners (non-cash prizes like "Extra" count as zero)
+  prizesTotal: number;
+}
+
+export type PayoutStatus = 'pending' | 'paid';
+
+// What one winning card is owed for one prize
+export interface PrizePayout {
+  id: string;
+  roundId: number;
+  prizeName: string;
+  playerName: string;
+  cardId: string;
+  // null for non-cash prizes
+  amount: number | null;
+  // The prize share as announced, e.g. "R$ 166,67" or "Extra"
+  description: string;
+  // The winner's registered key, joined in when the ledger is loaded
+  pixKey: string | null;
+  status: PayoutStatus;
+  paidBy: string | null;
+  paidAt: number | null;
+}
+
+export interface PayoutLedger {
+  rounds: RoundLedger[];
+  payouts: PrizePayout[];
+}
+
+// Commit-reveal record of a round's draw (see services/fairDraw.ts)
+export interface DrawCommitment {
+  roundId: number;
+  // sha256 of the server seed, published before the round starts
+  seedHash: string;
+  // Fixed from the cards sold when the game starts
+  publicEntropy: string | null;
+  // Revealed once the round is over
+  serverSeed: string | null;
+}
+
+export interface DrawAudit extends DrawCommitment {
+  drawnNumbers: number[];
+  // Balls typed in from a physical globe; the seed doesn't decide them
+  globeNumbers?: number[];
+  // Sets the balls in the globe; missing for rounds drawn before variants, all 75-ball
+  gameVariant?: GameVariant;
+}
+
+// A "BINGO!" call, checked against the prize in play when it was made
+export interface BingoClaim {
+  playerName: string;
+  // The winning card of a valid claim; the card on the player's screen for a false one
+  cardId: string;
+  // Balls drawn when the claim was made
+  ballCount: number;
+  isValid: boolean;
+  timestamp: number;
+  // Set on the false claims that reached the room's strike count
+  penalty?: ClaimPenalty;
+  // Balls drawn when the card became a winner of the prize; set whenever it completes the prize,
+  // so a claim that came after the next ball shows how late it was
+  winningBall?: number;
+}
+
+// What a false claim costs once a player reached the strike count: no more claims in the round,
+// or the claimed card can't win anymore
+export type ClaimPenalty = 'lockRound' | 'forfeitCard';
+
+export interface ClaimRules {
+  // False claims in a round before the penalty applies
+  strikes: number;
+  // null: a false claim only costs a short wait
+  penalty: ClaimPenalty | null;
+  // A card only wins if claimed before the ball after the one that made it a winner
+  beforeNextBall: boolean;
+}
+
+export interface ArchivedDraw {
+  number: number;
+  // null for balls drawn before draw times were kept
+  drawnAt: number | null;
+}
+
+// How the next ball is called: by the game runner on a timer, by a host pressing "Próxima bola",
+// or typed in by the caller from a physical globe (services/gameControls.ts)
+export type DrawMode = 'auto' | 'manual' | 'globe';
+
+// A voided round pays no prize; one ended without a winner keeps the prizes already awarded
+export type RoundOutcome = 'voided' | 'noWinner';
+
+// A round stopped by the staff before its last prize (see services/gameControls.ts)
+export interface RoundEnding {
+  outcome: RoundOutcome;
+  // Required to void a round, optional otherwise
+  reason: string;
+  endedBy: string;
+  endedAt: number;
+}
+
+// A finished round as listed in the history
+export interface RoundSummary {
+  roundId: number;
+  finishedAt: number;
+  cardCount: number;
+  ballCount: number;
+  // Winners of the last prize; empty if the round was restarted or ended before it
+  winners: PrizeWinner[];
+  // Only for rounds the staff stopped before their last prize
+  ending?: RoundEnding;
+}
+
+// Everything needed to replay a finished round ball by ball
+export interface RoundArchive extends RoundSummary {
+  draws: ArchivedDraw[];
+  cards: GeneratedCard[];
+  claims: BingoClaim[];
+  awardedPrizes: AwardedPrize[];
+  drawAudit: DrawAudit | null;
+  // The card series the round's cards were sold from; missing for rounds archived before series existed
+  cardSeries?: string;
+  // Missing for rounds archived before variants, all 75-ball
+  gameVariant?: GameVariant;
+}
+
+// A round booked for a date and time (see services/schedule.ts)
+export interface ScheduledGame {
+  id: string;
+  name: string;
+  // When the game starts, once its countdown is over
+  startsAt: number;
+  // From then on, players can pre-buy cards for it
+  salesOpenAt: number;
+  // Length of the countdown that ends at startsAt
+  countdownSeconds: number;
+}
+
+// A bingo game of its own, with its own players, staff, prizes, prices and rounds
+export interface Room {
+  // Also the join code shared with the players, e.g. "K7QX2M"
+  id: string;
+  name: string;
+  // Who created the room; the room's owner
+  hostName: string;
+  // Private rooms are left out of the lobby and can only be joined by code
+  isPublic: boolean;
+  createdAt: number;
+}
+
+// A room as shown in the lobby
+export interface RoomListing extends Room {
+  onlineCount: number;
+  isGameActive: boolean;
+  roundId: number;
+  scheduledGames: ScheduledGame[];
+}
+
 export interface SharedGameState {
+  roundId: number;
   users: User[];
   onlineUsers: string[];
   generatedCards: GeneratedCard[];
   drawnNumbers: number[];
+  // When each of drawnNumbers came out
+  drawnAt: number[];
   isGameActive: boolean;
-  bingoWinner: { cardId: string; playerName: string } | null;
+  // Winners of the last prize of the ladder; set only once the round is over
+  bingoWinners: PrizeWinner[] | null;
   playerWins: PlayerWin;
+  // Pattern of the prize currently in play
   gameMode: GameMode;
+  // Prize ladder awarded in order during a single round
+  prizes: Prize[];
+  awardedPrizes: AwardedPrize[];
+  tieRule: TieRule;
   preGameCountdown: number | null;
   playerPreferences: PlayerPreferences;
   invalidBingoClaim: { playerName: string; timestamp: number } | null;
+  // Every claim of the current round, valid or not
+  claims: BingoClaim[];
   lastReaction: Reaction | null;
+  priceTable: PriceTable;
+  // Share of each round's card sales set aside for the charity
+  charityPercent: number;
+  // Replaces priceTable for the current round only (promos, special rounds)
+  roundPriceTable: PriceTable | null;
+  // Orders of the current round, plus pending ones carried over from earlier rounds
+  cardOrders: CardOrder[];
+  pixReceiver: PixReceiver | null;
+  drawCommitment: DrawCommitment | null;
+  // The previous round, seed revealed, so it can still be verified after the restart
+  lastDrawAudit: DrawAudit | null;
+  // Upcoming games of the room, soonest first
+  scheduledGames: ScheduledGame[];
+  // Set by the staff: no ball is drawn and the countdown stands still
+  isPaused: boolean;
+  drawMode: DrawMode;
+  // Time between two balls in 'auto' mode; null leaves it to the game runner's default
+  drawIntervalMs: number | null;
+  // Balls of drawnNumbers typed in from a physical globe rather than drawn by the backend
+  globeNumbers: number[];
+  // Set once the staff stopped the round before its last prize; cleared by the next round
+  roundEnding: RoundEnding | null;
+  // Public seed of the room's card series: card #n is always the same card (services/cardSeries.ts)
+  cardSeries: string;
+  // Changed between rounds only, while no card is sold (services/variants.ts)
+  gameVariant: GameVariant;
+  // Penalties for false "BINGO!" calls (services/claims.ts)
+  claimRules: ClaimRules;
 }
\ No newline at end of file
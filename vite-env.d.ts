@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the game state lives: 'supabase' (default), 'memory' (this browser only) or 'local' (npm run server)
+  readonly VITE_GAME_BACKEND?: 'supabase' | 'memory' | 'local';
+  // WebSocket address of the local server, e.g. ws://192.168.0.10:8787
+  readonly VITE_LOCAL_SERVER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}